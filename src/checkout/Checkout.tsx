@@ -12,7 +12,7 @@ import Stepper from "@mui/material/Stepper";
 import Typography from "@mui/material/Typography";
 import ChevronLeftRoundedIcon from "@mui/icons-material/ChevronLeftRounded";
 import ChevronRightRoundedIcon from "@mui/icons-material/ChevronRightRounded";
-import AddressForm from "./components/AddressForm";
+import AddressForm, { AddressFormState, useAddressForm } from "./components/AddressForm";
 import Info from "./components/Info";
 import InfoMobile from "./components/InfoMobile";
 import PaymentForm from "./components/PaymentForm";
@@ -22,10 +22,10 @@ import AppTheme from "../shared-theme/AppTheme";
 import ColorModeIconDropdown from "../shared-theme/ColorModeIconDropdown";
 
 const steps = ["Shipping address", "Payment details", "Review your order"];
-function getStepContent(step: number) {
+function getStepContent(step: number, addressForm: AddressFormState) {
   switch (step) {
     case 0:
-      return <AddressForm />;
+      return <AddressForm form={addressForm} />;
     case 1:
       return <PaymentForm />;
     case 2:
@@ -36,7 +36,13 @@ function getStepContent(step: number) {
 }
 export default function Checkout(props: { disableCustomTheme?: boolean }) {
   const [activeStep, setActiveStep] = React.useState(0);
+  const addressForm = useAddressForm();
   const handleNext = () => {
+    if (activeStep === 0) {
+      // Shows every invalid field and stays on the step until they're fixed.
+      addressForm.handleSubmit(() => setActiveStep(1))();
+      return;
+    }
     setActiveStep(activeStep + 1);
   };
   const handleBack = () => {
@@ -213,7 +219,7 @@ export default function Checkout(props: { disableCustomTheme?: boolean }) {
               </Stack>
             ) : (
               <React.Fragment>
-                {getStepContent(activeStep)}
+                {getStepContent(activeStep, addressForm)}
                 <Box
                   sx={[
                     {
@@ -1,132 +1,231 @@
 import * as React from "react";
 import Checkbox from "@mui/material/Checkbox";
 import FormControlLabel from "@mui/material/FormControlLabel";
+import FormHelperText from "@mui/material/FormHelperText";
 import FormLabel from "@mui/material/FormLabel";
 import Grid from "@mui/material/Grid";
-import OutlinedInput from "@mui/material/OutlinedInput";
+import MenuItem from "@mui/material/MenuItem";
+import OutlinedInput, { OutlinedInputProps } from "@mui/material/OutlinedInput";
+import Select from "@mui/material/Select";
 import { styled } from "@mui/material/styles";
+import {
+  addressFormats,
+  getAddressFormat,
+  validatePostcode,
+  validateRegion,
+} from "../../shared-form/addressFormats";
+import { defineFormSchema } from "../../shared-form/schema";
+import { RegisteredField, UseFormReturn, useForm } from "../../shared-form/useForm";
 
 const FormGrid = styled(Grid)(() => ({
   display: "flex",
   flexDirection: "column",
 }));
 
-export default function AddressForm() {
+export interface AddressValues {
+  firstName: string;
+  lastName: string;
+  address1: string;
+  address2: string;
+  city: string;
+  state: string;
+  zip: string;
+  /** One of `addressFormats`, or any other country typed in by hand. */
+  country: string;
+  saveAddress: boolean;
+}
+
+const initialValues: AddressValues = {
+  firstName: "",
+  lastName: "",
+  address1: "",
+  address2: "",
+  city: "",
+  state: "",
+  zip: "",
+  country: "United States",
+  saveAddress: false,
+};
+
+const schema = defineFormSchema<AddressValues>({
+  firstName: { required: "First name is required" },
+  lastName: { required: "Last name is required" },
+  address1: { required: "Address is required" },
+  city: { required: "City is required" },
+  country: { required: "Country is required" },
+  state: { validate: (state, values) => validateRegion(state, values.country) },
+  zip: {
+    validate: (zip, values) => {
+      const postcode = getAddressFormat(values.country).postcode;
+      return postcode && !zip.trim() ? `${postcode.label} is required` : validatePostcode(zip, values.country);
+    },
+  },
+});
+
+type AddressInputProps = Omit<OutlinedInputProps, keyof RegisteredField<string>> & {
+  id: string;
+  label: string;
+  field: RegisteredField<string>;
+};
+
+function AddressInput({ id, label, field, required, ...inputProps }: AddressInputProps) {
+  const { helperText, ...input } = field;
+  return (
+    <React.Fragment>
+      <FormLabel htmlFor={id} required={required}>
+        {label}
+      </FormLabel>
+      <OutlinedInput id={id} required={required} size="small" {...inputProps} {...input} />
+      {helperText && <FormHelperText error>{helperText}</FormHelperText>}
+    </React.Fragment>
+  );
+}
+
+// Select value for countries we have no address format for.
+const OTHER_COUNTRY = "other";
+
+const isKnownCountry = (country: string) => addressFormats.some((format) => format.name === country);
+
+export type AddressFormState = UseFormReturn<AddressValues>;
+
+/** The address step's form; owned by the checkout so Next can validate it and values survive going back. */
+export function useAddressForm(): AddressFormState {
+  return useForm({ initialValues, schema });
+}
+
+export default function AddressForm({ form }: { form: AddressFormState }) {
+  const format = getAddressFormat(form.values.country);
+  const country = form.register("country");
+  // Stays on "Other" while typing, even if the text happens to match a listed country.
+  const [otherCountry, setOtherCountry] = React.useState(() => !isKnownCountry(form.values.country));
+
   return (
     <Grid container spacing={3}>
       <FormGrid size={{ xs: 12, md: 6 }}>
-        <FormLabel htmlFor="first-name" required>
-          First name
-        </FormLabel>
-        <OutlinedInput
+        <AddressInput
           id="first-name"
-          name="first-name"
+          label="First name"
+          field={form.register("firstName")}
           type="name"
           placeholder="John"
           autoComplete="first name"
           required
-          size="small"
         />
       </FormGrid>
       <FormGrid size={{ xs: 12, md: 6 }}>
-        <FormLabel htmlFor="last-name" required>
-          Last name
-        </FormLabel>
-        <OutlinedInput
+        <AddressInput
           id="last-name"
-          name="last-name"
+          label="Last name"
+          field={form.register("lastName")}
           type="last-name"
           placeholder="Snow"
           autoComplete="last name"
           required
-          size="small"
         />
       </FormGrid>
       <FormGrid size={{ xs: 12 }}>
-        <FormLabel htmlFor="address1" required>
-          Address line 1
+        <FormLabel htmlFor="country" required>
+          Country
         </FormLabel>
-        <OutlinedInput
+        <Select
+          id="country"
+          name={country.name}
+          value={otherCountry ? OTHER_COUNTRY : country.value}
+          onChange={(event) => {
+            const isOther = event.target.value === OTHER_COUNTRY;
+            setOtherCountry(isOther);
+            form.setValue("country", isOther ? "" : event.target.value);
+          }}
+          onBlur={country.onBlur}
+          error={!otherCountry && country.error}
+          input={<OutlinedInput size="small" />}
+          inputProps={{ autoComplete: otherCountry ? "off" : "shipping country" }}
+        >
+          {addressFormats.map((option) => (
+            <MenuItem key={option.code} value={option.name}>
+              {option.name}
+            </MenuItem>
+          ))}
+          <MenuItem value={OTHER_COUNTRY}>Other country</MenuItem>
+        </Select>
+      </FormGrid>
+      {otherCountry && (
+        <FormGrid size={{ xs: 12 }}>
+          <AddressInput
+            id="other-country"
+            label="Country name"
+            field={country}
+            autoComplete="shipping country-name"
+            required
+          />
+        </FormGrid>
+      )}
+      <FormGrid size={{ xs: 12 }}>
+        <AddressInput
           id="address1"
-          name="address1"
+          label="Address line 1"
+          field={form.register("address1")}
           type="address1"
           placeholder="Street name and number"
           autoComplete="shipping address-line1"
           required
-          size="small"
         />
       </FormGrid>
       <FormGrid size={{ xs: 12 }}>
-        <FormLabel htmlFor="address2">Address line 2</FormLabel>
-        <OutlinedInput
+        <AddressInput
           id="address2"
-          name="address2"
+          label="Address line 2"
+          field={form.register("address2")}
           type="address2"
           placeholder="Apartment, suite, unit, etc. (optional)"
           autoComplete="shipping address-line2"
-          required
-          size="small"
         />
       </FormGrid>
-      <FormGrid size={{ xs: 6 }}>
-        <FormLabel htmlFor="city" required>
-          City
-        </FormLabel>
-        <OutlinedInput
+      <FormGrid size={{ xs: format.region && format.postcode ? 12 : 6, sm: format.region && format.postcode ? 4 : 6 }}>
+        <AddressInput
           id="city"
-          name="city"
+          label="City"
+          field={form.register("city")}
           type="city"
           placeholder="New York"
           autoComplete="City"
           required
-          size="small"
-        />
-      </FormGrid>
-      <FormGrid size={{ xs: 6 }}>
-        <FormLabel htmlFor="state" required>
-          State
-        </FormLabel>
-        <OutlinedInput
-          id="state"
-          name="state"
-          type="state"
-          placeholder="NY"
-          autoComplete="State"
-          required
-          size="small"
-        />
-      </FormGrid>
-      <FormGrid size={{ xs: 6 }}>
-        <FormLabel htmlFor="zip" required>
-          Zip / Postal code
-        </FormLabel>
-        <OutlinedInput
-          id="zip"
-          name="zip"
-          type="zip"
-          placeholder="12345"
-          autoComplete="shipping postal-code"
-          required
-          size="small"
-        />
-      </FormGrid>
-      <FormGrid size={{ xs: 6 }}>
-        <FormLabel htmlFor="country" required>
-          Country
-        </FormLabel>
-        <OutlinedInput
-          id="country"
-          name="country"
-          type="country"
-          placeholder="United States"
-          autoComplete="shipping country"
-          required
-          size="small"
         />
       </FormGrid>
+      {format.region && (
+        <FormGrid size={{ xs: 6, sm: format.postcode ? 4 : 6 }}>
+          <AddressInput
+            id="state"
+            label={format.region.label}
+            field={form.register("state")}
+            type="state"
+            autoComplete="shipping address-level1"
+            required={format.region.required}
+          />
+        </FormGrid>
+      )}
+      {format.postcode && (
+        <FormGrid size={{ xs: 6, sm: format.region ? 4 : 6 }}>
+          <AddressInput
+            id="zip"
+            label={format.postcode.label}
+            field={form.register("zip")}
+            type="zip"
+            placeholder={format.postcode.example}
+            autoComplete="shipping postal-code"
+            required
+          />
+        </FormGrid>
+      )}
       <FormGrid size={{ xs: 12 }}>
         <FormControlLabel
-          control={<Checkbox name="saveAddress" value="yes" />}
+          control={
+            <Checkbox
+              name="saveAddress"
+              checked={form.values.saveAddress}
+              onChange={(event) => form.setValue("saveAddress", event.target.checked)}
+            />
+          }
           label="Use this address for payment details"
         />
       </FormGrid>
@@ -12,7 +12,10 @@ import CrmAppNavbar from "./components/CrmAppNavbar";
 import CrmHeader from "./components/CrmHeader";
 import CrmSideMenu from "./components/CrmSideMenu";
 import CrmMainDashboard from "./components/CrmMainDashboard";
+import CrmSnackbarProvider from "./components/CrmSnackbarProvider";
+import CrmBreadcrumbsProvider from "./components/CrmBreadcrumbsProvider";
 import Customers from "./pages/Customers";
+import CustomerDetail from "./pages/CustomerDetail";
 import Deals from "./pages/Deals";
 import Contacts from "./pages/Contacts";
 import Tasks from "./pages/Tasks";
@@ -37,43 +40,48 @@ export default function CrmDashboard() {
   return (
     <AppTheme themeComponents={xThemeComponents}>
       <CssBaseline enableColorScheme />
-      <Box sx={{ display: "flex", height: "100vh" }}>
-        <CrmSideMenu />
-        <CrmAppNavbar />
-        {/* Main content */}
-        <Box
-          component="main"
-          sx={(theme) => ({
-            flexGrow: 1,
-            backgroundColor: theme.vars
-              ? `rgba(${theme.vars.palette.background.defaultChannel} / 1)`
-              : alpha(theme.palette.background.default, 1),
-            overflow: "auto",
-          })}
-        >
-          <Stack
-            spacing={2}
-            sx={{
-              alignItems: "center",
-              mx: 3,
-              pb: 5,
-              mt: { xs: 8, md: 0 },
-            }}
-          >
-            <CrmHeader />
-            <Routes>
-              <Route index element={<CrmMainDashboard />} />
-              <Route path="customers" element={<Customers />} />
-              <Route path="deals" element={<Deals />} />
-              <Route path="contacts" element={<Contacts />} />
-              <Route path="tasks" element={<Tasks />} />
-              <Route path="reports" element={<Reports />} />
-              <Route path="settings" element={<Settings />} />
-            </Routes>
-            <Outlet />
-          </Stack>
-        </Box>
-      </Box>
+      <CrmSnackbarProvider>
+        <CrmBreadcrumbsProvider>
+          <Box sx={{ display: "flex", height: "100vh" }}>
+            <CrmSideMenu />
+            <CrmAppNavbar />
+            {/* Main content */}
+            <Box
+              component="main"
+              sx={(theme) => ({
+                flexGrow: 1,
+                backgroundColor: theme.vars
+                  ? `rgba(${theme.vars.palette.background.defaultChannel} / 1)`
+                  : alpha(theme.palette.background.default, 1),
+                overflow: "auto",
+              })}
+            >
+              <Stack
+                spacing={2}
+                sx={{
+                  alignItems: "center",
+                  mx: 3,
+                  pb: 5,
+                  mt: { xs: 8, md: 0 },
+                }}
+              >
+                <CrmHeader />
+                <Routes>
+                  <Route index element={<CrmMainDashboard />} />
+                  <Route path="customers" element={<Customers />} />
+                  <Route path="customers/:id" element={<CustomerDetail />} />
+                  <Route path="deals" element={<Deals />} />
+                  <Route path="contacts" element={<Contacts />} />
+                  <Route path="tasks" element={<Tasks />} />
+                  <Route path="reports" element={<Reports />} />
+                  <Route path="settings" element={<Settings />} />
+                </Routes>
+                <Outlet />
+              </Stack>
+            </Box>
+          </Box>
+        </CrmBreadcrumbsProvider>
+      </CrmSnackbarProvider>
     </AppTheme>
   );
 }
@@ -0,0 +1,104 @@
+import { useNavigate } from "react-router-dom";
+import Card from "@mui/material/Card";
+import CardContent from "@mui/material/CardContent";
+import Typography from "@mui/material/Typography";
+import List from "@mui/material/List";
+import ListItemButton from "@mui/material/ListItemButton";
+import ListItemText from "@mui/material/ListItemText";
+import LinearProgress from "@mui/material/LinearProgress";
+import Button from "@mui/material/Button";
+import Stack from "@mui/material/Stack";
+import ArrowForwardRoundedIcon from "@mui/icons-material/ArrowForwardRounded";
+import {
+  CustomerSegment,
+  describeSegmentRules,
+} from "../services/customerSegments";
+import {
+  useCustomerSegments,
+  useSegmentCount,
+} from "../hooks/useCustomerSegments";
+
+interface AudienceRowProps {
+  segment: CustomerSegment;
+  total: number | undefined;
+}
+
+function AudienceRow({ segment, total }: AudienceRowProps) {
+  const navigate = useNavigate();
+  const { count } = useSegmentCount(segment);
+  const share = count !== undefined && total ? (count / total) * 100 : 0;
+
+  return (
+    <ListItemButton
+      onClick={() =>
+        navigate(`/customers?segment=${encodeURIComponent(segment.id)}`)
+      }
+      sx={{ display: "block", py: 1 }}
+    >
+      <Stack direction="row" justifyContent="space-between" sx={{ mb: 0.5 }}>
+        <ListItemText
+          primary={segment.name}
+          secondary={describeSegmentRules(segment.rules)}
+          sx={{ my: 0 }}
+        />
+        <Typography variant="body2" fontWeight={600}>
+          {count === undefined ? "–" : count.toLocaleString()}
+        </Typography>
+      </Stack>
+      <LinearProgress
+        variant="determinate"
+        value={share}
+        aria-label={`${segment.name} share of customers`}
+        sx={{ height: 6, borderRadius: 3 }}
+      />
+    </ListItemButton>
+  );
+}
+
+/** Saved customer segments as audiences, sized against the whole customer base. */
+export default function CrmAudiencesCard() {
+  const navigate = useNavigate();
+  const segments = useCustomerSegments();
+  const { count: total } = useSegmentCount(null);
+
+  return (
+    <Card variant="outlined" sx={{ height: "100%" }}>
+      <CardContent sx={{ p: 0, "&:last-child": { pb: 1 } }}>
+        <Stack
+          direction="row"
+          justifyContent="space-between"
+          alignItems="center"
+          spacing={2}
+          sx={{ p: 2, pb: 1 }}
+        >
+          <Typography variant="h6" component="h3">
+            Audiences
+          </Typography>
+          <Button
+            endIcon={<ArrowForwardRoundedIcon />}
+            size="small"
+            onClick={() => navigate("/customers")}
+          >
+            Manage
+          </Button>
+        </Stack>
+
+        {segments.length === 0 ? (
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            sx={{ px: 2, pb: 2 }}
+          >
+            Save a segment on the Customers page to track it here.
+          </Typography>
+        ) : (
+          <List dense disablePadding>
+            {segments.map((segment) => (
+              <AudienceRow key={segment.id} segment={segment} total={total} />
+            ))}
+          </List>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,64 @@
+import * as React from "react";
+
+interface CrmBreadcrumbsContextValue {
+  /** Display labels keyed by path, e.g. `/customers/<uuid>` → "Jane Doe". */
+  labels: Record<string, string>;
+  setLabel: (path: string, label: string | null) => void;
+}
+
+const CrmBreadcrumbsContext =
+  React.createContext<CrmBreadcrumbsContextValue | null>(null);
+
+export function useCrmBreadcrumbLabels() {
+  const context = React.useContext(CrmBreadcrumbsContext);
+  return context?.labels ?? {};
+}
+
+/**
+ * Shows `label` instead of the raw path segment for `path` while the calling
+ * page is mounted. Pass `null` until the label is known.
+ */
+export function useCrmBreadcrumbLabel(path: string, label: string | null) {
+  const context = React.useContext(CrmBreadcrumbsContext);
+  if (!context) {
+    throw new Error(
+      "useCrmBreadcrumbLabel must be used within a CrmBreadcrumbsProvider",
+    );
+  }
+  const { setLabel } = context;
+
+  React.useEffect(() => {
+    setLabel(path, label);
+    return () => setLabel(path, null);
+  }, [path, label, setLabel]);
+}
+
+export default function CrmBreadcrumbsProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [labels, setLabels] = React.useState<Record<string, string>>({});
+
+  const setLabel = React.useCallback((path: string, label: string | null) => {
+    setLabels((prev) => {
+      if (label === null) {
+        if (!(path in prev)) return prev;
+        const { [path]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return prev[path] === label ? prev : { ...prev, [path]: label };
+    });
+  }, []);
+
+  const contextValue = React.useMemo(
+    () => ({ labels, setLabel }),
+    [labels, setLabel],
+  );
+
+  return (
+    <CrmBreadcrumbsContext.Provider value={contextValue}>
+      {children}
+    </CrmBreadcrumbsContext.Provider>
+  );
+}
@@ -6,14 +6,20 @@ import Typography from "@mui/material/Typography";
 import Button from "@mui/material/Button";
 import AddRoundedIcon from "@mui/icons-material/AddRounded";
 import Copyright from "../../dashboard/internals/components/Copyright";
-import CrmStatCard from "./CrmStatCard";
+import CrmStatCard, { CrmStatCardProps } from "./CrmStatCard";
 import CrmRecentDealsTable from "./CrmRecentDealsTable";
 import CrmUpcomingTasks from "./CrmUpcomingTasks";
 import CrmSalesChart from "./CrmSalesChart";
 import CrmLeadsBySourceChart from "./CrmLeadsBySourceChart";
+import CrmAudiencesCard from "./CrmAudiencesCard";
+import DealDialog from "./DealDialog";
+import { wonRevenue } from "../services/dealAnalytics";
+import { dealsListQuery } from "../services/dealQueries";
+import { useCurrency } from "../hooks/useCurrency";
+import { useQuery } from "../hooks/useQuery";
 
-// Sample data for stat cards
-const statCardsData = [
+// Sample data for stat cards; Deals Won is computed from real deals below
+const statCardsData: CrmStatCardProps[] = [
   {
     title: "Total Customers",
     value: "2,543",
@@ -25,17 +31,6 @@ const statCardsData = [
       520, 540, 560, 580, 600, 620, 640, 660, 680, 700, 720, 740, 760, 780, 800,
     ],
   },
-  {
-    title: "Deals Won",
-    value: "$542K",
-    interval: "Last 30 days",
-    trend: "up",
-    trendValue: "+23%",
-    data: [
-      400, 420, 440, 460, 480, 500, 520, 540, 560, 580, 600, 620, 640, 660, 680,
-      700, 720, 740, 760, 780, 800, 820, 840, 860, 880, 900, 920, 940, 960, 980,
-    ],
-  },
   {
     title: "New Leads",
     value: "456",
@@ -60,7 +55,33 @@ const statCardsData = [
   },
 ];
 
+const formatTrend = (current: number, previous: number) => {
+  if (previous === 0) return current > 0 ? "New" : "0%";
+  const change = Math.round(((current - previous) / previous) * 100);
+  return `${change > 0 ? "+" : ""}${change}%`;
+};
+
 export default function CrmMainDashboard() {
+  const [dealDialogOpen, setDealDialogOpen] = React.useState(false);
+  const { data: deals } = useQuery(dealsListQuery());
+  const { convert, format } = useCurrency();
+
+  // Won deals in the last 30 days, in the rep's reporting currency
+  const dealsWonCard = React.useMemo((): CrmStatCardProps => {
+    const won = wonRevenue(deals?.data ?? [], convert);
+    return {
+      title: "Deals Won",
+      value: deals ? format(won.total, { compact: true }) : "–",
+      interval: "Last 30 days",
+      trend: won.total >= won.previousTotal ? "up" : "down",
+      trendValue: formatTrend(won.total, won.previousTotal),
+      data: won.cumulative,
+      valueFormatter: (value) => (value === null ? "" : format(value)),
+    };
+  }, [deals, convert, format]);
+
+  const statCards = [statCardsData[0], dealsWonCard, ...statCardsData.slice(1)];
+
   return (
     <Box sx={{ width: "100%", maxWidth: { sm: "100%", md: "1700px" } }}>
       {/* Header with action buttons */}
@@ -81,7 +102,11 @@ export default function CrmMainDashboard() {
           >
             New Lead
           </Button>
-          <Button variant="outlined" startIcon={<AddRoundedIcon />}>
+          <Button
+            variant="outlined"
+            startIcon={<AddRoundedIcon />}
+            onClick={() => setDealDialogOpen(true)}
+          >
             New Deal
           </Button>
         </Box>
@@ -89,15 +114,16 @@ export default function CrmMainDashboard() {
 
       {/* Stats Cards row */}
       <Grid container spacing={2} sx={{ mb: 3 }}>
-        {statCardsData.map((card, index) => (
+        {statCards.map((card, index) => (
           <Grid key={index} item xs={12} sm={6} lg={3}>
             <CrmStatCard
               title={card.title}
               value={card.value}
               interval={card.interval}
-              trend={card.trend as "up" | "down"}
+              trend={card.trend}
               trendValue={card.trendValue}
               data={card.data}
+              valueFormatter={card.valueFormatter}
             />
           </Grid>
         ))}
@@ -121,11 +147,13 @@ export default function CrmMainDashboard() {
         <Grid item xs={12} lg={4}>
           <Stack spacing={2}>
             <CrmUpcomingTasks />
+            <CrmAudiencesCard />
           </Stack>
         </Grid>
       </Grid>
 
       <Copyright sx={{ mt: 3, mb: 4 }} />
+      <DealDialog open={dealDialogOpen} onClose={() => setDealDialogOpen(false)} />
     </Box>
   );
 }
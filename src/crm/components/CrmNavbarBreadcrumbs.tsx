@@ -5,6 +5,7 @@ import Link from "@mui/material/Link";
 import Typography from "@mui/material/Typography";
 import HomeRoundedIcon from "@mui/icons-material/HomeRounded";
 import NavigateNextRoundedIcon from "@mui/icons-material/NavigateNextRounded";
+import { useCrmBreadcrumbLabels } from "./CrmBreadcrumbsProvider";
 
 function capitalizeFirstLetter(string: string) {
   return string.charAt(0).toUpperCase() + string.slice(1);
@@ -13,6 +14,7 @@ function capitalizeFirstLetter(string: string) {
 export default function CrmNavbarBreadcrumbs() {
   const location = useLocation();
   const pathnames = location.pathname.split("/").filter((x) => x);
+  const labels = useCrmBreadcrumbLabels();
 
   return (
     <Breadcrumbs
@@ -33,10 +35,11 @@ export default function CrmNavbarBreadcrumbs() {
       {pathnames.map((value, index) => {
         const last = index === pathnames.length - 1;
         const to = `/${pathnames.slice(0, index + 1).join("/")}`;
+        const label = labels[to] ?? capitalizeFirstLetter(value);
 
         return last ? (
           <Typography key={to} color="text.primary">
-            {capitalizeFirstLetter(value)}
+            {label}
           </Typography>
         ) : (
           <Link
@@ -46,7 +49,7 @@ export default function CrmNavbarBreadcrumbs() {
             to={to}
             key={to}
           >
-            {capitalizeFirstLetter(value)}
+            {label}
           </Link>
         );
       })}
@@ -0,0 +1,128 @@
+import * as React from "react";
+import { useNavigate } from "react-router-dom";
+import Button from "@mui/material/Button";
+import Divider from "@mui/material/Divider";
+import IconButton from "@mui/material/IconButton";
+import ListItemText from "@mui/material/ListItemText";
+import Menu from "@mui/material/Menu";
+import MenuItem from "@mui/material/MenuItem";
+import Stack from "@mui/material/Stack";
+import Typography from "@mui/material/Typography";
+import CloseRoundedIcon from "@mui/icons-material/CloseRounded";
+import NotificationsRoundedIcon from "@mui/icons-material/NotificationsRounded";
+import MenuButton from "../../dashboard/components/MenuButton";
+import TaskDialog from "./TaskDialog";
+import { Task, formatTaskDue, isTaskOverdue } from "../services/tasks";
+import { useTaskReminders } from "../hooks/useTaskReminders";
+
+/** The header bell: task reminders that have gone off, each opening its task. */
+export default function CrmNotificationsMenu() {
+  const navigate = useNavigate();
+  const { reminders, dismiss } = useTaskReminders();
+  const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
+  // Kept while the dialog closes so its title doesn't flip mid-transition.
+  const [dialog, setDialog] = React.useState<{
+    open: boolean;
+    task: Task | null;
+  }>({ open: false, task: null });
+  const now = new Date();
+
+  const handleClose = () => setAnchorEl(null);
+
+  return (
+    <React.Fragment>
+      <MenuButton
+        showBadge={reminders.length > 0}
+        aria-label={
+          reminders.length > 0
+            ? `Open notifications, ${reminders.length} new`
+            : "Open notifications"
+        }
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+      >
+        <NotificationsRoundedIcon />
+      </MenuButton>
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={handleClose}
+        transformOrigin={{ horizontal: "right", vertical: "top" }}
+        anchorOrigin={{ horizontal: "right", vertical: "bottom" }}
+        slotProps={{ paper: { sx: { width: 360, maxHeight: 440 } } }}
+      >
+        <Stack
+          direction="row"
+          justifyContent="space-between"
+          alignItems="center"
+          sx={{ px: 2, py: 1 }}
+        >
+          <Typography variant="subtitle2">Reminders</Typography>
+          <Button
+            size="small"
+            disabled={reminders.length === 0}
+            onClick={() => dismiss(reminders.map((reminder) => reminder.key))}
+          >
+            Dismiss all
+          </Button>
+        </Stack>
+        <Divider />
+        {reminders.length === 0 && (
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            sx={{ px: 2, py: 3, textAlign: "center" }}
+          >
+            No reminders right now.
+          </Typography>
+        )}
+        {reminders.map(({ key, task }) => (
+          <MenuItem
+            key={key}
+            onClick={() => {
+              handleClose();
+              setDialog({ open: true, task });
+            }}
+            sx={{ gap: 1, alignItems: "flex-start", whiteSpace: "normal" }}
+          >
+            <ListItemText
+              primary={task.title}
+              secondary={`Due ${formatTaskDue(task.dueAt, now)}`}
+              slotProps={{
+                secondary: {
+                  color: isTaskOverdue(task, now) ? "error" : "text.secondary",
+                },
+              }}
+            />
+            <IconButton
+              size="small"
+              aria-label={`Dismiss reminder for ${task.title}`}
+              onClick={(event) => {
+                event.stopPropagation();
+                dismiss([key]);
+              }}
+            >
+              <CloseRoundedIcon fontSize="small" />
+            </IconButton>
+          </MenuItem>
+        ))}
+        <Divider />
+        <MenuItem
+          onClick={() => {
+            handleClose();
+            navigate("/tasks");
+          }}
+        >
+          <Typography variant="body2" color="primary">
+            View all tasks
+          </Typography>
+        </MenuItem>
+      </Menu>
+
+      <TaskDialog
+        open={dialog.open}
+        task={dialog.task}
+        onClose={() => setDialog((current) => ({ ...current, open: false }))}
+      />
+    </React.Fragment>
+  );
+}
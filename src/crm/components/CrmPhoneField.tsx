@@ -0,0 +1,98 @@
+import * as React from "react";
+import InputAdornment from "@mui/material/InputAdornment";
+import MenuItem from "@mui/material/MenuItem";
+import Select from "@mui/material/Select";
+import TextField, { TextFieldProps } from "@mui/material/TextField";
+import {
+  CountryCode,
+  isPhoneCountry,
+  parsePhone,
+  phoneCountries,
+  toE164,
+} from "../../shared-form/phoneNumbers";
+
+type CrmPhoneFieldProps = Omit<TextFieldProps, "value" | "onChange"> & {
+  /** E.164 (`+14155550123`) once the number parses; what was typed otherwise. */
+  value: string;
+  onChange: (event: { target: { value: string } }) => void;
+  /** Country used for numbers typed without a `+` prefix, e.g. the customer's. */
+  defaultCountry?: string;
+};
+
+function readPhone(value: string, fallback: CountryCode) {
+  const phone = value ? parsePhone(value, fallback) : undefined;
+  if (phone?.country && phone.isPossible()) {
+    return { country: phone.country, text: phone.formatNational() };
+  }
+  return { country: fallback, text: value };
+}
+
+/**
+ * Phone input with a country selector. Reps type the number the way it's
+ * written locally; the form receives it normalized to E.164.
+ */
+export default function CrmPhoneField({
+  value,
+  onChange,
+  defaultCountry,
+  ...textFieldProps
+}: CrmPhoneFieldProps) {
+  const fallback: CountryCode = isPhoneCountry(defaultCountry) ? defaultCountry : "US";
+  const [{ country, text }, setState] = React.useState(() => readPhone(value, fallback));
+  // What this field last reported, to tell our own updates from a form reset.
+  const emitted = React.useRef(value);
+
+  if (value !== emitted.current) {
+    emitted.current = value;
+    setState(readPhone(value, fallback));
+  }
+
+  // Follow the customer's country until a number is entered.
+  React.useEffect(() => {
+    if (!text) {
+      setState((prev) => (prev.text ? prev : { ...prev, country: fallback }));
+    }
+  }, [fallback, text]);
+
+  const emit = (nextText: string, nextCountry: CountryCode) => {
+    const next = toE164(nextText, nextCountry) ?? nextText;
+    emitted.current = next;
+    setState({ country: nextCountry, text: nextText });
+    onChange({ target: { value: next } });
+  };
+
+  const selected = phoneCountries.find((candidate) => candidate.code === country);
+
+  return (
+    <TextField
+      {...textFieldProps}
+      type="tel"
+      value={text}
+      onChange={(event) => emit(event.target.value, country)}
+      slotProps={{
+        input: {
+          startAdornment: (
+            <InputAdornment position="start">
+              <Select
+                variant="standard"
+                disableUnderline
+                value={country}
+                onChange={(event) => emit(text, event.target.value as CountryCode)}
+                renderValue={() => (selected ? `${selected.flag} +${selected.callingCode}` : country)}
+                inputProps={{ "aria-label": "Phone country" }}
+                MenuProps={{ slotProps: { paper: { sx: { maxHeight: 320 } } } }}
+                sx={{ fontSize: "inherit", "& .MuiSelect-select": { py: 0 } }}
+              >
+                {phoneCountries.map((option) => (
+                  <MenuItem key={option.code} value={option.code}>
+                    {option.flag} {option.name} (+{option.callingCode})
+                  </MenuItem>
+                ))}
+              </Select>
+            </InputAdornment>
+          ),
+        },
+      }}
+    />
+  );
+}
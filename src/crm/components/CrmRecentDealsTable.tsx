@@ -13,85 +13,18 @@ import Chip from "@mui/material/Chip";
 import Stack from "@mui/material/Stack";
 import Avatar from "@mui/material/Avatar";
 import IconButton from "@mui/material/IconButton";
-import MoreVertRoundedIcon from "@mui/icons-material/MoreVertRounded";
+import EditRoundedIcon from "@mui/icons-material/EditRounded";
 import ArrowForwardRoundedIcon from "@mui/icons-material/ArrowForwardRounded";
 import Button from "@mui/material/Button";
+import CircularProgress from "@mui/material/CircularProgress";
+import { useNavigate } from "react-router-dom";
+import DealDialog from "./DealDialog";
+import MoneyAmount from "./MoneyAmount";
+import { Deal, dealStageColors } from "../services/deals";
+import { dealsListQuery } from "../services/dealQueries";
+import { useQuery } from "../hooks/useQuery";
 
-// Sample data for recent deals
-const recentDeals = [
-  {
-    id: 1,
-    name: "Enterprise Software Package",
-    customer: { name: "Acme Corp", avatar: "A" },
-    value: 125000,
-    stage: "Proposal",
-    probability: 75,
-    closingDate: "2023-09-30",
-  },
-  {
-    id: 2,
-    name: "Cloud Migration Service",
-    customer: { name: "TechSolutions Inc", avatar: "T" },
-    value: 87500,
-    stage: "Negotiation",
-    probability: 90,
-    closingDate: "2023-10-15",
-  },
-  {
-    id: 3,
-    name: "Website Redesign Project",
-    customer: { name: "Global Media", avatar: "G" },
-    value: 45000,
-    stage: "Discovery",
-    probability: 60,
-    closingDate: "2023-11-05",
-  },
-  {
-    id: 4,
-    name: "CRM Implementation",
-    customer: { name: "RetailGiant", avatar: "R" },
-    value: 95000,
-    stage: "Closed Won",
-    probability: 100,
-    closingDate: "2023-09-15",
-  },
-  {
-    id: 5,
-    name: "IT Infrastructure Upgrade",
-    customer: { name: "HealthCare Pro", avatar: "H" },
-    value: 135000,
-    stage: "Negotiation",
-    probability: 85,
-    closingDate: "2023-10-22",
-  },
-];
-
-// Function to get color based on deal stage
-const getStageColor = (
-  stage: string,
-): "default" | "primary" | "success" | "warning" | "info" => {
-  switch (stage) {
-    case "Discovery":
-      return "info";
-    case "Proposal":
-      return "primary";
-    case "Negotiation":
-      return "warning";
-    case "Closed Won":
-      return "success";
-    default:
-      return "default";
-  }
-};
-
-// Format currency
-const formatCurrency = (value: number) => {
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: "USD",
-    maximumFractionDigits: 0,
-  }).format(value);
-};
+const RECENT_DEALS_COUNT = 5;
 
 // Format date
 const formatDate = (dateString: string) => {
@@ -100,10 +33,24 @@ const formatDate = (dateString: string) => {
     month: "short",
     day: "numeric",
   };
-  return new Date(dateString).toLocaleDateString("en-US", options);
+  return new Date(`${dateString}T00:00:00`).toLocaleDateString("en-US", options);
 };
 
 export default function CrmRecentDealsTable() {
+  const navigate = useNavigate();
+  const { data, isLoading } = useQuery(
+    dealsListQuery({
+      sortBy: "updatedAt",
+      sortOrder: "desc",
+      perPage: RECENT_DEALS_COUNT,
+    }),
+  );
+  const recentDeals = data?.data ?? [];
+  const [editing, setEditing] = React.useState<{
+    open: boolean;
+    deal: Deal | null;
+  }>({ open: false, deal: null });
+
   return (
     <Card
       variant="outlined"
@@ -124,7 +71,11 @@ export default function CrmRecentDealsTable() {
           <Typography variant="h6" component="h3">
             Recent Deals
           </Typography>
-          <Button endIcon={<ArrowForwardRoundedIcon />} size="small">
+          <Button
+            endIcon={<ArrowForwardRoundedIcon />}
+            size="small"
+            onClick={() => navigate("/deals")}
+          >
             View All
           </Button>
         </Stack>
@@ -151,36 +102,59 @@ export default function CrmRecentDealsTable() {
                     <Avatar
                       sx={{ width: 28, height: 28, fontSize: "0.875rem" }}
                     >
-                      {deal.customer.avatar}
+                      {deal.customerName.charAt(0)}
                     </Avatar>
-                    <Typography variant="body2">
-                      {deal.customer.name}
-                    </Typography>
+                    <Typography variant="body2">{deal.customerName}</Typography>
                   </Box>
                 </TableCell>
                 <TableCell align="right">
-                  {formatCurrency(deal.value)}
+                  <MoneyAmount amount={deal.value} currency={deal.currency} />
                 </TableCell>
                 <TableCell>
                   <Chip
                     label={deal.stage}
                     size="small"
-                    color={getStageColor(deal.stage)}
+                    color={dealStageColors[deal.stage]}
                     variant="outlined"
                   />
                 </TableCell>
                 <TableCell align="right">{deal.probability}%</TableCell>
                 <TableCell>{formatDate(deal.closingDate)}</TableCell>
                 <TableCell align="right">
-                  <IconButton size="small" aria-label="more options">
-                    <MoreVertRoundedIcon fontSize="small" />
+                  <IconButton
+                    size="small"
+                    aria-label={`Edit ${deal.name}`}
+                    onClick={() => setEditing({ open: true, deal })}
+                  >
+                    <EditRoundedIcon fontSize="small" />
                   </IconButton>
                 </TableCell>
               </TableRow>
             ))}
+            {isLoading && (
+              <TableRow>
+                <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
+                  <CircularProgress size={24} />
+                </TableCell>
+              </TableRow>
+            )}
+            {!isLoading && recentDeals.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={7} align="center" sx={{ py: 4 }}>
+                  <Typography variant="body2" color="text.secondary">
+                    No deals yet
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            )}
           </TableBody>
         </Table>
       </TableContainer>
+      <DealDialog
+        open={editing.open}
+        deal={editing.deal}
+        onClose={() => setEditing((current) => ({ ...current, open: false }))}
+      />
     </Card>
   );
 }
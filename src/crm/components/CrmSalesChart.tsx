@@ -7,83 +7,56 @@ import Typography from "@mui/material/Typography";
 import Stack from "@mui/material/Stack";
 import ToggleButtonGroup from "@mui/material/ToggleButtonGroup";
 import ToggleButton from "@mui/material/ToggleButton";
+import CircularProgress from "@mui/material/CircularProgress";
 import { BarChart } from "@mui/x-charts/BarChart";
+import ForecastDrilldownDialog from "./ForecastDrilldownDialog";
+import { dealsListQuery } from "../services/dealQueries";
+import { ForecastRange, buildSalesForecast } from "../services/salesForecast";
+import { useCurrency } from "../hooks/useCurrency";
+import { useQuery } from "../hooks/useQuery";
+import { useSalesTargets } from "../hooks/useSalesTargets";
 
 export default function CrmSalesChart() {
   const theme = useTheme();
-  const [timeRange, setTimeRange] = React.useState("year");
+  const [timeRange, setTimeRange] = React.useState<ForecastRange>("month");
+  const [selectedKey, setSelectedKey] = React.useState<string | null>(null);
+  const targets = useSalesTargets();
+  const { convert, format } = useCurrency();
+  const { data, isLoading } = useQuery(dealsListQuery());
+
+  // Axis labels like "$542K", in the rep's reporting currency
+  const formatYAxis = (value: number) => format(value, { compact: true });
+  const formatValue = (value: number | null) => (value ? format(value) : "");
 
   const handleTimeRangeChange = (
     event: React.MouseEvent<HTMLElement>,
-    newTimeRange: string | null,
+    newTimeRange: ForecastRange | null,
   ) => {
     if (newTimeRange !== null) {
       setTimeRange(newTimeRange);
+      setSelectedKey(null);
     }
   };
 
-  // Generate monthly data
-  const currentYear = new Date().getFullYear();
-  const monthNames = [
-    "Jan",
-    "Feb",
-    "Mar",
-    "Apr",
-    "May",
-    "Jun",
-    "Jul",
-    "Aug",
-    "Sep",
-    "Oct",
-    "Nov",
-    "Dec",
-  ];
-
-  // Sample data (in a real app this would come from an API)
-  const salesData = [
-    180000, 210000, 250000, 220000, 270000, 310000, 330000, 350000, 390000,
-    410000, 430000, 470000,
-  ];
-  const targetsData = [
-    200000, 220000, 240000, 260000, 280000, 300000, 320000, 340000, 360000,
-    380000, 400000, 450000,
-  ];
-  const projectedData = [
-    null,
-    null,
-    null,
-    null,
-    null,
-    null,
-    null,
-    null,
-    null,
-    null,
-    450000,
-    500000,
-  ];
+  // Actuals and the weighted forecast from real deals, against the targets
+  // set in Settings. Overdue open deals count toward the current period.
+  const periods = React.useMemo(
+    () => buildSalesForecast(data?.data ?? [], targets, timeRange, convert),
+    [data, targets, timeRange, convert],
+  );
+  const selectedPeriod =
+    periods.find((period) => period.key === selectedKey) ?? null;
 
   const xAxisData = {
     scaleType: "band" as const,
-    data: monthNames,
+    data: periods.map((period) => period.label),
     tickLabelStyle: {
       angle: 0,
-      textAnchor: "middle",
+      textAnchor: "middle" as const,
       fontSize: 12,
     },
   };
 
-  // Format y-axis labels to show $ and K for thousands
-  const formatYAxis = (value: number) => {
-    if (value >= 1000000) {
-      return `$${(value / 1000000).toFixed(1)}M`;
-    }
-    if (value >= 1000) {
-      return `$${(value / 1000).toFixed(0)}K`;
-    }
-    return `$${value}`;
-  };
-
   return (
     <Card
       variant="outlined"
@@ -103,9 +76,14 @@ export default function CrmSalesChart() {
           spacing={2}
           sx={{ mb: 2 }}
         >
-          <Typography variant="h6" component="h3">
-            Sales Performance
-          </Typography>
+          <div>
+            <Typography variant="h6" component="h3">
+              Sales Performance
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              Click a bar to see its deals
+            </Typography>
+          </div>
           <ToggleButtonGroup
             size="small"
             value={timeRange}
@@ -124,50 +102,72 @@ export default function CrmSalesChart() {
             </ToggleButton>
           </ToggleButtonGroup>
         </Stack>
-
         <Box sx={{ flexGrow: 1, width: "100%", height: "300px" }}>
-          <BarChart
-            series={[
-              {
-                data: salesData,
-                label: "Actual Sales",
-                color: theme.palette.primary.main,
-                valueFormatter: (value) => (value ? formatYAxis(value) : ""),
-              },
-              {
-                data: targetsData,
-                label: "Targets",
-                color: theme.palette.grey[400],
-                valueFormatter: (value) => (value ? formatYAxis(value) : ""),
-              },
-              {
-                data: projectedData,
-                label: "Projected",
-                color: theme.palette.secondary.main,
-                valueFormatter: (value) => (value ? formatYAxis(value) : ""),
-              },
-            ]}
-            xAxis={[xAxisData]}
-            yAxis={[
-              {
-                label: "Revenue",
-                valueFormatter: formatYAxis,
-              },
-            ]}
-            height={300}
-            margin={{ top: 10, bottom: 30, left: 60, right: 10 }}
-            slotProps={{
-              legend: {
-                position: { vertical: "top", horizontal: "middle" },
-                itemMarkWidth: 10,
-                itemMarkHeight: 10,
-                markGap: 5,
-                itemGap: 10,
-              },
-            }}
-          />
+          {isLoading ? (
+            <Box
+              sx={{
+                height: "100%",
+                display: "flex",
+                alignItems: "center",
+                justifyContent: "center",
+              }}
+            >
+              <CircularProgress />
+            </Box>
+          ) : (
+            <BarChart
+              series={[
+                {
+                  data: periods.map((period) => period.actual),
+                  label: "Actual Sales",
+                  stack: "revenue",
+                  color: theme.palette.primary.main,
+                  valueFormatter: formatValue,
+                },
+                {
+                  data: periods.map((period) => period.forecast),
+                  label: "Forecast",
+                  stack: "revenue",
+                  color: theme.palette.secondary.main,
+                  valueFormatter: formatValue,
+                },
+                {
+                  data: periods.map((period) => period.target),
+                  label: "Targets",
+                  color: theme.palette.grey[400],
+                  valueFormatter: formatValue,
+                },
+              ]}
+              xAxis={[xAxisData]}
+              yAxis={[
+                {
+                  label: "Revenue",
+                  valueFormatter: formatYAxis,
+                },
+              ]}
+              height={300}
+              margin={{ top: 10, bottom: 30, left: 60, right: 10 }}
+              onAxisClick={(_event, axisData) => {
+                const period = axisData && periods[axisData.dataIndex];
+                if (period) setSelectedKey(period.key);
+              }}
+              slotProps={{
+                legend: {
+                  position: { vertical: "top", horizontal: "middle" },
+                  itemMarkWidth: 10,
+                  itemMarkHeight: 10,
+                  markGap: 5,
+                  itemGap: 10,
+                },
+              }}
+            />
+          )}
         </Box>
       </CardContent>
+      <ForecastDrilldownDialog
+        period={selectedPeriod}
+        onClose={() => setSelectedKey(null)}
+      />
     </Card>
   );
 }
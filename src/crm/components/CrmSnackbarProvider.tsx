@@ -0,0 +1,92 @@
+import * as React from "react";
+import Snackbar from "@mui/material/Snackbar";
+import Alert, { AlertColor } from "@mui/material/Alert";
+import Button from "@mui/material/Button";
+
+export interface CrmSnackbarOptions {
+  message: string;
+  severity?: AlertColor;
+  action?: {
+    label: string;
+    onClick: () => void;
+  };
+  autoHideDuration?: number;
+}
+
+interface CrmSnackbarContextValue {
+  showSnackbar: (options: CrmSnackbarOptions) => void;
+}
+
+const CrmSnackbarContext = React.createContext<CrmSnackbarContextValue | null>(
+  null,
+);
+
+const DEFAULT_AUTO_HIDE_MS = 5000;
+
+export function useCrmSnackbar() {
+  const context = React.useContext(CrmSnackbarContext);
+  if (!context) {
+    throw new Error("useCrmSnackbar must be used within a CrmSnackbarProvider");
+  }
+  return context;
+}
+
+export default function CrmSnackbarProvider({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  const [current, setCurrent] = React.useState<
+    (CrmSnackbarOptions & { key: number }) | null
+  >(null);
+  const [open, setOpen] = React.useState(false);
+
+  const showSnackbar = React.useCallback((options: CrmSnackbarOptions) => {
+    // A newer message replaces the visible one rather than queueing behind it.
+    setCurrent({ ...options, key: Date.now() });
+    setOpen(true);
+  }, []);
+
+  const handleClose = (_event?: unknown, reason?: string) => {
+    if (reason === "clickaway") {
+      return;
+    }
+    setOpen(false);
+  };
+
+  const handleAction = () => {
+    current?.action?.onClick();
+    setOpen(false);
+  };
+
+  const contextValue = React.useMemo(() => ({ showSnackbar }), [showSnackbar]);
+
+  return (
+    <CrmSnackbarContext.Provider value={contextValue}>
+      {children}
+      <Snackbar
+        key={current?.key}
+        open={open}
+        autoHideDuration={current?.autoHideDuration ?? DEFAULT_AUTO_HIDE_MS}
+        onClose={handleClose}
+        anchorOrigin={{ vertical: "bottom", horizontal: "center" }}
+      >
+        <Alert
+          onClose={handleClose}
+          severity={current?.severity ?? "success"}
+          variant="filled"
+          sx={{ width: "100%", alignItems: "center" }}
+          action={
+            current?.action ? (
+              <Button color="inherit" size="small" onClick={handleAction}>
+                {current.action.label}
+              </Button>
+            ) : undefined
+          }
+        >
+          {current?.message}
+        </Alert>
+      </Snackbar>
+    </CrmSnackbarContext.Provider>
+  );
+}
@@ -18,6 +18,8 @@ export type CrmStatCardProps = {
   trend: "up" | "down";
   trendValue: string;
   data: number[];
+  /** Formats the sparkline's tooltip values, e.g. as money. */
+  valueFormatter?: (value: number | null) => string;
 };
 
 function AreaGradient({ color, id }: { color: string; id: string }) {
@@ -38,6 +40,7 @@ export default function CrmStatCard({
   trend,
   trendValue,
   data,
+  valueFormatter,
 }: CrmStatCardProps) {
   const theme = useTheme();
 
@@ -113,6 +116,7 @@ export default function CrmStatCard({
               area
               showHighlight
               showTooltip
+              valueFormatter={valueFormatter}
               xAxis={{
                 scaleType: "band",
                 data: Array.from(
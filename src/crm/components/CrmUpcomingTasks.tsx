@@ -1,4 +1,5 @@
 import * as React from "react";
+import { useNavigate } from "react-router-dom";
 import Box from "@mui/material/Box";
 import Card from "@mui/material/Card";
 import CardContent from "@mui/material/CardContent";
@@ -9,75 +10,41 @@ import ListItemButton from "@mui/material/ListItemButton";
 import ListItemText from "@mui/material/ListItemText";
 import ListItemIcon from "@mui/material/ListItemIcon";
 import Checkbox from "@mui/material/Checkbox";
+import CircularProgress from "@mui/material/CircularProgress";
 import IconButton from "@mui/material/IconButton";
 import ArrowForwardRoundedIcon from "@mui/icons-material/ArrowForwardRounded";
 import Button from "@mui/material/Button";
 import Stack from "@mui/material/Stack";
 import Chip from "@mui/material/Chip";
-
-// Sample data for upcoming tasks
-const upcomingTasks = [
-  {
-    id: 1,
-    task: "Follow up with TechSolutions Inc on cloud proposal",
-    completed: false,
-    priority: "high",
-    dueDate: "Today, 2:00 PM",
-  },
-  {
-    id: 2,
-    task: "Prepare presentation for Global Media website project",
-    completed: false,
-    priority: "medium",
-    dueDate: "Tomorrow, 10:00 AM",
-  },
-  {
-    id: 3,
-    task: "Call HealthCare Pro about contract details",
-    completed: false,
-    priority: "high",
-    dueDate: "Today, 4:30 PM",
-  },
-  {
-    id: 4,
-    task: "Update CRM implementation timeline for RetailGiant",
-    completed: true,
-    priority: "medium",
-    dueDate: "Yesterday",
-  },
-  {
-    id: 5,
-    task: "Send proposal documents to Acme Corp",
-    completed: false,
-    priority: "low",
-    dueDate: "Sep 28, 2023",
-  },
-];
-
-// Function to get priority color
-const getPriorityColor = (
-  priority: string,
-): "error" | "warning" | "default" => {
-  switch (priority) {
-    case "high":
-      return "error";
-    case "medium":
-      return "warning";
-    default:
-      return "default";
-  }
-};
+import TaskDialog from "./TaskDialog";
+import {
+  Task,
+  formatTaskDue,
+  isTaskDone,
+  isTaskOverdue,
+  taskPriorityColors,
+} from "../services/tasks";
+import { tasksListQuery } from "../services/taskQueries";
+import { useQuery } from "../hooks/useQuery";
+import { useTaskMutations } from "../hooks/useTaskMutations";
 
 export default function CrmUpcomingTasks() {
-  const [tasks, setTasks] = React.useState(upcomingTasks);
-
-  const handleToggle = (id: number) => () => {
-    setTasks(
-      tasks.map((task) =>
-        task.id === id ? { ...task, completed: !task.completed } : task,
-      ),
-    );
-  };
+  const navigate = useNavigate();
+  const { data, isLoading } = useQuery(
+    tasksListQuery({
+      statuses: ["To Do", "In Progress"],
+      sortBy: "dueAt",
+      perPage: 5,
+    }),
+  );
+  const tasks = data?.data;
+  const { toggleTaskDone } = useTaskMutations();
+  // Kept while the dialog closes so its title doesn't flip mid-transition.
+  const [dialog, setDialog] = React.useState<{
+    open: boolean;
+    task: Task | null;
+  }>({ open: false, task: null });
+  const now = new Date();
 
   return (
     <Card
@@ -99,20 +66,44 @@ export default function CrmUpcomingTasks() {
           <Typography variant="h6" component="h3">
             Upcoming Tasks
           </Typography>
-          <Button endIcon={<ArrowForwardRoundedIcon />} size="small">
+          <Button
+            endIcon={<ArrowForwardRoundedIcon />}
+            size="small"
+            onClick={() => navigate("/tasks")}
+          >
             View All
           </Button>
         </Stack>
 
+        {isLoading && !tasks && (
+          <Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+        {tasks && tasks.length === 0 && (
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            sx={{ px: 2, py: 4, textAlign: "center" }}
+          >
+            You&apos;re all caught up.
+          </Typography>
+        )}
+
         <List sx={{ width: "100%", bgcolor: "background.paper" }}>
-          {tasks.map((task) => {
+          {tasks?.map((task) => {
             const labelId = `checkbox-list-label-${task.id}`;
+            const completed = isTaskDone(task);
 
             return (
               <ListItem
                 key={task.id}
                 secondaryAction={
-                  <IconButton edge="end" aria-label="more details">
+                  <IconButton
+                    edge="end"
+                    aria-label={`Open ${task.title}`}
+                    onClick={() => setDialog({ open: true, task })}
+                  >
                     <ArrowForwardRoundedIcon />
                   </IconButton>
                 }
@@ -120,13 +111,13 @@ export default function CrmUpcomingTasks() {
               >
                 <ListItemButton
                   role={undefined}
-                  onClick={handleToggle(task.id)}
+                  onClick={() => toggleTaskDone(task)}
                   dense
                 >
                   <ListItemIcon>
                     <Checkbox
                       edge="start"
-                      checked={task.completed}
+                      checked={completed}
                       tabIndex={-1}
                       disableRipple
                       inputProps={{ "aria-labelledby": labelId }}
@@ -137,19 +128,16 @@ export default function CrmUpcomingTasks() {
                     primary={
                       <Typography
                         sx={{
-                          textDecoration: task.completed
-                            ? "line-through"
-                            : "none",
-                          color: task.completed
-                            ? "text.secondary"
-                            : "text.primary",
+                          textDecoration: completed ? "line-through" : "none",
+                          color: completed ? "text.secondary" : "text.primary",
                         }}
                       >
-                        {task.task}
+                        {task.title}
                       </Typography>
                     }
                     secondary={
                       <Box
+                        component="span"
                         sx={{
                           display: "flex",
                           alignItems: "center",
@@ -158,17 +146,23 @@ export default function CrmUpcomingTasks() {
                         }}
                       >
                         <Chip
+                          component="span"
                           label={task.priority}
                           size="small"
-                          color={getPriorityColor(task.priority)}
+                          color={taskPriorityColors[task.priority]}
                           variant="outlined"
                           sx={{
                             height: 20,
                             "& .MuiChip-label": { px: 1, py: 0 },
                           }}
                         />
-                        <Typography variant="caption" color="text.secondary">
-                          {task.dueDate}
+                        <Typography
+                          variant="caption"
+                          color={
+                            isTaskOverdue(task, now) ? "error" : "text.secondary"
+                          }
+                        >
+                          {formatTaskDue(task.dueAt, now)}
                         </Typography>
                       </Box>
                     }
@@ -179,6 +173,12 @@ export default function CrmUpcomingTasks() {
           })}
         </List>
       </CardContent>
+
+      <TaskDialog
+        open={dialog.open}
+        task={dialog.task}
+        onClose={() => setDialog((current) => ({ ...current, open: false }))}
+      />
     </Card>
   );
 }
@@ -0,0 +1,271 @@
+import * as React from 'react';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import Card from '@mui/material/Card';
+import CardContent from '@mui/material/CardContent';
+import IconButton from '@mui/material/IconButton';
+import MenuItem from '@mui/material/MenuItem';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import TextField from '@mui/material/TextField';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import DeleteIcon from '@mui/icons-material/Delete';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import {
+  BASE_CURRENCY,
+  ExchangeRates,
+  isCurrencyCode,
+  parseExchangeRatesCsv,
+  saveExchangeRates,
+  saveReportingCurrency,
+} from '../services/currency';
+import { dealsListQuery } from '../services/dealQueries';
+import { getErrorMessage } from '../services/apiErrors';
+import { useCurrency } from '../hooks/useCurrency';
+import { useQuery } from '../hooks/useQuery';
+import { useCrmSnackbar } from './CrmSnackbarProvider';
+
+// Rates as typed, so a half-entered number isn't rewritten under the cursor.
+type DraftRates = Record<string, string>;
+
+const draftFromRates = ({ rates }: ExchangeRates): DraftRates =>
+  Object.fromEntries(Object.entries(rates).map(([code, rate]) => [code, String(rate)]));
+
+const isValidRate = (text: string) => Number(text) > 0;
+
+// Shown in full only for the first few bad rows of an import.
+const MAX_IMPORT_ERRORS = 5;
+
+/**
+ * The Settings card for the signed-in rep's reporting currency and the
+ * exchange rate table every total is converted with.
+ */
+export default function CurrencySettings() {
+  const { reportingCurrency, rates } = useCurrency();
+  const { showSnackbar } = useCrmSnackbar();
+  const { data } = useQuery(dealsListQuery());
+  const [draft, setDraft] = React.useState(() => draftFromRates(rates));
+  const [newCode, setNewCode] = React.useState('');
+  const [newRate, setNewRate] = React.useState('');
+  const [importErrors, setImportErrors] = React.useState<string[]>([]);
+
+  const dealsByCurrency = React.useMemo(() => {
+    const counts = new Map<string, number>();
+    data?.data.forEach((deal) => counts.set(deal.currency, (counts.get(deal.currency) ?? 0) + 1));
+    return counts;
+  }, [data]);
+
+  const codes = Object.keys(draft).sort((a, b) =>
+    a === BASE_CURRENCY ? -1 : b === BASE_CURRENCY ? 1 : a.localeCompare(b),
+  );
+  const draftValid = codes.every((code) => isValidRate(draft[code]));
+  const newCodeError = newCode !== '' && (!isCurrencyCode(newCode) || newCode in draft);
+
+  const handleAdd = () => {
+    setDraft((current) => ({ ...current, [newCode]: newRate }));
+    setNewCode('');
+    setNewRate('');
+  };
+
+  const handleRemove = (code: string) => {
+    setDraft((current) => {
+      const next = { ...current };
+      delete next[code];
+      return next;
+    });
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseExchangeRatesCsv(await file.text());
+      const count = Object.keys(imported.rates).length;
+      setImportErrors(imported.errors);
+      setDraft((current) => ({ ...current, ...draftFromRates({ rates: imported.rates, updatedAt: null }) }));
+      showSnackbar({
+        message: `Read ${count} ${count === 1 ? 'rate' : 'rates'} from ${file.name}. Review them, then save.`,
+        severity: count > 0 ? 'info' : 'warning',
+      });
+    } catch (err) {
+      showSnackbar({ message: getErrorMessage(err, 'Could not read this file'), severity: 'error' });
+    }
+  };
+
+  const handleSave = () => {
+    saveExchangeRates({
+      rates: Object.fromEntries(codes.map((code) => [code, Number(draft[code])])),
+      updatedAt: new Date().toISOString(),
+    });
+    // A removed currency can't stay the reporting one.
+    if (!(reportingCurrency in draft)) saveReportingCurrency(BASE_CURRENCY);
+    setImportErrors([]);
+    showSnackbar({ message: 'Exchange rates saved', severity: 'success' });
+  };
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+          <div>
+            <Typography variant="h6" component="h2">
+              Currencies
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Deals keep the currency they were priced in. Totals, charts and stat cards are converted to your
+              reporting currency with these rates.
+            </Typography>
+          </div>
+          <Stack direction="row" spacing={1}>
+            <Button size="small" component="label" startIcon={<UploadFileIcon />}>
+              Import CSV
+              <input
+                hidden
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(event) => {
+                  handleImport(event.target.files?.[0]);
+                  event.target.value = '';
+                }}
+              />
+            </Button>
+            <Button
+              size="small"
+              onClick={() => {
+                setDraft(draftFromRates(rates));
+                setImportErrors([]);
+              }}
+            >
+              Discard
+            </Button>
+            <Button variant="contained" size="small" disabled={!draftValid} onClick={handleSave}>
+              Save Rates
+            </Button>
+          </Stack>
+        </Stack>
+
+        <TextField
+          select
+          size="small"
+          label="Your reporting currency"
+          value={reportingCurrency}
+          onChange={(event) => saveReportingCurrency(event.target.value)}
+          helperText="Only changes what you see; other reps keep their own."
+          sx={{ mb: 3, width: 260 }}
+        >
+          {Object.keys(rates.rates).map((code) => (
+            <MenuItem key={code} value={code}>
+              {code}
+            </MenuItem>
+          ))}
+        </TextField>
+
+        {importErrors.length > 0 && (
+          <Alert severity="warning" onClose={() => setImportErrors([])} sx={{ mb: 2 }}>
+            {importErrors.length} {importErrors.length === 1 ? 'row was' : 'rows were'} skipped:
+            {importErrors.slice(0, MAX_IMPORT_ERRORS).map((message) => (
+              <div key={message}>{message}</div>
+            ))}
+            {importErrors.length > MAX_IMPORT_ERRORS && (
+              <div>…and {importErrors.length - MAX_IMPORT_ERRORS} more</div>
+            )}
+          </Alert>
+        )}
+
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Currency</TableCell>
+              <TableCell>Units per 1 {BASE_CURRENCY}</TableCell>
+              <TableCell>Deals</TableCell>
+              <TableCell align="right">Actions</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {codes.map((code) => {
+              const dealCount = dealsByCurrency.get(code) ?? 0;
+              return (
+                <TableRow key={code}>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>{code}</TableCell>
+                  <TableCell>
+                    <TextField
+                      size="small"
+                      type="number"
+                      value={draft[code]}
+                      disabled={code === BASE_CURRENCY}
+                      error={!isValidRate(draft[code])}
+                      onChange={(event) => setDraft((current) => ({ ...current, [code]: event.target.value }))}
+                      slotProps={{ htmlInput: { min: 0, step: 'any', 'aria-label': `${code} rate` } }}
+                      sx={{ width: 160 }}
+                    />
+                  </TableCell>
+                  <TableCell>{dealCount}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip
+                      title={
+                        code === BASE_CURRENCY
+                          ? 'The base currency can’t be removed'
+                          : dealCount > 0
+                            ? `Used by ${dealCount} ${dealCount === 1 ? 'deal' : 'deals'}`
+                            : 'Remove'
+                      }
+                    >
+                      <span>
+                        <IconButton
+                          size="small"
+                          color="error"
+                          disabled={code === BASE_CURRENCY || dealCount > 0}
+                          onClick={() => handleRemove(code)}
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            <TableRow>
+              <TableCell>
+                <TextField
+                  size="small"
+                  placeholder="EUR"
+                  value={newCode}
+                  onChange={(event) => setNewCode(event.target.value.toUpperCase())}
+                  error={newCodeError}
+                  slotProps={{ htmlInput: { maxLength: 3, 'aria-label': 'New currency code' } }}
+                  sx={{ width: 90 }}
+                />
+              </TableCell>
+              <TableCell>
+                <TextField
+                  size="small"
+                  type="number"
+                  placeholder="Rate"
+                  value={newRate}
+                  onChange={(event) => setNewRate(event.target.value)}
+                  slotProps={{ htmlInput: { min: 0, step: 'any', 'aria-label': 'New currency rate' } }}
+                  sx={{ width: 160 }}
+                />
+              </TableCell>
+              <TableCell />
+              <TableCell align="right">
+                <Button size="small" disabled={!newCode || newCodeError || !isValidRate(newRate)} onClick={handleAdd}>
+                  Add
+                </Button>
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+        <Typography variant="caption" color="text.secondary" component="p" sx={{ mt: 2 }}>
+          CSV files need a currency and a rate column, e.g. <code>currency,rate</code> then <code>EUR,0.92</code>.
+          {rates.updatedAt && ` Last saved ${new Date(rates.updatedAt).toLocaleString()}.`}
+        </Typography>
+      </CardContent>
+    </Card>
+  );
+}
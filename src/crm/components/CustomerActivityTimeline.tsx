@@ -0,0 +1,73 @@
+import * as React from 'react';
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import CardContent from '@mui/material/CardContent';
+import Typography from '@mui/material/Typography';
+import HowToRegRoundedIcon from '@mui/icons-material/HowToRegRounded';
+import HandshakeRoundedIcon from '@mui/icons-material/HandshakeRounded';
+import TaskAltRoundedIcon from '@mui/icons-material/TaskAltRounded';
+import EditNoteRoundedIcon from '@mui/icons-material/EditNoteRounded';
+import { CustomerActivity, CustomerActivityType } from '../services/customerActivity';
+
+const activityStyles: Record<CustomerActivityType, { icon: React.ReactNode; color: string }> = {
+  registered: { icon: <HowToRegRoundedIcon fontSize="small" />, color: 'success' },
+  deal: { icon: <HandshakeRoundedIcon fontSize="small" />, color: 'primary' },
+  task: { icon: <TaskAltRoundedIcon fontSize="small" />, color: 'warning' },
+  note: { icon: <EditNoteRoundedIcon fontSize="small" />, color: 'info' },
+};
+
+const formatActivityDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+interface CustomerActivityTimelineProps {
+  activities: CustomerActivity[];
+}
+
+export default function CustomerActivityTimeline({ activities }: CustomerActivityTimelineProps) {
+  return (
+    <Card variant="outlined" sx={{ height: '100%' }}>
+      <CardContent>
+        <Typography variant="h6" component="h3" sx={{ mb: 2 }}>
+          Activity
+        </Typography>
+
+        {activities.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            No activity recorded yet.
+          </Typography>
+        ) : (
+          activities.map((activity) => (
+            <Box key={activity.id} sx={{ display: 'flex', mb: 2, gap: 2, alignItems: 'flex-start' }}>
+              <Box
+                sx={{
+                  bgcolor: `${activityStyles[activity.type].color}.main`,
+                  borderRadius: '50%',
+                  p: 0.75,
+                  display: 'flex',
+                  color: 'white',
+                }}
+              >
+                {activityStyles[activity.type].icon}
+              </Box>
+              <Box sx={{ flexGrow: 1 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 1 }}>
+                  <Typography variant="subtitle2" component="span">
+                    {activity.title}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" sx={{ whiteSpace: 'nowrap' }}>
+                    {formatActivityDate(activity.date)}
+                  </Typography>
+                </Box>
+                {activity.description && (
+                  <Typography variant="body2" color="text.secondary">
+                    {activity.description}
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import * as React from 'react';
+import Autocomplete from '@mui/material/Autocomplete';
+import CircularProgress from '@mui/material/CircularProgress';
+import TextField from '@mui/material/TextField';
+import { customersListQuery } from '../services/customerQueries';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { useQuery } from '../hooks/useQuery';
+
+export interface CustomerOption {
+  /** The customer's `login.uuid`. */
+  id: string;
+  name: string;
+  email?: string;
+}
+
+interface CustomerAutocompleteProps {
+  value: CustomerOption | null;
+  onChange: (customer: CustomerOption | null) => void;
+  onBlur?: () => void;
+  label?: string;
+  required?: boolean;
+  error?: boolean;
+  helperText?: string;
+  size?: 'small' | 'medium';
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+const MAX_OPTIONS = 20;
+
+/** Picks a customer by searching the customers API as the user types. */
+export default function CustomerAutocomplete({
+  value,
+  onChange,
+  onBlur,
+  label = 'Customer',
+  required,
+  error,
+  helperText,
+  size = 'small',
+}: CustomerAutocompleteProps) {
+  const [open, setOpen] = React.useState(false);
+  const [input, setInput] = React.useState('');
+  const search = useDebouncedValue(input, SEARCH_DEBOUNCE_MS);
+  // Typing the selected name back in shouldn't narrow the list to it.
+  const query = value && search === value.name ? '' : search;
+
+  const { data, isFetching } = useQuery({
+    ...customersListQuery({ search: query, perPage: MAX_OPTIONS, sortBy: 'name.first' }),
+    enabled: open,
+    keepPreviousData: true,
+  });
+
+  const options = React.useMemo<CustomerOption[]>(
+    () =>
+      (data?.data ?? []).map((user) => ({
+        id: user.login.uuid,
+        name: `${user.name.first} ${user.name.last}`.trim(),
+        email: user.email,
+      })),
+    [data],
+  );
+
+  return (
+    <Autocomplete
+      open={open}
+      onOpen={() => setOpen(true)}
+      onClose={() => setOpen(false)}
+      value={value}
+      onChange={(_event, next) => onChange(next)}
+      inputValue={input}
+      onInputChange={(_event, next) => setInput(next)}
+      options={options}
+      // The API already filtered by the search text.
+      filterOptions={(candidates) => candidates}
+      getOptionLabel={(option) => option.name}
+      getOptionKey={(option) => option.id}
+      isOptionEqualToValue={(option, selected) => option.id === selected.id}
+      loading={isFetching}
+      size={size}
+      renderOption={(props, option) => {
+        const { key, ...optionProps } = props;
+        return (
+          <li key={key} {...optionProps}>
+            {option.name}
+            {option.email && (
+              <span style={{ marginLeft: 8, opacity: 0.6, fontSize: '0.875em' }}>{option.email}</span>
+            )}
+          </li>
+        );
+      }}
+      renderInput={(params) => (
+        <TextField
+          {...params}
+          label={label}
+          required={required}
+          error={error}
+          helperText={helperText}
+          onBlur={onBlur}
+          slotProps={{
+            input: {
+              ...params.InputProps,
+              endAdornment: (
+                <>
+                  {isFetching && open ? <CircularProgress color="inherit" size={16} /> : null}
+                  {params.InputProps.endAdornment}
+                </>
+              ),
+            },
+          }}
+        />
+      )}
+    />
+  );
+}
@@ -0,0 +1,189 @@
+import * as React from 'react';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import IconButton from '@mui/material/IconButton';
+import Slider from '@mui/material/Slider';
+import Stack from '@mui/material/Stack';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import RotateLeftIcon from '@mui/icons-material/RotateLeft';
+import RotateRightIcon from '@mui/icons-material/RotateRight';
+import ZoomInIcon from '@mui/icons-material/ZoomIn';
+import ZoomOutIcon from '@mui/icons-material/ZoomOut';
+import { UserPicture } from '../services/usersApi';
+import {
+  AvatarCrop,
+  MAX_AVATAR_ZOOM,
+  clampCropOffset,
+  cropTravel,
+  defaultAvatarCrop,
+  drawAvatar,
+  generateAvatarPicture,
+  rotateBy,
+} from '../services/customerAvatars';
+
+interface CustomerAvatarCropDialogProps {
+  /** The image being cropped; the dialog is open while it's set. */
+  image: HTMLImageElement | null;
+  onClose: () => void;
+  onApply: (picture: UserPicture) => void;
+}
+
+const PREVIEW_SIZE = 280;
+const KEYBOARD_STEP = 0.05;
+
+export default function CustomerAvatarCropDialog({ image, onClose, onApply }: CustomerAvatarCropDialogProps) {
+  const [crop, setCrop] = React.useState<AvatarCrop>(defaultAvatarCrop);
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+  const dragRef = React.useRef<{ pointerId: number; x: number; y: number } | null>(null);
+
+  React.useEffect(() => {
+    setCrop(defaultAvatarCrop);
+  }, [image]);
+
+  React.useEffect(() => {
+    if (image && canvasRef.current) {
+      drawAvatar(canvasRef.current, image, crop);
+    }
+  }, [image, crop]);
+
+  const pan = (deltaX: number, deltaY: number) => {
+    if (!image) return;
+    setCrop((prev) => {
+      const travel = cropTravel(image, prev, PREVIEW_SIZE);
+      return {
+        ...prev,
+        // Dragging right shows more of the left of the image.
+        x: travel.x > 0 ? clampCropOffset(prev.x - deltaX / travel.x) : 0,
+        y: travel.y > 0 ? clampCropOffset(prev.y - deltaY / travel.y) : 0,
+      };
+    });
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+    pan(event.clientX - drag.x, event.clientY - drag.y);
+    dragRef.current = { ...drag, x: event.clientX, y: event.clientY };
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-KEYBOARD_STEP, 0],
+      ArrowRight: [KEYBOARD_STEP, 0],
+      ArrowUp: [0, -KEYBOARD_STEP],
+      ArrowDown: [0, KEYBOARD_STEP],
+    };
+    const move = moves[event.key];
+    if (!move) return;
+    event.preventDefault();
+    // Arrow keys move the crop window, the opposite of dragging the image.
+    setCrop((prev) => ({
+      ...prev,
+      x: clampCropOffset(prev.x + move[0]),
+      y: clampCropOffset(prev.y + move[1]),
+    }));
+  };
+
+  const handleZoom = (zoom: number) => setCrop((prev) => ({ ...prev, zoom }));
+
+  const handleRotate = (quarterTurns: number) =>
+    setCrop((prev) => ({ ...prev, rotation: rotateBy(prev.rotation, quarterTurns), x: 0, y: 0 }));
+
+  const handleApply = () => {
+    if (!image) return;
+    onApply(generateAvatarPicture(image, crop));
+  };
+
+  return (
+    <Dialog open={image !== null} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Crop photo</DialogTitle>
+      <DialogContent dividers>
+        <Box
+          sx={{
+            position: 'relative',
+            width: PREVIEW_SIZE,
+            height: PREVIEW_SIZE,
+            mx: 'auto',
+            overflow: 'hidden',
+            borderRadius: 1,
+          }}
+        >
+          <canvas
+            ref={canvasRef}
+            width={PREVIEW_SIZE}
+            height={PREVIEW_SIZE}
+            tabIndex={0}
+            aria-label="Photo crop area. Drag or use the arrow keys to reposition."
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            onKeyDown={handleKeyDown}
+            style={{ display: 'block', cursor: 'grab', touchAction: 'none' }}
+          />
+          {/* Dims the corners the round avatar won't show. */}
+          <Box
+            sx={{
+              position: 'absolute',
+              inset: 0,
+              borderRadius: '50%',
+              boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.45)',
+              pointerEvents: 'none',
+            }}
+          />
+        </Box>
+        <Typography variant="caption" color="text.secondary" display="block" textAlign="center" sx={{ mt: 1 }}>
+          Drag to reposition
+        </Typography>
+
+        <Stack direction="row" spacing={2} alignItems="center" sx={{ mt: 2 }}>
+          <ZoomOutIcon fontSize="small" color="action" />
+          <Slider
+            value={crop.zoom}
+            min={1}
+            max={MAX_AVATAR_ZOOM}
+            step={0.01}
+            onChange={(_event, value) => handleZoom(value as number)}
+            aria-label="Zoom"
+          />
+          <ZoomInIcon fontSize="small" color="action" />
+        </Stack>
+        <Stack direction="row" spacing={1} justifyContent="center" sx={{ mt: 1 }}>
+          <Tooltip title="Rotate left">
+            <IconButton onClick={() => handleRotate(-1)} aria-label="Rotate left">
+              <RotateLeftIcon />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Rotate right">
+            <IconButton onClick={() => handleRotate(1)} aria-label="Rotate right">
+              <RotateRightIcon />
+            </IconButton>
+          </Tooltip>
+          <Button size="small" onClick={() => setCrop(defaultAvatarCrop)}>
+            Reset
+          </Button>
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleApply}>
+          Use Photo
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+import * as React from 'react';
+import Avatar from '@mui/material/Avatar';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import PersonIcon from '@mui/icons-material/Person';
+import PhotoCameraIcon from '@mui/icons-material/PhotoCamera';
+import { UserPicture } from '../services/usersApi';
+import {
+  ACCEPTED_IMAGE_TYPES,
+  emptyPicture,
+  getInitials,
+  loadImage,
+  validateAvatarFile,
+} from '../services/customerAvatars';
+import CustomerAvatarCropDialog from './CustomerAvatarCropDialog';
+
+interface CustomerAvatarUploadProps {
+  picture: UserPicture;
+  name: { first: string; last: string };
+  onChange: (picture: UserPicture) => void;
+}
+
+/**
+ * The modal's avatar: drop an image on it or click to choose one, crop it,
+ * and the three sizes come back through `onChange`. Without a picture it
+ * shows the customer's initials.
+ */
+export default function CustomerAvatarUpload({ picture, name, onChange }: CustomerAvatarUploadProps) {
+  const [image, setImage] = React.useState<HTMLImageElement | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [dragging, setDragging] = React.useState(false);
+  const inputRef = React.useRef<HTMLInputElement | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const invalid = validateAvatarFile(file);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    try {
+      setImage(await loadImage(file));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The file could not be read as an image');
+    }
+  };
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes('Files')) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setDragging(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDragging(false);
+    handleFile(event.dataTransfer.files[0]);
+  };
+
+  const handleApply = (next: UserPicture) => {
+    onChange(next);
+    setImage(null);
+  };
+
+  const openFilePicker = () => inputRef.current?.click();
+
+  const hasName = Boolean(name.first && name.last);
+
+  return (
+    <Box sx={{ textAlign: 'center' }}>
+      <Box
+        role="button"
+        tabIndex={0}
+        aria-label="Upload photo"
+        onClick={openFilePicker}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter' || event.key === ' ') {
+            event.preventDefault();
+            openFilePicker();
+          }
+        }}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        sx={{
+          display: 'inline-flex',
+          p: 0.5,
+          borderRadius: '50%',
+          border: '2px dashed',
+          borderColor: dragging ? 'primary.main' : 'transparent',
+          cursor: 'pointer',
+          transition: 'border-color 150ms',
+          '&:hover, &:focus-visible': { borderColor: 'divider', outline: 'none' },
+        }}
+      >
+        <Avatar src={picture.large || undefined} sx={{ width: 80, height: 80 }}>
+          {hasName ? getInitials(name) : <PersonIcon />}
+        </Avatar>
+      </Box>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES.join(',')}
+        hidden
+        onChange={(event) => {
+          handleFile(event.target.files?.[0]);
+          // Choosing the same file again should reopen the cropper.
+          event.target.value = '';
+        }}
+      />
+      <Stack direction="row" spacing={1} justifyContent="center" sx={{ mt: 1 }}>
+        <Button size="small" startIcon={<PhotoCameraIcon />} onClick={openFilePicker}>
+          {picture.large ? 'Change Photo' : 'Upload Photo'}
+        </Button>
+        {picture.large && (
+          <Button size="small" color="inherit" onClick={() => onChange(emptyPicture)}>
+            Remove
+          </Button>
+        )}
+      </Stack>
+      <Typography variant="caption" color={error ? 'error' : 'text.secondary'} display="block">
+        {error ?? 'Drop an image on the avatar or choose a file'}
+      </Typography>
+
+      <CustomerAvatarCropDialog image={image} onClose={() => setImage(null)} onApply={handleApply} />
+    </Box>
+  );
+}
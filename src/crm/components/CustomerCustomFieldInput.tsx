@@ -0,0 +1,119 @@
+import Autocomplete from '@mui/material/Autocomplete';
+import Checkbox from '@mui/material/Checkbox';
+import FormControl from '@mui/material/FormControl';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import FormHelperText from '@mui/material/FormHelperText';
+import InputAdornment from '@mui/material/InputAdornment';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import { CustomFieldDefinition, MULTI_VALUE_SEPARATOR } from '../services/customFields';
+import { RegisteredField } from '../../shared-form/useForm';
+
+interface CustomerCustomFieldInputProps {
+  definition: CustomFieldDefinition;
+  field: RegisteredField<string>;
+}
+
+const splitInput = (value: string) =>
+  value
+    .split(';')
+    .map((option) => option.trim())
+    .filter(Boolean);
+
+/** The input for one custom field, picked by its type. Every type edits the form's string value. */
+export default function CustomerCustomFieldInput({ definition, field }: CustomerCustomFieldInputProps) {
+  const { label, required, type, options = [] } = definition;
+  const value = field.value ?? '';
+  const setValue = (next: string) => field.onChange({ target: { value: next } });
+
+  switch (type) {
+    case 'boolean':
+      return (
+        <FormControl error={field.error}>
+          <FormControlLabel
+            label={label}
+            control={
+              <Checkbox
+                name={field.name}
+                checked={value === 'true'}
+                onChange={(event) => setValue(event.target.checked ? 'true' : 'false')}
+                onBlur={field.onBlur}
+              />
+            }
+          />
+          {field.helperText && <FormHelperText>{field.helperText}</FormHelperText>}
+        </FormControl>
+      );
+    case 'multiselect':
+      return (
+        <Autocomplete
+          multiple
+          size="small"
+          options={options}
+          value={splitInput(value)}
+          onChange={(_event, selected) => setValue(selected.join(MULTI_VALUE_SEPARATOR))}
+          onBlur={field.onBlur}
+          renderInput={(params) => (
+            <TextField
+              {...params}
+              label={label}
+              required={required}
+              error={field.error}
+              helperText={field.helperText}
+            />
+          )}
+        />
+      );
+    case 'select':
+      return (
+        <TextField select fullWidth size="small" label={label} required={required} {...field} value={value}>
+          <MenuItem value="">
+            <em>None</em>
+          </MenuItem>
+          {options.map((option) => (
+            <MenuItem key={option} value={option}>
+              {option}
+            </MenuItem>
+          ))}
+          {/* Keep a value that was removed from the options selectable until it's changed. */}
+          {value && !options.includes(value) && <MenuItem value={value}>{value}</MenuItem>}
+        </TextField>
+      );
+    case 'currency':
+      return (
+        <TextField
+          fullWidth
+          size="small"
+          type="number"
+          label={label}
+          required={required}
+          {...field}
+          value={value}
+          slotProps={{
+            input: {
+              startAdornment: <InputAdornment position="start">{definition.currency || 'USD'}</InputAdornment>,
+            },
+            htmlInput: { step: '0.01' },
+          }}
+        />
+      );
+    case 'number':
+    case 'date':
+    case 'url':
+    case 'text':
+    default:
+      return (
+        <TextField
+          fullWidth
+          size="small"
+          type={type === 'text' ? 'text' : type}
+          label={label}
+          required={required}
+          placeholder={type === 'url' ? 'https://' : undefined}
+          {...field}
+          value={value}
+          slotProps={type === 'date' ? { inputLabel: { shrink: true } } : undefined}
+        />
+      );
+  }
+}
@@ -0,0 +1,212 @@
+import * as React from 'react';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import LinearProgress from '@mui/material/LinearProgress';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Typography from '@mui/material/Typography';
+import { User, usersApiService } from '../services/usersApi';
+import { getErrorMessage, isAbortError } from '../services/apiErrors';
+import { fetchAllCustomers } from '../services/customerPages';
+import { DuplicateCandidate, findDuplicateCandidates } from '../services/customerDuplicates';
+import { formatPhone } from '../../shared-form/phoneNumbers';
+import { countryCode } from '../../shared-form/addressFormats';
+import CustomerMergeDialog from './CustomerMergeDialog';
+
+interface CustomerDuplicatesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const pairKey = (a: User, b: User) => [a.login.uuid, b.login.uuid].sort().join('|');
+
+// Pairs marked "Not a duplicate" stay hidden until the page is reloaded.
+const dismissedPairs = new Set<string>();
+
+const fullName = (user: User) => `${user.name.first} ${user.name.last}`.trim();
+
+function CustomerSummary({ user }: { user: User }) {
+  return (
+    <Box sx={{ minWidth: 0 }}>
+      <Typography variant="body2" fontWeight={500} noWrap>
+        {fullName(user)}
+      </Typography>
+      <Typography variant="caption" color="text.secondary" display="block" noWrap>
+        {user.email}
+      </Typography>
+      <Typography variant="caption" color="text.secondary" display="block" noWrap>
+        {[user.phone && formatPhone(user.phone, countryCode(user.location.country)), user.location.city]
+          .filter(Boolean)
+          .join(' · ')}
+      </Typography>
+    </Box>
+  );
+}
+
+export default function CustomerDuplicatesDialog({ open, onClose }: CustomerDuplicatesDialogProps) {
+  const [customers, setCustomers] = React.useState<User[] | null>(null);
+  const [progress, setProgress] = React.useState<{ loaded: number; total: number } | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [dismissed, setDismissed] = React.useState(() => new Set(dismissedPairs));
+  const [merging, setMerging] = React.useState<[User, User] | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+
+    // Every stored customer is compared, not just the page on screen.
+    const controller = new AbortController();
+    setCustomers(null);
+    setError(null);
+    setProgress({ loaded: 0, total: 0 });
+    fetchAllCustomers(
+      {},
+      {
+        signal: controller.signal,
+        onProgress: (loaded, total) => setProgress({ loaded, total }),
+      },
+    )
+      .then(setCustomers)
+      .catch((err) => {
+        if (!isAbortError(err)) {
+          setError(getErrorMessage(err, 'Could not load customers'));
+        }
+      })
+      .finally(() => setProgress(null));
+
+    return () => controller.abort();
+  }, [open]);
+
+  const candidates = React.useMemo<DuplicateCandidate[]>(
+    () =>
+      customers
+        ? findDuplicateCandidates(customers).filter(({ a, b }) => !dismissed.has(pairKey(a, b)))
+        : [],
+    [customers, dismissed],
+  );
+
+  const handleDismiss = (candidate: DuplicateCandidate) => {
+    const key = pairKey(candidate.a, candidate.b);
+    dismissedPairs.add(key);
+    setDismissed((prev) => new Set(prev).add(key));
+  };
+
+  const handleMerged = async (survivor: User, loser: User) => {
+    setCustomers((prev) => prev?.filter((user) => user.login.uuid !== loser.login.uuid) ?? prev);
+    // Later merges with the survivor must start from its merged values.
+    try {
+      const merged = await usersApiService.getUser(survivor.login.uuid);
+      setCustomers(
+        (prev) => prev?.map((user) => (user.login.uuid === merged.login.uuid ? merged : user)) ?? prev,
+      );
+    } catch (err) {
+      // Its listed values are from before the merge, so don't offer it again.
+      setCustomers((prev) => prev?.filter((user) => user.login.uuid !== survivor.login.uuid) ?? prev);
+      setError(
+        `Merged, but the merged customer could not be reloaded (${getErrorMessage(err, 'unknown error')}). ` +
+          'Reopen this dialog to check it for duplicates again.',
+      );
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
+        <DialogTitle>Possible duplicates</DialogTitle>
+        <DialogContent dividers>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          {progress && (
+            <Box>
+              <LinearProgress
+                variant={progress.total === 0 ? 'indeterminate' : 'determinate'}
+                value={progress.total === 0 ? undefined : (progress.loaded / progress.total) * 100}
+              />
+              <Typography variant="caption" color="text.secondary">
+                Loaded {progress.loaded} of {progress.total || '…'} customers
+              </Typography>
+            </Box>
+          )}
+          {customers && candidates.length === 0 && (
+            <Typography color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+              No likely duplicates among {customers.length} customers.
+            </Typography>
+          )}
+          {candidates.length > 0 && (
+            <TableContainer sx={{ maxHeight: 480 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Customer</TableCell>
+                    <TableCell>Possible duplicate</TableCell>
+                    <TableCell>Match</TableCell>
+                    <TableCell align="right">Actions</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {candidates.map((candidate) => (
+                    <TableRow key={pairKey(candidate.a, candidate.b)}>
+                      <TableCell sx={{ maxWidth: 220 }}>
+                        <CustomerSummary user={candidate.a} />
+                      </TableCell>
+                      <TableCell sx={{ maxWidth: 220 }}>
+                        <CustomerSummary user={candidate.b} />
+                      </TableCell>
+                      <TableCell>
+                        <Typography variant="body2" fontWeight={600}>
+                          {candidate.score}%
+                        </Typography>
+                        <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap" sx={{ mt: 0.5 }}>
+                          {candidate.reasons.map((reason) => (
+                            <Chip key={reason} label={reason} size="small" variant="outlined" />
+                          ))}
+                        </Stack>
+                      </TableCell>
+                      <TableCell align="right">
+                        <Stack direction="row" spacing={1} justifyContent="flex-end">
+                          <Button size="small" onClick={() => handleDismiss(candidate)}>
+                            Not a duplicate
+                          </Button>
+                          <Button
+                            size="small"
+                            variant="outlined"
+                            onClick={() => setMerging([candidate.a, candidate.b])}
+                          >
+                            Merge
+                          </Button>
+                        </Stack>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={onClose}>Close</Button>
+        </DialogActions>
+      </Dialog>
+
+      <CustomerMergeDialog
+        open={merging !== null}
+        onClose={() => setMerging(null)}
+        customers={merging}
+        onMerged={handleMerged}
+      />
+    </>
+  );
+}
@@ -0,0 +1,199 @@
+import * as React from 'react';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Checkbox from '@mui/material/Checkbox';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import FormLabel from '@mui/material/FormLabel';
+import LinearProgress from '@mui/material/LinearProgress';
+import Radio from '@mui/material/Radio';
+import RadioGroup from '@mui/material/RadioGroup';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import { User } from '../services/usersApi';
+import type { GetUsersParams } from '../services/customerDataSource';
+import { getErrorMessage, isAbortError } from '../services/apiErrors';
+import { fetchAllCustomers } from '../services/customerPages';
+import {
+  CustomerExportFormat,
+  customFieldExportColumns,
+  customerExportColumns,
+  customerExportFormats,
+  exportCustomers,
+} from '../services/customerExport';
+import { useCustomFields } from '../hooks/useCustomFields';
+
+/** What to export: everything matching a list query, or specific customers. */
+export type CustomerExportSource =
+  | { kind: 'query'; params: Omit<GetUsersParams, 'page' | 'perPage'>; total: number }
+  | { kind: 'customers'; customers: User[]; filenameBase: string };
+
+interface CustomerExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  source: CustomerExportSource;
+}
+
+export default function CustomerExportDialog({ open, onClose, source }: CustomerExportDialogProps) {
+  const customFields = useCustomFields();
+  const exportColumns = React.useMemo(
+    () => [...customerExportColumns, ...customFieldExportColumns(customFields)],
+    [customFields],
+  );
+  const allColumnKeys = exportColumns.map((column) => column.key);
+  const [format, setFormat] = React.useState<CustomerExportFormat>('csv');
+  const [columnKeys, setColumnKeys] = React.useState<string[]>(allColumnKeys);
+  const [progress, setProgress] = React.useState<{ loaded: number; total: number } | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  const exporting = progress !== null;
+  const count = source.kind === 'query' ? source.total : source.customers.length;
+
+  React.useEffect(() => {
+    if (open) {
+      setProgress(null);
+      setError(null);
+    }
+    return () => abortRef.current?.abort();
+  }, [open]);
+
+  const toggleColumn = (key: string) => {
+    setColumnKeys((prev) =>
+      prev.includes(key) ? prev.filter((candidate) => candidate !== key) : [...prev, key],
+    );
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ loaded: 0, total: count });
+
+    try {
+      const customers =
+        source.kind === 'query'
+          ? await fetchAllCustomers(source.params, {
+              signal: controller.signal,
+              onProgress: (loaded, total) => setProgress({ loaded, total }),
+            })
+          : source.customers;
+
+      // Keep the canonical column order whatever order they were ticked in.
+      const columns = exportColumns.filter((column) => columnKeys.includes(column.key));
+      await exportCustomers(
+        customers,
+        format,
+        columns,
+        source.kind === 'query' ? 'customers' : source.filenameBase,
+      );
+      onClose();
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(getErrorMessage(err, 'Export failed'));
+      }
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    if (exporting) {
+      abortRef.current?.abort();
+    } else {
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        Export {count} customer{count === 1 ? '' : 's'}
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Stack spacing={3}>
+          <Box>
+            <FormLabel>Format</FormLabel>
+            <RadioGroup
+              row
+              value={format}
+              onChange={(event) => setFormat(event.target.value as CustomerExportFormat)}
+            >
+              {(Object.keys(customerExportFormats) as CustomerExportFormat[]).map((key) => (
+                <FormControlLabel
+                  key={key}
+                  value={key}
+                  control={<Radio size="small" />}
+                  label={customerExportFormats[key].label}
+                />
+              ))}
+            </RadioGroup>
+            {(format === 'vcard3' || format === 'vcard4') && (
+              <Typography variant="caption" color="text.secondary">
+                Columns without a vCard property (such as owner or nationality) are left out.
+              </Typography>
+            )}
+          </Box>
+          <Box>
+            <Stack direction="row" alignItems="center" justifyContent="space-between">
+              <FormLabel>Columns</FormLabel>
+              <Stack direction="row" spacing={1}>
+                <Button size="small" onClick={() => setColumnKeys(allColumnKeys)}>
+                  All
+                </Button>
+                <Button size="small" onClick={() => setColumnKeys([])}>
+                  None
+                </Button>
+              </Stack>
+            </Stack>
+            <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', sm: '1fr 1fr 1fr' } }}>
+              {exportColumns.map((column) => (
+                <FormControlLabel
+                  key={column.key}
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={columnKeys.includes(column.key)}
+                      onChange={() => toggleColumn(column.key)}
+                    />
+                  }
+                  label={<Typography variant="body2">{column.label}</Typography>}
+                />
+              ))}
+            </Box>
+          </Box>
+          {progress && source.kind === 'query' && (
+            <Box>
+              <LinearProgress
+                variant="determinate"
+                value={progress.total === 0 ? 100 : (progress.loaded / progress.total) * 100}
+              />
+              <Typography variant="caption" color="text.secondary">
+                Loaded {progress.loaded} of {progress.total} customers
+              </Typography>
+            </Box>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={handleCancel}>{exporting ? 'Stop' : 'Cancel'}</Button>
+        <Button
+          variant="contained"
+          onClick={handleExport}
+          disabled={exporting || columnKeys.length === 0 || count === 0}
+        >
+          Export
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,194 @@
+import * as React from 'react';
+import Autocomplete from '@mui/material/Autocomplete';
+import Button from '@mui/material/Button';
+import Checkbox from '@mui/material/Checkbox';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import MenuItem from '@mui/material/MenuItem';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import {
+  CustomFieldDefinition,
+  CustomFieldType,
+  createCustomFieldId,
+  customFieldTypes,
+} from '../services/customFields';
+import { defineFormSchema } from '../../shared-form/schema';
+import { useForm } from '../../shared-form/useForm';
+
+interface CustomerFieldDialogProps {
+  open: boolean;
+  /** The field being edited; `null` adds a new one. */
+  field: CustomFieldDefinition | null;
+  fields: CustomFieldDefinition[];
+  onClose: () => void;
+  onSave: (field: CustomFieldDefinition) => void;
+}
+
+interface FieldFormValues {
+  label: string;
+  type: CustomFieldType;
+  options: string[];
+  currency: string;
+  required: boolean;
+  showInTable: boolean;
+}
+
+const emptyValues: FieldFormValues = {
+  label: '',
+  type: 'text',
+  options: [],
+  currency: 'USD',
+  required: false,
+  showInTable: false,
+};
+
+const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multiselect';
+
+export default function CustomerFieldDialog({ open, field, fields, onClose, onSave }: CustomerFieldDialogProps) {
+  const schema = React.useMemo(
+    () =>
+      defineFormSchema<FieldFormValues>({
+        label: {
+          required: 'Label is required',
+          validate: (label) =>
+            fields.some(
+              (other) => other.id !== field?.id && other.label.trim().toLowerCase() === label.trim().toLowerCase(),
+            )
+              ? 'Another field already has this label'
+              : undefined,
+        },
+        options: {
+          validate: (options, values) => {
+            if (!hasOptions(values.type)) return undefined;
+            if (options.length === 0) return 'Add at least one option';
+            // Multi-select values are stored and exported joined by semicolons.
+            return options.some((option) => option.includes(';')) ? 'Options can\'t contain ";"' : undefined;
+          },
+        },
+        currency: {
+          validate: (currency, values) =>
+            values.type !== 'currency' || /^[A-Z]{3}$/.test(currency) ? undefined : 'Use a 3-letter code such as USD',
+        },
+      }),
+    [field, fields],
+  );
+  const form = useForm<FieldFormValues>({ initialValues: emptyValues, schema });
+  const { reset } = form;
+
+  React.useEffect(() => {
+    if (!open) return;
+    reset(
+      field
+        ? {
+            label: field.label,
+            type: field.type,
+            options: field.options ?? [],
+            currency: field.currency ?? 'USD',
+            required: Boolean(field.required),
+            showInTable: Boolean(field.showInTable),
+          }
+        : emptyValues,
+    );
+  }, [field, open, reset]);
+
+  const handleSubmit = form.handleSubmit((values) => {
+    onSave({
+      id: field?.id ?? createCustomFieldId(values.label, fields),
+      label: values.label.trim(),
+      type: values.type,
+      ...(hasOptions(values.type) && { options: values.options.map((option) => option.trim()) }),
+      ...(values.type === 'currency' && { currency: values.currency }),
+      required: values.required,
+      showInTable: values.showInTable,
+    });
+  });
+
+  const options = form.register('options');
+  const { type } = form.values;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{field ? 'Edit Custom Field' : 'Add Custom Field'}</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <TextField fullWidth size="small" label="Label" required autoFocus {...form.register('label')} />
+          <TextField
+            select
+            fullWidth
+            size="small"
+            label="Type"
+            {...form.register('type')}
+            disabled={Boolean(field)}
+            helperText={field ? 'The type is fixed once a field exists, so stored values stay valid.' : undefined}
+          >
+            {(Object.keys(customFieldTypes) as CustomFieldType[]).map((option) => (
+              <MenuItem key={option} value={option}>
+                {customFieldTypes[option]}
+              </MenuItem>
+            ))}
+          </TextField>
+          {hasOptions(type) && (
+            <Autocomplete
+              multiple
+              freeSolo
+              size="small"
+              options={[]}
+              value={options.value}
+              onChange={(_event, value) => form.setValue('options', Array.from(new Set(value)))}
+              onBlur={options.onBlur}
+              renderInput={(params) => (
+                <TextField
+                  {...params}
+                  label="Options"
+                  placeholder="Type an option and press Enter"
+                  error={options.error}
+                  helperText={options.helperText}
+                />
+              )}
+            />
+          )}
+          {type === 'currency' && (
+            <TextField
+              size="small"
+              label="Currency"
+              {...form.register('currency')}
+              onChange={(event) => form.setValue('currency', event.target.value.toUpperCase())}
+              slotProps={{ htmlInput: { maxLength: 3 } }}
+              sx={{ width: 160 }}
+            />
+          )}
+          <Stack direction="row" spacing={2}>
+            <FormControlLabel
+              label="Required"
+              control={
+                <Checkbox
+                  checked={form.values.required}
+                  onChange={(event) => form.setValue('required', event.target.checked)}
+                />
+              }
+            />
+            <FormControlLabel
+              label="Show in customers table"
+              control={
+                <Checkbox
+                  checked={form.values.showInTable}
+                  onChange={(event) => form.setValue('showInTable', event.target.checked)}
+                />
+              }
+            />
+          </Stack>
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSubmit}>
+          {field ? 'Save Field' : 'Add Field'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
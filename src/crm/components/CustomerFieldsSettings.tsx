@@ -0,0 +1,197 @@
+import * as React from 'react';
+import Button from '@mui/material/Button';
+import Card from '@mui/material/Card';
+import CardContent from '@mui/material/CardContent';
+import Chip from '@mui/material/Chip';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import IconButton from '@mui/material/IconButton';
+import Stack from '@mui/material/Stack';
+import Switch from '@mui/material/Switch';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import AddIcon from '@mui/icons-material/Add';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import DeleteIcon from '@mui/icons-material/Delete';
+import EditIcon from '@mui/icons-material/Edit';
+import {
+  CustomFieldDefinition,
+  customFieldTypes,
+  saveCustomFields,
+} from '../services/customFields';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { useCrmSnackbar } from './CrmSnackbarProvider';
+import CustomerFieldDialog from './CustomerFieldDialog';
+
+const describeField = (field: CustomFieldDefinition) => {
+  if (field.options?.length) return field.options.join(', ');
+  if (field.type === 'currency') return field.currency;
+  return '';
+};
+
+/** The Settings card where admins add, order and remove customer custom fields. */
+export default function CustomerFieldsSettings() {
+  const fields = useCustomFields();
+  const { showSnackbar } = useCrmSnackbar();
+  const [editing, setEditing] = React.useState<CustomFieldDefinition | 'new' | null>(null);
+  const [deleting, setDeleting] = React.useState<CustomFieldDefinition | null>(null);
+
+  const handleSave = (saved: CustomFieldDefinition) => {
+    const exists = fields.some((field) => field.id === saved.id);
+    saveCustomFields(exists ? fields.map((field) => (field.id === saved.id ? saved : field)) : [...fields, saved]);
+    setEditing(null);
+    showSnackbar({ message: `${saved.label} ${exists ? 'updated' : 'added'}`, severity: 'success' });
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const next = [...fields];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    saveCustomFields(next);
+  };
+
+  const handleToggleTable = (target: CustomFieldDefinition) => {
+    saveCustomFields(
+      fields.map((field) => (field.id === target.id ? { ...field, showInTable: !field.showInTable } : field)),
+    );
+  };
+
+  const handleDelete = () => {
+    if (!deleting) return;
+    saveCustomFields(fields.filter((field) => field.id !== deleting.id));
+    showSnackbar({ message: `${deleting.label} removed`, severity: 'success' });
+    setDeleting(null);
+  };
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 2 }}>
+          <div>
+            <Typography variant="h6" component="h2">
+              Customer Custom Fields
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Extra fields stored on every customer, edited in the customer form and available as table columns.
+            </Typography>
+          </div>
+          <Button variant="contained" size="small" startIcon={<AddIcon />} onClick={() => setEditing('new')}>
+            Add Field
+          </Button>
+        </Stack>
+
+        {fields.length === 0 ? (
+          <Typography variant="body2" color="text.secondary" sx={{ py: 4, textAlign: 'center' }}>
+            No custom fields yet.
+          </Typography>
+        ) : (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Label</TableCell>
+                <TableCell>Type</TableCell>
+                <TableCell>Options</TableCell>
+                <TableCell>Required</TableCell>
+                <TableCell>In Table</TableCell>
+                <TableCell align="right">Actions</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {fields.map((field, index) => (
+                <TableRow key={field.id}>
+                  <TableCell>
+                    <Typography variant="body2" fontWeight={500}>
+                      {field.label}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                      custom.{field.id}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>
+                    <Chip size="small" variant="outlined" label={customFieldTypes[field.type]} />
+                  </TableCell>
+                  <TableCell sx={{ maxWidth: 240 }}>
+                    <Typography variant="body2" color="text.secondary" noWrap>
+                      {describeField(field)}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{field.required ? 'Yes' : 'No'}</TableCell>
+                  <TableCell>
+                    <Switch
+                      size="small"
+                      checked={Boolean(field.showInTable)}
+                      onChange={() => handleToggleTable(field)}
+                      slotProps={{ input: { 'aria-label': `Show ${field.label} in the customers table` } }}
+                    />
+                  </TableCell>
+                  <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                    <Tooltip title="Move up">
+                      <span>
+                        <IconButton size="small" disabled={index === 0} onClick={() => handleMove(index, -1)}>
+                          <ArrowUpwardIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Move down">
+                      <span>
+                        <IconButton
+                          size="small"
+                          disabled={index === fields.length - 1}
+                          onClick={() => handleMove(index, 1)}
+                        >
+                          <ArrowDownwardIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                    <Tooltip title="Edit">
+                      <IconButton size="small" onClick={() => setEditing(field)}>
+                        <EditIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                    <Tooltip title="Delete">
+                      <IconButton size="small" color="error" onClick={() => setDeleting(field)}>
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <CustomerFieldDialog
+        open={editing !== null}
+        field={editing === 'new' ? null : editing}
+        fields={fields}
+        onClose={() => setEditing(null)}
+        onSave={handleSave}
+      />
+
+      <Dialog open={deleting !== null} onClose={() => setDeleting(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Delete {deleting?.label}?</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            The field disappears from forms, tables and exports. Values already saved on customers are kept, so
+            adding a field with the same label brings them back.
+          </Typography>
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setDeleting(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,464 @@
+import * as React from 'react';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import CircularProgress from '@mui/material/CircularProgress';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import FormControl from '@mui/material/FormControl';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import LinearProgress from '@mui/material/LinearProgress';
+import MenuItem from '@mui/material/MenuItem';
+import Select from '@mui/material/Select';
+import Stack from '@mui/material/Stack';
+import Step from '@mui/material/Step';
+import StepLabel from '@mui/material/StepLabel';
+import Stepper from '@mui/material/Stepper';
+import Switch from '@mui/material/Switch';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Typography from '@mui/material/Typography';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import DownloadIcon from '@mui/icons-material/Download';
+import { User, usersApiService } from '../services/usersApi';
+import { getErrorMessage, isAbortError } from '../services/apiErrors';
+import { BatchItemResult, BatchProgress, runBatch } from '../services/batch';
+import { queryCache } from '../services/queryCache';
+import { customerKeys } from '../services/customerQueries';
+import { fetchAllCustomers } from '../services/customerPages';
+import { downloadFile, exportFilename } from '../services/customerExport';
+import {
+  ImportMapping,
+  ImportRow,
+  ImportTable,
+  allImportFields,
+  buildImportErrorReport,
+  buildImportRows,
+  describeImportProblems,
+  guessImportMapping,
+  isImportable,
+  mappedColumn,
+  readImportFile,
+} from '../services/customerImport';
+import { useCustomFields } from '../hooks/useCustomFields';
+
+// Stay well under the API's rate limit while creating customers.
+const IMPORT_CONCURRENCY = 2;
+const IMPORT_INTERVAL_MS = 250;
+const PREVIEW_ROW_LIMIT = 200;
+
+const steps = ['Upload', 'Map columns', 'Preview', 'Import'];
+
+interface CustomerImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function CustomerImportDialog({ open, onClose }: CustomerImportDialogProps) {
+  const [activeStep, setActiveStep] = React.useState(0);
+  const [fileName, setFileName] = React.useState('');
+  const [table, setTable] = React.useState<ImportTable | null>(null);
+  const [mapping, setMapping] = React.useState<ImportMapping | null>(null);
+  const [existing, setExisting] = React.useState<User[] | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+  const [dragOver, setDragOver] = React.useState(false);
+  const [problemsOnly, setProblemsOnly] = React.useState(false);
+  const [progress, setProgress] = React.useState<BatchProgress | null>(null);
+  const [results, setResults] = React.useState<Array<BatchItemResult<ImportRow, unknown>> | null>(null);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  const running = progress !== null && results === null;
+  const customFields = useCustomFields();
+  const importFields = React.useMemo(() => allImportFields(customFields), [customFields]);
+
+  React.useEffect(() => {
+    if (open) {
+      setActiveStep(0);
+      setFileName('');
+      setTable(null);
+      setMapping(null);
+      setExisting(null);
+      setError(null);
+      setProblemsOnly(false);
+      setProgress(null);
+      setResults(null);
+    }
+    return () => abortRef.current?.abort();
+  }, [open]);
+
+  const rows = React.useMemo(
+    () => (table && mapping && existing ? buildImportRows(table, mapping, existing, customFields) : []),
+    [table, mapping, existing, customFields],
+  );
+  const importableRows = rows.filter(isImportable);
+  const duplicateCount = rows.filter((row) => row.duplicate).length;
+  const invalidCount = rows.length - importableRows.length - duplicateCount;
+
+  const missingRequired = mapping
+    ? importFields.filter(
+        (definition) => definition.required && mappedColumn(mapping, definition.field) === null,
+      )
+    : [];
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setLoading(true);
+    try {
+      const nextTable = await readImportFile(file);
+      if (nextTable.headers.length === 0 || nextTable.rows.length === 0) {
+        throw new Error('The file has no data rows below a header row.');
+      }
+      setFileName(file.name);
+      setTable(nextTable);
+      setMapping(guessImportMapping(nextTable.headers, importFields));
+      setActiveStep(1);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not read this file. Use a .csv or .xlsx file.'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    setError(null);
+    setActiveStep(2);
+    if (existing) return;
+
+    // Duplicates are checked against every stored customer, not just a page.
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    try {
+      setExisting(await fetchAllCustomers({}, { signal: controller.signal }));
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(getErrorMessage(err, 'Could not load existing customers to check for duplicates.'));
+        setActiveStep(1);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setActiveStep(3);
+    setResults(null);
+
+    const batchResults = await runBatch(
+      importableRows,
+      (row) => usersApiService.createUser(row.request),
+      {
+        concurrency: IMPORT_CONCURRENCY,
+        intervalMs: IMPORT_INTERVAL_MS,
+        onProgress: setProgress,
+        signal: controller.signal,
+      },
+    );
+
+    setResults(batchResults);
+    if (batchResults.some((result) => result.ok)) {
+      queryCache.invalidate(customerKeys.all);
+    }
+  };
+
+  const failures = React.useMemo(() => {
+    if (!results) return [];
+    const attempted = new Set(results.map((result) => result.item));
+    return [
+      ...rows.filter((row) => !isImportable(row)).map((row) => ({ row, message: describeImportProblems(row) })),
+      ...results
+        .filter((result) => !result.ok)
+        .map((result) => ({ row: result.item, message: getErrorMessage(result.error, 'Create failed') })),
+      ...importableRows
+        .filter((row) => !attempted.has(row))
+        .map((row) => ({ row, message: 'Not imported: the import was cancelled' })),
+    ].sort((a, b) => a.row.line - b.row.line);
+  }, [results, rows, importableRows]);
+
+  const handleDownloadReport = () => {
+    if (!table) return;
+    downloadFile(
+      `\ufeff${buildImportErrorReport(table.headers, failures)}`,
+      exportFilename('customer-import-errors', 'csv'),
+      'text/csv;charset=utf-8',
+    );
+  };
+
+  const handleClose = () => {
+    if (running) return;
+    onClose();
+  };
+
+  const renderUpload = () => (
+    <Box
+      onDragOver={(event) => {
+        event.preventDefault();
+        setDragOver(true);
+      }}
+      onDragLeave={() => setDragOver(false)}
+      onDrop={(event) => {
+        event.preventDefault();
+        setDragOver(false);
+        handleFile(event.dataTransfer.files[0]);
+      }}
+      sx={{
+        border: '2px dashed',
+        borderColor: dragOver ? 'primary.main' : 'divider',
+        borderRadius: 2,
+        p: 6,
+        textAlign: 'center',
+        bgcolor: dragOver ? 'action.hover' : 'transparent',
+      }}
+    >
+      {loading ? (
+        <CircularProgress />
+      ) : (
+        <Stack spacing={2} alignItems="center">
+          <UploadFileIcon color="action" sx={{ fontSize: 48 }} />
+          <Typography>Drop a CSV or Excel (.xlsx) file here</Typography>
+          <Button variant="outlined" component="label">
+            Choose File
+            <input
+              hidden
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={(event) => {
+                handleFile(event.target.files?.[0]);
+                event.target.value = '';
+              }}
+            />
+          </Button>
+          <Typography variant="caption" color="text.secondary">
+            The first row must contain column headers. Only the first sheet of a workbook is read.
+          </Typography>
+        </Stack>
+      )}
+    </Box>
+  );
+
+  const renderMapping = () =>
+    table &&
+    mapping && (
+      <Stack spacing={1.5}>
+        <Typography variant="body2" color="text.secondary">
+          {fileName}: {table.rows.length} rows. Choose the column that holds each customer field.
+        </Typography>
+        {importFields.map((definition) => (
+          <Stack key={definition.field} direction="row" spacing={2} alignItems="center">
+            <Box sx={{ width: 200, flexShrink: 0 }}>
+              <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                {definition.label}
+                {definition.required && ' *'}
+              </Typography>
+              <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                {definition.path}
+              </Typography>
+            </Box>
+            <FormControl size="small" fullWidth>
+              <Select
+                value={mappedColumn(mapping, definition.field) ?? ''}
+                displayEmpty
+                onChange={(event) => {
+                  const value = event.target.value as number | '';
+                  setMapping({ ...mapping, [definition.field]: value === '' ? null : value });
+                }}
+              >
+                <MenuItem value="">
+                  <em>Don't import</em>
+                </MenuItem>
+                {table.headers.map((header, index) => (
+                  <MenuItem key={index} value={index}>
+                    {header || `Column ${index + 1}`}
+                    {table.rows[0]?.[index] ? ` (e.g. ${table.rows[0][index]})` : ''}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+        ))}
+      </Stack>
+    );
+
+  const renderPreview = () => {
+    if (loading || !existing) {
+      return (
+        <Stack spacing={2} alignItems="center" sx={{ py: 6 }}>
+          <CircularProgress />
+          <Typography variant="body2" color="text.secondary">
+            Checking for existing customers…
+          </Typography>
+        </Stack>
+      );
+    }
+
+    const visibleRows = (problemsOnly ? rows.filter((row) => !isImportable(row)) : rows).slice(0, PREVIEW_ROW_LIMIT);
+
+    return (
+      <Stack spacing={2}>
+        <Stack direction="row" spacing={1} alignItems="center" useFlexGap flexWrap="wrap">
+          <Chip color="success" label={`${importableRows.length} ready`} />
+          <Chip color="error" variant="outlined" label={`${invalidCount} invalid`} />
+          <Chip color="warning" variant="outlined" label={`${duplicateCount} duplicates`} />
+          <Box sx={{ flexGrow: 1 }} />
+          <FormControlLabel
+            control={<Switch checked={problemsOnly} onChange={(event) => setProblemsOnly(event.target.checked)} />}
+            label="Only rows with problems"
+          />
+        </Stack>
+        <TableContainer sx={{ maxHeight: 400 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>Row</TableCell>
+                <TableCell>Name</TableCell>
+                <TableCell>Email</TableCell>
+                <TableCell>Username</TableCell>
+                <TableCell>Location</TableCell>
+                <TableCell>Status</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {visibleRows.map((row) => {
+                const ok = isImportable(row);
+                return (
+                  <TableRow key={row.line} sx={ok ? undefined : { bgcolor: 'action.hover' }}>
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell sx={{ color: row.errors['name.first'] || row.errors['name.last'] ? 'error.main' : undefined }}>
+                      {`${row.request.name.first} ${row.request.name.last}`.trim() || '—'}
+                    </TableCell>
+                    <TableCell sx={{ color: row.errors.email ? 'error.main' : undefined }}>
+                      {row.request.email || '—'}
+                    </TableCell>
+                    <TableCell sx={{ color: row.errors['login.username'] ? 'error.main' : undefined }}>
+                      {row.request.login.username || '—'}
+                    </TableCell>
+                    <TableCell>
+                      {[row.request.location?.city, row.request.location?.country].filter(Boolean).join(', ') || '—'}
+                    </TableCell>
+                    <TableCell>
+                      {ok ? (
+                        <Chip size="small" color="success" variant="outlined" label="OK" />
+                      ) : (
+                        <Typography variant="caption" color={row.duplicate ? 'warning.main' : 'error'}>
+                          {describeImportProblems(row)}
+                        </Typography>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        {rows.length > PREVIEW_ROW_LIMIT && (
+          <Typography variant="caption" color="text.secondary">
+            Showing the first {PREVIEW_ROW_LIMIT} rows. Every row is validated and imported.
+          </Typography>
+        )}
+      </Stack>
+    );
+  };
+
+  const renderImport = () => (
+    <Stack spacing={2}>
+      {progress && (
+        <Box>
+          <LinearProgress
+            variant="determinate"
+            value={progress.total === 0 ? 100 : (progress.completed / progress.total) * 100}
+          />
+          <Typography variant="caption" color="text.secondary">
+            {progress.completed} of {progress.total} processed
+            {progress.failed > 0 && ` (${progress.failed} failed)`}
+          </Typography>
+        </Box>
+      )}
+      {results && (
+        <Alert severity={failures.length === 0 ? 'success' : 'warning'}>
+          Imported {results.filter((result) => result.ok).length} of {rows.length} rows.
+          {failures.length > 0 && ` ${failures.length} rows were not imported; download the error report for details.`}
+        </Alert>
+      )}
+    </Stack>
+  );
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+      <DialogTitle>Import Customers</DialogTitle>
+      <DialogContent dividers>
+        <Stepper activeStep={activeStep} sx={{ mb: 3 }}>
+          {steps.map((label) => (
+            <Step key={label}>
+              <StepLabel>{label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {activeStep === 0 && renderUpload()}
+        {activeStep === 1 && renderMapping()}
+        {activeStep === 2 && renderPreview()}
+        {activeStep === 3 && renderImport()}
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        {(activeStep === 1 || activeStep === 2) && <Button onClick={handleClose}>Cancel</Button>}
+        {activeStep === 1 && (
+          <>
+            {missingRequired.length > 0 && (
+              <Typography variant="caption" color="text.secondary" sx={{ mr: 'auto' }}>
+                Map required fields: {missingRequired.map((definition) => definition.label).join(', ')}
+              </Typography>
+            )}
+            <Button onClick={() => setActiveStep(0)}>Back</Button>
+            <Button variant="contained" onClick={handlePreview} disabled={missingRequired.length > 0}>
+              Preview
+            </Button>
+          </>
+        )}
+        {activeStep === 2 && (
+          <>
+            <Button onClick={() => setActiveStep(1)} disabled={loading}>
+              Back
+            </Button>
+            <Button
+              variant="contained"
+              onClick={handleImport}
+              disabled={loading || importableRows.length === 0}
+            >
+              Import {importableRows.length} Customers
+            </Button>
+          </>
+        )}
+        {activeStep === 3 && running && (
+          <Button color="error" onClick={() => abortRef.current?.abort()}>
+            Stop
+          </Button>
+        )}
+        {activeStep === 3 && results && failures.length > 0 && (
+          <Button startIcon={<DownloadIcon />} onClick={handleDownloadReport} sx={{ mr: 'auto' }}>
+            Download Error Report
+          </Button>
+        )}
+        {(activeStep === 0 || (activeStep === 3 && results)) && (
+          <Button onClick={handleClose} variant={results ? 'contained' : 'text'}>
+            {results ? 'Done' : 'Cancel'}
+          </Button>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+}
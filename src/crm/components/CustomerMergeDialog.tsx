@@ -0,0 +1,218 @@
+import * as React from 'react';
+import Alert from '@mui/material/Alert';
+import Avatar from '@mui/material/Avatar';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Radio from '@mui/material/Radio';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Typography from '@mui/material/Typography';
+import { User } from '../services/usersApi';
+import { getErrorMessage } from '../services/apiErrors';
+import { queryCache } from '../services/queryCache';
+import { customerKeys } from '../services/customerQueries';
+import { getInitials } from '../services/customerAvatars';
+import {
+  MergeChoices,
+  defaultMergeChoices,
+  defaultSurvivor,
+  mergeCustomers,
+  mergeFields,
+} from '../services/customerMerge';
+import { useCrmSnackbar } from './CrmSnackbarProvider';
+
+interface CustomerMergeDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** The two records to merge, in the order they were listed. */
+  customers: [User, User] | null;
+  onMerged: (survivor: User, loser: User) => void;
+}
+
+const fullName = (user: User) => `${user.name.first} ${user.name.last}`.trim();
+
+const formatDate = (date: string | undefined) => (date ? new Date(date).toLocaleDateString() : '—');
+
+export default function CustomerMergeDialog({ open, onClose, customers, onMerged }: CustomerMergeDialogProps) {
+  const { showSnackbar } = useCrmSnackbar();
+  const [survivorId, setSurvivorId] = React.useState('');
+  // Field key → uuid of the record the value is taken from, so switching
+  // which record survives keeps the user's picks.
+  const [sources, setSources] = React.useState<Record<string, string>>({});
+  const [merging, setMerging] = React.useState(false);
+  const [error, setError] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    if (!open || !customers) return;
+    const survivor = defaultSurvivor(customers[0], customers[1]);
+    const loser = survivor === customers[0] ? customers[1] : customers[0];
+    const choices = defaultMergeChoices(survivor, loser);
+    setSurvivorId(survivor.login.uuid);
+    setSources(
+      Object.fromEntries(
+        mergeFields.map((field) => [
+          field.key,
+          choices[field.key] === 'loser' ? loser.login.uuid : survivor.login.uuid,
+        ]),
+      ),
+    );
+    setMerging(false);
+    setError(null);
+  }, [open, customers]);
+
+  if (!customers) return null;
+
+  const survivor = customers.find((user) => user.login.uuid === survivorId) ?? customers[0];
+  const loser = survivor === customers[0] ? customers[1] : customers[0];
+  const combinedTags = Array.from(new Set([...(survivor.tags ?? []), ...(loser.tags ?? [])]));
+
+  const handleMerge = async () => {
+    const choices: MergeChoices = Object.fromEntries(
+      mergeFields.map((field) => [
+        field.key,
+        sources[field.key] === loser.login.uuid ? 'loser' : 'survivor',
+      ]),
+    );
+
+    setMerging(true);
+    setError(null);
+    try {
+      const { repointed } = await mergeCustomers(survivor, loser, choices);
+      const moved = Object.entries(repointed)
+        .filter(([, count]) => count > 0)
+        .map(([kind, count]) => `${count} ${kind}`);
+      showSnackbar({
+        severity: 'success',
+        message: `Merged ${fullName(loser)} into ${fullName(survivor)}${moved.length ? ` (moved ${moved.join(', ')})` : ''}`,
+      });
+      onMerged(survivor, loser);
+      onClose();
+    } catch (err) {
+      console.error('Failed to merge customers', err);
+      setError(getErrorMessage(err, 'Failed to merge customers'));
+    } finally {
+      // Whatever step failed, earlier steps may already have been applied.
+      queryCache.invalidate(customerKeys.all);
+      setMerging(false);
+    }
+  };
+
+  const renderHeader = (user: User) => (
+    <TableCell key={user.login.uuid} sx={{ width: '40%' }}>
+      <Stack direction="row" spacing={1.5} alignItems="center">
+        <Avatar src={user.picture?.thumbnail} sx={{ width: 32, height: 32 }}>
+          {getInitials(user.name)}
+        </Avatar>
+        <Box sx={{ minWidth: 0 }}>
+          <FormControlLabel
+            control={
+              <Radio
+                size="small"
+                checked={user.login.uuid === survivor.login.uuid}
+                onChange={() => setSurvivorId(user.login.uuid)}
+              />
+            }
+            label={<Typography variant="subtitle2">Keep this record</Typography>}
+          />
+          <Typography variant="caption" color="text.secondary" display="block" noWrap>
+            {user.login.username} · since {formatDate(user.registered?.date)}
+          </Typography>
+        </Box>
+      </Stack>
+    </TableCell>
+  );
+
+  return (
+    <Dialog open={open} onClose={merging ? undefined : onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Merge customers</DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Pick the value to keep for each field. The other record is deleted, and its deals
+          and tasks are moved to the record you keep.
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ width: '20%' }}>Field</TableCell>
+              {customers.map(renderHeader)}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {mergeFields.map((field) => {
+              const same = field.value(customers[0]) === field.value(customers[1]);
+              return (
+                <TableRow key={field.key} sx={same ? undefined : { bgcolor: 'action.hover' }}>
+                  <TableCell>{field.label}</TableCell>
+                  {customers.map((user) => (
+                    <TableCell key={user.login.uuid}>
+                      {same ? (
+                        <Typography variant="body2">{field.value(user) || '—'}</Typography>
+                      ) : (
+                        <FormControlLabel
+                          control={
+                            <Radio
+                              size="small"
+                              checked={sources[field.key] === user.login.uuid}
+                              onChange={() =>
+                                setSources((prev) => ({ ...prev, [field.key]: user.login.uuid }))
+                              }
+                            />
+                          }
+                          label={
+                            <Typography variant="body2" color={field.value(user) ? undefined : 'text.secondary'}>
+                              {field.value(user) || '(empty)'}
+                            </Typography>
+                          }
+                        />
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+            <TableRow>
+              <TableCell>Tags</TableCell>
+              <TableCell colSpan={2}>
+                {combinedTags.length === 0 ? (
+                  <Typography variant="body2" color="text.secondary">—</Typography>
+                ) : (
+                  <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap">
+                    {combinedTags.map((tag) => (
+                      <Chip key={tag} label={tag} size="small" />
+                    ))}
+                  </Stack>
+                )}
+                <Typography variant="caption" color="text.secondary">
+                  Tags from both records are kept.
+                </Typography>
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose} disabled={merging}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleMerge} disabled={merging}>
+          {merging ? 'Merging…' : `Merge into ${fullName(survivor)}`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
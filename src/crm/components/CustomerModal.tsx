@@ -14,249 +14,172 @@ import Radio from '@mui/material/Radio';
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
 import IconButton from '@mui/material/IconButton';
-import Avatar from '@mui/material/Avatar';
 import Stack from '@mui/material/Stack';
 import Alert from '@mui/material/Alert';
-import CircularProgress from '@mui/material/CircularProgress';
+import Autocomplete from '@mui/material/Autocomplete';
 import CloseIcon from '@mui/icons-material/Close';
-import PersonIcon from '@mui/icons-material/Person';
-import { User, CreateUserRequest, UpdateUserRequest, usersApiService } from '../services/usersApi';
+import { User, CreateUserRequest, UpdateUserRequest } from '../services/usersApi';
+import { ApiError, getErrorMessage } from '../services/apiErrors';
+import { SUGGESTED_CUSTOMER_TAGS } from '../services/customerSegments';
+import {
+  CustomerFormValues,
+  createRequestFromForm,
+  customerFormSchema,
+  customerFormValuesFromUser,
+  emptyCustomerFormValues,
+  newCustomerFormValues,
+  phoneRequestFromForm,
+  updateRequestFromForm,
+} from '../services/customerForm';
+import {
+  CustomerDraft,
+  clearCustomerDraft,
+  loadCustomerDraft,
+  saveCustomerDraft,
+} from '../services/customerDrafts';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { NEW_CUSTOMER_ID } from '../hooks/useCustomersSearchParams';
+import { useForm } from '../../shared-form/useForm';
+import { addressFormats, countryCode, getAddressFormat } from '../../shared-form/addressFormats';
+import CrmPhoneField from './CrmPhoneField';
+import CustomerAvatarUpload from './CustomerAvatarUpload';
+import CustomerCustomFieldInput from './CustomerCustomFieldInput';
+
+export type CustomerSubmission =
+  | { type: 'create'; data: CreateUserRequest; phones: UpdateUserRequest | null }
+  | { type: 'update'; customer: User; data: UpdateUserRequest };
 
 interface CustomerModalProps {
   open: boolean;
   onClose: () => void;
   customer?: User | null;
-  onSave: () => void;
+  /** Called with the validated request; saving happens optimistically upstream. */
+  onSave: (submission: CustomerSubmission) => void;
+  /**
+   * Set when the modal is reopened because the server rejected the last
+   * submission. The form keeps what was typed and shows the server's errors.
+   */
+  submitError?: unknown;
 }
 
-interface FormData {
-  title: string;
-  firstName: string;
-  lastName: string;
-  email: string;
-  username: string;
-  gender: string;
-  phone: string;
-  cell: string;
-  streetNumber: string;
-  streetName: string;
-  city: string;
-  state: string;
-  country: string;
-  postcode: string;
-}
+const DRAFT_AUTOSAVE_MS = 500;
 
-interface FormErrors {
-  firstName?: string;
-  lastName?: string;
-  email?: string;
-  username?: string;
-  phone?: string;
-  streetNumber?: string;
-  streetName?: string;
-  city?: string;
-  state?: string;
-  country?: string;
-  postcode?: string;
-}
+const countryNames = addressFormats.map((format) => format.name);
 
-export default function CustomerModal({ open, onClose, customer, onSave }: CustomerModalProps) {
-  const [formData, setFormData] = React.useState<FormData>({
-    title: '',
-    firstName: '',
-    lastName: '',
-    email: '',
-    username: '',
-    gender: 'male',
-    phone: '',
-    cell: '',
-    streetNumber: '',
-    streetName: '',
-    city: '',
-    state: '',
-    country: '',
-    postcode: '',
-  });
+const formatDraftTime = (savedAt: string) =>
+  new Date(savedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
 
-  const [errors, setErrors] = React.useState<FormErrors>({});
-  const [loading, setLoading] = React.useState(false);
+export default function CustomerModal({ open, onClose, customer, onSave, submitError }: CustomerModalProps) {
   const [error, setError] = React.useState<string | null>(null);
+  const [restoredDraft, setRestoredDraft] = React.useState<CustomerDraft | null>(null);
+  const [confirmingClose, setConfirmingClose] = React.useState(false);
+  // The draft the form currently holds. Autosave waits for it to be set so
+  // values left over from the last customer are never saved under this one.
+  const [draftSession, setDraftSession] = React.useState<string | null>(null);
 
   const isEditing = Boolean(customer);
+  const draftId = customer ? customer.login.uuid : NEW_CUSTOMER_ID;
+  const customFields = useCustomFields();
+  const schema = React.useMemo(
+    () =>
+      customerFormSchema({ requireUsername: !isEditing, customerId: customer?.login.uuid, customFields }),
+    [isEditing, customer, customFields],
+  );
+  const savedValues = React.useMemo(
+    () => (customer ? customerFormValuesFromUser(customer, customFields) : newCustomerFormValues(customFields)),
+    [customer, customFields],
+  );
+  const form = useForm<CustomerFormValues>({ initialValues: emptyCustomerFormValues, schema });
+  const { reset, setErrors, setValues, values, isDirty } = form;
 
   React.useEffect(() => {
-    if (customer) {
-      // Populate form with customer data for editing
-      setFormData({
-        title: customer.name.title || '',
-        firstName: customer.name.first || '',
-        lastName: customer.name.last || '',
-        email: customer.email || '',
-        username: customer.login.username || '',
-        gender: customer.gender || 'male',
-        phone: customer.phone || '',
-        cell: customer.cell || '',
-        streetNumber: customer.location.street?.number?.toString() || '',
-        streetName: customer.location.street?.name || '',
-        city: customer.location.city || '',
-        state: customer.location.state || '',
-        country: customer.location.country || '',
-        postcode: customer.location.postcode || '',
-      });
-    } else {
-      // Reset form for new customer
-      setFormData({
-        title: 'Mr',
-        firstName: '',
-        lastName: '',
-        email: '',
-        username: '',
-        gender: 'male',
-        phone: '',
-        cell: '',
-        streetNumber: '',
-        streetName: '',
-        city: '',
-        state: '',
-        country: '',
-        postcode: '',
-      });
+    if (!open) {
+      setDraftSession(null);
+      return;
     }
-    setErrors({});
-    setError(null);
-  }, [customer, open]);
 
-  const validateForm = (): boolean => {
-    const newErrors: FormErrors = {};
+    setConfirmingClose(false);
+    setDraftSession(draftId);
 
-    if (!formData.firstName.trim()) {
-      newErrors.firstName = 'First name is required';
+    if (submitError) {
+      // Reopened after a failed save: keep the typed values.
+      setErrors(submitError instanceof ApiError ? submitError.fieldErrors : {});
+      setError(getErrorMessage(submitError, 'Failed to save customer'));
+      return;
     }
 
-    if (!formData.lastName.trim()) {
-      newErrors.lastName = 'Last name is required';
+    reset(savedValues);
+    const draft = loadCustomerDraft(draftId, savedValues);
+    if (draft) {
+      setValues(draft.values);
     }
+    setRestoredDraft(draft);
+    setError(null);
+  }, [draftId, open, savedValues, submitError, reset, setErrors, setValues]);
 
-    if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
-    } else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.email)) {
-      newErrors.email = 'Please enter a valid email address';
+  // Save once typing pauses; a form back at its saved values needs no draft.
+  const settledValues = useDebouncedValue(values, DRAFT_AUTOSAVE_MS);
+  React.useEffect(() => {
+    if (!open || draftSession !== draftId || settledValues !== values) {
+      return;
     }
-
-    if (!isEditing && !formData.username.trim()) {
-      newErrors.username = 'Username is required';
+    if (isDirty) {
+      saveCustomerDraft(draftId, values);
+    } else {
+      clearCustomerDraft(draftId);
     }
+  }, [draftId, draftSession, isDirty, open, settledValues, values]);
 
-    if (formData.phone && !/^\d{10,15}$/.test(formData.phone.replace(/\D/g, ''))) {
-      newErrors.phone = 'Please enter a valid phone number';
+  const handleSubmit = form.handleSubmit((submitted) => {
+    clearCustomerDraft(draftId);
+    if (isEditing && customer) {
+      onSave({ type: 'update', customer, data: updateRequestFromForm(submitted, customFields) });
+    } else {
+      // You might want to make the initial password configurable
+      onSave({
+        type: 'create',
+        data: createRequestFromForm(submitted, 'defaultPassword123', customFields),
+        phones: phoneRequestFromForm(submitted),
+      });
     }
+  });
 
-    if (formData.streetNumber && !/^\d+$/.test(formData.streetNumber)) {
-      newErrors.streetNumber = 'Street number must be a number';
+  // Backdrop clicks, Escape, the close icon and Cancel all come through here.
+  const handleClose = () => {
+    if (isDirty) {
+      setConfirmingClose(true);
+    } else {
+      onClose();
     }
-
-    setErrors(newErrors);
-    return Object.keys(newErrors).length === 0;
   };
 
-  const handleInputChange = (field: keyof FormData) => (
-    event: React.ChangeEvent<HTMLInputElement>
-  ) => {
-    setFormData(prev => ({
-      ...prev,
-      [field]: event.target.value,
-    }));
-    
-    // Clear error for this field when user starts typing
-    if (errors[field as keyof FormErrors]) {
-      setErrors(prev => ({
-        ...prev,
-        [field]: undefined,
-      }));
-    }
+  const handleKeepDraft = () => {
+    saveCustomerDraft(draftId, values);
+    setConfirmingClose(false);
+    onClose();
   };
 
-  const handleSubmit = async () => {
-    if (!validateForm()) {
-      return;
-    }
-
-    setLoading(true);
-    setError(null);
-
-    try {
-      if (isEditing && customer) {
-        // Update existing customer
-        const updateData: UpdateUserRequest = {
-          name: {
-            title: formData.title,
-            first: formData.firstName,
-            last: formData.lastName,
-          },
-          email: formData.email,
-          gender: formData.gender,
-          phone: formData.phone,
-          cell: formData.cell,
-          location: {
-            street: {
-              number: formData.streetNumber ? parseInt(formData.streetNumber, 10) : undefined,
-              name: formData.streetName,
-            },
-            city: formData.city,
-            state: formData.state,
-            country: formData.country,
-            postcode: formData.postcode,
-          },
-        };
-
-        await usersApiService.updateUser(customer.login.uuid, updateData);
-      } else {
-        // Create new customer
-        const createData: CreateUserRequest = {
-          email: formData.email,
-          login: {
-            username: formData.username,
-            password: 'defaultPassword123', // You might want to make this configurable
-          },
-          name: {
-            title: formData.title,
-            first: formData.firstName,
-            last: formData.lastName,
-          },
-          gender: formData.gender,
-          location: {
-            street: {
-              number: formData.streetNumber ? parseInt(formData.streetNumber, 10) : 0,
-              name: formData.streetName,
-            },
-            city: formData.city,
-            state: formData.state,
-            country: formData.country,
-            postcode: formData.postcode,
-          },
-        };
-
-        await usersApiService.createUser(createData);
-      }
-
-      onSave();
-      onClose();
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to save customer');
-    } finally {
-      setLoading(false);
-    }
+  const handleDiscard = () => {
+    clearCustomerDraft(draftId);
+    reset(savedValues);
+    setConfirmingClose(false);
+    onClose();
   };
 
-  const handleClose = () => {
-    if (!loading) {
-      onClose();
-    }
+  const handleDiscardRestoredDraft = () => {
+    clearCustomerDraft(draftId);
+    reset(savedValues);
+    setRestoredDraft(null);
   };
 
-  const getInitials = () => {
-    return `${formData.firstName.charAt(0)}${formData.lastName.charAt(0)}`.toUpperCase();
-  };
+  const gender = form.register('gender');
+  const country = form.register('location.country');
+  const addressFormat = getAddressFormat(values.location.country);
+  const phoneCountry = countryCode(values.location.country);
+  // Keep a field the country doesn't use visible while it still holds data.
+  const showRegion = Boolean(addressFormat.region || values.location.state);
+  const showPostcode = Boolean(addressFormat.postcode || values.location.postcode);
 
   return (
     <Dialog
@@ -273,7 +196,7 @@ export default function CustomerModal({ open, onClose, customer, onSave }: Custo
           <Typography variant="h6">
             {isEditing ? 'Edit Customer' : 'Add New Customer'}
           </Typography>
-          <IconButton onClick={handleClose} disabled={loading}>
+          <IconButton onClick={handleClose}>
             <CloseIcon />
           </IconButton>
         </Stack>
@@ -285,212 +208,263 @@ export default function CustomerModal({ open, onClose, customer, onSave }: Custo
             {error}
           </Alert>
         )}
-
-        <Box sx={{ mb: 3, textAlign: 'center' }}>
-          <Avatar
-            src={customer?.picture?.large}
-            sx={{ width: 80, height: 80, mx: 'auto', mb: 1 }}
+        {restoredDraft && !error && (
+          <Alert
+            severity="info"
+            sx={{ mb: 2 }}
+            action={
+              <Button color="inherit" size="small" onClick={handleDiscardRestoredDraft}>
+                Discard draft
+              </Button>
+            }
           >
-            {formData.firstName && formData.lastName ? getInitials() : <PersonIcon />}
-          </Avatar>
-          <Typography variant="body2" color="text.secondary">
-            {isEditing ? 'Customer Profile' : 'New Customer'}
-          </Typography>
+            Restored unsaved changes from {formatDraftTime(restoredDraft.savedAt)}.
+          </Alert>
+        )}
+
+        <Box sx={{ mb: 3 }}>
+          <CustomerAvatarUpload
+            picture={values.picture}
+            name={values.name}
+            onChange={(picture) => form.setValue('picture', picture)}
+          />
         </Box>
 
         <Grid container spacing={3}>
-          <Grid item xs={12} md={6}>
+          <Grid size={{ xs: 12, md: 6 }}>
             <Typography variant="h6" gutterBottom>
               Personal Information
             </Typography>
             
             <Grid container spacing={2}>
-              <Grid item xs={4}>
+              <Grid size={4}>
                 <TextField
                   fullWidth
                   label="Title"
-                  value={formData.title}
-                  onChange={handleInputChange('title')}
+                  {...form.register('name.title')}
                   size="small"
                 />
               </Grid>
-              <Grid item xs={4}>
+              <Grid size={4}>
                 <TextField
                   fullWidth
                   label="First Name"
-                  value={formData.firstName}
-                  onChange={handleInputChange('firstName')}
-                  error={Boolean(errors.firstName)}
-                  helperText={errors.firstName}
+                  {...form.register('name.first')}
                   required
                   size="small"
                 />
               </Grid>
-              <Grid item xs={4}>
+              <Grid size={4}>
                 <TextField
                   fullWidth
                   label="Last Name"
-                  value={formData.lastName}
-                  onChange={handleInputChange('lastName')}
-                  error={Boolean(errors.lastName)}
-                  helperText={errors.lastName}
+                  {...form.register('name.last')}
                   required
                   size="small"
                 />
               </Grid>
-              <Grid item xs={12}>
+              <Grid size={12}>
                 <TextField
                   fullWidth
                   label="Email"
                   type="email"
-                  value={formData.email}
-                  onChange={handleInputChange('email')}
-                  error={Boolean(errors.email)}
-                  helperText={errors.email}
+                  {...form.register('email')}
                   required
                   size="small"
                 />
               </Grid>
               {!isEditing && (
-                <Grid item xs={12}>
+                <Grid size={12}>
                   <TextField
                     fullWidth
                     label="Username"
-                    value={formData.username}
-                    onChange={handleInputChange('username')}
-                    error={Boolean(errors.username)}
-                    helperText={errors.username}
+                    {...form.register('login.username')}
                     required
                     size="small"
                   />
                 </Grid>
               )}
-              <Grid item xs={12}>
+              <Grid size={12}>
                 <FormControl component="fieldset">
                   <FormLabel component="legend">Gender</FormLabel>
                   <RadioGroup
                     row
-                    value={formData.gender}
-                    onChange={handleInputChange('gender')}
+                    value={gender.value}
+                    onChange={gender.onChange}
                   >
                     <FormControlLabel value="male" control={<Radio />} label="Male" />
                     <FormControlLabel value="female" control={<Radio />} label="Female" />
                   </RadioGroup>
                 </FormControl>
               </Grid>
-              <Grid item xs={6}>
-                <TextField
+              <Grid size={12}>
+                <CrmPhoneField
                   fullWidth
                   label="Phone"
-                  value={formData.phone}
-                  onChange={handleInputChange('phone')}
-                  error={Boolean(errors.phone)}
-                  helperText={errors.phone}
+                  {...form.register('phone')}
+                  defaultCountry={phoneCountry}
                   size="small"
                 />
               </Grid>
-              <Grid item xs={6}>
-                <TextField
+              <Grid size={12}>
+                <CrmPhoneField
                   fullWidth
                   label="Cell Phone"
-                  value={formData.cell}
-                  onChange={handleInputChange('cell')}
+                  {...form.register('cell')}
+                  defaultCountry={phoneCountry}
                   size="small"
                 />
               </Grid>
             </Grid>
           </Grid>
 
-          <Grid item xs={12} md={6}>
+          <Grid size={{ xs: 12, md: 6 }}>
             <Typography variant="h6" gutterBottom>
               Address Information
             </Typography>
             
             <Grid container spacing={2}>
-              <Grid item xs={4}>
+              <Grid size={12}>
+                <Autocomplete
+                  freeSolo
+                  options={countryNames}
+                  inputValue={country.value}
+                  onInputChange={(_event, value) => country.onChange({ target: { value } })}
+                  onBlur={country.onBlur}
+                  renderInput={(params) => (
+                    <TextField
+                      {...params}
+                      label="Country"
+                      error={country.error}
+                      helperText={country.helperText}
+                      size="small"
+                    />
+                  )}
+                />
+              </Grid>
+              <Grid size={4}>
                 <TextField
                   fullWidth
                   label="Street Number"
-                  value={formData.streetNumber}
-                  onChange={handleInputChange('streetNumber')}
-                  error={Boolean(errors.streetNumber)}
-                  helperText={errors.streetNumber}
+                  {...form.register('location.street.number')}
                   size="small"
                 />
               </Grid>
-              <Grid item xs={8}>
+              <Grid size={8}>
                 <TextField
                   fullWidth
                   label="Street Name"
-                  value={formData.streetName}
-                  onChange={handleInputChange('streetName')}
-                  error={Boolean(errors.streetName)}
-                  helperText={errors.streetName}
+                  {...form.register('location.street.name')}
                   size="small"
                 />
               </Grid>
-              <Grid item xs={6}>
+              <Grid size={showRegion ? 6 : 12}>
                 <TextField
                   fullWidth
                   label="City"
-                  value={formData.city}
-                  onChange={handleInputChange('city')}
-                  error={Boolean(errors.city)}
-                  helperText={errors.city}
+                  {...form.register('location.city')}
                   size="small"
                 />
               </Grid>
-              <Grid item xs={6}>
-                <TextField
-                  fullWidth
-                  label="State/Province"
-                  value={formData.state}
-                  onChange={handleInputChange('state')}
-                  error={Boolean(errors.state)}
-                  helperText={errors.state}
-                  size="small"
-                />
-              </Grid>
-              <Grid item xs={6}>
-                <TextField
-                  fullWidth
-                  label="Country"
-                  value={formData.country}
-                  onChange={handleInputChange('country')}
-                  error={Boolean(errors.country)}
-                  helperText={errors.country}
-                  size="small"
-                />
-              </Grid>
-              <Grid item xs={6}>
+              {showRegion && (
+                <Grid size={6}>
+                  <TextField
+                    fullWidth
+                    label={addressFormat.region?.label ?? 'State/Province'}
+                    {...form.register('location.state')}
+                    size="small"
+                  />
+                </Grid>
+              )}
+              {showPostcode && (
+                <Grid size={6}>
+                  <TextField
+                    fullWidth
+                    label={addressFormat.postcode?.label ?? 'Postal Code'}
+                    placeholder={addressFormat.postcode?.example}
+                    {...form.register('location.postcode')}
+                    size="small"
+                  />
+                </Grid>
+              )}
+            </Grid>
+          </Grid>
+
+          <Grid size={12}>
+            <Typography variant="h6" gutterBottom>
+              Tags
+            </Typography>
+
+            <Autocomplete
+              multiple
+              freeSolo
+              size="small"
+              options={SUGGESTED_CUSTOMER_TAGS}
+              value={values.tags}
+              onChange={(_event, tags) =>
+                form.setValue('tags', Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean))))
+              }
+              renderInput={(params) => (
                 <TextField
-                  fullWidth
-                  label="Postal Code"
-                  value={formData.postcode}
-                  onChange={handleInputChange('postcode')}
-                  error={Boolean(errors.postcode)}
-                  helperText={errors.postcode}
-                  size="small"
+                  {...params}
+                  label="Tags"
+                  placeholder="Add a tag"
+                  helperText="Tags decide which segments the customer is in."
                 />
+              )}
+            />
+          </Grid>
+
+          {customFields.length > 0 && (
+            <Grid size={12}>
+              <Typography variant="h6" gutterBottom>
+                Additional Information
+              </Typography>
+
+              <Grid container spacing={2}>
+                {customFields.map((definition) => (
+                  <Grid key={definition.id} size={{ xs: 12, sm: 6, md: 4 }}>
+                    <CustomerCustomFieldInput
+                      definition={definition}
+                      field={form.register(`custom.${definition.id}`)}
+                    />
+                  </Grid>
+                ))}
               </Grid>
             </Grid>
-          </Grid>
+          )}
         </Grid>
       </DialogContent>
 
       <DialogActions sx={{ p: 2 }}>
-        <Button onClick={handleClose} disabled={loading}>
+        <Button onClick={handleClose}>
           Cancel
         </Button>
-        <Button
-          onClick={handleSubmit}
-          variant="contained"
-          disabled={loading}
-          startIcon={loading ? <CircularProgress size={16} /> : undefined}
-        >
-          {loading ? 'Saving...' : isEditing ? 'Update Customer' : 'Add Customer'}
+        <Button onClick={handleSubmit} variant="contained" disabled={form.isSubmitting}>
+          {isEditing ? 'Update Customer' : 'Add Customer'}
         </Button>
       </DialogActions>
+
+      <Dialog open={confirmingClose} onClose={() => setConfirmingClose(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>Discard changes?</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            {isEditing
+              ? 'This customer has unsaved changes.'
+              : 'This new customer hasn\'t been saved yet.'}{' '}
+            Keep them as a draft to finish later, or discard them.
+          </Typography>
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setConfirmingClose(false)}>Keep Editing</Button>
+          <Button color="error" onClick={handleDiscard}>
+            Discard
+          </Button>
+          <Button variant="contained" onClick={handleKeepDraft}>
+            Save Draft
+          </Button>
+        </DialogActions>
+      </Dialog>
     </Dialog>
   );
 }
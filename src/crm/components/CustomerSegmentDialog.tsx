@@ -0,0 +1,225 @@
+import * as React from 'react';
+import Autocomplete from '@mui/material/Autocomplete';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import FormLabel from '@mui/material/FormLabel';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import Typography from '@mui/material/Typography';
+import {
+  AGE_RANGES,
+  AgeRange,
+  CustomerSegment,
+  SUGGESTED_CUSTOMER_TAGS,
+  compactSegmentRules,
+  createSegmentId,
+} from '../services/customerSegments';
+import { addressFormats } from '../../shared-form/addressFormats';
+import { defineFormSchema } from '../../shared-form/schema';
+import { useForm } from '../../shared-form/useForm';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { useSegmentCount } from '../hooks/useCustomerSegments';
+
+interface CustomerSegmentDialogProps {
+  open: boolean;
+  /** The segment being edited; `null` creates a new one. */
+  segment: CustomerSegment | null;
+  segments: CustomerSegment[];
+  onClose: () => void;
+  onSave: (segment: CustomerSegment) => void;
+  onDelete: (segment: CustomerSegment) => void;
+}
+
+interface SegmentFormValues {
+  name: string;
+  ageRanges: AgeRange[];
+  countries: string[];
+  genders: string[];
+  registeredFrom: string;
+  registeredTo: string;
+  tags: string[];
+}
+
+const emptyValues: SegmentFormValues = {
+  name: '',
+  ageRanges: [],
+  countries: [],
+  genders: [],
+  registeredFrom: '',
+  registeredTo: '',
+  tags: [],
+};
+
+const countryNames = addressFormats.map((format) => format.name);
+
+const COUNT_DEBOUNCE_MS = 300;
+
+const rulesFromValues = ({ name: _name, ...rules }: SegmentFormValues) => compactSegmentRules(rules);
+
+/** Builds a segment's rules, showing how many customers match as they change. */
+export default function CustomerSegmentDialog({
+  open,
+  segment,
+  segments,
+  onClose,
+  onSave,
+  onDelete,
+}: CustomerSegmentDialogProps) {
+  const schema = React.useMemo(
+    () =>
+      defineFormSchema<SegmentFormValues>({
+        name: {
+          required: 'Name is required',
+          validate: (name) =>
+            segments.some(
+              (other) => other.id !== segment?.id && other.name.trim().toLowerCase() === name.trim().toLowerCase(),
+            )
+              ? 'Another segment already has this name'
+              : undefined,
+        },
+        registeredTo: {
+          validate: (to, values) =>
+            to && values.registeredFrom && to < values.registeredFrom
+              ? 'Must be on or after the start date'
+              : undefined,
+        },
+      }),
+    [segment, segments],
+  );
+  const form = useForm<SegmentFormValues>({ initialValues: emptyValues, schema });
+  const { reset, values } = form;
+
+  React.useEffect(() => {
+    if (!open) return;
+    reset(segment ? { ...emptyValues, name: segment.name, ...segment.rules } : emptyValues);
+  }, [open, segment, reset]);
+
+  const rules = React.useMemo(() => rulesFromValues(values), [values]);
+  const previewRules = useDebouncedValue(rules, COUNT_DEBOUNCE_MS);
+  const { count } = useSegmentCount({ id: '', name: '', rules: previewRules }, { enabled: open });
+
+  const handleSubmit = form.handleSubmit((submitted) => {
+    onSave({
+      id: segment?.id ?? createSegmentId(submitted.name, segments),
+      name: submitted.name.trim(),
+      rules: rulesFromValues(submitted),
+    });
+  });
+
+  const registeredFrom = form.register('registeredFrom');
+  const registeredTo = form.register('registeredTo');
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>{segment ? 'Edit Segment' : 'New Segment'}</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2.5}>
+          <TextField fullWidth size="small" label="Name" required autoFocus {...form.register('name')} />
+
+          <Stack spacing={1}>
+            <FormLabel>Age</FormLabel>
+            <ToggleButtonGroup
+              size="small"
+              value={values.ageRanges}
+              onChange={(_event, ageRanges: AgeRange[]) => form.setValue('ageRanges', ageRanges)}
+              aria-label="Age ranges"
+            >
+              {AGE_RANGES.map((range) => (
+                <ToggleButton key={range.label} value={range.label} sx={{ px: 1.5 }}>
+                  {range.label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Stack>
+
+          <Stack spacing={1}>
+            <FormLabel>Gender</FormLabel>
+            <ToggleButtonGroup
+              size="small"
+              value={values.genders}
+              onChange={(_event, genders: string[]) => form.setValue('genders', genders)}
+              aria-label="Genders"
+            >
+              <ToggleButton value="male" sx={{ px: 2 }}>
+                Male
+              </ToggleButton>
+              <ToggleButton value="female" sx={{ px: 2 }}>
+                Female
+              </ToggleButton>
+            </ToggleButtonGroup>
+          </Stack>
+
+          <Autocomplete
+            multiple
+            freeSolo
+            size="small"
+            options={countryNames}
+            value={values.countries}
+            onChange={(_event, countries) => form.setValue('countries', Array.from(new Set(countries)))}
+            renderInput={(params) => <TextField {...params} label="Countries" placeholder="Any country" />}
+          />
+
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label="Registered from"
+              {...registeredFrom}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+            <TextField
+              fullWidth
+              size="small"
+              type="date"
+              label="Registered to"
+              {...registeredTo}
+              slotProps={{ inputLabel: { shrink: true } }}
+            />
+          </Stack>
+
+          <Autocomplete
+            multiple
+            freeSolo
+            size="small"
+            options={SUGGESTED_CUSTOMER_TAGS}
+            value={values.tags}
+            onChange={(_event, tags) =>
+              form.setValue('tags', Array.from(new Set(tags.map((tag) => tag.trim()).filter(Boolean))))
+            }
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                label="Tags"
+                placeholder="Any tag"
+                helperText="Customers with any of these tags"
+              />
+            )}
+          />
+
+          <Typography variant="body2" color="text.secondary">
+            {count === undefined
+              ? 'Counting matching customers…'
+              : `${count.toLocaleString()} ${count === 1 ? 'customer matches' : 'customers match'}`}
+          </Typography>
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        {segment && (
+          <Button color="error" onClick={() => onDelete(segment)} sx={{ mr: 'auto' }}>
+            Delete
+          </Button>
+        )}
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSubmit}>
+          {segment ? 'Save Segment' : 'Create Segment'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
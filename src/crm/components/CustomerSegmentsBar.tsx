@@ -0,0 +1,101 @@
+import * as React from 'react';
+import Chip from '@mui/material/Chip';
+import Stack from '@mui/material/Stack';
+import Tooltip from '@mui/material/Tooltip';
+import AddIcon from '@mui/icons-material/Add';
+import EditIcon from '@mui/icons-material/Edit';
+import {
+  CustomerSegment,
+  describeSegmentRules,
+  saveCustomerSegments,
+} from '../services/customerSegments';
+import { useCustomerSegments, useSegmentCount } from '../hooks/useCustomerSegments';
+import { useCrmSnackbar } from './CrmSnackbarProvider';
+import CustomerSegmentDialog from './CustomerSegmentDialog';
+
+interface CustomerSegmentsBarProps {
+  /** id of the selected segment; `null` shows all customers. */
+  selectedId: string | null;
+  onSelect: (segmentId: string | null) => void;
+}
+
+interface SegmentChipProps {
+  segment: CustomerSegment | null;
+  selected: boolean;
+  onClick: () => void;
+  onEdit?: () => void;
+}
+
+function SegmentChip({ segment, selected, onClick, onEdit }: SegmentChipProps) {
+  const { count } = useSegmentCount(segment);
+  const name = segment?.name ?? 'All customers';
+
+  return (
+    <Tooltip title={segment ? describeSegmentRules(segment.rules) : ''}>
+      <Chip
+        label={count === undefined ? name : `${name} (${count.toLocaleString()})`}
+        color={selected ? 'primary' : 'default'}
+        variant={selected ? 'filled' : 'outlined'}
+        onClick={onClick}
+        onDelete={onEdit}
+        deleteIcon={onEdit ? <EditIcon aria-label={`Edit ${name}`} /> : undefined}
+        aria-pressed={selected}
+      />
+    </Tooltip>
+  );
+}
+
+/** Chips above the customers table that narrow it to a saved segment, with live member counts. */
+export default function CustomerSegmentsBar({ selectedId, onSelect }: CustomerSegmentsBarProps) {
+  const segments = useCustomerSegments();
+  const { showSnackbar } = useCrmSnackbar();
+  const [editing, setEditing] = React.useState<CustomerSegment | 'new' | null>(null);
+
+  const handleSave = (saved: CustomerSegment) => {
+    const exists = segments.some((segment) => segment.id === saved.id);
+    saveCustomerSegments(
+      exists ? segments.map((segment) => (segment.id === saved.id ? saved : segment)) : [...segments, saved],
+    );
+    setEditing(null);
+    onSelect(saved.id);
+    showSnackbar({ message: `${saved.name} ${exists ? 'updated' : 'created'}`, severity: 'success' });
+  };
+
+  const handleDelete = (deleted: CustomerSegment) => {
+    saveCustomerSegments(segments.filter((segment) => segment.id !== deleted.id));
+    setEditing(null);
+    if (selectedId === deleted.id) onSelect(null);
+    showSnackbar({ message: `${deleted.name} deleted`, severity: 'success' });
+  };
+
+  return (
+    <Stack direction="row" sx={{ flexWrap: 'wrap', gap: 1 }} role="toolbar" aria-label="Customer segments">
+      <SegmentChip segment={null} selected={selectedId === null} onClick={() => onSelect(null)} />
+      {segments.map((segment) => (
+        <SegmentChip
+          key={segment.id}
+          segment={segment}
+          selected={segment.id === selectedId}
+          onClick={() => onSelect(segment.id === selectedId ? null : segment.id)}
+          onEdit={segment.id === selectedId ? () => setEditing(segment) : undefined}
+        />
+      ))}
+      <Chip
+        icon={<AddIcon />}
+        label="New segment"
+        variant="outlined"
+        onClick={() => setEditing('new')}
+        sx={{ borderStyle: 'dashed' }}
+      />
+
+      <CustomerSegmentDialog
+        open={editing !== null}
+        segment={editing === 'new' ? null : editing}
+        segments={segments}
+        onClose={() => setEditing(null)}
+        onSave={handleSave}
+        onDelete={handleDelete}
+      />
+    </Stack>
+  );
+}
@@ -0,0 +1,83 @@
+import * as React from 'react';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import Radio from '@mui/material/Radio';
+import RadioGroup from '@mui/material/RadioGroup';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import { CustomerView, CustomerViewScope } from '../services/customerViews';
+import { defineFormSchema } from '../../shared-form/schema';
+import { useForm } from '../../shared-form/useForm';
+
+interface CustomerViewDialogProps {
+  open: boolean;
+  /** The view being renamed; `null` saves the current layout as a new view. */
+  view: CustomerView | null;
+  views: CustomerView[];
+  onClose: () => void;
+  onSave: (details: { name: string; scope: CustomerViewScope }) => void;
+}
+
+interface ViewFormValues {
+  name: string;
+  scope: CustomerViewScope;
+}
+
+const emptyValues: ViewFormValues = { name: '', scope: 'personal' };
+
+export default function CustomerViewDialog({ open, view, views, onClose, onSave }: CustomerViewDialogProps) {
+  const schema = React.useMemo(
+    () =>
+      defineFormSchema<ViewFormValues>({
+        name: {
+          required: 'Name is required',
+          validate: (name) =>
+            views.some(
+              (other) => other.id !== view?.id && other.name.trim().toLowerCase() === name.trim().toLowerCase(),
+            )
+              ? 'Another view already has this name'
+              : undefined,
+        },
+      }),
+    [view, views],
+  );
+  const form = useForm<ViewFormValues>({ initialValues: emptyValues, schema });
+  const { reset } = form;
+
+  React.useEffect(() => {
+    if (!open) return;
+    reset(view ? { name: view.name, scope: view.scope } : emptyValues);
+  }, [open, view, reset]);
+
+  const handleSubmit = form.handleSubmit((values) => {
+    onSave({ name: values.name.trim(), scope: values.scope });
+  });
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{view ? 'Edit View' : 'Save View'}</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <TextField fullWidth size="small" label="Name" required autoFocus {...form.register('name')} />
+          <RadioGroup
+            value={form.values.scope}
+            onChange={(event) => form.setValue('scope', event.target.value as CustomerViewScope)}
+          >
+            <FormControlLabel value="personal" control={<Radio size="small" />} label="Only me" />
+            <FormControlLabel value="shared" control={<Radio size="small" />} label="Everyone on the team" />
+          </RadioGroup>
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ p: 2 }}>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={handleSubmit}>
+          {view ? 'Save' : 'Save View'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
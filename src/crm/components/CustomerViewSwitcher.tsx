@@ -0,0 +1,263 @@
+import * as React from 'react';
+import type { GridDensity } from '@mui/x-data-grid';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import Divider from '@mui/material/Divider';
+import ListItemIcon from '@mui/material/ListItemIcon';
+import ListItemText from '@mui/material/ListItemText';
+import ListSubheader from '@mui/material/ListSubheader';
+import Menu from '@mui/material/Menu';
+import MenuItem from '@mui/material/MenuItem';
+import Typography from '@mui/material/Typography';
+import ArrowDropDownIcon from '@mui/icons-material/ArrowDropDown';
+import CheckIcon from '@mui/icons-material/Check';
+import PeopleIcon from '@mui/icons-material/People';
+import StarIcon from '@mui/icons-material/Star';
+import ViewColumnIcon from '@mui/icons-material/ViewColumn';
+import {
+  CustomerView,
+  CustomerViewScope,
+  CustomerViewState,
+  createCustomerViewId,
+  getCustomerViews,
+  saveCustomerViews,
+  setDefaultCustomerView,
+} from '../services/customerViews';
+import { currentUser, teamMembers } from '../services/team';
+import { useCustomerViews } from '../hooks/useCustomerViews';
+import { useCrmSnackbar } from './CrmSnackbarProvider';
+import CustomerViewDialog from './CustomerViewDialog';
+
+interface CustomerViewSwitcherProps {
+  /** id of the applied view; `null` is the standard layout. */
+  activeViewId: string | null;
+  /** The grid no longer matches the applied view. */
+  modified: boolean;
+  density: GridDensity;
+  onDensityChange: (density: GridDensity) => void;
+  /** Reads the grid's current layout, filters, search and sort. */
+  captureState: () => CustomerViewState;
+  onApply: (view: CustomerView | null) => void;
+}
+
+const densityOptions: Array<{ value: GridDensity; label: string }> = [
+  { value: 'compact', label: 'Compact' },
+  { value: 'standard', label: 'Standard' },
+  { value: 'comfortable', label: 'Comfortable' },
+];
+
+const ownerName = (view: CustomerView) =>
+  view.ownerId === currentUser.id
+    ? 'You'
+    : (teamMembers.find((member) => member.id === view.ownerId)?.name ?? 'A teammate');
+
+/** The saved views menu in the customers card header. */
+export default function CustomerViewSwitcher({
+  activeViewId,
+  modified,
+  density,
+  onDensityChange,
+  captureState,
+  onApply,
+}: CustomerViewSwitcherProps) {
+  const { views, defaultViewId } = useCustomerViews();
+  const { showSnackbar } = useCrmSnackbar();
+  const [anchorEl, setAnchorEl] = React.useState<HTMLElement | null>(null);
+  const [editing, setEditing] = React.useState<CustomerView | 'new' | null>(null);
+  const [deleting, setDeleting] = React.useState<CustomerView | null>(null);
+
+  const activeView = views.find((view) => view.id === activeViewId) ?? null;
+  const ownsActiveView = activeView?.ownerId === currentUser.id;
+  const personalViews = views.filter((view) => view.scope === 'personal');
+  const sharedViews = views.filter((view) => view.scope === 'shared');
+
+  const closeMenu = () => setAnchorEl(null);
+
+  // Writes go through the full list so other reps' personal views are kept.
+  const replaceView = (updated: CustomerView) =>
+    saveCustomerViews(getCustomerViews().map((view) => (view.id === updated.id ? updated : view)));
+
+  const handleSelect = (view: CustomerView | null) => {
+    closeMenu();
+    onApply(view);
+  };
+
+  const handleSaveChanges = () => {
+    closeMenu();
+    if (!activeView) return;
+    replaceView({ ...activeView, state: captureState(), updatedAt: new Date().toISOString() });
+    showSnackbar({ message: `${activeView.name} saved`, severity: 'success' });
+  };
+
+  const handleSaveDetails = ({ name, scope }: { name: string; scope: CustomerViewScope }) => {
+    if (editing && editing !== 'new') {
+      replaceView({ ...editing, name, scope, updatedAt: new Date().toISOString() });
+      showSnackbar({ message: `${name} updated`, severity: 'success' });
+    } else {
+      const created: CustomerView = {
+        id: createCustomerViewId(),
+        name,
+        scope,
+        ownerId: currentUser.id,
+        state: captureState(),
+        updatedAt: new Date().toISOString(),
+      };
+      saveCustomerViews([...getCustomerViews(), created]);
+      onApply(created);
+      showSnackbar({ message: `${name} saved`, severity: 'success' });
+    }
+    setEditing(null);
+  };
+
+  const handleToggleDefault = () => {
+    closeMenu();
+    const makeDefault = activeViewId !== defaultViewId;
+    setDefaultCustomerView(currentUser.id, makeDefault ? activeViewId : null);
+    showSnackbar({
+      message: makeDefault
+        ? `${activeView?.name ?? 'Standard view'} opens by default`
+        : 'The standard view opens by default',
+      severity: 'success',
+    });
+  };
+
+  const handleDelete = () => {
+    if (!deleting) return;
+    saveCustomerViews(getCustomerViews().filter((view) => view.id !== deleting.id));
+    showSnackbar({ message: `${deleting.name} deleted`, severity: 'success' });
+    setDeleting(null);
+  };
+
+  const renderView = (view: CustomerView) => (
+    <MenuItem key={view.id} selected={view.id === activeViewId} onClick={() => handleSelect(view)}>
+      <ListItemIcon>{view.id === activeViewId && <CheckIcon fontSize="small" />}</ListItemIcon>
+      <ListItemText
+        primary={view.name}
+        secondary={view.scope === 'shared' ? `Shared by ${ownerName(view)}` : undefined}
+      />
+      {view.id === defaultViewId && <StarIcon fontSize="small" color="warning" sx={{ ml: 1 }} />}
+    </MenuItem>
+  );
+
+  return (
+    <>
+      <Button
+        size="small"
+        variant="text"
+        color="inherit"
+        startIcon={<ViewColumnIcon />}
+        endIcon={<ArrowDropDownIcon />}
+        onClick={(event) => setAnchorEl(event.currentTarget)}
+        aria-haspopup="menu"
+        aria-expanded={Boolean(anchorEl)}
+      >
+        {activeView?.name ?? 'Standard view'}
+        {modified && (
+          <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 0.75 }}>
+            (modified)
+          </Typography>
+        )}
+      </Button>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={Boolean(anchorEl)}
+        onClose={closeMenu}
+        slotProps={{ paper: { sx: { minWidth: 260 } } }}
+      >
+        <MenuItem selected={activeViewId === null} onClick={() => handleSelect(null)}>
+          <ListItemIcon>{activeViewId === null && <CheckIcon fontSize="small" />}</ListItemIcon>
+          <ListItemText primary="Standard view" />
+          {defaultViewId === null && <StarIcon fontSize="small" color="warning" sx={{ ml: 1 }} />}
+        </MenuItem>
+        {personalViews.length > 0 && <ListSubheader>My views</ListSubheader>}
+        {personalViews.map(renderView)}
+        {sharedViews.length > 0 && <ListSubheader>Shared views</ListSubheader>}
+        {sharedViews.map(renderView)}
+
+        <Divider />
+        <MenuItem onClick={handleSaveChanges} disabled={!ownsActiveView || !modified}>
+          Save changes
+        </MenuItem>
+        <MenuItem
+          onClick={() => {
+            closeMenu();
+            setEditing('new');
+          }}
+        >
+          Save as new view…
+        </MenuItem>
+        {ownsActiveView && activeView && (
+          <MenuItem
+            onClick={() => {
+              closeMenu();
+              setEditing(activeView);
+            }}
+          >
+            <ListItemText primary="Rename or share…" />
+            {activeView.scope === 'shared' && <PeopleIcon fontSize="small" color="action" sx={{ ml: 1 }} />}
+          </MenuItem>
+        )}
+        <MenuItem onClick={handleToggleDefault} disabled={activeViewId === null && defaultViewId === null}>
+          {activeViewId !== defaultViewId
+            ? 'Open this view by default'
+            : activeViewId
+              ? 'Stop opening by default'
+              : 'Opens by default'}
+        </MenuItem>
+        {ownsActiveView && activeView && (
+          <MenuItem
+            onClick={() => {
+              closeMenu();
+              setDeleting(activeView);
+            }}
+            sx={{ color: 'error.main' }}
+          >
+            Delete view
+          </MenuItem>
+        )}
+
+        <Divider />
+        <ListSubheader>Row density</ListSubheader>
+        {densityOptions.map((option) => (
+          <MenuItem
+            key={option.value}
+            selected={option.value === density}
+            onClick={() => onDensityChange(option.value)}
+          >
+            <ListItemIcon>{option.value === density && <CheckIcon fontSize="small" />}</ListItemIcon>
+            <ListItemText primary={option.label} />
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <CustomerViewDialog
+        open={editing !== null}
+        view={editing === 'new' ? null : editing}
+        views={views}
+        onClose={() => setEditing(null)}
+        onSave={handleSaveDetails}
+      />
+
+      <Dialog open={deleting !== null} onClose={() => setDeleting(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Delete {deleting?.name}?</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            {deleting?.scope === 'shared'
+              ? 'The view is removed for everyone on the team. Customers are not affected.'
+              : 'The view is removed. Customers are not affected.'}
+          </Typography>
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          <Button onClick={() => setDeleting(null)}>Cancel</Button>
+          <Button color="error" variant="contained" onClick={handleDelete}>
+            Delete
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,299 @@
+import * as React from 'react';
+import Autocomplete from '@mui/material/Autocomplete';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import LinearProgress from '@mui/material/LinearProgress';
+import List from '@mui/material/List';
+import ListItem from '@mui/material/ListItem';
+import ListItemText from '@mui/material/ListItemText';
+import Alert from '@mui/material/Alert';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import DeleteIcon from '@mui/icons-material/Delete';
+import DownloadIcon from '@mui/icons-material/Download';
+import PersonAddAlt1Icon from '@mui/icons-material/PersonAddAlt1';
+import LocalOfferIcon from '@mui/icons-material/LocalOffer';
+import PlaceIcon from '@mui/icons-material/Place';
+import CloseIcon from '@mui/icons-material/Close';
+import { User, UpdateUserRequest, usersApiService } from '../services/usersApi';
+import { getErrorMessage } from '../services/apiErrors';
+import { BatchItemResult, BatchProgress, runBatch } from '../services/batch';
+import { queryCache } from '../services/queryCache';
+import { customerKeys } from '../services/customerQueries';
+import { teamMembers } from '../services/team';
+import { SUGGESTED_CUSTOMER_TAGS } from '../services/customerSegments';
+import CustomerExportDialog from './CustomerExportDialog';
+
+type BulkAction = 'delete' | 'owner' | 'tag' | 'location';
+
+interface CustomersBulkActionsProps {
+  selected: User[];
+  onClearSelection: () => void;
+  /** Called with the uuids that were deleted, so they can be deselected. */
+  onDeleted: (uuids: string[]) => void;
+}
+
+const actionTitles: Record<BulkAction, string> = {
+  delete: 'Delete customers',
+  owner: 'Assign owner',
+  tag: 'Add tag',
+  location: 'Change country / state',
+};
+
+const fullName = (user: User) => `${user.name.first} ${user.name.last}`;
+
+/**
+ * Toolbar for the selected rows. It stays mounted with nothing selected, so
+ * the result report outlives a delete that deselects every row.
+ */
+export default function CustomersBulkActions({
+  selected,
+  onClearSelection,
+  onDeleted,
+}: CustomersBulkActionsProps) {
+  const [action, setAction] = React.useState<BulkAction | null>(null);
+  const [exportOpen, setExportOpen] = React.useState(false);
+  const [owner, setOwner] = React.useState('');
+  const [tag, setTag] = React.useState('');
+  const [country, setCountry] = React.useState('');
+  const [state, setState] = React.useState('');
+  const [progress, setProgress] = React.useState<BatchProgress | null>(null);
+  const [results, setResults] = React.useState<Array<BatchItemResult<User, unknown>> | null>(null);
+
+  const running = progress !== null && results === null;
+  const failures = results?.filter((result) => !result.ok) ?? [];
+
+  const existingTags = React.useMemo(
+    () => Array.from(new Set([...SUGGESTED_CUSTOMER_TAGS, ...selected.flatMap((user) => user.tags ?? [])])).sort(),
+    [selected],
+  );
+
+  const openAction = (nextAction: BulkAction) => {
+    setOwner('');
+    setTag('');
+    setCountry('');
+    setState('');
+    setProgress(null);
+    setResults(null);
+    setAction(nextAction);
+  };
+
+  const handleClose = () => {
+    if (!running) {
+      setAction(null);
+    }
+  };
+
+  const buildUpdate = (user: User): UpdateUserRequest => {
+    switch (action) {
+      case 'owner':
+        return { owner: owner.trim() };
+      case 'tag':
+        return { tags: Array.from(new Set([...(user.tags ?? []), tag.trim()])) };
+      case 'location':
+        return {
+          location: {
+            ...(country.trim() && { country: country.trim() }),
+            ...(state.trim() && { state: state.trim() }),
+          },
+        };
+      default:
+        return {};
+    }
+  };
+
+  const canRun =
+    action === 'delete' ||
+    (action === 'owner' && owner.trim() !== '') ||
+    (action === 'tag' && tag.trim() !== '') ||
+    (action === 'location' && (country.trim() !== '' || state.trim() !== ''));
+
+  const handleRun = async () => {
+    if (!action || !canRun) {
+      return;
+    }
+
+    const batchResults = await runBatch<User, unknown>(
+      selected,
+      (user) =>
+        action === 'delete'
+          ? usersApiService.deleteUser(user.login.uuid)
+          : usersApiService.updateUser(user.login.uuid, buildUpdate(user)),
+      { onProgress: setProgress },
+    );
+
+    setResults(batchResults);
+    queryCache.invalidate(customerKeys.all);
+
+    if (action === 'delete') {
+      onDeleted(batchResults.filter((result) => result.ok).map((result) => result.item.login.uuid));
+    }
+  };
+
+  const renderForm = () => {
+    switch (action) {
+      case 'delete':
+        return (
+          <Typography>
+            Permanently delete {selected.length} selected customer{selected.length === 1 ? '' : 's'}? This cannot be undone.
+          </Typography>
+        );
+      case 'owner':
+        return (
+          <Autocomplete
+            freeSolo
+            options={teamMembers.map((member) => member.name)}
+            inputValue={owner}
+            onInputChange={(_event, value) => setOwner(value)}
+            renderInput={(params) => <TextField {...params} label="Owner" size="small" autoFocus />}
+          />
+        );
+      case 'tag':
+        return (
+          <Autocomplete
+            freeSolo
+            options={existingTags}
+            inputValue={tag}
+            onInputChange={(_event, value) => setTag(value)}
+            renderInput={(params) => <TextField {...params} label="Tag" size="small" autoFocus />}
+          />
+        );
+      case 'location':
+        return (
+          <Stack spacing={2}>
+            <Typography variant="body2" color="text.secondary">
+              Leave a field empty to keep each customer's current value.
+            </Typography>
+            <TextField label="Country" size="small" value={country} onChange={(e) => setCountry(e.target.value)} autoFocus />
+            <TextField label="State/Province" size="small" value={state} onChange={(e) => setState(e.target.value)} />
+          </Stack>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const renderReport = () => {
+    if (!results) {
+      return null;
+    }
+
+    return (
+      <Stack spacing={2}>
+        <Alert severity={failures.length === 0 ? 'success' : 'warning'}>
+          {results.length - failures.length} of {results.length} customers{' '}
+          {action === 'delete' ? 'deleted' : 'updated'}
+          {failures.length > 0 && `; ${failures.length} failed`}.
+        </Alert>
+        {failures.length > 0 && (
+          <List dense sx={{ maxHeight: 240, overflow: 'auto' }}>
+            {failures.map((failure) => (
+              <ListItem key={failure.item.login.uuid} disableGutters>
+                <ListItemText
+                  primary={`${fullName(failure.item)} (${failure.item.email})`}
+                  secondary={getErrorMessage(failure.error, 'Unknown error')}
+                  secondaryTypographyProps={{ color: 'error' }}
+                />
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </Stack>
+    );
+  };
+
+  return (
+    <>
+      {selected.length > 0 && (
+        <Stack
+          direction="row"
+          alignItems="center"
+          spacing={1}
+          useFlexGap
+          flexWrap="wrap"
+          sx={{
+            mb: 2,
+            px: 1.5,
+            py: 1,
+            borderRadius: 1,
+            bgcolor: 'action.selected',
+          }}
+        >
+          <Typography variant="body2" sx={{ fontWeight: 500, mr: 1 }}>
+            {selected.length} selected
+          </Typography>
+          <Button size="small" startIcon={<DeleteIcon />} color="error" onClick={() => openAction('delete')}>
+            Delete
+          </Button>
+          <Button size="small" startIcon={<DownloadIcon />} onClick={() => setExportOpen(true)}>
+            Export
+          </Button>
+          <Button size="small" startIcon={<PersonAddAlt1Icon />} onClick={() => openAction('owner')}>
+            Assign Owner
+          </Button>
+          <Button size="small" startIcon={<LocalOfferIcon />} onClick={() => openAction('tag')}>
+            Add Tag
+          </Button>
+          <Button size="small" startIcon={<PlaceIcon />} onClick={() => openAction('location')}>
+            Change Location
+          </Button>
+          <Box sx={{ flexGrow: 1 }} />
+          <Button size="small" startIcon={<CloseIcon />} onClick={onClearSelection}>
+            Clear
+          </Button>
+        </Stack>
+      )}
+
+      <Dialog open={action !== null} onClose={handleClose} maxWidth="sm" fullWidth>
+        <DialogTitle>{action ? actionTitles[action] : ''}</DialogTitle>
+        <DialogContent dividers>
+          {results ? renderReport() : renderForm()}
+          {running && progress && (
+            <Box sx={{ mt: 3 }}>
+              <LinearProgress
+                variant="determinate"
+                value={progress.total === 0 ? 100 : (progress.completed / progress.total) * 100}
+              />
+              <Typography variant="caption" color="text.secondary">
+                {progress.completed} of {progress.total} processed
+                {progress.failed > 0 && ` (${progress.failed} failed)`}
+              </Typography>
+            </Box>
+          )}
+        </DialogContent>
+        <DialogActions sx={{ p: 2 }}>
+          {results ? (
+            <Button onClick={handleClose} variant="contained">
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button onClick={handleClose} disabled={running}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleRun}
+                variant="contained"
+                color={action === 'delete' ? 'error' : 'primary'}
+                disabled={running || !canRun}
+              >
+                {action === 'delete' ? 'Delete' : 'Apply'} to {selected.length}
+              </Button>
+            </>
+          )}
+        </DialogActions>
+      </Dialog>
+
+      <CustomerExportDialog
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+        source={{ kind: 'customers', customers: selected, filenameBase: 'customers-selected' }}
+      />
+    </>
+  );
+}
@@ -4,7 +4,14 @@ import {
   GridColDef,
   GridActionsCellItem,
   GridRenderCellParams,
-  GridValueGetterParams,
+  GridPaginationModel,
+  GridRowSelectionModel,
+  GridSortModel,
+  GridFilterModel,
+  GridColumnVisibilityModel,
+  GridDensity,
+  GRID_CHECKBOX_SELECTION_FIELD,
+  useGridApiRef,
 } from '@mui/x-data-grid';
 import Box from '@mui/material/Box';
 import Card from '@mui/material/Card';
@@ -17,97 +24,285 @@ import Stack from '@mui/material/Stack';
 import Button from '@mui/material/Button';
 import IconButton from '@mui/material/IconButton';
 import InputAdornment from '@mui/material/InputAdornment';
+import Link from '@mui/material/Link';
+import VisibilityIcon from '@mui/icons-material/Visibility';
 import EditIcon from '@mui/icons-material/Edit';
 import DeleteIcon from '@mui/icons-material/Delete';
 import SearchIcon from '@mui/icons-material/Search';
 import RefreshIcon from '@mui/icons-material/Refresh';
 import AddIcon from '@mui/icons-material/Add';
-import { User, usersApiService } from '../services/usersApi';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+import DownloadIcon from '@mui/icons-material/Download';
+import MergeTypeIcon from '@mui/icons-material/MergeType';
+import { User } from '../services/usersApi';
+import { getErrorMessage } from '../services/apiErrors';
+import { queryCache } from '../services/queryCache';
+import { customersListQuery } from '../services/customerQueries';
+import {
+  DEFAULT_CUSTOMER_SORT,
+  filterModelToParams,
+  sortModelToParams,
+} from '../services/customerGridQuery';
+import { formatPhone } from '../../shared-form/phoneNumbers';
+import { countryCode } from '../../shared-form/addressFormats';
+import { getInitials } from '../services/customerAvatars';
+import {
+  CustomFieldDefinition,
+  customFieldPath,
+  formatCustomFieldValue,
+} from '../services/customFields';
+import { CustomerSegment, getAgeRange, segmentParams } from '../services/customerSegments';
+import { CustomerView, CustomerViewState, viewStatesEqual } from '../services/customerViews';
+import { useQuery } from '../hooks/useQuery';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { useCustomerViews } from '../hooks/useCustomerViews';
+import {
+  CUSTOMER_PAGE_SIZE_OPTIONS,
+  CustomersUrlState,
+  UpdateCustomersUrlOptions,
+} from '../hooks/useCustomersSearchParams';
+import CustomersBulkActions from './CustomersBulkActions';
+import CustomerViewSwitcher from './CustomerViewSwitcher';
+import CustomerExportDialog, { CustomerExportSource } from './CustomerExportDialog';
+import {
+  ageRangeFilterOperators,
+  countryFilterOperators,
+  customFieldFilterOperators,
+  genderFilterOperators,
+  registeredRangeFilterOperators,
+} from './CustomersGridFilters';
+
+export type CustomersListState = Pick<
+  CustomersUrlState,
+  'search' | 'page' | 'pageSize' | 'sortModel' | 'segment' | 'view'
+>;
 
 interface CustomersDataTableProps {
+  /** Search, paging, sort, segment and view, owned by the page so they can live in the URL. */
+  listState: CustomersListState;
+  onListStateChange: (
+    patch: Partial<CustomersListState>,
+    options?: UpdateCustomersUrlOptions,
+  ) => void;
+  /** The segment chosen above the table; only its customers are listed. */
+  segment?: CustomerSegment | null;
+  onViewCustomer: (customer: User) => void;
   onEditCustomer: (customer: User) => void;
   onAddCustomer: () => void;
+  onImportCustomers: () => void;
+  onFindDuplicates: () => void;
+  onDeleteCustomer: (customer: User) => void;
 }
 
-export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: CustomersDataTableProps) {
-  const [customers, setCustomers] = React.useState<User[]>([]);
-  const [loading, setLoading] = React.useState(false);
-  const [searchQuery, setSearchQuery] = React.useState('');
-  const [page, setPage] = React.useState(0);
-  const [pageSize, setPageSize] = React.useState(25);
-  const [total, setTotal] = React.useState(0);
-  const [error, setError] = React.useState<string | null>(null);
-
-  const fetchCustomers = React.useCallback(async (searchTerm = '', currentPage = 0, currentPageSize = 25) => {
-    setLoading(true);
-    setError(null);
-    
-    try {
-      const response = await usersApiService.getUsers({
-        page: currentPage + 1, // API uses 1-based pagination
-        perPage: currentPageSize,
-        search: searchTerm || undefined,
-        sortBy: 'name.first',
-      });
-      
-      setCustomers(response.data);
-      setTotal(response.total);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch customers');
-      console.error('Error fetching customers:', err);
-    } finally {
-      setLoading(false);
+const SEARCH_DEBOUNCE_MS = 300;
+
+const booleanValueOptions = [
+  { value: 'true', label: 'Yes' },
+  { value: 'false', label: 'No' },
+];
+
+function customFieldColumn(definition: CustomFieldDefinition): GridColDef {
+  const numeric = definition.type === 'number' || definition.type === 'currency';
+  const options =
+    definition.type === 'boolean'
+      ? { type: 'singleSelect' as const, valueOptions: booleanValueOptions }
+      : definition.type === 'select' || definition.type === 'multiselect'
+        ? { type: 'singleSelect' as const, valueOptions: definition.options ?? [] }
+        : {};
+
+  return {
+    field: customFieldPath(definition),
+    headerName: definition.label,
+    width: 150,
+    align: numeric ? 'right' : 'left',
+    headerAlign: numeric ? 'right' : 'left',
+    ...options,
+    filterOperators: customFieldFilterOperators(definition.type),
+    valueGetter: (_value, row: User) => row?.custom?.[definition.id] ?? null,
+    renderCell: (params: GridRenderCellParams<User>) => {
+      const value = params.row?.custom?.[definition.id];
+      if (definition.type === 'url' && typeof value === 'string' && value) {
+        return (
+          <Link href={value} target="_blank" rel="noopener noreferrer" variant="body2" noWrap>
+            {value.replace(/^https?:\/\//, '')}
+          </Link>
+        );
+      }
+      return <Typography variant="body2">{formatCustomFieldValue(definition, value)}</Typography>;
+    },
+  };
+}
+
+export default function CustomersDataTable({
+  listState,
+  onListStateChange,
+  segment = null,
+  onViewCustomer,
+  onEditCustomer,
+  onAddCustomer,
+  onImportCustomers,
+  onFindDuplicates,
+  onDeleteCustomer,
+}: CustomersDataTableProps) {
+  const { search, page, pageSize, sortModel } = listState;
+  const customFields = useCustomFields();
+  const [searchInput, setSearchInput] = React.useState(search);
+  const [filterModel, setFilterModel] = React.useState<GridFilterModel>({ items: [] });
+  const [density, setDensity] = React.useState<GridDensity>('standard');
+  // Column widths live in the grid; bumped on resize so `modified` is recomputed.
+  const [, setLayoutVersion] = React.useState(0);
+  const apiRef = useGridApiRef();
+
+  // Back/forward navigation changes the search underneath the input.
+  const [syncedSearch, setSyncedSearch] = React.useState(search);
+  if (syncedSearch !== search) {
+    setSyncedSearch(search);
+    if (search !== searchInput.trim()) {
+      setSearchInput(search);
     }
-  }, []);
+  }
 
-  React.useEffect(() => {
-    fetchCustomers(searchQuery, page, pageSize);
-  }, [fetchCustomers, searchQuery, page, pageSize]);
+  const filterParams = React.useMemo(() => filterModelToParams(filterModel), [filterModel]);
+  const debouncedSearch = useDebouncedValue(searchInput.trim(), SEARCH_DEBOUNCE_MS);
+  const debouncedFilters = useDebouncedValue(filterParams, SEARCH_DEBOUNCE_MS);
+  const [appliedFilters, setAppliedFilters] = React.useState(debouncedFilters);
 
-  const handleSearch = React.useCallback((query: string) => {
-    setSearchQuery(query);
-    setPage(0); // Reset to first page when searching
-  }, []);
+  // Apply the settled search together with a reset to the first page, so the
+  // stale page of the new result set is never requested. Typing replaces the
+  // history entry rather than adding one per keystroke.
+  const lastDebouncedSearch = React.useRef(debouncedSearch);
+  React.useEffect(() => {
+    if (lastDebouncedSearch.current === debouncedSearch) return;
+    lastDebouncedSearch.current = debouncedSearch;
 
-  const handleDeleteCustomer = async (customerId: string) => {
-    if (!window.confirm('Are you sure you want to delete this customer?')) {
-      return;
+    if (debouncedSearch !== search) {
+      onListStateChange({ search: debouncedSearch, page: 0 }, { replace: true });
     }
+  }, [debouncedSearch, search, onListStateChange]);
 
-    try {
-      await usersApiService.deleteUser(customerId);
-      // Refresh the data after deletion
-      fetchCustomers(searchQuery, page, pageSize);
-    } catch (err) {
-      console.error('Error deleting customer:', err);
-      setError(err instanceof Error ? err.message : 'Failed to delete customer');
+  React.useEffect(() => {
+    if (JSON.stringify(debouncedFilters) !== JSON.stringify(appliedFilters)) {
+      setAppliedFilters(debouncedFilters);
+      onListStateChange({ page: 0 }, { replace: true });
     }
+  }, [debouncedFilters, appliedFilters, onListStateChange]);
+
+  const paginationModel = React.useMemo<GridPaginationModel>(
+    () => ({ page, pageSize }),
+    [page, pageSize],
+  );
+
+  const queryParams = React.useMemo(
+    () =>
+      segmentParams(segment, {
+        page: page + 1, // API uses 1-based pagination
+        perPage: pageSize,
+        search: search || undefined,
+        ...sortModelToParams(sortModel),
+        ...appliedFilters,
+      }),
+    [page, pageSize, search, sortModel, appliedFilters, segment],
+  );
+
+  const handlePaginationModelChange = (model: GridPaginationModel) => {
+    onListStateChange({ page: model.page, pageSize: model.pageSize });
   };
 
-  const handleRefresh = () => {
-    fetchCustomers(searchQuery, page, pageSize);
+  const handleSortModelChange = (model: GridSortModel) => {
+    onListStateChange({ sortModel: model, page: 0 });
   };
 
-  const formatAddress = (location: User['location']) => {
-    return `${location.city}, ${location.state}, ${location.country}`;
+  const { data, error: queryError, isFetching, refetch } = useQuery({
+    ...customersListQuery(queryParams),
+    keepPreviousData: true,
+  });
+
+  const customers = data?.data ?? [];
+  const total = data?.total ?? 0;
+  const error = queryError ? getErrorMessage(queryError, 'Failed to fetch customers') : null;
+
+  React.useEffect(() => {
+    if (queryError) {
+      console.error('Error fetching customers:', queryError);
+    }
+  }, [queryError]);
+
+  // Warm the next page so paging forward doesn't wait on the network.
+  React.useEffect(() => {
+    if (data && !isFetching && queryParams.page * queryParams.perPage < data.total) {
+      const next = customersListQuery({ ...queryParams, page: queryParams.page + 1 });
+      queryCache.prefetch(next.queryKey, next.queryFn);
+    }
+  }, [data, isFetching, queryParams]);
+
+  // Selection spans pages, so keep the selected records themselves: rows on
+  // other pages aren't loaded but bulk actions still need them.
+  const [selectedById, setSelectedById] = React.useState<Map<string, User>>(new Map());
+
+  const rowSelectionModel = React.useMemo<GridRowSelectionModel>(
+    () => ({ type: 'include', ids: new Set(selectedById.keys()) }),
+    [selectedById],
+  );
+
+  const handleRowSelectionModelChange = (model: GridRowSelectionModel) => {
+    const isSelected = (uuid: string) =>
+      model.type === 'include' ? model.ids.has(uuid) : !model.ids.has(uuid);
+
+    setSelectedById((prev) => {
+      const next = new Map(prev);
+      customers.forEach((customer) => {
+        if (isSelected(customer.login.uuid)) {
+          next.set(customer.login.uuid, customer);
+        } else {
+          next.delete(customer.login.uuid);
+        }
+      });
+      return next;
+    });
   };
 
-  const formatPhoneNumber = (phone: string) => {
-    // Simple phone number formatting
-    return phone.replace(/(\d{3})(\d{3})(\d{4})/, '($1) $2-$3');
+  // Keep selected records current when their page is refetched after an edit.
+  React.useEffect(() => {
+    setSelectedById((prev) => {
+      if (!customers.some((customer) => prev.has(customer.login.uuid))) {
+        return prev;
+      }
+      const next = new Map(prev);
+      customers.forEach((customer) => {
+        if (next.has(customer.login.uuid)) {
+          next.set(customer.login.uuid, customer);
+        }
+      });
+      return next;
+    });
+  }, [customers]);
+
+  const handleDeselect = React.useCallback((uuids: string[]) => {
+    setSelectedById((prev) => {
+      const next = new Map(prev);
+      uuids.forEach((uuid) => next.delete(uuid));
+      return next;
+    });
+  }, []);
+
+  const [exportSource, setExportSource] = React.useState<CustomerExportSource | null>(null);
+
+  const handleExportAll = () => {
+    const { page: _page, perPage: _perPage, ...params } = queryParams;
+    setExportSource({ kind: 'query', params, total });
   };
 
-  const getInitials = (name: User['name']) => {
-    return `${name.first.charAt(0)}${name.last.charAt(0)}`.toUpperCase();
+  const handleSearch = React.useCallback((query: string) => {
+    setSearchInput(query);
+  }, []);
+
+  const handleRefresh = () => {
+    refetch();
   };
 
-  const getAgeRange = (age: number) => {
-    if (age < 25) return '18-24';
-    if (age < 35) return '25-34';
-    if (age < 45) return '35-44';
-    if (age < 55) return '45-54';
-    if (age < 65) return '55-64';
-    return '65+';
+  const formatAddress = (location: User['location']) => {
+    return `${location.city}, ${location.state}, ${location.country}`;
   };
 
   const getAgeRangeColor = (age: number): 'default' | 'primary' | 'secondary' | 'success' | 'warning' | 'info' => {
@@ -143,8 +338,8 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
       field: 'name',
       headerName: 'First Name',
       width: 150,
-      valueGetter: (params: GridValueGetterParams<User>) =>
-        params.row?.name?.first || '',
+      filterable: false,
+      valueGetter: (_value, row: User) => row?.name?.first || '',
       renderCell: (params: GridRenderCellParams<User>) => {
         if (!params.row?.name) return null;
         return (
@@ -163,8 +358,8 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
       field: 'lastName',
       headerName: 'Last Name',
       width: 120,
-      valueGetter: (params: GridValueGetterParams<User>) =>
-        params.row?.name?.last || '',
+      filterable: false,
+      valueGetter: (_value, row: User) => row?.name?.last || '',
       renderCell: (params: GridRenderCellParams<User>) => (
         <Typography variant="body2" sx={{ fontWeight: 500 }}>
           {params.row?.name?.last || 'N/A'}
@@ -175,6 +370,7 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
       field: 'email',
       headerName: 'Email',
       width: 250,
+      filterable: false,
       renderCell: (params: GridRenderCellParams<User>) => (
         <Typography variant="body2">{params.row?.email || 'N/A'}</Typography>
       ),
@@ -183,9 +379,11 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
       field: 'phone',
       headerName: 'Phone',
       width: 150,
+      sortable: false,
+      filterable: false,
       renderCell: (params: GridRenderCellParams<User>) => (
         <Typography variant="body2">
-          {params.row?.phone ? formatPhoneNumber(params.row.phone) : 'N/A'}
+          {params.row?.phone ? formatPhone(params.row.phone, countryCode(params.row.location?.country)) : 'N/A'}
         </Typography>
       ),
     },
@@ -193,8 +391,8 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
       field: 'location',
       headerName: 'Location',
       width: 200,
-      valueGetter: (params: GridValueGetterParams<User>) =>
-        params.row?.location ? formatAddress(params.row.location) : '',
+      filterOperators: countryFilterOperators,
+      valueGetter: (_value, row: User) => (row?.location ? formatAddress(row.location) : ''),
       renderCell: (params: GridRenderCellParams<User>) => (
         <Typography variant="body2">
           {params.row?.location ? formatAddress(params.row.location) : 'N/A'}
@@ -205,6 +403,8 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
       field: 'age',
       headerName: 'Age',
       width: 100,
+      filterOperators: ageRangeFilterOperators,
+      valueGetter: (_value, row: User) => row?.dob?.age,
       renderCell: (params: GridRenderCellParams<User>) => {
         if (!params.row?.dob?.age) {
           return <Typography variant="body2">N/A</Typography>;
@@ -219,12 +419,30 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
         );
       },
     },
+    {
+      field: 'gender',
+      headerName: 'Gender',
+      width: 110,
+      sortable: false,
+      type: 'singleSelect',
+      valueOptions: [
+        { value: 'female', label: 'Female' },
+        { value: 'male', label: 'Male' },
+      ],
+      filterOperators: genderFilterOperators,
+      renderCell: (params: GridRenderCellParams<User>) => (
+        <Typography variant="body2" sx={{ textTransform: 'capitalize' }}>
+          {params.row?.gender || 'N/A'}
+        </Typography>
+      ),
+    },
     {
       field: 'registered',
       headerName: 'Customer Since',
       width: 150,
-      valueGetter: (params: GridValueGetterParams<User>) =>
-        params.row?.registered?.date ? new Date(params.row.registered.date).toLocaleDateString() : '',
+      filterOperators: registeredRangeFilterOperators,
+      valueGetter: (_value, row: User) =>
+        row?.registered?.date ? new Date(row.registered.date).toLocaleDateString() : '',
       renderCell: (params: GridRenderCellParams<User>) => {
         if (!params.row?.registered?.date) {
           return <Typography variant="body2">N/A</Typography>;
@@ -240,14 +458,46 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
         );
       },
     },
+    {
+      field: 'owner',
+      headerName: 'Owner',
+      width: 140,
+      sortable: false,
+      filterable: false,
+      renderCell: (params: GridRenderCellParams<User>) => (
+        <Typography variant="body2" color={params.row?.owner ? 'text.primary' : 'text.secondary'}>
+          {params.row?.owner || 'Unassigned'}
+        </Typography>
+      ),
+    },
+    {
+      field: 'tags',
+      headerName: 'Tags',
+      width: 180,
+      sortable: false,
+      filterable: false,
+      renderCell: (params: GridRenderCellParams<User>) => (
+        <Stack direction="row" spacing={0.5} sx={{ alignItems: 'center', height: '100%', overflow: 'hidden' }}>
+          {(params.row?.tags ?? []).map((tag) => (
+            <Chip key={tag} label={tag} size="small" />
+          ))}
+        </Stack>
+      ),
+    },
+    ...customFields.map(customFieldColumn),
     {
       field: 'actions',
       type: 'actions',
       headerName: 'Actions',
-      width: 120,
+      width: 150,
       getActions: (params) => {
         if (!params.row) return [];
         return [
+          <GridActionsCellItem
+            icon={<VisibilityIcon />}
+            label="View"
+            onClick={() => onViewCustomer(params.row)}
+          />,
           <GridActionsCellItem
             icon={<EditIcon />}
             label="Edit"
@@ -257,14 +507,151 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
           <GridActionsCellItem
             icon={<DeleteIcon />}
             label="Delete"
-            onClick={() => handleDeleteCustomer(params.row.login?.uuid || '')}
+            onClick={() => onDeleteCustomer(params.row)}
             color="error"
           />,
+          <GridActionsCellItem
+            icon={<DownloadIcon />}
+            label="Export"
+            onClick={() =>
+              setExportSource({
+                kind: 'customers',
+                customers: [params.row],
+                filenameBase: `customer-${params.row.login.username}`,
+              })
+            }
+            showInMenu
+          />,
         ];
       },
     },
   ];
 
+  // Custom fields not marked for the table start out hidden in the columns menu.
+  const defaultColumnVisibility = React.useMemo<GridColumnVisibilityModel>(
+    () =>
+      Object.fromEntries(
+        customFields.filter((field) => !field.showInTable).map((field) => [customFieldPath(field), false]),
+      ),
+    [customFields],
+  );
+  const [columnVisibility, setColumnVisibility] = React.useState<GridColumnVisibilityModel>({});
+  const columnVisibilityModel = React.useMemo<GridColumnVisibilityModel>(
+    () => ({ ...defaultColumnVisibility, ...columnVisibility }),
+    [defaultColumnVisibility, columnVisibility],
+  );
+
+  const { views, defaultViewId } = useCustomerViews();
+  const activeView = views.find((view) => view.id === listState.view) ?? null;
+
+  const standardViewState = (): CustomerViewState => ({
+    columnOrder: columns.map((column) => column.field),
+    columnWidths: {},
+    columnVisibility: defaultColumnVisibility,
+    density: 'standard',
+    filterModel: { items: [] },
+    search: '',
+    sortModel: DEFAULT_CUSTOMER_SORT,
+    segment: null,
+  });
+
+  // Only widths the user changed are kept, so views pick up later changes
+  // to the default widths.
+  const captureViewState = (): CustomerViewState => {
+    const gridColumns = apiRef.current?.getAllColumns() ?? [];
+    const defaultWidths = new Map(columns.map((column) => [column.field, column.width]));
+    return {
+      columnOrder: gridColumns.length
+        ? gridColumns.map((column) => column.field).filter((field) => defaultWidths.has(field))
+        : columns.map((column) => column.field),
+      columnWidths: Object.fromEntries(
+        gridColumns
+          .filter((column) => column.hasBeenResized && column.width !== defaultWidths.get(column.field))
+          .map((column) => [column.field, column.width ?? 0]),
+      ),
+      columnVisibility: columnVisibilityModel,
+      density,
+      filterModel,
+      search,
+      sortModel,
+      segment: listState.segment,
+    };
+  };
+
+  const modified = !viewStatesEqual(captureViewState(), activeView?.state ?? standardViewState());
+
+  // Restores everything but the URL state; returns the state applied.
+  const applyViewLayout = (view: CustomerView | null): CustomerViewState => {
+    const state = view?.state ?? standardViewState();
+    const fields = new Set(columns.map((column) => column.field));
+    apiRef.current?.restoreState({
+      columns: {
+        orderedFields: [GRID_CHECKBOX_SELECTION_FIELD, ...state.columnOrder],
+        dimensions: Object.fromEntries(
+          columns.map((column) => [column.field, { width: state.columnWidths[column.field] ?? column.width }]),
+        ),
+      },
+    });
+    setColumnVisibility(state.columnVisibility);
+    setDensity(state.density);
+    // Filters on custom fields deleted since the view was saved are dropped.
+    setFilterModel({
+      ...state.filterModel,
+      items: state.filterModel.items.filter((item) => fields.has(item.field)),
+    });
+    setLayoutVersion((version) => version + 1);
+    return state;
+  };
+
+  const appliedViewId = React.useRef<string | null | undefined>(undefined);
+
+  const handleApplyView = (view: CustomerView | null, options?: UpdateCustomersUrlOptions) => {
+    const state = applyViewLayout(view);
+    appliedViewId.current = view?.id ?? null;
+    setSearchInput(state.search);
+    onListStateChange(
+      {
+        search: state.search,
+        sortModel: state.sortModel,
+        segment: state.segment,
+        view: view?.id ?? null,
+        page: 0,
+      },
+      options,
+    );
+  };
+
+  // The URL carries a view's search, sort and segment but not its layout, so
+  // apply that when the view in the URL changes (first visit, back/forward).
+  // A visit that names no view opens the rep's default one.
+  const applyViewLayoutRef = React.useRef(applyViewLayout);
+  applyViewLayoutRef.current = applyViewLayout;
+  const handleApplyViewRef = React.useRef(handleApplyView);
+  handleApplyViewRef.current = handleApplyView;
+  React.useEffect(() => {
+    const firstVisit = appliedViewId.current === undefined;
+    if (appliedViewId.current === listState.view) return;
+    appliedViewId.current = listState.view;
+
+    const defaultView = views.find((view) => view.id === defaultViewId);
+    if (firstVisit && listState.view === null && defaultView) {
+      const linkHasListState =
+        listState.search ||
+        listState.segment ||
+        JSON.stringify(listState.sortModel) !== JSON.stringify(DEFAULT_CUSTOMER_SORT);
+      if (linkHasListState) {
+        // A link with its own search or sort keeps it and only takes the layout.
+        applyViewLayoutRef.current(defaultView);
+        appliedViewId.current = defaultView.id;
+        onListStateChange({ view: defaultView.id }, { replace: true });
+      } else {
+        handleApplyViewRef.current(defaultView, { replace: true });
+      }
+      return;
+    }
+    applyViewLayoutRef.current(views.find((view) => view.id === listState.view) ?? null);
+  }, [listState, views, defaultViewId, onListStateChange]);
+
   if (error) {
     return (
       <Card variant="outlined">
@@ -293,13 +680,49 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
     <Card variant="outlined" sx={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
       <CardContent sx={{ pb: 0 }}>
         <Stack direction="row" justifyContent="space-between" alignItems="center" spacing={2} sx={{ mb: 2 }}>
-          <Typography variant="h6" component="h2">
-            Customers ({total})
-          </Typography>
+          <Stack direction="row" spacing={1} alignItems="center">
+            <Typography variant="h6" component="h2">
+              Customers ({total})
+            </Typography>
+            <CustomerViewSwitcher
+              activeViewId={activeView?.id ?? null}
+              modified={modified}
+              density={density}
+              onDensityChange={setDensity}
+              captureState={captureViewState}
+              onApply={handleApplyView}
+            />
+          </Stack>
           <Stack direction="row" spacing={1}>
-            <IconButton onClick={handleRefresh} disabled={loading}>
+            <IconButton onClick={handleRefresh} disabled={isFetching}>
               <RefreshIcon />
             </IconButton>
+            <Button
+              variant="outlined"
+              startIcon={<DownloadIcon />}
+              onClick={handleExportAll}
+              disabled={total === 0}
+              size="small"
+            >
+              Export
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<MergeTypeIcon />}
+              onClick={onFindDuplicates}
+              disabled={total < 2}
+              size="small"
+            >
+              Find Duplicates
+            </Button>
+            <Button
+              variant="outlined"
+              startIcon={<UploadFileIcon />}
+              onClick={onImportCustomers}
+              size="small"
+            >
+              Import
+            </Button>
             <Button
               variant="contained"
               startIcon={<AddIcon />}
@@ -314,7 +737,7 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
         <TextField
           fullWidth
           placeholder="Search customers by name, email, or city..."
-          value={searchQuery}
+          value={searchInput}
           onChange={(e) => handleSearch(e.target.value)}
           InputProps={{
             startAdornment: (
@@ -326,22 +749,42 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
           sx={{ mb: 2 }}
           size="small"
         />
+
+        <CustomersBulkActions
+          selected={Array.from(selectedById.values())}
+          onClearSelection={() => setSelectedById(new Map())}
+          onDeleted={handleDeselect}
+        />
       </CardContent>
       
       <Box sx={{ flexGrow: 1, px: 2, pb: 2 }}>
         <DataGrid
+          apiRef={apiRef}
           rows={customers}
           columns={columns}
           getRowId={(row) => row.login.uuid}
           pagination
           paginationMode="server"
-          page={page}
-          pageSize={pageSize}
+          paginationModel={paginationModel}
+          onPaginationModelChange={handlePaginationModelChange}
+          sortingMode="server"
+          sortModel={sortModel}
+          onSortModelChange={handleSortModelChange}
+          filterMode="server"
+          filterModel={filterModel}
+          onFilterModelChange={setFilterModel}
+          columnVisibilityModel={columnVisibilityModel}
+          onColumnVisibilityModelChange={setColumnVisibility}
+          onColumnWidthChange={() => setLayoutVersion((version) => version + 1)}
+          density={density}
+          onDensityChange={setDensity}
           rowCount={total}
-          onPageChange={setPage}
-          onPageSizeChange={setPageSize}
-          pageSizeOptions={[10, 25, 50, 100]}
-          loading={loading}
+          pageSizeOptions={CUSTOMER_PAGE_SIZE_OPTIONS}
+          loading={isFetching}
+          checkboxSelection
+          keepNonExistentRowsSelected
+          rowSelectionModel={rowSelectionModel}
+          onRowSelectionModelChange={handleRowSelectionModelChange}
           disableRowSelectionOnClick
           autoHeight={false}
           sx={{
@@ -362,6 +805,10 @@ export default function CustomersDataTable({ onEditCustomer, onAddCustomer }: Cu
           }}
         />
       </Box>
+
+      {exportSource && (
+        <CustomerExportDialog open onClose={() => setExportSource(null)} source={exportSource} />
+      )}
     </Card>
   );
 }
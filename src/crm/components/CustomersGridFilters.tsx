@@ -0,0 +1,140 @@
+import * as React from 'react';
+import {
+  GridFilterInputSingleSelect,
+  GridFilterInputValue,
+  GridFilterInputValueProps,
+  GridFilterOperator,
+} from '@mui/x-data-grid';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import { customerFilterOperators, RangeValue } from '../services/customerGridQuery';
+import { CustomFieldType } from '../services/customFields';
+
+type RangeFilterInputProps = GridFilterInputValueProps & {
+  type?: 'number' | 'date';
+};
+
+function RangeFilterInput({ item, applyValue, focusElementRef, type = 'number' }: RangeFilterInputProps) {
+  const [from, to] = (Array.isArray(item.value) ? item.value : [undefined, undefined]) as RangeValue;
+
+  const handleChange = (index: 0 | 1) => (event: React.ChangeEvent<HTMLInputElement>) => {
+    const next: RangeValue = [from, to];
+    next[index] = event.target.value || undefined;
+    applyValue({ ...item, value: next });
+  };
+
+  return (
+    <Stack direction="row" spacing={1} sx={{ alignItems: 'flex-end', height: 48 }}>
+      <TextField
+        variant="standard"
+        label="From"
+        type={type}
+        size="small"
+        value={from ?? ''}
+        onChange={handleChange(0)}
+        inputRef={focusElementRef}
+        InputLabelProps={{ shrink: true }}
+        inputProps={type === 'number' ? { min: 0 } : undefined}
+      />
+      <TextField
+        variant="standard"
+        label="To"
+        type={type}
+        size="small"
+        value={to ?? ''}
+        onChange={handleChange(1)}
+        InputLabelProps={{ shrink: true }}
+        inputProps={type === 'number' ? { min: 0 } : undefined}
+      />
+    </Stack>
+  );
+}
+
+const formatRange = (value: unknown) => {
+  const [from, to] = Array.isArray(value) ? value : [];
+  return `${from ?? '…'} – ${to ?? '…'}`;
+};
+
+// The grid runs in `filterMode="server"`, so these operators only describe
+// the filter UI; the rows are filtered by `getUsers`.
+const serverFilter = () => null;
+
+export const ageRangeFilterOperators: GridFilterOperator[] = [
+  {
+    label: 'between',
+    value: customerFilterOperators.ageRange,
+    getApplyFilterFn: serverFilter,
+    InputComponent: RangeFilterInput,
+    InputComponentProps: { type: 'number' } as Partial<RangeFilterInputProps>,
+    getValueAsString: formatRange,
+  },
+];
+
+export const registeredRangeFilterOperators: GridFilterOperator[] = [
+  {
+    label: 'between',
+    value: customerFilterOperators.registeredRange,
+    getApplyFilterFn: serverFilter,
+    InputComponent: RangeFilterInput,
+    InputComponentProps: { type: 'date' } as Partial<RangeFilterInputProps>,
+    getValueAsString: formatRange,
+  },
+];
+
+export const countryFilterOperators: GridFilterOperator[] = [
+  {
+    label: 'country is',
+    value: customerFilterOperators.country,
+    getApplyFilterFn: serverFilter,
+    InputComponent: GridFilterInputValue,
+  },
+];
+
+export const genderFilterOperators: GridFilterOperator[] = [
+  {
+    label: 'is',
+    value: customerFilterOperators.gender,
+    getApplyFilterFn: serverFilter,
+    InputComponent: GridFilterInputSingleSelect,
+  },
+];
+
+const customContainsOperator: GridFilterOperator = {
+  label: 'contains',
+  value: customerFilterOperators.customContains,
+  getApplyFilterFn: serverFilter,
+  InputComponent: GridFilterInputValue,
+};
+
+const customIsOperator: GridFilterOperator = {
+  label: 'is',
+  value: customerFilterOperators.customIs,
+  getApplyFilterFn: serverFilter,
+  InputComponent: GridFilterInputSingleSelect,
+};
+
+const customRangeOperator = (type: 'number' | 'date'): GridFilterOperator => ({
+  label: 'between',
+  value: customerFilterOperators.customBetween,
+  getApplyFilterFn: serverFilter,
+  InputComponent: RangeFilterInput,
+  InputComponentProps: { type } as Partial<RangeFilterInputProps>,
+  getValueAsString: formatRange,
+});
+
+/** Select and yes/no columns must be `singleSelect` columns so `is` can list their options. */
+export function customFieldFilterOperators(type: CustomFieldType): GridFilterOperator[] {
+  switch (type) {
+    case 'number':
+    case 'currency':
+      return [customRangeOperator('number')];
+    case 'date':
+      return [customRangeOperator('date')];
+    case 'select':
+    case 'multiselect':
+    case 'boolean':
+      return [customIsOperator];
+    default:
+      return [customContainsOperator];
+  }
+}
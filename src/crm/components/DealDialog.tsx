@@ -0,0 +1,231 @@
+import * as React from 'react';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import Divider from '@mui/material/Divider';
+import Grid from '@mui/material/Grid';
+import InputAdornment from '@mui/material/InputAdornment';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import {
+  DEAL_SOURCES,
+  DEAL_STAGES,
+  Deal,
+  DealStage,
+  defaultStageProbability,
+  moveDealRequest,
+} from '../services/deals';
+import {
+  DealFormValues,
+  dealFormSchema,
+  dealFormValuesFromDeal,
+  dealRequestFromForm,
+  emptyDealFormValues,
+  newDealFormValues,
+} from '../services/dealForm';
+import { ApiError, getErrorMessage } from '../services/apiErrors';
+import { teamMembers } from '../services/team';
+import { useCurrency } from '../hooks/useCurrency';
+import { useDealMutations } from '../hooks/useDealMutations';
+import { useForm } from '../../shared-form/useForm';
+import CustomerAutocomplete from './CustomerAutocomplete';
+import DealStageHistory from './DealStageHistory';
+
+interface DealDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** The deal to edit; leave out to add a new one. */
+  deal?: Deal | null;
+}
+
+/**
+ * Adds or edits a deal. Unlike the board's quick edit, it stays open until
+ * the save succeeds so server field errors can be shown next to the inputs.
+ */
+export default function DealDialog({ open, onClose, deal }: DealDialogProps) {
+  const { createDeal, updateDeal, deleteDeal } = useDealMutations();
+  const { reportingCurrency, rates } = useCurrency();
+  const [error, setError] = React.useState<string | null>(null);
+  const form = useForm<DealFormValues>({ initialValues: emptyDealFormValues, schema: dealFormSchema });
+  const { reset, setErrors, values } = form;
+
+  React.useEffect(() => {
+    if (!open) return;
+    reset(deal ? dealFormValuesFromDeal(deal) : newDealFormValues(reportingCurrency));
+    setError(null);
+  }, [deal, open, reset, reportingCurrency]);
+
+  const handleSubmit = form.handleSubmit(async (submitted) => {
+    const request = dealRequestFromForm(submitted);
+    setError(null);
+    try {
+      if (deal) {
+        await updateDeal(deal, request);
+      } else {
+        await createDeal(request);
+      }
+      onClose();
+    } catch (err) {
+      setErrors(err instanceof ApiError ? err.fieldErrors : {});
+      setError(getErrorMessage(err, 'Failed to save deal'));
+    }
+  });
+
+  const handleDelete = () => {
+    if (!deal) return;
+    deleteDeal(deal);
+    onClose();
+  };
+
+  const stage = form.register('stage');
+  const customer = form.register('customerId');
+  // A deal keeps its currency even if its rate has since been removed.
+  const currencies = Object.keys(rates.rates);
+  if (values.currency && !currencies.includes(values.currency)) currencies.push(values.currency);
+
+  // Picking a stage suggests its probability, as moving the card would.
+  const handleStageChange = (event: { target: { value: unknown } }) => {
+    stage.onChange(event);
+    const next = event.target.value as DealStage;
+    const probability = deal ? moveDealRequest(deal, next).probability : defaultStageProbability[next];
+    if (probability !== undefined) form.setValue('probability', String(probability));
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit} noValidate>
+        <DialogTitle>{deal ? 'Edit Deal' : 'New Deal'}</DialogTitle>
+        <DialogContent dividers>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Grid container spacing={2}>
+            <Grid size={12}>
+              <TextField fullWidth size="small" label="Deal name" required autoFocus {...form.register('name')} />
+            </Grid>
+            <Grid size={12}>
+              <CustomerAutocomplete
+                required
+                value={values.customerId ? { id: values.customerId, name: values.customerName } : null}
+                onChange={(next) => {
+                  form.setValue('customerName', next?.name ?? '');
+                  customer.onChange({ target: { value: next?.id ?? '' } });
+                }}
+                onBlur={customer.onBlur}
+                error={customer.error}
+                helperText={customer.helperText}
+              />
+            </Grid>
+            <Grid size={{ xs: 8, sm: 4 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label="Value"
+                required
+                {...form.register('value')}
+                slotProps={{
+                  input: { startAdornment: <InputAdornment position="start">{values.currency}</InputAdornment> },
+                  htmlInput: { min: 0, step: 500 },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 4, sm: 2 }}>
+              <TextField select fullWidth size="small" label="Currency" {...form.register('currency')}>
+                {currencies.map((code) => (
+                  <MenuItem key={code} value={code}>
+                    {code}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="date"
+                label="Closing date"
+                required
+                {...form.register('closingDate')}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField select fullWidth size="small" label="Stage" {...stage} onChange={handleStageChange}>
+                {DEAL_STAGES.map((option) => (
+                  <MenuItem key={option} value={option}>
+                    {option}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="number"
+                label="Probability"
+                required
+                {...form.register('probability')}
+                slotProps={{
+                  input: { endAdornment: <InputAdornment position="end">%</InputAdornment> },
+                  htmlInput: { min: 0, max: 100 },
+                }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField select fullWidth size="small" label="Owner" {...form.register('owner')}>
+                <MenuItem value="">
+                  <em>Unassigned</em>
+                </MenuItem>
+                {teamMembers.map((member) => (
+                  <MenuItem key={member.id} value={member.name}>
+                    {member.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField select fullWidth size="small" label="Source" {...form.register('source')}>
+                <MenuItem value="">
+                  <em>Unknown</em>
+                </MenuItem>
+                {DEAL_SOURCES.map((source) => (
+                  <MenuItem key={source} value={source}>
+                    {source}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+          </Grid>
+          {deal && (
+            <>
+              <Divider sx={{ my: 3 }} />
+              <Typography variant="subtitle1" gutterBottom>
+                Stage history
+              </Typography>
+              <DealStageHistory dealId={deal.id} />
+            </>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {deal && (
+            <Button color="error" onClick={handleDelete} sx={{ mr: 'auto' }}>
+              Delete
+            </Button>
+          )}
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={form.isSubmitting}>
+            {deal ? 'Save' : 'Add deal'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+import * as React from 'react';
+import Button from '@mui/material/Button';
+import InputAdornment from '@mui/material/InputAdornment';
+import MenuItem from '@mui/material/MenuItem';
+import Popover from '@mui/material/Popover';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import Typography from '@mui/material/Typography';
+import { DEAL_STAGES, Deal, DealStage, UpdateDealRequest, moveDealRequest } from '../services/deals';
+import {
+  DealFormValues,
+  dealFormSchema,
+  dealFormValuesFromDeal,
+  dealRequestFromForm,
+  emptyDealFormValues,
+} from '../services/dealForm';
+import { useForm } from '../../shared-form/useForm';
+
+interface DealQuickEditPopoverProps {
+  deal: Deal | null;
+  anchorEl: HTMLElement | null;
+  onClose: () => void;
+  onSave: (deal: Deal, request: UpdateDealRequest) => void;
+  /** Opens the full deal dialog instead. */
+  onEditAll: (deal: Deal) => void;
+}
+
+/** Edits a deal's value, probability, closing date and stage from its board card. */
+export default function DealQuickEditPopover({
+  deal,
+  anchorEl,
+  onClose,
+  onSave,
+  onEditAll,
+}: DealQuickEditPopoverProps) {
+  const form = useForm<DealFormValues>({ initialValues: emptyDealFormValues, schema: dealFormSchema });
+  const { reset } = form;
+
+  React.useEffect(() => {
+    if (deal) reset(dealFormValuesFromDeal(deal));
+  }, [deal, reset]);
+
+  const stage = form.register('stage');
+
+  // Picking a stage suggests its probability, as moving the card would.
+  const handleStageChange = (event: { target: { value: unknown } }) => {
+    stage.onChange(event);
+    if (!deal) return;
+    const next = event.target.value as DealStage;
+    const { probability } = moveDealRequest(deal, next);
+    if (probability !== undefined) form.setValue('probability', String(probability));
+  };
+
+  const handleSubmit = form.handleSubmit((values) => {
+    if (!deal) return;
+    const { value, probability, closingDate, stage: nextStage } = dealRequestFromForm(values);
+    onSave(deal, { value, probability, closingDate, stage: nextStage });
+  });
+
+  return (
+    <Popover
+      open={Boolean(deal && anchorEl)}
+      anchorEl={anchorEl}
+      onClose={onClose}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'left' }}
+      slotProps={{ paper: { sx: { p: 2, width: 300 } } }}
+    >
+      <Stack component="form" spacing={2} onSubmit={handleSubmit} noValidate>
+        <Typography variant="subtitle2" noWrap>
+          {deal?.name}
+        </Typography>
+        <TextField
+          size="small"
+          type="number"
+          label="Value"
+          autoFocus
+          {...form.register('value')}
+          slotProps={{
+            input: { startAdornment: <InputAdornment position="start">{deal?.currency}</InputAdornment> },
+            htmlInput: { min: 0, step: 500 },
+          }}
+        />
+        <TextField
+          size="small"
+          type="number"
+          label="Probability"
+          {...form.register('probability')}
+          slotProps={{
+            input: { endAdornment: <InputAdornment position="end">%</InputAdornment> },
+            htmlInput: { min: 0, max: 100 },
+          }}
+        />
+        <TextField
+          size="small"
+          type="date"
+          label="Closing date"
+          {...form.register('closingDate')}
+          slotProps={{ inputLabel: { shrink: true } }}
+        />
+        <TextField select size="small" label="Stage" {...stage} onChange={handleStageChange}>
+          {DEAL_STAGES.map((option) => (
+            <MenuItem key={option} value={option}>
+              {option}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Stack direction="row" spacing={1} justifyContent="flex-end">
+          <Button onClick={() => deal && onEditAll(deal)} sx={{ mr: 'auto' }}>
+            All fields
+          </Button>
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained">
+            Save
+          </Button>
+        </Stack>
+      </Stack>
+    </Popover>
+  );
+}
@@ -0,0 +1,107 @@
+import * as React from 'react';
+import Box from '@mui/material/Box';
+import Chip from '@mui/material/Chip';
+import CircularProgress from '@mui/material/CircularProgress';
+import Typography from '@mui/material/Typography';
+import FlagRoundedIcon from '@mui/icons-material/FlagRounded';
+import EventRoundedIcon from '@mui/icons-material/EventRounded';
+import { dealStageColors } from '../services/deals';
+import { DealEvent, daysBetween } from '../services/dealEvents';
+import { dealEventsQuery } from '../services/dealQueries';
+import { useQuery } from '../hooks/useQuery';
+
+const formatEventTime = (date: string) =>
+  new Date(date).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+const formatDays = (days: number) => {
+  const rounded = Math.round(days);
+  return rounded === 1 ? '1 day' : `${rounded} days`;
+};
+
+function describeEvent(event: DealEvent, previousStageAt: string | undefined): React.ReactNode {
+  if (event.type === 'closingDate') {
+    const pushed = daysBetween(event.from, event.to);
+    return (
+      <>
+        Closing date {pushed > 0 ? 'pushed out' : 'pulled in'} from {formatDate(event.from)} to{' '}
+        {formatDate(event.to)} ({formatDays(Math.abs(pushed))})
+      </>
+    );
+  }
+  if (!event.from) {
+    return (
+      <>
+        Created in <Chip label={event.to} size="small" color={dealStageColors[event.to]} variant="outlined" />
+      </>
+    );
+  }
+  return (
+    <>
+      Moved to <Chip label={event.to} size="small" color={dealStageColors[event.to]} variant="outlined" />
+      {previousStageAt && ` after ${formatDays(daysBetween(previousStageAt, event.at))} in ${event.from}`}
+    </>
+  );
+}
+
+interface DealStageHistoryProps {
+  dealId: string;
+}
+
+/** A deal's stage moves and closing date changes, newest first. */
+export default function DealStageHistory({ dealId }: DealStageHistoryProps) {
+  const { data: events, isLoading } = useQuery(dealEventsQuery({ dealId }));
+
+  // When the deal entered the stage each stage event moved it out of.
+  const items = React.useMemo(() => {
+    let lastStageAt: string | undefined;
+    return (events ?? [])
+      .map((event) => {
+        const previousStageAt = lastStageAt;
+        if (event.type === 'stage') lastStageAt = event.at;
+        return { event, previousStageAt };
+      })
+      .reverse();
+  }, [events]);
+
+  if (isLoading) {
+    return <CircularProgress size={20} />;
+  }
+  if (items.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No stage changes recorded yet.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box component="ol" sx={{ listStyle: 'none', m: 0, p: 0 }}>
+      {items.map(({ event, previousStageAt }) => (
+        <Box component="li" key={event.id} sx={{ display: 'flex', gap: 1.5, mb: 1.5, alignItems: 'flex-start' }}>
+          <Box
+            sx={{
+              bgcolor: event.type === 'stage' ? `${dealStageColors[event.to]}.main` : 'grey.500',
+              color: 'white',
+              borderRadius: '50%',
+              p: 0.5,
+              display: 'flex',
+            }}
+          >
+            {event.type === 'stage' ? <FlagRoundedIcon fontSize="small" /> : <EventRoundedIcon fontSize="small" />}
+          </Box>
+          <Box sx={{ flexGrow: 1 }}>
+            <Typography variant="body2" component="div">
+              {describeEvent(event, previousStageAt)}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              {formatEventTime(event.at)} · {event.by}
+            </Typography>
+          </Box>
+        </Box>
+      ))}
+    </Box>
+  );
+}
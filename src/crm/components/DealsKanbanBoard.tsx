@@ -0,0 +1,269 @@
+import * as React from 'react';
+import Avatar from '@mui/material/Avatar';
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import IconButton from '@mui/material/IconButton';
+import Paper from '@mui/material/Paper';
+import Stack from '@mui/material/Stack';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import { visuallyHidden } from '@mui/utils';
+import EditIcon from '@mui/icons-material/Edit';
+import { DEAL_STAGES, Deal, DealStage, dealStageColors, summarizeStages } from '../services/deals';
+import { formatMoney } from '../services/currency';
+import { useCurrency } from '../hooks/useCurrency';
+import MoneyAmount from './MoneyAmount';
+
+interface DealsKanbanBoardProps {
+  deals: Deal[];
+  onMove: (deal: Deal, stage: DealStage) => void;
+  onEdit: (deal: Deal, anchorEl: HTMLElement) => void;
+}
+
+interface DealCardProps {
+  deal: Deal;
+  dragging: boolean;
+  cardRef: (element: HTMLElement | null) => void;
+  onDragStart: (event: React.DragEvent) => void;
+  onDragEnd: () => void;
+  onKeyDown: (event: React.KeyboardEvent<HTMLElement>) => void;
+  onEdit: (anchorEl: HTMLElement) => void;
+}
+
+const INSTRUCTIONS_ID = 'deal-board-instructions';
+
+const ownerInitials = (name: string) =>
+  name
+    .split(' ')
+    .map((part) => part.charAt(0))
+    .join('')
+    .slice(0, 2)
+    .toUpperCase();
+
+const formatClosingDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+function DealCard({ deal, dragging, cardRef, onDragStart, onDragEnd, onKeyDown, onEdit }: DealCardProps) {
+  const cardElement = React.useRef<HTMLElement | null>(null);
+
+  return (
+    <Card
+      variant="outlined"
+      ref={(element: HTMLElement | null) => {
+        cardElement.current = element;
+        cardRef(element);
+      }}
+      tabIndex={0}
+      draggable
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onKeyDown={onKeyDown}
+      aria-roledescription="Draggable deal"
+      aria-describedby={INSTRUCTIONS_ID}
+      aria-label={`${deal.name}, ${deal.customerName}, ${formatMoney(deal.value, deal.currency)}`}
+      sx={{
+        p: 1.5,
+        cursor: 'grab',
+        opacity: dragging ? 0.5 : 1,
+        '&:focus-visible': { outline: '2px solid', outlineColor: 'primary.main', outlineOffset: 2 },
+      }}
+    >
+      <Stack direction="row" justifyContent="space-between" alignItems="flex-start" spacing={1}>
+        <Box sx={{ minWidth: 0 }}>
+          <Typography variant="body2" fontWeight={600} noWrap>
+            {deal.name}
+          </Typography>
+          <Typography variant="caption" color="text.secondary" noWrap component="div">
+            {deal.customerName}
+          </Typography>
+        </Box>
+        <Tooltip title="Quick edit">
+          <IconButton
+            size="small"
+            tabIndex={-1}
+            aria-label={`Edit ${deal.name}`}
+            onClick={() => cardElement.current && onEdit(cardElement.current)}
+          >
+            <EditIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Stack>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mt: 1 }}>
+        <Typography variant="subtitle2">
+          <MoneyAmount amount={deal.value} currency={deal.currency} />
+        </Typography>
+        <Chip label={`${deal.probability}%`} size="small" variant="outlined" />
+      </Stack>
+      <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mt: 1 }}>
+        <Typography variant="caption" color="text.secondary">
+          Closes {formatClosingDate(deal.closingDate)}
+        </Typography>
+        {deal.owner && (
+          <Tooltip title={deal.owner}>
+            <Avatar sx={{ width: 22, height: 22, fontSize: 10 }}>{ownerInitials(deal.owner)}</Avatar>
+          </Tooltip>
+        )}
+      </Stack>
+    </Card>
+  );
+}
+
+/**
+ * The pipeline as one column per stage. Cards move by drag and drop, or from
+ * the keyboard: Left/Right moves the focused card to the neighbouring stage,
+ * Up/Down moves focus within a column and Enter opens quick edit.
+ */
+export default function DealsKanbanBoard({ deals, onMove, onEdit }: DealsKanbanBoardProps) {
+  const [draggingId, setDraggingId] = React.useState<string | null>(null);
+  const [overStage, setOverStage] = React.useState<DealStage | null>(null);
+  const [announcement, setAnnouncement] = React.useState('');
+  const cardRefs = React.useRef(new Map<string, HTMLElement>());
+  // A card moved from the keyboard remounts in its new column; focus follows it there.
+  const [focusId, setFocusId] = React.useState<string | null>(null);
+
+  const columns = React.useMemo(
+    () => DEAL_STAGES.map((stage) => ({ stage, deals: deals.filter((deal) => deal.stage === stage) })),
+    [deals],
+  );
+  const { convert, format } = useCurrency();
+  const summaries = React.useMemo(() => summarizeStages(deals, convert), [deals, convert]);
+
+  React.useEffect(() => {
+    if (!focusId) return;
+    cardRefs.current.get(focusId)?.focus();
+    setFocusId(null);
+  }, [focusId, deals]);
+
+  const moveTo = (deal: Deal, stage: DealStage) => {
+    if (deal.stage === stage) return;
+    onMove(deal, stage);
+    setAnnouncement(`${deal.name} moved to ${stage}`);
+  };
+
+  const handleDrop = (stage: DealStage) => (event: React.DragEvent) => {
+    event.preventDefault();
+    const deal = deals.find((candidate) => candidate.id === event.dataTransfer.getData('text/plain'));
+    setOverStage(null);
+    setDraggingId(null);
+    if (deal) moveTo(deal, stage);
+  };
+
+  const handleCardKeyDown = (deal: Deal, columnDeals: Deal[]) => (event: React.KeyboardEvent<HTMLElement>) => {
+    if (event.target !== event.currentTarget) return;
+    const stageIndex = DEAL_STAGES.indexOf(deal.stage);
+    const rowIndex = columnDeals.indexOf(deal);
+
+    switch (event.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const next = DEAL_STAGES[stageIndex + (event.key === 'ArrowLeft' ? -1 : 1)];
+        if (!next) return;
+        event.preventDefault();
+        moveTo(deal, next);
+        setFocusId(deal.id);
+        break;
+      }
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const sibling = columnDeals[rowIndex + (event.key === 'ArrowUp' ? -1 : 1)];
+        if (!sibling) return;
+        event.preventDefault();
+        cardRefs.current.get(sibling.id)?.focus();
+        break;
+      }
+      case 'Enter':
+        event.preventDefault();
+        onEdit(deal, event.currentTarget);
+        break;
+      default:
+    }
+  };
+
+  return (
+    <>
+      <Typography id={INSTRUCTIONS_ID} sx={visuallyHidden}>
+        Press Left or Right arrow to move the deal to another stage, Up or Down arrow to move between deals, and
+        Enter to edit it.
+      </Typography>
+      <Box aria-live="polite" sx={visuallyHidden}>
+        {announcement}
+      </Box>
+
+      <Stack direction="row" spacing={2} sx={{ overflowX: 'auto', pb: 1, alignItems: 'stretch' }}>
+        {columns.map(({ stage, deals: columnDeals }, index) => {
+          const summary = summaries[index];
+          return (
+            <Paper
+              key={stage}
+              variant="outlined"
+              role="region"
+              aria-label={`${stage}, ${summary.count} deals`}
+              onDragOver={(event) => {
+                event.preventDefault();
+                event.dataTransfer.dropEffect = 'move';
+                if (overStage !== stage) setOverStage(stage);
+              }}
+              onDragLeave={(event) => {
+                if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setOverStage(null);
+              }}
+              onDrop={handleDrop(stage)}
+              sx={{
+                flex: '1 0 240px',
+                minWidth: 240,
+                display: 'flex',
+                flexDirection: 'column',
+                bgcolor: overStage === stage ? 'action.hover' : 'background.default',
+                borderColor: overStage === stage ? 'primary.main' : 'divider',
+              }}
+            >
+              <Box sx={{ p: 1.5, borderBottom: '1px solid', borderColor: 'divider' }}>
+                <Stack direction="row" justifyContent="space-between" alignItems="center">
+                  <Chip label={stage} size="small" color={dealStageColors[stage]} />
+                  <Typography variant="caption" color="text.secondary">
+                    {summary.count} {summary.count === 1 ? 'deal' : 'deals'}
+                  </Typography>
+                </Stack>
+                <Typography variant="subtitle1" fontWeight={600} sx={{ mt: 1 }}>
+                  {format(summary.value)}
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  Weighted {format(summary.weightedValue)}
+                </Typography>
+              </Box>
+              <Stack spacing={1} sx={{ p: 1, flexGrow: 1, overflowY: 'auto', maxHeight: 'calc(100vh - 320px)' }}>
+                {columnDeals.map((deal) => (
+                  <DealCard
+                    key={deal.id}
+                    deal={deal}
+                    dragging={draggingId === deal.id}
+                    cardRef={(element) => {
+                      if (element) cardRefs.current.set(deal.id, element);
+                      else cardRefs.current.delete(deal.id);
+                    }}
+                    onDragStart={(event) => {
+                      event.dataTransfer.setData('text/plain', deal.id);
+                      event.dataTransfer.effectAllowed = 'move';
+                      setDraggingId(deal.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setOverStage(null);
+                    }}
+                    onKeyDown={handleCardKeyDown(deal, columnDeals)}
+                    onEdit={(anchorEl) => onEdit(deal, anchorEl)}
+                  />
+                ))}
+                {columnDeals.length === 0 && (
+                  <Typography variant="caption" color="text.secondary" sx={{ textAlign: 'center', py: 3 }}>
+                    Drop deals here
+                  </Typography>
+                )}
+              </Stack>
+            </Paper>
+          );
+        })}
+      </Stack>
+    </>
+  );
+}
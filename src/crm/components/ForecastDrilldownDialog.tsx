@@ -0,0 +1,137 @@
+import * as React from 'react';
+import Button from '@mui/material/Button';
+import Chip from '@mui/material/Chip';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import Stack from '@mui/material/Stack';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Typography from '@mui/material/Typography';
+import { Deal, dealStageColors, weightedValue } from '../services/deals';
+import { ForecastPeriod } from '../services/salesForecast';
+import { useCurrency } from '../hooks/useCurrency';
+import DealDialog from './DealDialog';
+import MoneyAmount from './MoneyAmount';
+
+interface ForecastDrilldownDialogProps {
+  /** The bar that was clicked; `null` keeps the dialog closed. */
+  period: ForecastPeriod | null;
+  onClose: () => void;
+}
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+interface DealRowsProps {
+  title: string;
+  deals: Deal[];
+  /** In the deal's own currency. */
+  amount: (deal: Deal) => number;
+  amountLabel: string;
+  onOpen: (deal: Deal) => void;
+}
+
+function DealRows({ title, deals, amount, amountLabel, onOpen }: DealRowsProps) {
+  const { convert, format } = useCurrency();
+  const converted = (deal: Deal) => convert(amount(deal), deal.currency);
+  const total = deals.reduce((sum, deal) => sum + converted(deal), 0);
+
+  return (
+    <div>
+      <Stack direction="row" justifyContent="space-between" alignItems="baseline" sx={{ mb: 1 }}>
+        <Typography variant="subtitle1">
+          {title} ({deals.length})
+        </Typography>
+        <Typography variant="subtitle2">{format(total)}</Typography>
+      </Stack>
+      {deals.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          None in this period.
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Deal</TableCell>
+              <TableCell>Customer</TableCell>
+              <TableCell>Stage</TableCell>
+              <TableCell>Closing</TableCell>
+              <TableCell align="right">{amountLabel}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {[...deals]
+              .sort((a, b) => converted(b) - converted(a))
+              .map((deal) => (
+                <TableRow key={deal.id} hover onClick={() => onOpen(deal)} sx={{ cursor: 'pointer' }}>
+                  <TableCell>{deal.name}</TableCell>
+                  <TableCell>{deal.customerName}</TableCell>
+                  <TableCell>
+                    <Chip label={deal.stage} size="small" color={dealStageColors[deal.stage]} variant="outlined" />
+                  </TableCell>
+                  <TableCell>{formatDate(deal.closingDate)}</TableCell>
+                  <TableCell align="right">
+                    <MoneyAmount amount={amount(deal)} currency={deal.currency} />
+                  </TableCell>
+                </TableRow>
+              ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+/** The deals behind one bar of the sales chart; a row opens the deal. */
+export default function ForecastDrilldownDialog({ period, onClose }: ForecastDrilldownDialogProps) {
+  const { format } = useCurrency();
+  const [editing, setEditing] = React.useState<{ open: boolean; deal: Deal | null }>({ open: false, deal: null });
+  // Kept while the dialog closes so its content doesn't vanish mid-transition.
+  const [shown, setShown] = React.useState<ForecastPeriod | null>(period);
+  if (period && period !== shown) setShown(period);
+
+  return (
+    <>
+      <Dialog open={Boolean(period)} onClose={onClose} maxWidth="md" fullWidth>
+        <DialogTitle>{shown?.label}</DialogTitle>
+        <DialogContent dividers>
+          {shown && (
+            <Stack spacing={3}>
+              <Typography variant="body2" color="text.secondary">
+                Target {format(shown.target)} · Won {format(shown.actual)} · Weighted forecast{' '}
+                {format(shown.forecast)}
+              </Typography>
+              <DealRows
+                title="Won"
+                deals={shown.wonDeals}
+                amount={(deal) => deal.value}
+                amountLabel="Value"
+                onOpen={(deal) => setEditing({ open: true, deal })}
+              />
+              <DealRows
+                title={shown.current ? 'Open, including overdue' : 'Open'}
+                deals={shown.openDeals}
+                amount={weightedValue}
+                amountLabel="Weighted"
+                onOpen={(deal) => setEditing({ open: true, deal })}
+              />
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose}>Close</Button>
+        </DialogActions>
+      </Dialog>
+      <DealDialog
+        open={editing.open}
+        deal={editing.deal}
+        onClose={() => setEditing((current) => ({ ...current, open: false }))}
+      />
+    </>
+  );
+}
@@ -0,0 +1,26 @@
+import Tooltip from '@mui/material/Tooltip';
+import { formatMoney } from '../services/currency';
+import { useCurrency } from '../hooks/useCurrency';
+
+interface MoneyAmountProps {
+  amount: number;
+  /** The currency `amount` is in. */
+  currency: string;
+  compact?: boolean;
+}
+
+/**
+ * An amount shown in the reporting currency. When it was entered in another
+ * currency, hovering shows the original.
+ */
+export default function MoneyAmount({ amount, currency, compact }: MoneyAmountProps) {
+  const { reportingCurrency, convert, format } = useCurrency();
+  const converted = format(convert(amount, currency), { compact });
+
+  if (currency === reportingCurrency) return <>{converted}</>;
+  return (
+    <Tooltip title={`${formatMoney(amount, currency)} (${currency})`}>
+      <span>{converted}</span>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,140 @@
+import * as React from 'react';
+import Button from '@mui/material/Button';
+import Card from '@mui/material/Card';
+import CardContent from '@mui/material/CardContent';
+import Grid from '@mui/material/Grid';
+import IconButton from '@mui/material/IconButton';
+import InputAdornment from '@mui/material/InputAdornment';
+import Stack from '@mui/material/Stack';
+import TextField from '@mui/material/TextField';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import { BASE_CURRENCY } from '../services/currency';
+import { SalesTargets, monthKey, saveSalesTargets } from '../services/salesTargets';
+import { useSalesTargets } from '../hooks/useSalesTargets';
+import { useCrmSnackbar } from './CrmSnackbarProvider';
+
+const MONTH_INDEXES = Array.from({ length: 12 }, (_item, index) => index);
+
+const monthName = (monthIndex: number) => new Date(2000, monthIndex, 1).toLocaleDateString('en-US', { month: 'long' });
+
+// Blank and non-numeric entries read as "no target".
+const parseAmount = (text: string) => {
+  const amount = Number(text);
+  return text.trim() === '' || !Number.isFinite(amount) || amount < 0 ? null : amount;
+};
+
+interface Draft {
+  monthlyDefault: string;
+  months: Record<string, string>;
+}
+
+const draftFromTargets = (targets: SalesTargets): Draft => ({
+  monthlyDefault: String(targets.monthlyDefault),
+  months: Object.fromEntries(Object.entries(targets.months).map(([key, amount]) => [key, String(amount)])),
+});
+
+const currencyAdornment = {
+  input: { startAdornment: <InputAdornment position="start">{BASE_CURRENCY}</InputAdornment> },
+};
+
+/** The Settings card for the monthly revenue targets the dashboard's sales chart compares against. */
+export default function SalesTargetsSettings() {
+  const targets = useSalesTargets();
+  const { showSnackbar } = useCrmSnackbar();
+  const [year, setYear] = React.useState(() => new Date().getFullYear());
+  const [draft, setDraft] = React.useState(() => draftFromTargets(targets));
+
+  const defaultAmount = parseAmount(draft.monthlyDefault);
+
+  const handleMonthChange = (key: string, text: string) => {
+    setDraft((current) => ({ ...current, months: { ...current.months, [key]: text } }));
+  };
+
+  const handleSave = () => {
+    if (defaultAmount === null) return;
+    const months: Record<string, number> = {};
+    Object.entries(draft.months).forEach(([key, text]) => {
+      const amount = parseAmount(text);
+      if (amount !== null) months[key] = amount;
+    });
+    saveSalesTargets({ monthlyDefault: defaultAmount, months });
+    showSnackbar({ message: 'Sales targets saved', severity: 'success' });
+  };
+
+  return (
+    <Card variant="outlined">
+      <CardContent>
+        <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mb: 3 }}>
+          <div>
+            <Typography variant="h6" component="h2">
+              Sales Targets
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              Monthly revenue targets in {BASE_CURRENCY} for the dashboard&apos;s sales chart. Months left blank
+              use the default.
+            </Typography>
+          </div>
+          <Stack direction="row" spacing={1}>
+            <Button size="small" onClick={() => setDraft(draftFromTargets(targets))}>
+              Discard
+            </Button>
+            <Button variant="contained" size="small" disabled={defaultAmount === null} onClick={handleSave}>
+              Save Targets
+            </Button>
+          </Stack>
+        </Stack>
+
+        <TextField
+          label="Default monthly target"
+          type="number"
+          size="small"
+          value={draft.monthlyDefault}
+          onChange={(event) => setDraft((current) => ({ ...current, monthlyDefault: event.target.value }))}
+          error={defaultAmount === null}
+          helperText={defaultAmount === null ? 'Enter an amount of zero or more' : ' '}
+          slotProps={currencyAdornment}
+          sx={{ mb: 2, width: 260 }}
+        />
+
+        <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }}>
+          <Tooltip title="Previous year">
+            <IconButton size="small" onClick={() => setYear(year - 1)}>
+              <ChevronLeftIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Typography variant="subtitle1" sx={{ minWidth: 48, textAlign: 'center' }}>
+            {year}
+          </Typography>
+          <Tooltip title="Next year">
+            <IconButton size="small" onClick={() => setYear(year + 1)}>
+              <ChevronRightIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Stack>
+
+        <Grid container spacing={2}>
+          {MONTH_INDEXES.map((monthIndex) => {
+            const key = monthKey(year, monthIndex);
+            return (
+              <Grid key={key} size={{ xs: 6, sm: 4, md: 3, lg: 2 }}>
+                <TextField
+                  label={monthName(monthIndex)}
+                  type="number"
+                  size="small"
+                  fullWidth
+                  value={draft.months[key] ?? ''}
+                  placeholder={defaultAmount === null ? '' : String(defaultAmount)}
+                  onChange={(event) => handleMonthChange(key, event.target.value)}
+                  slotProps={{ ...currencyAdornment, inputLabel: { shrink: true } }}
+                />
+              </Grid>
+            );
+          })}
+        </Grid>
+      </CardContent>
+    </Card>
+  );
+}
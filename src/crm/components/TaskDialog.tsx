@@ -0,0 +1,322 @@
+import * as React from 'react';
+import Alert from '@mui/material/Alert';
+import Button from '@mui/material/Button';
+import Dialog from '@mui/material/Dialog';
+import DialogActions from '@mui/material/DialogActions';
+import DialogContent from '@mui/material/DialogContent';
+import DialogTitle from '@mui/material/DialogTitle';
+import Grid from '@mui/material/Grid';
+import MenuItem from '@mui/material/MenuItem';
+import TextField from '@mui/material/TextField';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import { TASK_PRIORITIES, TASK_STATUSES, Task } from '../services/tasks';
+import {
+  TaskFormValues,
+  TaskRepeat,
+  emptyTaskFormValues,
+  newTaskFormValues,
+  recurrenceFromForm,
+  taskFormSchema,
+  taskFormValuesFromTask,
+  taskRequestFromForm,
+} from '../services/taskForm';
+import {
+  WEEKDAY_CODES,
+  WeekdayCode,
+  describeRecurrence,
+  formatRecurrenceRule,
+  monthlyWeekdayRule,
+  validateRecurrenceRule,
+  weekdayLabels,
+  weekdayOf,
+} from '../services/taskRecurrence';
+import { REMINDER_OPTIONS } from '../services/taskReminders';
+import { dealsListQuery } from '../services/dealQueries';
+import { ApiError, getErrorMessage } from '../services/apiErrors';
+import { teamMembers } from '../services/team';
+import { useQuery } from '../hooks/useQuery';
+import { useTaskMutations } from '../hooks/useTaskMutations';
+import { useForm } from '../../shared-form/useForm';
+import CustomerAutocomplete from './CustomerAutocomplete';
+
+interface TaskDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** The task to edit; leave out to add a new one. */
+  task?: Task | null;
+  /** Prefills a new task, e.g. with the day clicked in the calendar. Keep it stable between renders. */
+  defaults?: Partial<TaskFormValues>;
+}
+
+/** Adds or edits a task, staying open until the save succeeds like the deal dialog. */
+export default function TaskDialog({ open, onClose, task, defaults }: TaskDialogProps) {
+  const { createTask, updateTask, deleteTask } = useTaskMutations();
+  const [error, setError] = React.useState<string | null>(null);
+  const form = useForm<TaskFormValues>({ initialValues: emptyTaskFormValues, schema: taskFormSchema });
+  const { reset, setErrors, values } = form;
+
+  React.useEffect(() => {
+    if (!open) return;
+    reset(task ? taskFormValuesFromTask(task) : newTaskFormValues(defaults));
+    setError(null);
+  }, [task, defaults, open, reset]);
+
+  const { data: customerDeals, isFetching: dealsLoading } = useQuery({
+    ...dealsListQuery({ customerId: values.customerId, sortBy: 'name' }),
+    enabled: open && Boolean(values.customerId),
+  });
+
+  const handleSubmit = form.handleSubmit(async (submitted) => {
+    const request = taskRequestFromForm(submitted);
+    setError(null);
+    try {
+      if (task) {
+        await updateTask(task, request);
+      } else {
+        await createTask(request);
+      }
+      onClose();
+    } catch (err) {
+      setErrors(err instanceof ApiError ? err.fieldErrors : {});
+      setError(getErrorMessage(err, 'Failed to save task'));
+    }
+  });
+
+  const handleDelete = () => {
+    if (!task) return;
+    deleteTask(task);
+    onClose();
+  };
+
+  const customer = form.register('customerId');
+  const deal = form.register('dealId');
+
+  // The linked deal's name is saved alongside its id.
+  const handleDealChange = (event: { target: { value: unknown } }) => {
+    deal.onChange(event);
+    const picked = customerDeals?.data.find((candidate) => candidate.id === event.target.value);
+    form.setValue('dealName', picked?.name ?? '');
+  };
+
+  const due = new Date(values.dueAt);
+  const dueIsValid = !Number.isNaN(due.getTime());
+  const repeat = form.register('repeat');
+  const recurrenceRule = form.register('recurrenceRule');
+
+  const handleRepeatChange = (event: { target: { value: unknown } }) => {
+    const next = event.target.value as TaskRepeat;
+    if (next === 'weekly' && values.repeatWeekdays.length === 0 && dueIsValid) {
+      form.setValue('repeatWeekdays', [weekdayOf(due)]);
+    }
+    // A custom rule starts from the preset it replaces.
+    if (next === 'custom' && !values.recurrenceRule && values.repeat !== 'none') {
+      form.setValue('recurrenceRule', recurrenceFromForm(values) ?? '');
+    }
+    repeat.onChange(event);
+  };
+
+  const repeatSummary =
+    values.repeat === 'custom'
+      ? !validateRecurrenceRule(values.recurrenceRule) && describeRecurrence(values.recurrenceRule)
+      : values.repeat !== 'none' && describeRecurrence(recurrenceFromForm(values) ?? '');
+
+  // A deal that has since been deleted or moved stays selectable under its saved name.
+  const dealOptions = customerDeals?.data.map(({ id, name }) => ({ id, name })) ?? [];
+  if (values.dealId && !dealOptions.some((option) => option.id === values.dealId)) {
+    dealOptions.push({ id: values.dealId, name: values.dealName || values.dealId });
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <form onSubmit={handleSubmit} noValidate>
+        <DialogTitle>{task ? 'Edit Task' : 'New Task'}</DialogTitle>
+        <DialogContent dividers>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Grid container spacing={2}>
+            <Grid size={12}>
+              <TextField fullWidth size="small" label="Title" required autoFocus {...form.register('title')} />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                fullWidth
+                size="small"
+                type="datetime-local"
+                label="Due"
+                required
+                {...form.register('dueAt')}
+                slotProps={{ inputLabel: { shrink: true } }}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField select fullWidth size="small" label="Assignee" {...form.register('assignee')}>
+                <MenuItem value="">
+                  <em>Unassigned</em>
+                </MenuItem>
+                {teamMembers.map((member) => (
+                  <MenuItem key={member.id} value={member.name}>
+                    {member.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField select fullWidth size="small" label="Priority" {...form.register('priority')}>
+                {TASK_PRIORITIES.map((option) => (
+                  <MenuItem key={option} value={option}>
+                    {option}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField select fullWidth size="small" label="Status" {...form.register('status')}>
+                {TASK_STATUSES.map((option) => (
+                  <MenuItem key={option} value={option}>
+                    {option}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                select
+                fullWidth
+                size="small"
+                label="Repeat"
+                {...repeat}
+                onChange={handleRepeatChange}
+                helperText={
+                  values.repeat === 'none'
+                    ? ' '
+                    : values.repeat === 'custom'
+                      ? 'Completing the task adds the next one'
+                      : repeatSummary
+                }
+              >
+                <MenuItem value="none">Does not repeat</MenuItem>
+                <MenuItem value="daily">Daily</MenuItem>
+                <MenuItem value="weekly">Weekly on chosen days</MenuItem>
+                <MenuItem value="monthly" disabled={!dueIsValid}>
+                  {dueIsValid ? describeRecurrence(formatRecurrenceRule(monthlyWeekdayRule(due))) : 'Monthly'}
+                </MenuItem>
+                <MenuItem value="custom">Custom (RRULE)</MenuItem>
+              </TextField>
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField select fullWidth size="small" label="Reminder" {...form.register('reminder')}>
+                <MenuItem value="">
+                  <em>No reminder</em>
+                </MenuItem>
+                {REMINDER_OPTIONS.map((option) => (
+                  <MenuItem key={option.minutes} value={String(option.minutes)}>
+                    {option.label}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            {values.repeat === 'weekly' && (
+              <Grid size={12}>
+                <ToggleButtonGroup
+                  size="small"
+                  value={values.repeatWeekdays}
+                  onChange={(_event, weekdays: WeekdayCode[]) => form.setValue('repeatWeekdays', weekdays)}
+                  aria-label="Repeat on"
+                >
+                  {WEEKDAY_CODES.map((weekday) => (
+                    <ToggleButton key={weekday} value={weekday} aria-label={weekdayLabels[weekday]}>
+                      {weekdayLabels[weekday].slice(0, 3)}
+                    </ToggleButton>
+                  ))}
+                </ToggleButtonGroup>
+              </Grid>
+            )}
+            {values.repeat === 'custom' && (
+              <Grid size={12}>
+                <TextField
+                  fullWidth
+                  size="small"
+                  label="Recurrence rule"
+                  placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+                  {...recurrenceRule}
+                  helperText={recurrenceRule.helperText || repeatSummary || ' '}
+                  slotProps={{ htmlInput: { spellCheck: false, sx: { fontFamily: 'monospace' } } }}
+                />
+              </Grid>
+            )}
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <CustomerAutocomplete
+                value={values.customerId ? { id: values.customerId, name: values.customerName } : null}
+                onChange={(next) => {
+                  form.setValue('customerName', next?.name ?? '');
+                  customer.onChange({ target: { value: next?.id ?? '' } });
+                  // Deals belong to one customer, so a new customer clears the deal.
+                  if (next?.id !== values.customerId) {
+                    form.setValue('dealId', '');
+                    form.setValue('dealName', '');
+                  }
+                }}
+                onBlur={customer.onBlur}
+                error={customer.error}
+                helperText={customer.helperText}
+              />
+            </Grid>
+            <Grid size={{ xs: 12, sm: 6 }}>
+              <TextField
+                select
+                fullWidth
+                size="small"
+                label="Deal"
+                {...deal}
+                onChange={handleDealChange}
+                disabled={!values.customerId}
+                helperText={
+                  deal.helperText ||
+                  (!values.customerId
+                    ? 'Choose a customer first'
+                    : !dealsLoading && dealOptions.length === 0
+                      ? 'This customer has no deals'
+                      : ' ')
+                }
+              >
+                <MenuItem value="">
+                  <em>None</em>
+                </MenuItem>
+                {dealOptions.map((option) => (
+                  <MenuItem key={option.id} value={option.id}>
+                    {option.name}
+                  </MenuItem>
+                ))}
+              </TextField>
+            </Grid>
+            <Grid size={12}>
+              <TextField
+                fullWidth
+                size="small"
+                label="Notes"
+                multiline
+                minRows={3}
+                {...form.register('description')}
+              />
+            </Grid>
+          </Grid>
+        </DialogContent>
+        <DialogActions>
+          {task && (
+            <Button color="error" onClick={handleDelete} sx={{ mr: 'auto' }}>
+              Delete
+            </Button>
+          )}
+          <Button onClick={onClose}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={form.isSubmitting}>
+            {task ? 'Save' : 'Add task'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import * as React from 'react';
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import Chip from '@mui/material/Chip';
+import Paper from '@mui/material/Paper';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import { visuallyHidden } from '@mui/utils';
+import {
+  TASK_STATUSES,
+  Task,
+  TaskStatus,
+  formatTaskDue,
+  isTaskOverdue,
+  taskPriorityColors,
+  taskStatusColors,
+} from '../services/tasks';
+import { TaskLinks, TaskRecurrenceIcon } from './TasksTable';
+
+interface TasksBoardProps {
+  tasks: Task[];
+  onMove: (task: Task, status: TaskStatus) => void;
+  onOpen: (task: Task) => void;
+}
+
+const INSTRUCTIONS_ID = 'task-board-instructions';
+
+/**
+ * Tasks as one column per status. Cards move by drag and drop, or from the
+ * keyboard with Left/Right as on the deals board; Enter opens a task.
+ */
+export default function TasksBoard({ tasks, onMove, onOpen }: TasksBoardProps) {
+  const [draggingId, setDraggingId] = React.useState<string | null>(null);
+  const [overStatus, setOverStatus] = React.useState<TaskStatus | null>(null);
+  const [announcement, setAnnouncement] = React.useState('');
+  const cardRefs = React.useRef(new Map<string, HTMLElement>());
+  // A card moved from the keyboard remounts in its new column; focus follows it there.
+  const [focusId, setFocusId] = React.useState<string | null>(null);
+  const now = new Date();
+
+  React.useEffect(() => {
+    if (!focusId) return;
+    cardRefs.current.get(focusId)?.focus();
+    setFocusId(null);
+  }, [focusId, tasks]);
+
+  const moveTo = (task: Task, status: TaskStatus) => {
+    if (task.status === status) return;
+    onMove(task, status);
+    setAnnouncement(`${task.title} moved to ${status}`);
+  };
+
+  const handleDrop = (status: TaskStatus) => (event: React.DragEvent) => {
+    event.preventDefault();
+    const task = tasks.find((candidate) => candidate.id === event.dataTransfer.getData('text/plain'));
+    setOverStatus(null);
+    setDraggingId(null);
+    if (task) moveTo(task, status);
+  };
+
+  const handleCardKeyDown = (task: Task, columnTasks: Task[]) => (event: React.KeyboardEvent<HTMLElement>) => {
+    if (event.target !== event.currentTarget) return;
+    switch (event.key) {
+      case 'ArrowLeft':
+      case 'ArrowRight': {
+        const next = TASK_STATUSES[TASK_STATUSES.indexOf(task.status) + (event.key === 'ArrowLeft' ? -1 : 1)];
+        if (!next) return;
+        event.preventDefault();
+        moveTo(task, next);
+        setFocusId(task.id);
+        break;
+      }
+      case 'ArrowUp':
+      case 'ArrowDown': {
+        const sibling = columnTasks[columnTasks.indexOf(task) + (event.key === 'ArrowUp' ? -1 : 1)];
+        if (!sibling) return;
+        event.preventDefault();
+        cardRefs.current.get(sibling.id)?.focus();
+        break;
+      }
+      case 'Enter':
+        event.preventDefault();
+        onOpen(task);
+        break;
+      default:
+    }
+  };
+
+  return (
+    <>
+      <Typography id={INSTRUCTIONS_ID} sx={visuallyHidden}>
+        Press Left or Right arrow to change the task&apos;s status, Up or Down arrow to move between tasks, and
+        Enter to open it.
+      </Typography>
+      <Box aria-live="polite" sx={visuallyHidden}>
+        {announcement}
+      </Box>
+
+      <Stack direction="row" spacing={2} sx={{ overflowX: 'auto', pb: 1, alignItems: 'stretch' }}>
+        {TASK_STATUSES.map((status) => {
+          const columnTasks = tasks.filter((task) => task.status === status);
+          return (
+            <Paper
+              key={status}
+              variant="outlined"
+              role="region"
+              aria-label={`${status}, ${columnTasks.length} tasks`}
+              onDragOver={(event) => {
+                event.preventDefault();
+                event.dataTransfer.dropEffect = 'move';
+                if (overStatus !== status) setOverStatus(status);
+              }}
+              onDragLeave={(event) => {
+                if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setOverStatus(null);
+              }}
+              onDrop={handleDrop(status)}
+              sx={{
+                flex: '1 0 260px',
+                minWidth: 260,
+                display: 'flex',
+                flexDirection: 'column',
+                bgcolor: overStatus === status ? 'action.hover' : 'background.default',
+                borderColor: overStatus === status ? 'primary.main' : 'divider',
+              }}
+            >
+              <Stack
+                direction="row"
+                justifyContent="space-between"
+                alignItems="center"
+                sx={{ p: 1.5, borderBottom: '1px solid', borderColor: 'divider' }}
+              >
+                <Chip label={status} size="small" color={taskStatusColors[status]} />
+                <Typography variant="caption" color="text.secondary">
+                  {columnTasks.length} {columnTasks.length === 1 ? 'task' : 'tasks'}
+                </Typography>
+              </Stack>
+              <Stack spacing={1} sx={{ p: 1, flexGrow: 1, overflowY: 'auto', maxHeight: 'calc(100vh - 340px)' }}>
+                {columnTasks.map((task) => (
+                  <Card
+                    key={task.id}
+                    variant="outlined"
+                    ref={(element: HTMLElement | null) => {
+                      if (element) cardRefs.current.set(task.id, element);
+                      else cardRefs.current.delete(task.id);
+                    }}
+                    tabIndex={0}
+                    draggable
+                    onDragStart={(event) => {
+                      event.dataTransfer.setData('text/plain', task.id);
+                      event.dataTransfer.effectAllowed = 'move';
+                      setDraggingId(task.id);
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null);
+                      setOverStatus(null);
+                    }}
+                    onKeyDown={handleCardKeyDown(task, columnTasks)}
+                    onClick={() => onOpen(task)}
+                    aria-roledescription="Draggable task"
+                    aria-describedby={INSTRUCTIONS_ID}
+                    sx={{
+                      p: 1.5,
+                      cursor: 'grab',
+                      opacity: draggingId === task.id ? 0.5 : 1,
+                      '&:focus-visible': { outline: '2px solid', outlineColor: 'primary.main', outlineOffset: 2 },
+                    }}
+                  >
+                    <Typography variant="body2" fontWeight={600}>
+                      {task.title}
+                      <TaskRecurrenceIcon task={task} />
+                    </Typography>
+                    <TaskLinks task={task} />
+                    <Stack direction="row" justifyContent="space-between" alignItems="center" sx={{ mt: 1 }}>
+                      <Typography variant="caption" color={isTaskOverdue(task, now) ? 'error' : 'text.secondary'}>
+                        {formatTaskDue(task.dueAt, now)}
+                      </Typography>
+                      <Chip
+                        label={task.priority}
+                        size="small"
+                        color={taskPriorityColors[task.priority]}
+                        variant="outlined"
+                      />
+                    </Stack>
+                    {task.assignee && (
+                      <Typography variant="caption" color="text.secondary" component="div" sx={{ mt: 0.5 }}>
+                        {task.assignee}
+                      </Typography>
+                    )}
+                  </Card>
+                ))}
+                {columnTasks.length === 0 && (
+                  <Typography variant="caption" color="text.secondary" sx={{ textAlign: 'center', py: 3 }}>
+                    Drop tasks here
+                  </Typography>
+                )}
+              </Stack>
+            </Paper>
+          );
+        })}
+      </Stack>
+    </>
+  );
+}
@@ -0,0 +1,158 @@
+import * as React from 'react';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import ButtonBase from '@mui/material/ButtonBase';
+import IconButton from '@mui/material/IconButton';
+import Paper from '@mui/material/Paper';
+import Stack from '@mui/material/Stack';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import AddIcon from '@mui/icons-material/Add';
+import ChevronLeftIcon from '@mui/icons-material/ChevronLeft';
+import ChevronRightIcon from '@mui/icons-material/ChevronRight';
+import { Task, isTaskDone, isTaskOverdue } from '../services/tasks';
+
+interface TasksCalendarProps {
+  tasks: Task[];
+  onOpen: (task: Task) => void;
+  /** Starts a new task due on `date`. */
+  onAdd: (date: Date) => void;
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const dayKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+// Monday-first weeks covering the whole of `month`.
+function monthGrid(month: Date): Date[] {
+  const first = new Date(month.getFullYear(), month.getMonth(), 1);
+  const start = new Date(first);
+  start.setDate(1 - ((first.getDay() + 6) % 7));
+  const last = new Date(month.getFullYear(), month.getMonth() + 1, 0);
+  const days = Math.ceil((last.getDate() + (first.getDay() + 6) % 7) / 7) * 7;
+  return Array.from(
+    { length: days },
+    (_item, index) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + index),
+  );
+}
+
+/** A month of tasks by due date; clicking a task opens it and + adds one on that day. */
+export default function TasksCalendar({ tasks, onOpen, onAdd }: TasksCalendarProps) {
+  const [month, setMonth] = React.useState(() => new Date());
+  const now = new Date();
+  const todayKey = dayKey(now);
+
+  const tasksByDay = React.useMemo(() => {
+    const byDay = new Map<string, Task[]>();
+    [...tasks]
+      .sort((a, b) => a.dueAt.localeCompare(b.dueAt))
+      .forEach((task) => {
+        const key = dayKey(new Date(task.dueAt));
+        byDay.set(key, [...(byDay.get(key) ?? []), task]);
+      });
+    return byDay;
+  }, [tasks]);
+
+  const shiftMonth = (offset: number) => setMonth(new Date(month.getFullYear(), month.getMonth() + offset, 1));
+
+  return (
+    <Box>
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }}>
+        <Tooltip title="Previous month">
+          <IconButton size="small" onClick={() => shiftMonth(-1)}>
+            <ChevronLeftIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Typography variant="h6" sx={{ minWidth: 170, textAlign: 'center' }}>
+          {month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}
+        </Typography>
+        <Tooltip title="Next month">
+          <IconButton size="small" onClick={() => shiftMonth(1)}>
+            <ChevronRightIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+        <Button size="small" onClick={() => setMonth(new Date())}>
+          Today
+        </Button>
+      </Stack>
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(0, 1fr))', gap: 0.5 }}>
+        {WEEKDAYS.map((weekday) => (
+          <Typography key={weekday} variant="caption" color="text.secondary" sx={{ px: 1 }}>
+            {weekday}
+          </Typography>
+        ))}
+        {monthGrid(month).map((date) => {
+          const key = dayKey(date);
+          const dayTasks = tasksByDay.get(key) ?? [];
+          const inMonth = date.getMonth() === month.getMonth();
+          const label = date.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' });
+          return (
+            <Paper
+              key={key}
+              variant="outlined"
+              sx={{
+                minHeight: 110,
+                p: 0.5,
+                display: 'flex',
+                flexDirection: 'column',
+                bgcolor: inMonth ? 'background.paper' : 'background.default',
+                borderColor: key === todayKey ? 'primary.main' : 'divider',
+                '&:hover .add-task, &:focus-within .add-task': { opacity: 1 },
+              }}
+            >
+              <Stack direction="row" justifyContent="space-between" alignItems="center">
+                <Typography
+                  variant="caption"
+                  fontWeight={key === todayKey ? 700 : 400}
+                  color={inMonth ? 'text.primary' : 'text.secondary'}
+                  sx={{ px: 0.5 }}
+                >
+                  {date.getDate()}
+                </Typography>
+                <IconButton
+                  className="add-task"
+                  size="small"
+                  aria-label={`Add task on ${label}`}
+                  onClick={() => onAdd(date)}
+                  sx={{ opacity: 0, p: 0.25 }}
+                >
+                  <AddIcon fontSize="inherit" />
+                </IconButton>
+              </Stack>
+              <Stack spacing={0.25} sx={{ overflowY: 'auto', maxHeight: 120 }}>
+                {dayTasks.map((task) => {
+                  const overdue = isTaskOverdue(task, now);
+                  return (
+                    <ButtonBase
+                      key={task.id}
+                      onClick={() => onOpen(task)}
+                      title={task.title}
+                      sx={{
+                        justifyContent: 'flex-start',
+                        px: 0.5,
+                        borderRadius: 0.5,
+                        borderLeft: '3px solid',
+                        borderColor: overdue ? 'error.main' : isTaskDone(task) ? 'success.main' : 'primary.main',
+                        bgcolor: 'action.hover',
+                      }}
+                    >
+                      <Typography
+                        variant="caption"
+                        noWrap
+                        sx={{ textDecoration: isTaskDone(task) ? 'line-through' : 'none' }}
+                      >
+                        {new Date(task.dueAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}{' '}
+                        {task.title}
+                      </Typography>
+                    </ButtonBase>
+                  );
+                })}
+              </Stack>
+            </Paper>
+          );
+        })}
+      </Box>
+    </Box>
+  );
+}
@@ -0,0 +1,129 @@
+import { Link as RouterLink } from 'react-router-dom';
+import Checkbox from '@mui/material/Checkbox';
+import Chip from '@mui/material/Chip';
+import Link from '@mui/material/Link';
+import Table from '@mui/material/Table';
+import TableBody from '@mui/material/TableBody';
+import TableCell from '@mui/material/TableCell';
+import TableContainer from '@mui/material/TableContainer';
+import TableHead from '@mui/material/TableHead';
+import TableRow from '@mui/material/TableRow';
+import Tooltip from '@mui/material/Tooltip';
+import Typography from '@mui/material/Typography';
+import RepeatRoundedIcon from '@mui/icons-material/RepeatRounded';
+import {
+  Task,
+  formatTaskDue,
+  isTaskDone,
+  isTaskOverdue,
+  taskPriorityColors,
+  taskStatusColors,
+} from '../services/tasks';
+import { describeRecurrence } from '../services/taskRecurrence';
+
+interface TasksTableProps {
+  tasks: Task[];
+  onToggleDone: (task: Task) => void;
+  onOpen: (task: Task) => void;
+}
+
+/** The customer and deal a task is linked to, the customer as a link to their page. */
+export function TaskLinks({ task }: { task: Task }) {
+  if (!task.customerId) return null;
+  return (
+    <Typography variant="caption" color="text.secondary" component="div" noWrap>
+      <Link
+        component={RouterLink}
+        to={`/customers/${task.customerId}`}
+        color="inherit"
+        onClick={(event) => event.stopPropagation()}
+      >
+        {task.customerName}
+      </Link>
+      {task.dealName && ` · ${task.dealName}`}
+    </Typography>
+  );
+}
+
+/** A repeat icon for recurring tasks, describing the rule on hover. */
+export function TaskRecurrenceIcon({ task }: { task: Task }) {
+  if (!task.recurrence) return null;
+  return (
+    <Tooltip title={describeRecurrence(task.recurrence)}>
+      <RepeatRoundedIcon
+        fontSize="inherit"
+        color="action"
+        aria-label={describeRecurrence(task.recurrence)}
+        sx={{ ml: 0.5, verticalAlign: 'middle' }}
+      />
+    </Tooltip>
+  );
+}
+
+/** Tasks as rows; the checkbox completes a task and clicking the row opens it. */
+export default function TasksTable({ tasks, onToggleDone, onOpen }: TasksTableProps) {
+  const now = new Date();
+
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell padding="checkbox" />
+            <TableCell>Task</TableCell>
+            <TableCell>Due</TableCell>
+            <TableCell>Priority</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell>Assignee</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {tasks.map((task) => {
+            const done = isTaskDone(task);
+            return (
+              <TableRow key={task.id} hover onClick={() => onOpen(task)} sx={{ cursor: 'pointer' }}>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={done}
+                    onClick={(event) => event.stopPropagation()}
+                    onChange={() => onToggleDone(task)}
+                    slotProps={{ input: { 'aria-label': `${done ? 'Reopen' : 'Complete'} ${task.title}` } }}
+                  />
+                </TableCell>
+                <TableCell sx={{ maxWidth: 420 }}>
+                  <Typography
+                    variant="body2"
+                    fontWeight={500}
+                    noWrap
+                    sx={{ textDecoration: done ? 'line-through' : 'none', color: done ? 'text.secondary' : undefined }}
+                  >
+                    {task.title}
+                    <TaskRecurrenceIcon task={task} />
+                  </Typography>
+                  <TaskLinks task={task} />
+                </TableCell>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                  <Typography variant="body2" color={isTaskOverdue(task, now) ? 'error' : undefined}>
+                    {formatTaskDue(task.dueAt, now)}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  <Chip
+                    label={task.priority}
+                    size="small"
+                    color={taskPriorityColors[task.priority]}
+                    variant="outlined"
+                  />
+                </TableCell>
+                <TableCell>
+                  <Chip label={task.status} size="small" color={taskStatusColors[task.status]} />
+                </TableCell>
+                <TableCell>{task.assignee ?? 'Unassigned'}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
@@ -0,0 +1,37 @@
+import * as React from 'react';
+import {
+  ExchangeRates,
+  MoneyConverter,
+  convertAmount,
+  formatMoney,
+  getExchangeRates,
+  getReportingCurrency,
+  subscribeToExchangeRates,
+  subscribeToReportingCurrency,
+} from '../services/currency';
+
+export interface CurrencyContext {
+  /** The signed-in rep's currency for totals, charts and stat cards. */
+  reportingCurrency: string;
+  rates: ExchangeRates;
+  /** Converts to the reporting currency. */
+  convert: MoneyConverter;
+  /** Formats an amount already in the reporting currency. */
+  format: (amount: number, options?: { compact?: boolean }) => string;
+}
+
+/** The reporting currency and exchange rates, re-rendering when Settings changes either. */
+export function useCurrency(): CurrencyContext {
+  const rates = React.useSyncExternalStore(subscribeToExchangeRates, getExchangeRates);
+  const reportingCurrency = React.useSyncExternalStore(subscribeToReportingCurrency, getReportingCurrency);
+
+  return React.useMemo(
+    () => ({
+      reportingCurrency,
+      rates,
+      convert: (amount, currency) => convertAmount(amount, currency, reportingCurrency, rates),
+      format: (amount, options) => formatMoney(amount, reportingCurrency, options),
+    }),
+    [rates, reportingCurrency],
+  );
+}
@@ -0,0 +1,11 @@
+import * as React from 'react';
+import {
+  CustomFieldDefinition,
+  getCustomFields,
+  subscribeToCustomFields,
+} from '../services/customFields';
+
+/** The admin-defined custom fields, re-rendering when Settings changes them. */
+export function useCustomFields(): CustomFieldDefinition[] {
+  return React.useSyncExternalStore(subscribeToCustomFields, getCustomFields);
+}
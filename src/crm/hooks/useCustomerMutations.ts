@@ -0,0 +1,184 @@
+import * as React from 'react';
+import {
+  User,
+  UsersApiResponse,
+  CreateUserRequest,
+  UpdateUserRequest,
+  usersApiService,
+} from '../services/usersApi';
+import { getErrorMessage } from '../services/apiErrors';
+import { QuerySnapshot, queryCache } from '../services/queryCache';
+import {
+  customerKeys,
+  markPendingDelete,
+  clearPendingDelete,
+} from '../services/customerQueries';
+import {
+  applyUserUpdate,
+  updateRequestFromUser,
+  userFromCreateRequest,
+} from '../services/customerRecords';
+import { useCrmSnackbar } from '../components/CrmSnackbarProvider';
+
+// How long a deleted customer can be restored before the delete is sent.
+export const UNDO_WINDOW_MS = 5000;
+
+const fullName = (user: { name: { first: string; last: string } }) => `${user.name.first} ${user.name.last}`.trim();
+
+function patchCachedCustomer(uuid: string, patch: (user: User) => User): QuerySnapshot {
+  const listSnapshot = queryCache.setQueriesData<UsersApiResponse>(
+    customerKeys.lists(),
+    (response) => ({
+      ...response,
+      data: response.data.map((user) => (user.login.uuid === uuid ? patch(user) : user)),
+    }),
+  );
+  const detailSnapshot = queryCache.setQueriesData<User>(customerKeys.detail(uuid), patch);
+  return [...listSnapshot, ...detailSnapshot];
+}
+
+function removeCachedCustomer(uuid: string): QuerySnapshot {
+  return queryCache.setQueriesData<UsersApiResponse>(customerKeys.lists(), (response) => {
+    const data = response.data.filter((user) => user.login.uuid !== uuid);
+    return { ...response, data, total: response.total - (response.data.length - data.length) };
+  });
+}
+
+function insertCachedCustomer(user: User): QuerySnapshot {
+  // Only first pages get the row; where it really sorts is known after refetch.
+  return queryCache.setQueriesData<UsersApiResponse>(customerKeys.lists(), (response) => ({
+    ...response,
+    total: response.total + 1,
+    data: response.page === 1 ? [user, ...response.data].slice(0, response.perPage) : response.data,
+  }));
+}
+
+/**
+ * Customer writes that update every cached view immediately, offer Undo in a
+ * snackbar, and roll back with an error toast when the server refuses.
+ * Create and update promises reject with the server error after rolling back
+ * so forms can surface field errors.
+ */
+export function useCustomerMutations() {
+  const { showSnackbar } = useCrmSnackbar();
+
+  const reportFailure = React.useCallback(
+    (err: unknown, fallback: string) => {
+      console.error(fallback, err);
+      showSnackbar({ severity: 'error', message: getErrorMessage(err, fallback) });
+    },
+    [showSnackbar],
+  );
+
+  const createCustomer = React.useCallback(
+    async (request: CreateUserRequest, phones: UpdateUserRequest | null = null): Promise<string> => {
+      const optimistic = userFromCreateRequest(request, `optimistic-${Date.now()}`);
+      const snapshot = insertCachedCustomer(phones ? applyUserUpdate(optimistic, phones) : optimistic);
+
+      let uuid: string;
+      try {
+        ({ uuid } = await usersApiService.createUser(request));
+      } catch (err) {
+        queryCache.restore(snapshot);
+        reportFailure(err, 'Failed to add customer');
+        throw err;
+      }
+
+      // The customer exists by now, so a failure here only loses the numbers.
+      if (phones) {
+        await usersApiService
+          .updateUser(uuid, phones)
+          .catch((err) => reportFailure(err, `${fullName(request)} was added without their phone numbers`));
+      }
+
+      queryCache.invalidate(customerKeys.all);
+      showSnackbar({
+        message: `${fullName(request)} added`,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            usersApiService
+              .deleteUser(uuid)
+              .catch((err) => reportFailure(err, 'Failed to undo customer creation'))
+              .finally(() => queryCache.invalidate(customerKeys.all));
+          },
+        },
+      });
+      return uuid;
+    },
+    [reportFailure, showSnackbar],
+  );
+
+  const updateCustomer = React.useCallback(
+    async (customer: User, request: UpdateUserRequest): Promise<void> => {
+      const uuid = customer.login.uuid;
+      const snapshot = patchCachedCustomer(uuid, (user) => applyUserUpdate(user, request));
+
+      try {
+        await usersApiService.updateUser(uuid, request);
+      } catch (err) {
+        queryCache.restore(snapshot);
+        reportFailure(err, 'Failed to update customer');
+        throw err;
+      }
+
+      queryCache.invalidate(customerKeys.all);
+      showSnackbar({
+        message: `${fullName(applyUserUpdate(customer, request))} updated`,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            const revert = updateRequestFromUser(customer);
+            const undoSnapshot = patchCachedCustomer(uuid, (user) => applyUserUpdate(user, revert));
+            usersApiService
+              .updateUser(uuid, revert)
+              .catch((err) => {
+                queryCache.restore(undoSnapshot);
+                reportFailure(err, 'Failed to undo customer update');
+              })
+              .finally(() => queryCache.invalidate(customerKeys.all));
+          },
+        },
+      });
+    },
+    [reportFailure, showSnackbar],
+  );
+
+  const deleteCustomer = React.useCallback(
+    (customer: User) => {
+      const uuid = customer.login.uuid;
+      markPendingDelete(uuid);
+      const snapshot = removeCachedCustomer(uuid);
+
+      // The request is only sent once the undo window has passed.
+      const timer = setTimeout(async () => {
+        try {
+          await usersApiService.deleteUser(uuid);
+          clearPendingDelete(uuid);
+          queryCache.invalidate(customerKeys.all);
+        } catch (err) {
+          clearPendingDelete(uuid);
+          queryCache.restore(snapshot);
+          queryCache.invalidate(customerKeys.lists());
+          reportFailure(err, 'Failed to delete customer');
+        }
+      }, UNDO_WINDOW_MS);
+
+      showSnackbar({
+        message: `${fullName(customer)} deleted`,
+        autoHideDuration: UNDO_WINDOW_MS,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            clearTimeout(timer);
+            clearPendingDelete(uuid);
+            queryCache.restore(snapshot);
+          },
+        },
+      });
+    },
+    [reportFailure, showSnackbar],
+  );
+
+  return { createCustomer, updateCustomer, deleteCustomer };
+}
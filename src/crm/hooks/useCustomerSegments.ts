@@ -0,0 +1,27 @@
+import * as React from 'react';
+import {
+  CustomerSegment,
+  getCustomerSegments,
+  segmentParams,
+  subscribeToCustomerSegments,
+} from '../services/customerSegments';
+import { customersListQuery } from '../services/customerQueries';
+import { useQuery } from './useQuery';
+
+/** The saved segments, re-rendering when any of them changes. */
+export function useCustomerSegments(): CustomerSegment[] {
+  return React.useSyncExternalStore(subscribeToCustomerSegments, getCustomerSegments);
+}
+
+/**
+ * How many customers are in `segment` (everyone for `null`). Shares the
+ * customers cache, so the count refreshes after every customer write.
+ */
+export function useSegmentCount(segment: CustomerSegment | null, { enabled = true } = {}) {
+  const { data, isLoading } = useQuery({
+    ...customersListQuery(segmentParams(segment, { page: 1, perPage: 1 })),
+    enabled,
+    keepPreviousData: true,
+  });
+  return { count: data?.total, isLoading };
+}
@@ -0,0 +1,24 @@
+import * as React from 'react';
+import {
+  CustomerView,
+  getCustomerViews,
+  getDefaultCustomerViews,
+  subscribeToCustomerViews,
+  subscribeToDefaultCustomerViews,
+  visibleCustomerViews,
+} from '../services/customerViews';
+import { currentUser } from '../services/team';
+
+/** The saved views the signed-in rep can pick, and the id of their default. */
+export function useCustomerViews(): { views: CustomerView[]; defaultViewId: string | null } {
+  const allViews = React.useSyncExternalStore(subscribeToCustomerViews, getCustomerViews);
+  const defaults = React.useSyncExternalStore(subscribeToDefaultCustomerViews, getDefaultCustomerViews);
+  const views = React.useMemo(() => visibleCustomerViews(allViews, currentUser.id), [allViews]);
+  const defaultViewId = defaults[currentUser.id] ?? null;
+
+  return {
+    views,
+    // A default that was deleted, or unshared by its owner, falls back to the standard layout.
+    defaultViewId: views.some((view) => view.id === defaultViewId) ? defaultViewId : null,
+  };
+}
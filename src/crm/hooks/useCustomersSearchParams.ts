@@ -0,0 +1,126 @@
+import * as React from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { GridSortModel } from '@mui/x-data-grid';
+import { DEFAULT_CUSTOMER_SORT, isCustomerSortField } from '../services/customerGridQuery';
+import { CUSTOM_FIELD_PREFIX } from '../services/customFields';
+
+export const DEFAULT_CUSTOMER_PAGE_SIZE = 25;
+export const CUSTOMER_PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+/** Value of `edit` when the modal is creating a customer. */
+export const NEW_CUSTOMER_ID = 'new';
+
+export interface CustomersUrlState {
+  search: string;
+  /** 0-based, as the grid counts pages; the URL shows it 1-based. */
+  page: number;
+  pageSize: number;
+  sortModel: GridSortModel;
+  /** id of the saved segment the list is narrowed to. */
+  segment: string | null;
+  /** id of the saved view last applied; `null` is the standard layout. */
+  view: string | null;
+  /** uuid of the customer open in the modal, or `NEW_CUSTOMER_ID`. */
+  edit: string | null;
+}
+
+export interface UpdateCustomersUrlOptions {
+  /** Replace the current history entry instead of adding one. */
+  replace?: boolean;
+}
+
+function parseSort(value: string | null): GridSortModel {
+  if (!value) return DEFAULT_CUSTOMER_SORT;
+  const [field, direction] = value.split(':');
+  if (!isCustomerSortField(field) && !field.startsWith(CUSTOM_FIELD_PREFIX)) return DEFAULT_CUSTOMER_SORT;
+  return [{ field, sort: direction === 'desc' ? 'desc' : 'asc' }];
+}
+
+function formatSort(sortModel: GridSortModel): string | null {
+  const [item] = sortModel;
+  if (!item?.sort) return null;
+
+  const [fallback] = DEFAULT_CUSTOMER_SORT;
+  if (item.field === fallback.field && item.sort === fallback.sort) return null;
+  return `${item.field}:${item.sort}`;
+}
+
+function parsePositiveInt(value: string | null) {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : null;
+}
+
+export function parseCustomersUrlState(params: URLSearchParams): CustomersUrlState {
+  const pageSize = parsePositiveInt(params.get('pageSize'));
+
+  return {
+    search: params.get('q') ?? '',
+    page: (parsePositiveInt(params.get('page')) ?? 1) - 1,
+    pageSize:
+      pageSize && CUSTOMER_PAGE_SIZE_OPTIONS.includes(pageSize) ? pageSize : DEFAULT_CUSTOMER_PAGE_SIZE,
+    sortModel: parseSort(params.get('sort')),
+    segment: params.get('segment') || null,
+    view: params.get('view') || null,
+    edit: params.get('edit') || null,
+  };
+}
+
+function writeParam(params: URLSearchParams, name: string, value: string | null) {
+  if (value) {
+    params.set(name, value);
+  } else {
+    params.delete(name);
+  }
+}
+
+/**
+ * Customers list state kept in the query string (`?q=smith&page=3&sort=email:desc&segment=vip&edit=<uuid>`)
+ * so links can be shared and back/forward restores the view. Defaults are
+ * left out of the URL to keep links short; unrelated params are preserved.
+ */
+export function useCustomersSearchParams(): [
+  CustomersUrlState,
+  (patch: Partial<CustomersUrlState>, options?: UpdateCustomersUrlOptions) => void,
+] {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const serialized = searchParams.toString();
+
+  const state = React.useMemo(
+    () => parseCustomersUrlState(new URLSearchParams(serialized)),
+    [serialized],
+  );
+
+  // Tracks the params most recently written so that several updates in one
+  // tick compose instead of each starting from the rendered URL.
+  const latestParams = React.useRef(searchParams);
+  latestParams.current = searchParams;
+
+  const update = React.useCallback(
+    (patch: Partial<CustomersUrlState>, { replace = false }: UpdateCustomersUrlOptions = {}) => {
+      const prev = latestParams.current;
+      const next = { ...parseCustomersUrlState(prev), ...patch };
+      const params = new URLSearchParams(prev);
+
+      writeParam(params, 'q', next.search.trim() || null);
+      writeParam(params, 'page', next.page > 0 ? String(next.page + 1) : null);
+      writeParam(
+        params,
+        'pageSize',
+        next.pageSize !== DEFAULT_CUSTOMER_PAGE_SIZE ? String(next.pageSize) : null,
+      );
+      writeParam(params, 'sort', formatSort(next.sortModel));
+      writeParam(params, 'segment', next.segment);
+      writeParam(params, 'view', next.view);
+      writeParam(params, 'edit', next.edit);
+
+      // Don't add history entries that change nothing.
+      if (params.toString() === prev.toString()) return;
+
+      latestParams.current = params;
+      setSearchParams(params, { replace });
+    },
+    [setSearchParams],
+  );
+
+  return [state, update];
+}
@@ -0,0 +1,24 @@
+import { CreateDealRequest, Deal, UpdateDealRequest } from '../services/deals';
+import { dealsApi } from '../services/dealsApi';
+import { dealKeys, pendingDealDeletes } from '../services/dealQueries';
+import { RecordMutationsConfig, useRecordMutations } from './useRecordMutations';
+
+const dealMutations: RecordMutationsConfig<Deal, CreateDealRequest, UpdateDealRequest> = {
+  noun: 'deal',
+  label: (deal) => deal.name,
+  keys: dealKeys,
+  pendingDeletes: pendingDealDeletes,
+  create: (request) => dealsApi.createDeal(request),
+  update: (id, request) => dealsApi.updateDeal(id, request),
+  remove: (id) => dealsApi.deleteDeal(id),
+};
+
+/**
+ * Deal writes that show on the board immediately, offer Undo, and roll back
+ * with an error toast when the save fails. Create and update promises reject
+ * with the error after rolling back so forms can show field errors.
+ */
+export function useDealMutations() {
+  const { createRecord, updateRecord, deleteRecord } = useRecordMutations(dealMutations);
+  return { createDeal: createRecord, updateDeal: updateRecord, deleteDeal: deleteRecord };
+}
@@ -0,0 +1,61 @@
+// @vitest-environment jsdom
+import * as React from 'react';
+import { act } from 'react';
+import { createRoot } from 'react-dom/client';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { useQuery, UseQueryResult } from './useQuery';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+let unmount: (() => void) | null = null;
+
+afterEach(() => {
+  act(() => unmount?.());
+  unmount = null;
+});
+
+// Renders a component calling `useQuery` and returns its latest result.
+async function renderQuery(key: string, queryFn: (signal: AbortSignal) => Promise<string>, strict: boolean) {
+  const result: { current: UseQueryResult<string> | null } = { current: null };
+  function Probe() {
+    result.current = useQuery({ queryKey: [key], queryFn });
+    return null;
+  }
+
+  const root = createRoot(document.createElement('div'));
+  unmount = () => root.unmount();
+  await act(async () => {
+    root.render(strict ? <React.StrictMode><Probe /></React.StrictMode> : <Probe />);
+  });
+  // Let the query function resolve and the result render.
+  await act(async () => {
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  });
+  return result;
+}
+
+describe('useQuery', () => {
+  it('loads data', async () => {
+    const queryFn = vi.fn(async () => 'loaded');
+    const result = await renderQuery('plain', queryFn, false);
+
+    expect(result.current).toMatchObject({ data: 'loaded', isLoading: false, isFetching: false });
+    expect(queryFn).toHaveBeenCalledTimes(1);
+  });
+
+  it('loads data under StrictMode, which unsubscribes and resubscribes on mount', async () => {
+    const queryFn = vi.fn(
+      (signal: AbortSignal) =>
+        new Promise<string>((resolve, reject) => {
+          const timer = setTimeout(() => resolve('loaded'), 0);
+          signal.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new DOMException('Aborted', 'AbortError'));
+          });
+        }),
+    );
+    const result = await renderQuery('strict', queryFn, true);
+
+    expect(result.current).toMatchObject({ data: 'loaded', isLoading: false, isFetching: false });
+  });
+});
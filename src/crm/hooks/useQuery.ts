@@ -0,0 +1,82 @@
+import * as React from 'react';
+import {
+  DEFAULT_STALE_TIME_MS,
+  QueryFunction,
+  QueryKey,
+  hashQueryKey,
+  queryCache,
+} from '../services/queryCache';
+
+export interface UseQueryOptions<T> {
+  queryKey: QueryKey;
+  queryFn: QueryFunction<T>;
+  /** How long a response counts as fresh before it's revalidated. */
+  staleTime?: number;
+  enabled?: boolean;
+  /** Keep showing the last key's data while a new key loads (paging). */
+  keepPreviousData?: boolean;
+}
+
+export interface UseQueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  /** No data to show yet for this key. */
+  isLoading: boolean;
+  /** A request is in flight, including background revalidation. */
+  isFetching: boolean;
+  /** The data shown belongs to a previous key. */
+  isPreviousData: boolean;
+  refetch: () => void;
+}
+
+export function useQuery<T>({
+  queryKey,
+  queryFn,
+  staleTime = DEFAULT_STALE_TIME_MS,
+  enabled = true,
+  keepPreviousData = false,
+}: UseQueryOptions<T>): UseQueryResult<T> {
+  const hash = hashQueryKey(queryKey);
+  // The key is compared by hash so callers can build it inline.
+  const stableKey = React.useMemo(() => queryKey, [hash]);
+  const queryFnRef = React.useRef(queryFn);
+  queryFnRef.current = queryFn;
+
+  const subscribe = React.useCallback(
+    (listener: () => void) => queryCache.subscribe(stableKey, listener),
+    [stableKey],
+  );
+  const state = React.useSyncExternalStore(subscribe, () =>
+    queryCache.getState<T>(stableKey),
+  );
+
+  const fetchQuery = React.useCallback(() => {
+    queryCache
+      .fetch(stableKey, (signal) => queryFnRef.current(signal))
+      .catch(() => undefined);
+  }, [stableKey]);
+
+  React.useEffect(() => {
+    if (enabled && queryCache.isStale(stableKey, staleTime)) {
+      fetchQuery();
+    }
+  }, [enabled, fetchQuery, stableKey, staleTime, state.updatedAt]);
+
+  const previousData = React.useRef<T | undefined>(undefined);
+  React.useEffect(() => {
+    if (state.data !== undefined) {
+      previousData.current = state.data;
+    }
+  }, [state.data]);
+
+  const showPrevious = keepPreviousData && state.data === undefined && previousData.current !== undefined;
+
+  return {
+    data: showPrevious ? previousData.current : state.data,
+    error: state.error,
+    isLoading: state.data === undefined && !showPrevious && (state.isFetching || state.status === 'idle'),
+    isFetching: state.isFetching,
+    isPreviousData: showPrevious,
+    refetch: fetchQuery,
+  };
+}
@@ -0,0 +1,167 @@
+import * as React from 'react';
+import type { RecordListResponse } from '../services/localRecords';
+import { PendingDeletes, recordKeys } from '../services/recordQueries';
+import { getErrorMessage } from '../services/apiErrors';
+import { QuerySnapshot, queryCache } from '../services/queryCache';
+import { useCrmSnackbar } from '../components/CrmSnackbarProvider';
+import { UNDO_WINDOW_MS } from './useCustomerMutations';
+
+/** How to save one kind of record, and where its queries are cached. */
+export interface RecordMutationsConfig<T extends { id: string }, C, U extends Partial<T>> {
+  /** Used in error messages, e.g. "Failed to add deal". */
+  noun: string;
+  /** What the snackbar calls a record, e.g. "Acme renewal" in "Acme renewal deleted". */
+  label: (record: T) => string;
+  keys: Pick<ReturnType<typeof recordKeys>, 'all' | 'lists' | 'detail'>;
+  pendingDeletes: PendingDeletes;
+  create: (request: C) => Promise<T>;
+  update: (id: string, request: U) => Promise<unknown>;
+  remove: (id: string) => Promise<unknown>;
+}
+
+// The fields `request` changes, as they were on `record`, for Undo.
+function revertRequest<T, U extends Partial<T>>(record: T, request: U): U {
+  return Object.fromEntries(Object.keys(request).map((key) => [key, record[key as keyof T]])) as U;
+}
+
+/**
+ * Record writes that show in every cached view immediately, offer Undo, and
+ * roll back with an error toast when the save fails. Create and update
+ * promises reject with the error after rolling back so forms can show field
+ * errors. `config` should be a module-level constant so the callbacks stay
+ * stable.
+ */
+export function useRecordMutations<T extends { id: string }, C, U extends Partial<T>>(
+  config: RecordMutationsConfig<T, C, U>,
+) {
+  const { showSnackbar } = useCrmSnackbar();
+  const { noun, label, keys, pendingDeletes } = config;
+
+  const reportFailure = React.useCallback(
+    (err: unknown, fallback: string) => {
+      console.error(fallback, err);
+      showSnackbar({ severity: 'error', message: getErrorMessage(err, fallback) });
+    },
+    [showSnackbar],
+  );
+
+  const patchCached = React.useCallback(
+    (id: string, request: U): QuerySnapshot => {
+      const listSnapshot = queryCache.setQueriesData<RecordListResponse<T>>(keys.lists(), (response) => ({
+        ...response,
+        data: response.data.map((record) => (record.id === id ? { ...record, ...request } : record)),
+      }));
+      const detailSnapshot = queryCache.setQueriesData<T>(keys.detail(id), (record) => ({ ...record, ...request }));
+      return [...listSnapshot, ...detailSnapshot];
+    },
+    [keys],
+  );
+
+  const removeCached = React.useCallback(
+    (id: string): QuerySnapshot =>
+      queryCache.setQueriesData<RecordListResponse<T>>(keys.lists(), (response) => {
+        const data = response.data.filter((record) => record.id !== id);
+        return { ...response, data, total: response.total - (response.data.length - data.length) };
+      }),
+    [keys],
+  );
+
+  const createRecord = React.useCallback(
+    async (request: C): Promise<T> => {
+      let record: T;
+      try {
+        record = await config.create(request);
+      } catch (err) {
+        reportFailure(err, `Failed to add ${noun}`);
+        throw err;
+      }
+
+      queryCache.invalidate(keys.all);
+      showSnackbar({
+        message: `${label(record)} added`,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            config
+              .remove(record.id)
+              .catch((err) => reportFailure(err, `Failed to undo ${noun} creation`))
+              .finally(() => queryCache.invalidate(keys.all));
+          },
+        },
+      });
+      return record;
+    },
+    [config, keys, label, noun, reportFailure, showSnackbar],
+  );
+
+  const updateRecord = React.useCallback(
+    async (record: T, request: U, message = `${label(record)} updated`): Promise<void> => {
+      const snapshot = patchCached(record.id, request);
+
+      try {
+        await config.update(record.id, request);
+      } catch (err) {
+        queryCache.restore(snapshot);
+        reportFailure(err, `Failed to update ${noun}`);
+        throw err;
+      }
+
+      queryCache.invalidate(keys.all);
+      showSnackbar({
+        message,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            const revert = revertRequest(record, request);
+            const undoSnapshot = patchCached(record.id, revert);
+            config
+              .update(record.id, revert)
+              .catch((err) => {
+                queryCache.restore(undoSnapshot);
+                reportFailure(err, `Failed to undo ${noun} update`);
+              })
+              .finally(() => queryCache.invalidate(keys.all));
+          },
+        },
+      });
+    },
+    [config, keys, label, noun, patchCached, reportFailure, showSnackbar],
+  );
+
+  const deleteRecord = React.useCallback(
+    (record: T) => {
+      pendingDeletes.mark(record.id);
+      const snapshot = removeCached(record.id);
+
+      // The delete is only sent once the undo window has passed.
+      const timer = setTimeout(async () => {
+        try {
+          await config.remove(record.id);
+          pendingDeletes.clear(record.id);
+          queryCache.invalidate(keys.all);
+        } catch (err) {
+          pendingDeletes.clear(record.id);
+          queryCache.restore(snapshot);
+          queryCache.invalidate(keys.lists());
+          reportFailure(err, `Failed to delete ${noun}`);
+        }
+      }, UNDO_WINDOW_MS);
+
+      showSnackbar({
+        message: `${label(record)} deleted`,
+        autoHideDuration: UNDO_WINDOW_MS,
+        action: {
+          label: 'Undo',
+          onClick: () => {
+            clearTimeout(timer);
+            pendingDeletes.clear(record.id);
+            queryCache.restore(snapshot);
+          },
+        },
+      });
+    },
+    [config, keys, label, noun, pendingDeletes, removeCached, reportFailure, showSnackbar],
+  );
+
+  return { createRecord, updateRecord, deleteRecord };
+}
@@ -0,0 +1,7 @@
+import * as React from 'react';
+import { SalesTargets, getSalesTargets, subscribeToSalesTargets } from '../services/salesTargets';
+
+/** The monthly revenue targets, re-rendering when Settings changes them. */
+export function useSalesTargets(): SalesTargets {
+  return React.useSyncExternalStore(subscribeToSalesTargets, getSalesTargets);
+}
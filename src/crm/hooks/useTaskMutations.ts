@@ -0,0 +1,44 @@
+import * as React from 'react';
+import { CreateTaskRequest, Task, UpdateTaskRequest, formatTaskDue } from '../services/tasks';
+import { nextOccurrence } from '../services/taskRecurrence';
+import { tasksApi } from '../services/tasksApi';
+import { pendingTaskDeletes, taskKeys } from '../services/taskQueries';
+import { RecordMutationsConfig, useRecordMutations } from './useRecordMutations';
+
+const taskMutations: RecordMutationsConfig<Task, CreateTaskRequest, UpdateTaskRequest> = {
+  noun: 'task',
+  label: () => 'Task',
+  keys: taskKeys,
+  pendingDeletes: pendingTaskDeletes,
+  create: (request) => tasksApi.createTask(request),
+  update: (id, request) => tasksApi.updateTask(id, request),
+  remove: (id) => tasksApi.deleteTask(id),
+};
+
+/**
+ * Task writes that show in every view immediately, offer Undo, and roll back
+ * with an error toast when the save fails, as `useDealMutations` does for
+ * deals.
+ */
+export function useTaskMutations() {
+  const { createRecord: createTask, updateRecord: updateTask, deleteRecord: deleteTask } =
+    useRecordMutations(taskMutations);
+
+  /** Checks a task off, or reopens it to To Do. Checking off a recurring task adds its next occurrence. */
+  const toggleTaskDone = React.useCallback(
+    (task: Task) => {
+      const done = task.status !== 'Done';
+      const next = done && task.recurrence ? nextOccurrence(task.recurrence, task.dueAt) : null;
+      const message = !done
+        ? 'Task reopened'
+        : next
+          ? `Task completed. Next one due ${formatTaskDue(next.dueAt)}`
+          : 'Task completed';
+      // Failures roll back and toast inside `updateTask`.
+      updateTask(task, { status: done ? 'Done' : 'To Do' }, message).catch(() => {});
+    },
+    [updateTask],
+  );
+
+  return { createTask, updateTask, toggleTaskDone, deleteTask };
+}
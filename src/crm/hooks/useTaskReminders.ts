@@ -0,0 +1,63 @@
+import * as React from 'react';
+import { formatTaskDue } from '../services/tasks';
+import { tasksListQuery } from '../services/taskQueries';
+import {
+  TaskReminder,
+  activeReminders,
+  dismissReminders,
+  getDismissedReminders,
+  nextReminderAt,
+  subscribeToDismissedReminders,
+} from '../services/taskReminders';
+import { useCrmSnackbar } from '../components/CrmSnackbarProvider';
+import { useQuery } from './useQuery';
+
+// setTimeout fires at once for delays past this, so longer waits are split.
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * Task reminders that have gone off and not been dismissed. Ones going off
+ * while the app is open also show a snackbar.
+ */
+export function useTaskReminders(): { reminders: TaskReminder[]; dismiss: (keys: string[]) => void } {
+  const { data } = useQuery(tasksListQuery({ statuses: ['To Do', 'In Progress'], sortBy: 'dueAt' }));
+  const tasks = data?.data;
+  const dismissed = React.useSyncExternalStore(subscribeToDismissedReminders, getDismissedReminders);
+  const [now, setNow] = React.useState(() => new Date());
+  const { showSnackbar } = useCrmSnackbar();
+
+  React.useEffect(() => {
+    const next = tasks && nextReminderAt(tasks, now);
+    if (!next) return undefined;
+    const timer = setTimeout(() => setNow(new Date()), Math.min(next.getTime() - Date.now(), MAX_TIMER_MS));
+    return () => clearTimeout(timer);
+  }, [tasks, now]);
+
+  const reminders = React.useMemo(
+    () => activeReminders(tasks ?? [], now).filter((reminder) => !dismissed.includes(reminder.key)),
+    [tasks, now, dismissed],
+  );
+
+  // Reminders already due when the tasks first load only show in the bell.
+  const announced = React.useRef<Set<string> | null>(null);
+  React.useEffect(() => {
+    if (!tasks) return;
+    if (!announced.current) {
+      announced.current = new Set(reminders.map((reminder) => reminder.key));
+      return;
+    }
+    const seen = announced.current;
+    const fresh = reminders.filter((reminder) => !seen.has(reminder.key));
+    if (fresh.length === 0) return;
+    fresh.forEach((reminder) => seen.add(reminder.key));
+    showSnackbar({
+      severity: 'info',
+      message:
+        fresh.length === 1
+          ? `Reminder: ${fresh[0].task.title} (due ${formatTaskDue(fresh[0].task.dueAt)})`
+          : `${fresh.length} task reminders`,
+    });
+  }, [tasks, reminders, showSnackbar]);
+
+  return { reminders, dismiss: dismissReminders };
+}
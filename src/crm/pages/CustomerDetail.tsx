@@ -0,0 +1,421 @@
+import * as React from 'react';
+import { useNavigate, useParams, Link as RouterLink } from 'react-router-dom';
+import Avatar from '@mui/material/Avatar';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Card from '@mui/material/Card';
+import Checkbox from '@mui/material/Checkbox';
+import CardContent from '@mui/material/CardContent';
+import Chip from '@mui/material/Chip';
+import CircularProgress from '@mui/material/CircularProgress';
+import Divider from '@mui/material/Divider';
+import Grid from '@mui/material/Grid';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import ArrowBackRoundedIcon from '@mui/icons-material/ArrowBackRounded';
+import EditIcon from '@mui/icons-material/Edit';
+import DeleteIcon from '@mui/icons-material/Delete';
+import DownloadIcon from '@mui/icons-material/Download';
+import CustomerModal, { CustomerSubmission } from '../components/CustomerModal';
+import CustomerActivityTimeline from '../components/CustomerActivityTimeline';
+import CustomerExportDialog from '../components/CustomerExportDialog';
+import MoneyAmount from '../components/MoneyAmount';
+import TaskDialog from '../components/TaskDialog';
+import { useCrmBreadcrumbLabel } from '../components/CrmBreadcrumbsProvider';
+import { User } from '../services/usersApi';
+import { ApiError, NotFoundError, getErrorMessage } from '../services/apiErrors';
+import { customerDetailQuery } from '../services/customerQueries';
+import { buildCustomerActivity, dealActivities, taskActivities } from '../services/customerActivity';
+import { Deal, dealCustomerName, dealStageColors } from '../services/deals';
+import { dealEventsQuery, dealsListQuery } from '../services/dealQueries';
+import { Task, formatTaskDue, isTaskDone, isTaskOverdue } from '../services/tasks';
+import { TaskFormValues } from '../services/taskForm';
+import { tasksListQuery } from '../services/taskQueries';
+import { getInitials } from '../services/customerAvatars';
+import { useQuery } from '../hooks/useQuery';
+import { useCustomerMutations } from '../hooks/useCustomerMutations';
+import { useTaskMutations } from '../hooks/useTaskMutations';
+import { useCustomFields } from '../hooks/useCustomFields';
+import { formatCustomFieldValue } from '../services/customFields';
+import { formatPhone } from '../../shared-form/phoneNumbers';
+import { countryCode, getAddressFormat } from '../../shared-form/addressFormats';
+
+const formatDate = (date?: string) =>
+  date
+    ? new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+    : 'N/A';
+
+function DetailRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', gap: 2, py: 0.75 }}>
+      <Typography variant="body2" color="text.secondary">
+        {label}
+      </Typography>
+      <Typography variant="body2" sx={{ textAlign: 'right', wordBreak: 'break-word' }}>
+        {value || 'N/A'}
+      </Typography>
+    </Box>
+  );
+}
+
+function DetailSection({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <Card variant="outlined" sx={{ height: '100%' }}>
+      <CardContent>
+        <Typography variant="h6" component="h3" sx={{ mb: 1 }}>
+          {title}
+        </Typography>
+        {children}
+      </CardContent>
+    </Card>
+  );
+}
+
+function DealRow({ deal }: { deal: Deal }) {
+  return (
+    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, py: 0.75 }}>
+      <Box sx={{ minWidth: 0 }}>
+        <Typography variant="body2" fontWeight={500} noWrap>
+          {deal.name}
+        </Typography>
+        <Typography variant="caption" color="text.secondary">
+          Closes {new Date(`${deal.closingDate}T00:00`).toLocaleDateString('en-US', { dateStyle: 'medium' })}
+        </Typography>
+      </Box>
+      <Box sx={{ textAlign: 'right', flexShrink: 0 }}>
+        <Typography variant="body2">
+          <MoneyAmount amount={deal.value} currency={deal.currency} />
+        </Typography>
+        <Chip label={deal.stage} size="small" color={dealStageColors[deal.stage]} variant="outlined" />
+      </Box>
+    </Box>
+  );
+}
+
+function TaskRow({ task, onToggleDone, onOpen }: {
+  task: Task;
+  onToggleDone: (task: Task) => void;
+  onOpen: (task: Task) => void;
+}) {
+  const done = isTaskDone(task);
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.25 }}>
+      <Checkbox
+        size="small"
+        checked={done}
+        onChange={() => onToggleDone(task)}
+        slotProps={{ input: { 'aria-label': `${done ? 'Reopen' : 'Complete'} ${task.title}` } }}
+      />
+      <Box sx={{ minWidth: 0, cursor: 'pointer' }} onClick={() => onOpen(task)}>
+        <Typography
+          variant="body2"
+          noWrap
+          color={done ? 'text.secondary' : 'text.primary'}
+          sx={{ textDecoration: done ? 'line-through' : 'none' }}
+        >
+          {task.title}
+        </Typography>
+        <Typography variant="caption" color={isTaskOverdue(task) ? 'error' : 'text.secondary'}>
+          Due {formatTaskDue(task.dueAt)}
+          {task.assignee && ` · ${task.assignee}`}
+        </Typography>
+      </Box>
+    </Box>
+  );
+}
+
+export default function CustomerDetail() {
+  const { id = '' } = useParams();
+  const navigate = useNavigate();
+  const { updateCustomer, deleteCustomer } = useCustomerMutations();
+  const customFields = useCustomFields();
+  // The record as it was when the dialog opened, so a background refetch
+  // doesn't reset the form mid-edit.
+  const [editingCustomer, setEditingCustomer] = React.useState<User | null>(null);
+  const [submitError, setSubmitError] = React.useState<unknown>(null);
+  const [exportOpen, setExportOpen] = React.useState(false);
+  // Kept while the dialog closes so its title doesn't flip mid-transition.
+  const [taskDialog, setTaskDialog] = React.useState<{
+    open: boolean;
+    task: Task | null;
+    defaults?: Partial<TaskFormValues>;
+  }>({ open: false, task: null });
+  const { toggleTaskDone } = useTaskMutations();
+
+  const { data: customer, error, isLoading, refetch } = useQuery(customerDetailQuery(id));
+
+  useCrmBreadcrumbLabel(
+    `/customers/${id}`,
+    customer ? `${customer.name.first} ${customer.name.last}` : null,
+  );
+
+  const { data: dealsResponse } = useQuery(
+    dealsListQuery({ customerId: id, sortBy: 'closingDate', sortOrder: 'desc' }),
+  );
+  const deals = dealsResponse?.data;
+  const { data: dealEvents } = useQuery(dealEventsQuery());
+  const { data: tasksResponse } = useQuery(tasksListQuery({ customerId: id, sortBy: 'dueAt' }));
+  const tasks = tasksResponse?.data;
+  // Open tasks first, each group by due date.
+  const sortedTasks = React.useMemo(
+    () => tasks && [...tasks.filter((task) => !isTaskDone(task)), ...tasks.filter(isTaskDone)],
+    [tasks],
+  );
+
+  const activities = React.useMemo(
+    () =>
+      customer
+        ? buildCustomerActivity(customer, [
+            ...dealActivities(deals ?? [], dealEvents ?? []),
+            ...taskActivities(tasks ?? []),
+          ])
+        : [],
+    [customer, deals, dealEvents, tasks],
+  );
+
+  const handleSave = (submission: CustomerSubmission) => {
+    if (submission.type !== 'update') return;
+
+    setEditingCustomer(null);
+    setSubmitError(null);
+    updateCustomer(submission.customer, submission.data).catch((err) => {
+      if (err instanceof ApiError && Object.keys(err.fieldErrors).length > 0) {
+        setSubmitError(err);
+        setEditingCustomer(submission.customer);
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    if (!customer) return;
+    deleteCustomer(customer);
+    navigate('/customers');
+  };
+
+  if (isLoading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 8, width: '100%' }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error || !customer) {
+    return (
+      <Box sx={{ textAlign: 'center', py: 8, width: '100%' }}>
+        <Typography color="error" gutterBottom>
+          {error instanceof NotFoundError ? 'Customer not found' : 'Error loading customer'}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {getErrorMessage(error, 'This customer could not be loaded.')}
+        </Typography>
+        <Stack direction="row" spacing={1} justifyContent="center" sx={{ mt: 2 }}>
+          <Button component={RouterLink} to="/customers" startIcon={<ArrowBackRoundedIcon />}>
+            Back to Customers
+          </Button>
+          {!(error instanceof NotFoundError) && (
+            <Button variant="outlined" onClick={refetch}>
+              Try Again
+            </Button>
+          )}
+        </Stack>
+      </Box>
+    );
+  }
+
+  const { location } = customer;
+  const addressFormat = getAddressFormat(location.country);
+  const phoneCountry = countryCode(location.country);
+
+  return (
+    <Box sx={{ width: '100%', maxWidth: { sm: '100%', md: '1700px' } }}>
+      <Stack
+        direction={{ xs: 'column', sm: 'row' }}
+        spacing={2}
+        alignItems={{ xs: 'flex-start', sm: 'center' }}
+        sx={{ mb: 3 }}
+      >
+        <Avatar src={customer.picture?.large} sx={{ width: 96, height: 96, fontSize: 32 }}>
+          {getInitials(customer.name)}
+        </Avatar>
+        <Box sx={{ flexGrow: 1 }}>
+          <Typography variant="h4" component="h1">
+            {customer.name.title} {customer.name.first} {customer.name.last}
+          </Typography>
+          <Typography variant="body1" color="text.secondary">
+            @{customer.login.username} · {customer.email}
+          </Typography>
+          {(customer.owner || (customer.tags ?? []).length > 0) && (
+            <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ mt: 1 }}>
+              {customer.owner && <Chip size="small" variant="outlined" label={`Owner: ${customer.owner}`} />}
+              {(customer.tags ?? []).map((tag) => (
+                <Chip key={tag} size="small" label={tag} />
+              ))}
+            </Stack>
+          )}
+        </Box>
+        <Stack direction="row" spacing={1}>
+          <Button
+            variant="contained"
+            startIcon={<EditIcon />}
+            onClick={() => {
+              setSubmitError(null);
+              setEditingCustomer(customer);
+            }}
+          >
+            Edit
+          </Button>
+          <Button variant="outlined" startIcon={<DownloadIcon />} onClick={() => setExportOpen(true)}>
+            Export
+          </Button>
+          <Button variant="outlined" color="error" startIcon={<DeleteIcon />} onClick={handleDelete}>
+            Delete
+          </Button>
+        </Stack>
+      </Stack>
+
+      <Grid container spacing={2}>
+        <Grid size={{ xs: 12, md: 6, lg: 4 }}>
+          <DetailSection title="Contact">
+            <DetailRow label="Email" value={customer.email} />
+            <DetailRow label="Phone" value={customer.phone && formatPhone(customer.phone, phoneCountry)} />
+            <DetailRow label="Cell" value={customer.cell && formatPhone(customer.cell, phoneCountry)} />
+            <DetailRow
+              label="Gender"
+              value={customer.gender && <span style={{ textTransform: 'capitalize' }}>{customer.gender}</span>}
+            />
+            <DetailRow label="Nationality" value={customer.nat} />
+          </DetailSection>
+        </Grid>
+        <Grid size={{ xs: 12, md: 6, lg: 4 }}>
+          <DetailSection title="Address">
+            <DetailRow
+              label="Street"
+              value={[location.street?.number || '', location.street?.name].filter(Boolean).join(' ')}
+            />
+            <DetailRow label="City" value={location.city} />
+            <DetailRow label={addressFormat.region?.label ?? 'State/Province'} value={location.state} />
+            <DetailRow label={addressFormat.postcode?.label ?? 'Postal Code'} value={location.postcode} />
+            <DetailRow label="Country" value={location.country} />
+            <Divider sx={{ my: 1 }} />
+            <DetailRow
+              label="Timezone"
+              value={
+                location.timezone?.offset
+                  ? `UTC${location.timezone.offset.startsWith('-') ? '' : '+'}${location.timezone.offset}${
+                      location.timezone.description ? ` (${location.timezone.description})` : ''
+                    }`
+                  : ''
+              }
+            />
+          </DetailSection>
+        </Grid>
+        <Grid size={{ xs: 12, md: 6, lg: 4 }}>
+          <DetailSection title="Account">
+            <DetailRow label="Username" value={customer.login.username} />
+            <DetailRow label="Customer ID" value={customer.login.uuid} />
+            <DetailRow label="Customer Since" value={formatDate(customer.registered?.date)} />
+            <DetailRow
+              label="Customer For"
+              value={`${customer.registered?.age ?? 0} year${customer.registered?.age === 1 ? '' : 's'}`}
+            />
+            <DetailRow
+              label="Date of Birth"
+              value={customer.dob?.date ? `${formatDate(customer.dob.date)} (age ${customer.dob.age})` : ''}
+            />
+          </DetailSection>
+        </Grid>
+        {customFields.length > 0 && (
+          <Grid size={{ xs: 12, md: 6, lg: 4 }}>
+            <DetailSection title="Additional Information">
+              {customFields.map((field) => (
+                <DetailRow
+                  key={field.id}
+                  label={field.label}
+                  value={formatCustomFieldValue(field, customer.custom?.[field.id])}
+                />
+              ))}
+            </DetailSection>
+          </Grid>
+        )}
+        <Grid size={{ xs: 12, md: 6, lg: 4 }}>
+          <CustomerActivityTimeline activities={activities} />
+        </Grid>
+        <Grid size={{ xs: 12, md: 6, lg: 4 }}>
+          <DetailSection title="Deals">
+            {!deals && <CircularProgress size={20} />}
+            {deals?.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                No deals with this customer yet.
+              </Typography>
+            )}
+            {deals?.map((deal) => <DealRow key={deal.id} deal={deal} />)}
+            <Divider sx={{ my: 1 }} />
+            <Button component={RouterLink} to="/deals" size="small">
+              Open pipeline
+            </Button>
+          </DetailSection>
+        </Grid>
+        <Grid size={{ xs: 12, md: 6, lg: 4 }}>
+          <DetailSection title="Tasks">
+            {!sortedTasks && <CircularProgress size={20} />}
+            {sortedTasks?.length === 0 && (
+              <Typography variant="body2" color="text.secondary">
+                No tasks linked to this customer yet.
+              </Typography>
+            )}
+            {sortedTasks?.map((task) => (
+              <TaskRow
+                key={task.id}
+                task={task}
+                onToggleDone={toggleTaskDone}
+                onOpen={(opened) => setTaskDialog({ open: true, task: opened })}
+              />
+            ))}
+            <Divider sx={{ my: 1 }} />
+            <Button
+              size="small"
+              onClick={() =>
+                setTaskDialog({
+                  open: true,
+                  task: null,
+                  defaults: {
+                    customerId: customer.login.uuid,
+                    customerName: dealCustomerName(customer),
+                  },
+                })
+              }
+            >
+              Add task
+            </Button>
+          </DetailSection>
+        </Grid>
+      </Grid>
+
+      <CustomerModal
+        open={editingCustomer !== null}
+        onClose={() => setEditingCustomer(null)}
+        customer={editingCustomer}
+        onSave={handleSave}
+        submitError={submitError}
+      />
+
+      <TaskDialog
+        open={taskDialog.open}
+        task={taskDialog.task}
+        defaults={taskDialog.defaults}
+        onClose={() => setTaskDialog((current) => ({ ...current, open: false }))}
+      />
+
+      <CustomerExportDialog
+        open={exportOpen}
+        onClose={() => setExportOpen(false)}
+        source={{
+          kind: 'customers',
+          customers: [customer],
+          filenameBase: `customer-${customer.login.username}`,
+        }}
+      />
+    </Box>
+  );
+}
@@ -1,33 +1,118 @@
 import * as React from 'react';
+import { useNavigate } from 'react-router-dom';
 import Box from '@mui/material/Box';
 import Typography from '@mui/material/Typography';
-import CustomersDataTable from '../components/CustomersDataTable';
-import CustomerModal from '../components/CustomerModal';
+import CustomersDataTable, { CustomersListState } from '../components/CustomersDataTable';
+import CustomerModal, { CustomerSubmission } from '../components/CustomerModal';
+import CustomerImportDialog from '../components/CustomerImportDialog';
+import CustomerDuplicatesDialog from '../components/CustomerDuplicatesDialog';
+import CustomerSegmentsBar from '../components/CustomerSegmentsBar';
+import { useCrmSnackbar } from '../components/CrmSnackbarProvider';
 import { User } from '../services/usersApi';
+import { ApiError, getErrorMessage } from '../services/apiErrors';
+import { queryCache } from '../services/queryCache';
+import { customerDetailQuery, customerKeys } from '../services/customerQueries';
+import { useCustomerMutations } from '../hooks/useCustomerMutations';
+import { useQuery } from '../hooks/useQuery';
+import { useCustomerSegments } from '../hooks/useCustomerSegments';
+import { NEW_CUSTOMER_ID, useCustomersSearchParams } from '../hooks/useCustomersSearchParams';
 
 export default function Customers() {
-  const [modalOpen, setModalOpen] = React.useState(false);
+  const [urlState, updateUrlState] = useCustomersSearchParams();
+  // Keyed by the `edit` value it belongs to, so navigating away and back
+  // doesn't resurface an old error.
+  const [submitError, setSubmitError] = React.useState<{ editId: string; error: unknown } | null>(null);
+  const [importOpen, setImportOpen] = React.useState(false);
+  const [duplicatesOpen, setDuplicatesOpen] = React.useState(false);
+  const { createCustomer, updateCustomer, deleteCustomer } = useCustomerMutations();
+  const { showSnackbar } = useCrmSnackbar();
+  const navigate = useNavigate();
+  const segments = useCustomerSegments();
+  // A link can name a segment that was since deleted; that shows everyone.
+  const segment = segments.find((candidate) => candidate.id === urlState.segment) ?? null;
+
+  const editId = urlState.edit;
+  const editingExisting = editId !== null && editId !== NEW_CUSTOMER_ID;
+
+  const { data: editData, error: editError } = useQuery({
+    ...customerDetailQuery(editingExisting ? editId : ''),
+    enabled: editingExisting,
+  });
+
+  // Hold on to the record the modal opened with, so a background refetch
+  // doesn't reset what the user is typing.
   const [selectedCustomer, setSelectedCustomer] = React.useState<User | null>(null);
-  const [refreshKey, setRefreshKey] = React.useState(0);
+  if (editingExisting && editData && selectedCustomer?.login.uuid !== editId) {
+    setSelectedCustomer(editData);
+  }
+
+  // A shared link can point at a customer that no longer exists.
+  React.useEffect(() => {
+    if (editingExisting && editError) {
+      showSnackbar({ severity: 'error', message: getErrorMessage(editError, 'Customer not found') });
+      updateUrlState({ edit: null }, { replace: true });
+    }
+  }, [editingExisting, editError, showSnackbar, updateUrlState]);
+
+  const modalOpen =
+    editId === NEW_CUSTOMER_ID || (editingExisting && selectedCustomer?.login.uuid === editId);
+
+  const listState = React.useMemo<CustomersListState>(
+    () => ({
+      search: urlState.search,
+      page: urlState.page,
+      pageSize: urlState.pageSize,
+      sortModel: urlState.sortModel,
+      segment: urlState.segment,
+      view: urlState.view,
+    }),
+    [urlState.search, urlState.page, urlState.pageSize, urlState.sortModel, urlState.segment, urlState.view],
+  );
+
+  const handleViewCustomer = (customer: User) => {
+    queryCache.setQueryData<User>(customerKeys.detail(customer.login.uuid), (cached) => cached ?? customer);
+    navigate(`/customers/${customer.login.uuid}`);
+  };
 
   const handleEditCustomer = (customer: User) => {
+    // The row is already loaded; seed the detail query so the modal opens at once.
+    queryCache.setQueryData<User>(customerKeys.detail(customer.login.uuid), (cached) => cached ?? customer);
     setSelectedCustomer(customer);
-    setModalOpen(true);
+    setSubmitError(null);
+    updateUrlState({ edit: customer.login.uuid });
   };
 
   const handleAddCustomer = () => {
     setSelectedCustomer(null);
-    setModalOpen(true);
+    setSubmitError(null);
+    updateUrlState({ edit: NEW_CUSTOMER_ID });
   };
 
   const handleCloseModal = () => {
-    setModalOpen(false);
+    updateUrlState({ edit: null });
     setSelectedCustomer(null);
+    setSubmitError(null);
   };
 
-  const handleSaveCustomer = () => {
-    // Refresh the data table by updating the key
-    setRefreshKey(prev => prev + 1);
+  const handleSaveCustomer = (submission: CustomerSubmission) => {
+    // Close right away; the table already shows the change optimistically
+    updateUrlState({ edit: null });
+    setSubmitError(null);
+
+    const saving =
+      submission.type === 'create'
+        ? createCustomer(submission.data, submission.phones)
+        : updateCustomer(submission.customer, submission.data);
+
+    saving.catch((err) => {
+      // Field-level rejections reopen the form so they land on the right input
+      if (err instanceof ApiError && Object.keys(err.fieldErrors).length > 0) {
+        setSelectedCustomer(submission.type === 'update' ? submission.customer : null);
+        const reopenId = submission.type === 'update' ? submission.customer.login.uuid : NEW_CUSTOMER_ID;
+        setSubmitError({ editId: reopenId, error: err });
+        updateUrlState({ edit: reopenId }, { replace: true });
+      }
+    });
   };
 
   return (
@@ -38,21 +123,38 @@ export default function Customers() {
       <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
         Manage your customer database with advanced search, filtering, and editing capabilities.
       </Typography>
-      
+
+      <Box sx={{ mb: 2 }}>
+        <CustomerSegmentsBar
+          selectedId={segment?.id ?? null}
+          onSelect={(segmentId) => updateUrlState({ segment: segmentId, page: 0 })}
+        />
+      </Box>
+
       <Box sx={{ height: 'calc(100vh - 200px)', minHeight: '500px' }}>
         <CustomersDataTable
-          key={refreshKey}
+          listState={listState}
+          onListStateChange={updateUrlState}
+          segment={segment}
+          onViewCustomer={handleViewCustomer}
           onEditCustomer={handleEditCustomer}
           onAddCustomer={handleAddCustomer}
+          onImportCustomers={() => setImportOpen(true)}
+          onFindDuplicates={() => setDuplicatesOpen(true)}
+          onDeleteCustomer={deleteCustomer}
         />
       </Box>
 
       <CustomerModal
         open={modalOpen}
         onClose={handleCloseModal}
-        customer={selectedCustomer}
+        customer={editingExisting ? selectedCustomer : null}
         onSave={handleSaveCustomer}
+        submitError={submitError?.editId === editId ? submitError.error : null}
       />
+
+      <CustomerImportDialog open={importOpen} onClose={() => setImportOpen(false)} />
+      <CustomerDuplicatesDialog open={duplicatesOpen} onClose={() => setDuplicatesOpen(false)} />
     </Box>
   );
 }
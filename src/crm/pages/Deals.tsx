@@ -1,17 +1,129 @@
-import * as React from "react";
-import Box from "@mui/material/Box";
-import Typography from "@mui/material/Typography";
+import * as React from 'react';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import CircularProgress from '@mui/material/CircularProgress';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import AddRoundedIcon from '@mui/icons-material/AddRounded';
+import DealsKanbanBoard from '../components/DealsKanbanBoard';
+import DealQuickEditPopover from '../components/DealQuickEditPopover';
+import DealDialog from '../components/DealDialog';
+import {
+  Deal,
+  DealStage,
+  UpdateDealRequest,
+  isClosedStage,
+  moveDealRequest,
+  weightedValue,
+} from '../services/deals';
+import { dealsListQuery } from '../services/dealQueries';
+import { getErrorMessage } from '../services/apiErrors';
+import { useCurrency } from '../hooks/useCurrency';
+import { useDealMutations } from '../hooks/useDealMutations';
+import { useQuery } from '../hooks/useQuery';
 
 export default function Deals() {
+  const { data, error, isLoading } = useQuery(dealsListQuery());
+  const deals = data?.data;
+  const { updateDeal } = useDealMutations();
+  const { convert, format } = useCurrency();
+  // Holds the deal as it was when quick edit opened, so a background refetch
+  // doesn't reset what the user is typing.
+  const [editing, setEditing] = React.useState<{ deal: Deal; anchorEl: HTMLElement } | null>(null);
+  // Kept while the dialog closes so its title doesn't flip mid-transition.
+  const [dialog, setDialog] = React.useState<{ open: boolean; deal: Deal | null }>({ open: false, deal: null });
+
+  const pipeline = React.useMemo(() => {
+    const open = (deals ?? []).filter((deal) => !isClosedStage(deal.stage));
+    return {
+      count: open.length,
+      value: open.reduce((sum, deal) => sum + convert(deal.value, deal.currency), 0),
+      weightedValue: open.reduce((sum, deal) => sum + convert(weightedValue(deal), deal.currency), 0),
+    };
+  }, [deals, convert]);
+
+  const handleMove = (deal: Deal, stage: DealStage) => {
+    if (deal.stage === stage) return;
+    // Failures roll back and toast inside the mutation.
+    updateDeal(deal, moveDealRequest(deal, stage), `Moved ${deal.name} to ${stage}`).catch(() => {});
+  };
+
+  const handleSave = (deal: Deal, request: UpdateDealRequest) => {
+    setEditing(null);
+    updateDeal(deal, request).catch(() => {});
+  };
+
   return (
-    <Box sx={{ width: "100%", maxWidth: { sm: "100%", md: "1700px" } }}>
-      <Typography variant="h4" component="h1" sx={{ mb: 4 }}>
-        Deals Page
-      </Typography>
-      <Typography paragraph>
-        This is the deals management page where you can track and manage your
-        sales pipeline.
-      </Typography>
+    <Box sx={{ width: '100%', maxWidth: { sm: '100%', md: '1700px' } }}>
+      <Stack
+        direction={{ xs: 'column', sm: 'row' }}
+        justifyContent="space-between"
+        alignItems={{ xs: 'flex-start', sm: 'flex-end' }}
+        spacing={2}
+        sx={{ mb: 3 }}
+      >
+        <Typography variant="h4" component="h1">
+          Deals
+        </Typography>
+        <Stack direction="row" spacing={4} alignItems="center">
+          {deals && (
+            <>
+              <Box>
+                <Typography variant="caption" color="text.secondary">
+                  Open pipeline ({pipeline.count})
+                </Typography>
+                <Typography variant="h6">{format(pipeline.value)}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="caption" color="text.secondary">
+                  Weighted
+                </Typography>
+                <Typography variant="h6">{format(pipeline.weightedValue)}</Typography>
+              </Box>
+            </>
+          )}
+          <Button
+            variant="contained"
+            startIcon={<AddRoundedIcon />}
+            onClick={() => setDialog({ open: true, deal: null })}
+          >
+            New Deal
+          </Button>
+        </Stack>
+      </Stack>
+
+      {Boolean(error) && !deals && (
+        <Alert severity="error">{getErrorMessage(error, 'Failed to load deals')}</Alert>
+      )}
+      {isLoading && !deals && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      )}
+      {deals && (
+        <DealsKanbanBoard
+          deals={deals}
+          onMove={handleMove}
+          onEdit={(deal, anchorEl) => setEditing({ deal, anchorEl })}
+        />
+      )}
+
+      <DealQuickEditPopover
+        deal={editing?.deal ?? null}
+        anchorEl={editing?.anchorEl ?? null}
+        onClose={() => setEditing(null)}
+        onSave={handleSave}
+        onEditAll={(deal) => {
+          setEditing(null);
+          setDialog({ open: true, deal });
+        }}
+      />
+      <DealDialog
+        open={dialog.open}
+        deal={dialog.deal}
+        onClose={() => setDialog((current) => ({ ...current, open: false }))}
+      />
     </Box>
   );
 }
@@ -1,17 +1,205 @@
-import * as React from "react";
-import Box from "@mui/material/Box";
-import Typography from "@mui/material/Typography";
+import * as React from 'react';
+import { useTheme } from '@mui/material/styles';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Card from '@mui/material/Card';
+import CardContent from '@mui/material/CardContent';
+import CircularProgress from '@mui/material/CircularProgress';
+import Grid from '@mui/material/Grid';
+import Stack from '@mui/material/Stack';
+import Typography from '@mui/material/Typography';
+import { BarChart } from '@mui/x-charts/BarChart';
+import {
+  averageDaysInStage,
+  conversionFunnel,
+  dealSlippage,
+  winRateBySource,
+} from '../services/dealAnalytics';
+import { dealEventsQuery, dealsListQuery } from '../services/dealQueries';
+import { getErrorMessage } from '../services/apiErrors';
+import { useQuery } from '../hooks/useQuery';
+
+const CHART_HEIGHT = 280;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatDays = (value: number | null) => (value === null ? '' : `${value.toFixed(1)} days`);
+
+interface ReportCardProps {
+  title: string;
+  subtitle: string;
+  children: React.ReactNode;
+}
+
+function ReportCard({ title, subtitle, children }: ReportCardProps) {
+  return (
+    <Card variant="outlined" sx={{ height: '100%' }}>
+      <CardContent>
+        <Typography variant="h6" component="h3">
+          {title}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {subtitle}
+        </Typography>
+        {children}
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function Reports() {
+  const theme = useTheme();
+  const dealsQuery = useQuery(dealsListQuery());
+  const eventsQuery = useQuery(dealEventsQuery());
+  const deals = dealsQuery.data?.data;
+  const events = eventsQuery.data;
+  const error = dealsQuery.error ?? eventsQuery.error;
+
+  const analytics = React.useMemo(() => {
+    if (!deals || !events) return null;
+    return {
+      durations: averageDaysInStage(events),
+      funnel: conversionFunnel(deals, events),
+      winRates: winRateBySource(deals),
+      slippage: dealSlippage(deals, events),
+    };
+  }, [deals, events]);
+
   return (
-    <Box sx={{ width: "100%", maxWidth: { sm: "100%", md: "1700px" } }}>
-      <Typography variant="h4" component="h1" sx={{ mb: 4 }}>
-        Reports Page
+    <Box sx={{ width: '100%', maxWidth: { sm: '100%', md: '1700px' } }}>
+      <Typography variant="h4" component="h1" sx={{ mb: 1 }}>
+        Reports
       </Typography>
-      <Typography paragraph>
-        This is the reports page where you can access and generate various
-        analytics and insights.
+      <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+        Pipeline velocity and conversion, from every recorded stage change.
       </Typography>
+
+      {Boolean(error) && !analytics && (
+        <Alert severity="error">{getErrorMessage(error, 'Failed to load pipeline data')}</Alert>
+      )}
+      {!error && !analytics && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      )}
+
+      {analytics && (
+        <Grid container spacing={2}>
+          <Grid size={{ xs: 12, lg: 6 }}>
+            <ReportCard title="Average days in stage" subtitle="How long deals sat in each stage before moving on">
+              <BarChart
+                dataset={analytics.durations.map((duration) => ({ ...duration }))}
+                xAxis={[{ scaleType: 'band', dataKey: 'stage' }]}
+                yAxis={[{ label: 'Days' }]}
+                series={[
+                  {
+                    dataKey: 'averageDays',
+                    label: 'Average days',
+                    color: theme.palette.primary.main,
+                    valueFormatter: formatDays,
+                  },
+                ]}
+                height={CHART_HEIGHT}
+                hideLegend
+              />
+            </ReportCard>
+          </Grid>
+
+          <Grid size={{ xs: 12, lg: 6 }}>
+            <ReportCard
+              title="Conversion funnel"
+              subtitle="Deals reaching each stage, and the share of the stage before"
+            >
+              <BarChart
+                layout="horizontal"
+                dataset={analytics.funnel.map((step) => ({ ...step }))}
+                yAxis={[{ scaleType: 'band', dataKey: 'stage', width: 90 }]}
+                series={[
+                  {
+                    dataKey: 'deals',
+                    label: 'Deals',
+                    color: theme.palette.info.main,
+                    valueFormatter: (value, { dataIndex }) =>
+                      dataIndex === 0
+                        ? `${value} deals`
+                        : `${value} deals (${formatPercent(analytics.funnel[dataIndex].conversion)})`,
+                  },
+                ]}
+                height={CHART_HEIGHT}
+                hideLegend
+              />
+            </ReportCard>
+          </Grid>
+
+          <Grid size={{ xs: 12, lg: 6 }}>
+            <ReportCard
+              title="Win rate by source"
+              subtitle="Closed Won out of all closed deals from each lead source"
+            >
+              <BarChart
+                dataset={analytics.winRates.map((rate) => ({ ...rate }))}
+                xAxis={[{ scaleType: 'band', dataKey: 'source' }]}
+                yAxis={[{ min: 0, max: 1, valueFormatter: formatPercent }]}
+                series={[
+                  {
+                    dataKey: 'winRate',
+                    label: 'Win rate',
+                    color: theme.palette.success.main,
+                    valueFormatter: (value, { dataIndex }) => {
+                      const { won, lost } = analytics.winRates[dataIndex];
+                      return `${formatPercent(value ?? 0)} (${won} won, ${lost} lost)`;
+                    },
+                  },
+                ]}
+                height={CHART_HEIGHT}
+                hideLegend
+              />
+            </ReportCard>
+          </Grid>
+
+          <Grid size={{ xs: 12, lg: 6 }}>
+            <ReportCard title="Deal slippage" subtitle="Deals whose expected closing date was pushed out">
+              <Stack direction="row" spacing={4} sx={{ mb: 1 }}>
+                <Box>
+                  <Typography variant="h5">
+                    {analytics.slippage.deals
+                      ? formatPercent(analytics.slippage.slipped / analytics.slippage.deals)
+                      : '–'}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {analytics.slippage.slipped} of {analytics.slippage.deals} deals slipped
+                  </Typography>
+                </Box>
+                <Box>
+                  <Typography variant="h5">{Math.round(analytics.slippage.averageDays)}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    Average days pushed out
+                  </Typography>
+                </Box>
+              </Stack>
+              <BarChart
+                dataset={analytics.slippage.byOwner.map((owner) => ({
+                  ...owner,
+                  onTime: owner.deals - owner.slipped,
+                }))}
+                xAxis={[{ scaleType: 'band', dataKey: 'owner' }]}
+                series={[
+                  {
+                    dataKey: 'slipped',
+                    label: 'Slipped',
+                    stack: 'deals',
+                    color: theme.palette.warning.main,
+                    valueFormatter: (value, { dataIndex }) =>
+                      `${value} (avg ${Math.round(analytics.slippage.byOwner[dataIndex].averageDays)} days)`,
+                  },
+                  { dataKey: 'onTime', label: 'On schedule', stack: 'deals', color: theme.palette.grey[400] },
+                ]}
+                height={CHART_HEIGHT - 60}
+              />
+            </ReportCard>
+          </Grid>
+        </Grid>
+      )}
     </Box>
   );
 }
@@ -1,17 +1,25 @@
 import * as React from "react";
 import Box from "@mui/material/Box";
+import Stack from "@mui/material/Stack";
 import Typography from "@mui/material/Typography";
+import CurrencySettings from "../components/CurrencySettings";
+import CustomerFieldsSettings from "../components/CustomerFieldsSettings";
+import SalesTargetsSettings from "../components/SalesTargetsSettings";
 
 export default function Settings() {
   return (
     <Box sx={{ width: "100%", maxWidth: { sm: "100%", md: "1700px" } }}>
-      <Typography variant="h4" component="h1" sx={{ mb: 4 }}>
-        Settings Page
+      <Typography variant="h4" component="h1" sx={{ mb: 1 }}>
+        Settings
       </Typography>
-      <Typography paragraph>
-        This is the settings page where you can configure your CRM preferences
-        and manage your account.
+      <Typography color="text.secondary" sx={{ mb: 4 }}>
+        Configure your CRM preferences and manage your account.
       </Typography>
+      <Stack spacing={3}>
+        <CustomerFieldsSettings />
+        <SalesTargetsSettings />
+        <CurrencySettings />
+      </Stack>
     </Box>
   );
 }
@@ -1,17 +1,197 @@
-import * as React from "react";
-import Box from "@mui/material/Box";
-import Typography from "@mui/material/Typography";
+import * as React from 'react';
+import Alert from '@mui/material/Alert';
+import Box from '@mui/material/Box';
+import Button from '@mui/material/Button';
+import Card from '@mui/material/Card';
+import CircularProgress from '@mui/material/CircularProgress';
+import FormControlLabel from '@mui/material/FormControlLabel';
+import MenuItem from '@mui/material/MenuItem';
+import Stack from '@mui/material/Stack';
+import Switch from '@mui/material/Switch';
+import TextField from '@mui/material/TextField';
+import ToggleButton from '@mui/material/ToggleButton';
+import ToggleButtonGroup from '@mui/material/ToggleButtonGroup';
+import Typography from '@mui/material/Typography';
+import AddRoundedIcon from '@mui/icons-material/AddRounded';
+import CalendarMonthRoundedIcon from '@mui/icons-material/CalendarMonthRounded';
+import ViewKanbanRoundedIcon from '@mui/icons-material/ViewKanbanRounded';
+import ViewListRoundedIcon from '@mui/icons-material/ViewListRounded';
+import TasksTable from '../components/TasksTable';
+import TasksBoard from '../components/TasksBoard';
+import TasksCalendar from '../components/TasksCalendar';
+import TaskDialog from '../components/TaskDialog';
+import { Task, TaskDueFilter, TaskStatus, isTaskDone, matchesDueFilter } from '../services/tasks';
+import { TaskFormValues, toLocalDateTime } from '../services/taskForm';
+import { tasksListQuery } from '../services/taskQueries';
+import { getErrorMessage } from '../services/apiErrors';
+import { teamMembers } from '../services/team';
+import { useQuery } from '../hooks/useQuery';
+import { useTaskMutations } from '../hooks/useTaskMutations';
+
+type TasksView = 'list' | 'board' | 'calendar';
+
+const DUE_FILTERS: { value: TaskDueFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'This week' },
+];
 
 export default function Tasks() {
+  const [view, setView] = React.useState<TasksView>('list');
+  const [due, setDue] = React.useState<TaskDueFilter>('all');
+  const [assignee, setAssignee] = React.useState('');
+  const [showCompleted, setShowCompleted] = React.useState(false);
+  // Kept while the dialog closes so its title doesn't flip mid-transition.
+  const [dialog, setDialog] = React.useState<{
+    open: boolean;
+    task: Task | null;
+    defaults?: Partial<TaskFormValues>;
+  }>({ open: false, task: null });
+
+  const { data, error, isLoading } = useQuery({
+    ...tasksListQuery({ assignee: assignee || undefined, sortBy: 'dueAt' }),
+    keepPreviousData: true,
+  });
+  const tasks = data?.data;
+  const { updateTask, toggleTaskDone } = useTaskMutations();
+
+  // The board keeps its Done column, so completed tasks only hide from the list and calendar.
+  const visibleTasks = React.useMemo(
+    () => (tasks ?? []).filter((task) => view === 'board' || showCompleted || !isTaskDone(task)),
+    [tasks, view, showCompleted],
+  );
+
+  const dueCounts = React.useMemo(() => {
+    const now = new Date();
+    return Object.fromEntries(
+      DUE_FILTERS.map(({ value }) => [value, visibleTasks.filter((task) => matchesDueFilter(task, value, now)).length]),
+    ) as Record<TaskDueFilter, number>;
+  }, [visibleTasks]);
+
+  const filteredTasks = React.useMemo(() => {
+    const now = new Date();
+    return visibleTasks.filter((task) => matchesDueFilter(task, due, now));
+  }, [visibleTasks, due]);
+
+  const handleMove = (task: Task, status: TaskStatus) => {
+    // Failures roll back and toast inside the mutation.
+    updateTask(task, { status }, `Moved ${task.title} to ${status}`).catch(() => {});
+  };
+
+  const openTask = (task: Task) => setDialog({ open: true, task });
+
+  const addTaskOn = (date: Date) => {
+    const nine = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 9);
+    setDialog({ open: true, task: null, defaults: { dueAt: toLocalDateTime(nine.toISOString()) } });
+  };
+
   return (
-    <Box sx={{ width: "100%", maxWidth: { sm: "100%", md: "1700px" } }}>
-      <Typography variant="h4" component="h1" sx={{ mb: 4 }}>
-        Tasks Page
-      </Typography>
-      <Typography paragraph>
-        This is the tasks management page where you can track all your
-        activities and follow-ups.
-      </Typography>
+    <Box sx={{ width: '100%', maxWidth: { sm: '100%', md: '1700px' } }}>
+      <Stack
+        direction={{ xs: 'column', sm: 'row' }}
+        justifyContent="space-between"
+        alignItems={{ xs: 'flex-start', sm: 'flex-end' }}
+        spacing={2}
+        sx={{ mb: 3 }}
+      >
+        <Typography variant="h4" component="h1">
+          Tasks
+        </Typography>
+        <Stack direction="row" spacing={2} alignItems="center">
+          <ToggleButtonGroup
+            size="small"
+            value={view}
+            exclusive
+            onChange={(_event, next: TasksView | null) => next && setView(next)}
+            aria-label="tasks view"
+          >
+            <ToggleButton value="list" aria-label="list view">
+              <ViewListRoundedIcon fontSize="small" />
+            </ToggleButton>
+            <ToggleButton value="board" aria-label="board view">
+              <ViewKanbanRoundedIcon fontSize="small" />
+            </ToggleButton>
+            <ToggleButton value="calendar" aria-label="calendar view">
+              <CalendarMonthRoundedIcon fontSize="small" />
+            </ToggleButton>
+          </ToggleButtonGroup>
+          <Button
+            variant="contained"
+            startIcon={<AddRoundedIcon />}
+            onClick={() => setDialog({ open: true, task: null })}
+          >
+            New Task
+          </Button>
+        </Stack>
+      </Stack>
+
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} alignItems={{ md: 'center' }} sx={{ mb: 2 }}>
+        <ToggleButtonGroup
+          size="small"
+          value={due}
+          exclusive
+          onChange={(_event, next: TaskDueFilter | null) => next && setDue(next)}
+          aria-label="due date filter"
+        >
+          {DUE_FILTERS.map(({ value, label }) => (
+            <ToggleButton key={value} value={value}>
+              {label}
+              {tasks && ` (${dueCounts[value]})`}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <TextField
+          select
+          size="small"
+          label="Assignee"
+          value={assignee}
+          onChange={(event) => setAssignee(event.target.value)}
+          sx={{ minWidth: 200 }}
+        >
+          <MenuItem value="">All assignees</MenuItem>
+          {teamMembers.map((member) => (
+            <MenuItem key={member.id} value={member.name}>
+              {member.name}
+            </MenuItem>
+          ))}
+        </TextField>
+        {view !== 'board' && (
+          <FormControlLabel
+            control={<Switch checked={showCompleted} onChange={(event) => setShowCompleted(event.target.checked)} />}
+            label="Show completed"
+          />
+        )}
+      </Stack>
+
+      {Boolean(error) && !tasks && (
+        <Alert severity="error">{getErrorMessage(error, 'Failed to load tasks')}</Alert>
+      )}
+      {isLoading && !tasks && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+          <CircularProgress />
+        </Box>
+      )}
+      {tasks && view === 'list' && (
+        <Card variant="outlined" sx={{ p: 0 }}>
+          {filteredTasks.length > 0 ? (
+            <TasksTable tasks={filteredTasks} onToggleDone={toggleTaskDone} onOpen={openTask} />
+          ) : (
+            <Typography color="text.secondary" sx={{ textAlign: 'center', py: 6 }}>
+              No tasks match these filters.
+            </Typography>
+          )}
+        </Card>
+      )}
+      {tasks && view === 'board' && <TasksBoard tasks={filteredTasks} onMove={handleMove} onOpen={openTask} />}
+      {tasks && view === 'calendar' && <TasksCalendar tasks={filteredTasks} onOpen={openTask} onAdd={addTaskOn} />}
+
+      <TaskDialog
+        open={dialog.open}
+        task={dialog.task}
+        defaults={dialog.defaults}
+        onClose={() => setDialog((current) => ({ ...current, open: false }))}
+      />
     </Box>
   );
 }
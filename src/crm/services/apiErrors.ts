@@ -0,0 +1,172 @@
+export type FieldErrors = Record<string, string>;
+
+interface ApiErrorOptions {
+  status?: number;
+  body?: unknown;
+  fieldErrors?: FieldErrors;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every failure surfaced by the customer data sources.
+ * `fieldErrors` is keyed by request path (`name.first`, `location.city`, ...)
+ * so forms can attach server messages to the matching input.
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  readonly body: unknown;
+  readonly fieldErrors: FieldErrors;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status ?? 0;
+    this.body = options.body;
+    this.fieldErrors = options.fieldErrors ?? {};
+    this.cause = options.cause;
+  }
+
+  /** Whether repeating the same request might succeed. */
+  get retryable(): boolean {
+    return this.status >= 500;
+  }
+}
+
+export class ValidationError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { status: 400, ...options });
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { status: 404, ...options });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends ApiError {
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message, { status: 409, ...options });
+    this.name = 'ConflictError';
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  /** Server-suggested wait before retrying, from the Retry-After header. */
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: ApiErrorOptions & { retryAfterMs?: number } = {}) {
+    super(message, { status: 429, ...options });
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class NetworkError extends ApiError {
+  constructor(message = 'Unable to reach the server. Check your connection and try again.', options: ApiErrorOptions = {}) {
+    super(message, { status: 0, ...options });
+    this.name = 'NetworkError';
+  }
+
+  get retryable(): boolean {
+    return true;
+  }
+}
+
+export class TimeoutError extends NetworkError {
+  constructor(timeoutMs: number, options: ApiErrorOptions = {}) {
+    super(`The server did not respond within ${timeoutMs / 1000}s.`, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// The worker answers `{ "error": "..." }`; validation failures may also carry
+// `fields: { path: message }` or `errors: [{ field, message }]`.
+function parseFieldErrors(body: unknown): FieldErrors {
+  if (!body || typeof body !== 'object') return {};
+
+  const { fields, errors } = body as {
+    fields?: Record<string, unknown>;
+    errors?: Array<{ field?: string; path?: string; message?: string }>;
+  };
+
+  const fieldErrors: FieldErrors = {};
+  if (fields && typeof fields === 'object') {
+    Object.entries(fields).forEach(([path, message]) => {
+      if (typeof message === 'string') fieldErrors[path] = message;
+    });
+  }
+  if (Array.isArray(errors)) {
+    errors.forEach((entry) => {
+      const path = entry.field ?? entry.path;
+      if (path && entry.message) fieldErrors[path] = entry.message;
+    });
+  }
+  return fieldErrors;
+}
+
+/** Maps a non-2xx fetch response onto the matching `ApiError` subclass. */
+export async function apiErrorFromResponse(response: Response): Promise<ApiError> {
+  let body: unknown;
+  try {
+    body = await response.clone().json();
+  } catch {
+    body = await response.text().catch(() => undefined);
+  }
+
+  const serverMessage =
+    body && typeof body === 'object' && typeof (body as { error?: unknown }).error === 'string'
+      ? (body as { error: string }).error
+      : undefined;
+  const message = serverMessage ?? `API Error: ${response.status} ${response.statusText}`;
+  const options = { status: response.status, body, fieldErrors: parseFieldErrors(body) };
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, options);
+    case 404:
+      return new NotFoundError(message, options);
+    case 409:
+      return new ConflictError(message, options);
+    case 429:
+      return new RateLimitedError(message, {
+        ...options,
+        retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+      });
+    default:
+      return new ApiError(message, options);
+  }
+}
+
+/** True when a request was cancelled through its AbortSignal. */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export function createAbortError(): Error {
+  return new DOMException('The request was aborted.', 'AbortError');
+}
+
+/** A user-presentable message for any thrown value. */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof Error && error.message) return error.message;
+  return fallback;
+}
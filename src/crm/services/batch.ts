@@ -0,0 +1,76 @@
+export interface BatchItemResult<T, R> {
+  item: T;
+  ok: boolean;
+  result?: R;
+  error?: unknown;
+}
+
+export interface BatchProgress {
+  completed: number;
+  failed: number;
+  total: number;
+}
+
+export interface BatchOptions {
+  /** Requests in flight at once. */
+  concurrency?: number;
+  /** Minimum gap between starting two requests, to stay under rate limits. */
+  intervalMs?: number;
+  onProgress?: (progress: BatchProgress) => void;
+  /** Stops starting new items; items already started still settle. */
+  signal?: AbortSignal;
+}
+
+function wait(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs `task` over `items` with bounded concurrency and collects a result per
+ * item instead of failing fast, so callers can report exactly which rows
+ * failed. Results are returned in input order; unstarted items after an
+ * abort are omitted.
+ */
+export async function runBatch<T, R>(
+  items: T[],
+  task: (item: T) => Promise<R>,
+  { concurrency = 4, intervalMs = 0, onProgress, signal }: BatchOptions = {},
+): Promise<Array<BatchItemResult<T, R>>> {
+  const results: Array<BatchItemResult<T, R> | undefined> = new Array(items.length);
+  const progress: BatchProgress = { completed: 0, failed: 0, total: items.length };
+  let nextIndex = 0;
+  let nextStart = 0;
+
+  onProgress?.({ ...progress });
+
+  const worker = async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex;
+      nextIndex += 1;
+
+      if (intervalMs > 0) {
+        const now = Date.now();
+        const startAt = Math.max(now, nextStart);
+        nextStart = startAt + intervalMs;
+        if (startAt > now) await wait(startAt - now);
+        if (signal?.aborted) break;
+      }
+
+      const item = items[index];
+      try {
+        results[index] = { item, ok: true, result: await task(item) };
+      } catch (error) {
+        results[index] = { item, ok: false, error };
+        progress.failed += 1;
+      }
+      progress.completed += 1;
+      onProgress?.({ ...progress });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, () => worker()),
+  );
+
+  return results.filter((result): result is BatchItemResult<T, R> => Boolean(result));
+}
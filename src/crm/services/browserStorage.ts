@@ -0,0 +1,66 @@
+// Everything the CRM keeps in localStorage lives under this prefix.
+const KEY_PREFIX = 'crm.';
+
+/**
+ * Reads a JSON value saved with `writeStoredJson`. Missing, unreadable or
+ * blocked storage all come back as `null`, so callers only handle one case.
+ */
+export function readStoredJson<T>(key: string): T | null {
+  try {
+    const raw = window.localStorage.getItem(KEY_PREFIX + key);
+    return raw === null ? null : (JSON.parse(raw) as T);
+  } catch {
+    return null;
+  }
+}
+
+/** Returns whether the value was stored; quota and privacy-mode failures are swallowed. */
+export function writeStoredJson(key: string, value: unknown): boolean {
+  try {
+    window.localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+    return true;
+  } catch (err) {
+    console.warn(`Could not save ${key} to localStorage`, err);
+    return false;
+  }
+}
+
+export function removeStoredItem(key: string) {
+  try {
+    window.localStorage.removeItem(KEY_PREFIX + key);
+  } catch {
+    // Nothing to clean up if storage is unavailable.
+  }
+}
+
+export interface StoredValue<T> {
+  get(): T;
+  set(value: T): void;
+  /** Called after every `set`; returns the unsubscribe function. */
+  subscribe(listener: () => void): () => void;
+}
+
+/**
+ * A JSON value in localStorage that components can subscribe to, for
+ * settings edited on one page and read on others. `fallback` is used until
+ * something has been saved.
+ */
+export function createStoredValue<T>(key: string, fallback: T): StoredValue<T> {
+  const listeners = new Set<() => void>();
+  let current = readStoredJson<T>(key) ?? fallback;
+
+  return {
+    get: () => current,
+    set(value) {
+      current = value;
+      writeStoredJson(key, value);
+      listeners.forEach((listener) => listener());
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
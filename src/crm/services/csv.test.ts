@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { detectCsvDelimiter, escapeCsvFormula, escapeCsvValue, parseCsv, toCsv, unescapeCsvFormula } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('name,city\r\nAda,London\nGrace,New York')).toEqual([
+      ['name', 'city'],
+      ['Ada', 'London'],
+      ['Grace', 'New York'],
+    ]);
+  });
+
+  it('keeps delimiters, line breaks and doubled quotes inside quoted fields', () => {
+    expect(parseCsv('"Lovelace, Ada","line one\r\nline two","say ""hi"""')).toEqual([
+      ['Lovelace, Ada', 'line one\r\nline two', 'say "hi"'],
+    ]);
+  });
+
+  it('ignores a byte-order mark and blank lines but keeps empty fields', () => {
+    expect(parseCsv('\uFEFFa,b\n\n,\n')).toEqual([
+      ['a', 'b'],
+      ['', ''],
+    ]);
+  });
+
+  it('splits on the delimiter it is given', () => {
+    expect(parseCsv('a;"b;c";d,e', ';')).toEqual([['a', 'b;c', 'd,e']]);
+  });
+});
+
+describe('detectCsvDelimiter', () => {
+  it('picks whichever of , and ; the header line uses more', () => {
+    expect(detectCsvDelimiter('name;city;country\nAda;London;UK')).toBe(';');
+    expect(detectCsvDelimiter('name,city\n"a;b;c;d",x')).toBe(',');
+    expect(detectCsvDelimiter('name')).toBe(',');
+  });
+});
+
+describe('escapeCsvValue', () => {
+  it('quotes only values that need it', () => {
+    expect(escapeCsvValue('plain')).toBe('plain');
+    expect(escapeCsvValue(42)).toBe('42');
+    expect(escapeCsvValue('a,b')).toBe('"a,b"');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it('keeps text that would start a formula from running', () => {
+    expect(escapeCsvValue('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"');
+    expect(escapeCsvValue('+1 555 0100')).toBe("'+1 555 0100");
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsvValue(-5)).toBe('-5');
+  });
+});
+
+describe('escapeCsvFormula and unescapeCsvFormula', () => {
+  it('round-trip formula-like text and leave other text alone', () => {
+    for (const value of ['=1+1', '-dash', '\ttab', 'plain', "'quoted"]) {
+      expect(unescapeCsvFormula(String(escapeCsvFormula(value)))).toBe(value);
+    }
+    expect(unescapeCsvFormula("'quoted")).toBe("'quoted");
+  });
+});
+
+describe('toCsv', () => {
+  it('writes rows that parseCsv reads back', () => {
+    const rows = [
+      ['name', 'note', 'count'],
+      ['Lovelace, Ada', 'said "hello"\nthen left', '3'],
+      ['', 'plain', '0'],
+    ];
+
+    const csv = toCsv(rows);
+
+    expect(csv.split('\r\n')[0]).toBe('name,note,count');
+    expect(parseCsv(csv)).toEqual(rows);
+  });
+});
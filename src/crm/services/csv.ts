@@ -0,0 +1,78 @@
+/**
+ * Parses RFC 4180 CSV: quoted fields may contain the delimiter, line breaks
+ * and doubled quotes. A leading byte-order mark is ignored and blank lines
+ * are skipped.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i += 1) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i += 1;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/** Picks `,` or `;` (common in European Excel exports) from the header line. */
+export function detectCsvDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(';') > count(',') ? ';' : ',';
+}
+
+// Spreadsheet apps run text starting with these as a formula (CSV injection).
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** Text cells that would start a formula get a leading `'`, which spreadsheets show as plain text. */
+export function escapeCsvFormula(value: string | number): string | number {
+  return typeof value === 'string' && FORMULA_PREFIX.test(value) ? `'${value}` : value;
+}
+
+/** Undoes `escapeCsvFormula`, so exported files import back unchanged. */
+export function unescapeCsvFormula(value: string): string {
+  return value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+export function escapeCsvValue(value: string | number) {
+  const text = String(escapeCsvFormula(value ?? ''));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: Array<Array<string | number>>): string {
+  return rows.map((row) => row.map(escapeCsvValue).join(',')).join('\r\n');
+}
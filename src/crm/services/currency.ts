@@ -0,0 +1,105 @@
+import { createStoredValue } from './browserStorage';
+import { detectCsvDelimiter, parseCsv } from './csv';
+import { currentUser } from './team';
+
+/** Exchange rates are quoted against this currency, and sales targets are kept in it. */
+export const BASE_CURRENCY = 'USD';
+
+export interface ExchangeRates {
+  /** Units of each currency per one `BASE_CURRENCY`, keyed by ISO 4217 code. */
+  rates: Record<string, number>;
+  /** When the table was last saved, or `null` for the built-in rates. */
+  updatedAt: string | null;
+}
+
+export const defaultExchangeRates: ExchangeRates = {
+  rates: { USD: 1, EUR: 0.92, GBP: 0.79, CAD: 1.37, AUD: 1.52, JPY: 151 },
+  updatedAt: null,
+};
+
+const exchangeRatesStore = createStoredValue<ExchangeRates>('exchangeRates', defaultExchangeRates);
+
+export const getExchangeRates = exchangeRatesStore.get;
+export const saveExchangeRates = exchangeRatesStore.set;
+export const subscribeToExchangeRates = exchangeRatesStore.subscribe;
+
+// Each rep picks their own, so the key includes the signed-in user.
+const reportingCurrencyStore = createStoredValue<string>(`reportingCurrency.${currentUser.id}`, BASE_CURRENCY);
+
+export const getReportingCurrency = reportingCurrencyStore.get;
+export const saveReportingCurrency = reportingCurrencyStore.set;
+export const subscribeToReportingCurrency = reportingCurrencyStore.subscribe;
+
+export const isCurrencyCode = (code: string) => /^[A-Z]{3}$/.test(code);
+
+/** Converts an amount in `currency` to whatever currency a total is being shown in. */
+export type MoneyConverter = (amount: number, currency: string) => number;
+
+/**
+ * Converts through the base currency. A currency missing from the table is
+ * treated as the base currency, so a deleted rate skews totals rather than
+ * dropping deals from them.
+ */
+export function convertAmount(amount: number, from: string, to: string, { rates }: ExchangeRates) {
+  if (from === to) return amount;
+  return (amount / (rates[from] ?? 1)) * (rates[to] ?? 1);
+}
+
+/** Whole units in the browser's locale; `compact` gives "$542K" for stat cards and axes. */
+export function formatMoney(amount: number, currency: string, { compact = false } = {}) {
+  try {
+    return new Intl.NumberFormat(undefined, {
+      style: 'currency',
+      currency,
+      notation: compact ? 'compact' : 'standard',
+      maximumFractionDigits: compact ? 1 : 0,
+    }).format(amount);
+  } catch {
+    // An unknown currency code; show the amount with the code as stored.
+    return `${Math.round(amount).toLocaleString()} ${currency}`;
+  }
+}
+
+export interface ExchangeRatesImport {
+  rates: Record<string, number>;
+  /** One message per row that was skipped. */
+  errors: string[];
+}
+
+const CODE_HEADERS = ['currency', 'code', 'currency code'];
+const RATE_HEADERS = ['rate', 'exchange rate'];
+
+/**
+ * Reads `currency,rate` rows, with or without a header line, where each rate
+ * is units per one `BASE_CURRENCY`. Header names pick the columns in any
+ * order; without a header the first two columns are used.
+ */
+export function parseExchangeRatesCsv(text: string): ExchangeRatesImport {
+  const rows = parseCsv(text, detectCsvDelimiter(text));
+  const header = rows[0]?.map((cell) => cell.trim().toLowerCase()) ?? [];
+  const hasHeader = header.some((cell) => CODE_HEADERS.includes(cell) || RATE_HEADERS.includes(cell));
+  const codeColumn = hasHeader ? header.findIndex((cell) => CODE_HEADERS.includes(cell)) : 0;
+  const rateColumn = hasHeader ? header.findIndex((cell) => RATE_HEADERS.includes(cell)) : 1;
+
+  if (codeColumn < 0 || rateColumn < 0) {
+    return { rates: {}, errors: ['The header needs a "currency" and a "rate" column'] };
+  }
+
+  const rates: Record<string, number> = {};
+  const errors: string[] = [];
+  rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+    const line = index + (hasHeader ? 2 : 1);
+    const code = row[codeColumn]?.trim().toUpperCase() ?? '';
+    const rate = Number(row[rateColumn]?.trim());
+    if (!isCurrencyCode(code)) {
+      errors.push(`Row ${line}: "${code}" is not a 3-letter currency code`);
+    } else if (!(rate > 0)) {
+      errors.push(`Row ${line}: the rate for ${code} must be a number above zero`);
+    } else if (code === BASE_CURRENCY && rate !== 1) {
+      errors.push(`Row ${line}: ${BASE_CURRENCY} is the base currency, so its rate is always 1`);
+    } else {
+      rates[code] = rate;
+    }
+  });
+  return { rates, errors };
+}
@@ -0,0 +1,248 @@
+import type { CustomFieldValue } from './usersApi';
+import type { CustomFieldFilter } from './customerDataSource';
+import { createStoredValue } from './browserStorage';
+
+export type CustomFieldType =
+  | 'text'
+  | 'number'
+  | 'currency'
+  | 'date'
+  | 'select'
+  | 'multiselect'
+  | 'boolean'
+  | 'url';
+
+export interface CustomFieldDefinition {
+  /** Key in `User.custom`; fixed once the field exists so stored values keep their field. */
+  id: string;
+  label: string;
+  type: CustomFieldType;
+  /** Choices for `select` and `multiselect`. */
+  options?: string[];
+  /** ISO 4217 code for `currency` fields. */
+  currency?: string;
+  required?: boolean;
+  /** Shown as a customers table column by default; otherwise it's in the columns menu. */
+  showInTable?: boolean;
+}
+
+export const customFieldTypes: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  currency: 'Currency',
+  date: 'Date',
+  select: 'Single select',
+  multiselect: 'Multi select',
+  boolean: 'Yes/No',
+  url: 'URL',
+};
+
+/** Joins multi-select values in form inputs, imports and exports, like tags. */
+export const MULTI_VALUE_SEPARATOR = '; ';
+
+const STORAGE_KEY = 'customFields';
+
+// What a new workspace starts with; admins can change or remove any of them.
+const defaultCustomFields: CustomFieldDefinition[] = [
+  {
+    id: 'industry',
+    label: 'Industry',
+    type: 'select',
+    options: ['Technology', 'Finance', 'Healthcare', 'Retail', 'Manufacturing', 'Education', 'Other'],
+    showInTable: true,
+  },
+  {
+    id: 'accountTier',
+    label: 'Account Tier',
+    type: 'select',
+    options: ['Bronze', 'Silver', 'Gold', 'Platinum'],
+  },
+  {
+    id: 'lifetimeValue',
+    label: 'Lifetime Value',
+    type: 'currency',
+    currency: 'USD',
+  },
+];
+
+const customFieldsStore = createStoredValue<CustomFieldDefinition[]>(STORAGE_KEY, defaultCustomFields);
+
+export const getCustomFields = customFieldsStore.get;
+export const saveCustomFields = customFieldsStore.set;
+export const subscribeToCustomFields = customFieldsStore.subscribe;
+
+/** A camelCase id from the label that no existing field uses. */
+export function createCustomFieldId(label: string, fields: CustomFieldDefinition[]): string {
+  const words = label
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const base =
+    words.map((word, index) => (index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))).join('') ||
+    'field';
+  const stem = /^[a-z]/.test(base) ? base : `field${base}`;
+  const taken = new Set(fields.map((field) => field.id));
+  let id = stem;
+  for (let suffix = 2; taken.has(id); suffix += 1) {
+    id = `${stem}${suffix}`;
+  }
+  return id;
+}
+
+/** Grid column field and form path for a custom field. */
+export const customFieldPath = (field: CustomFieldDefinition) => `custom.${field.id}` as const;
+
+export const CUSTOM_FIELD_PREFIX = 'custom.';
+
+const TRUE_INPUTS = ['true', 'yes', 'y', '1'];
+const FALSE_INPUTS = ['false', 'no', 'n', '0'];
+
+const splitMultiValue = (input: string) =>
+  input
+    .split(';')
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+/** The stored value as a form input string. */
+export function customFieldInput(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.join(MULTI_VALUE_SEPARATOR);
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (field.type === 'date') return String(value).slice(0, 10);
+  return String(value);
+}
+
+/** Returns an error message when `input` can't be stored as `field`'s type. */
+export function validateCustomFieldInput(field: CustomFieldDefinition, input: string): string | undefined {
+  const value = input.trim();
+  if (!value) return undefined;
+
+  switch (field.type) {
+    case 'number':
+    case 'currency':
+      return Number.isFinite(Number(value)) ? undefined : 'Enter a number';
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(Date.parse(value))
+        ? undefined
+        : 'Enter a date as YYYY-MM-DD';
+    case 'url':
+      try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? undefined : 'Enter an http(s) URL';
+      } catch {
+        return 'Enter a valid URL, e.g. https://example.com';
+      }
+    case 'boolean':
+      return [...TRUE_INPUTS, ...FALSE_INPUTS].includes(value.toLowerCase()) ? undefined : 'Enter yes or no';
+    case 'select':
+      return (field.options ?? []).includes(value) ? undefined : `Choose one of: ${(field.options ?? []).join(', ')}`;
+    case 'multiselect': {
+      const unknown = splitMultiValue(value).filter((option) => !(field.options ?? []).includes(option));
+      return unknown.length > 0 ? `Unknown option: ${unknown.join(', ')}` : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/** The value stored for a validated input; empty inputs clear the field. */
+export function parseCustomFieldInput(field: CustomFieldDefinition, input: string): CustomFieldValue {
+  const value = input.trim();
+  if (!value) return null;
+
+  switch (field.type) {
+    case 'number':
+    case 'currency':
+      return Number(value);
+    case 'boolean':
+      return TRUE_INPUTS.includes(value.toLowerCase());
+    case 'multiselect':
+      return splitMultiValue(value);
+    default:
+      return value;
+  }
+}
+
+/** Human-readable value for tables and detail pages. */
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (value === undefined || value === null || value === '') return '';
+
+  switch (field.type) {
+    case 'currency':
+      if (typeof value !== 'number') return String(value);
+      try {
+        return value.toLocaleString(undefined, { style: 'currency', currency: field.currency || 'USD' });
+      } catch {
+        // An unknown currency code; show the amount with the code as typed.
+        return `${value.toLocaleString()} ${field.currency}`;
+      }
+    case 'number':
+      return typeof value === 'number' ? value.toLocaleString() : String(value);
+    case 'date': {
+      const date = new Date(`${String(value).slice(0, 10)}T00:00:00`);
+      return Number.isNaN(date.getTime())
+        ? String(value)
+        : date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+    }
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    default:
+      return Array.isArray(value) ? value.join(', ') : String(value);
+  }
+}
+
+/** The cell written for exports: numbers stay numeric and the rest reads back through import. */
+export function exportCustomFieldValue(
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined,
+): string | number {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return customFieldInput(field, value);
+}
+
+/** Whether a stored custom field value passes a `GetUsersParams.custom` filter. */
+export function matchesCustomFilter(value: CustomFieldValue | undefined, filter: CustomFieldFilter) {
+  if (value === undefined || value === null) return false;
+
+  switch (filter.op) {
+    case 'contains':
+      return (Array.isArray(value) ? value.join(' ') : String(value))
+        .toLowerCase()
+        .includes(filter.value.toLowerCase());
+    case 'is':
+      if (typeof value === 'boolean') return String(value) === filter.value;
+      return Array.isArray(value) ? value.includes(filter.value) : String(value) === filter.value;
+    case 'between': {
+      // Numbers compare numerically; dates compare as `YYYY-MM-DD` strings.
+      const bound = (limit: string) => (typeof value === 'number' ? Number(limit) : limit);
+      const comparable = typeof value === 'number' ? value : String(value).slice(0, 10);
+      if (filter.min !== undefined && !(comparable >= bound(filter.min))) return false;
+      if (filter.max !== undefined && !(comparable <= bound(filter.max))) return false;
+      return true;
+    }
+    default:
+      return true;
+  }
+}
+
+/** What a custom field value sorts by; missing values are `null` and sort first, like an empty string would. */
+export function customFieldSortValue(value: CustomFieldValue | undefined): string | number | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return (Array.isArray(value) ? value.join(', ') : value).toLowerCase();
+}
+
+/** Orders two custom field values by `customFieldSortValue`. */
+export function compareCustomFieldValues(a: CustomFieldValue | undefined, b: CustomFieldValue | undefined) {
+  const left = customFieldSortValue(a);
+  const right = customFieldSortValue(b);
+  if (left === right) return 0;
+  if (left === null) return -1;
+  if (right === null) return 1;
+  return left < right ? -1 : left > right ? 1 : 0;
+}
@@ -0,0 +1,76 @@
+import type { User } from './usersApi';
+import type { Deal } from './deals';
+import type { DealEvent } from './dealEvents';
+import type { Task } from './tasks';
+
+export type CustomerActivityType = 'registered' | 'deal' | 'task' | 'note';
+
+export interface CustomerActivity {
+  id: string;
+  type: CustomerActivityType;
+  title: string;
+  description?: string;
+  /** ISO timestamp. */
+  date: string;
+}
+
+/**
+ * Everything known to have happened with a customer, newest first: their
+ * sign-up plus `related` activity from records linked to them.
+ */
+export function buildCustomerActivity(user: User, related: CustomerActivity[] = []): CustomerActivity[] {
+  const activities: CustomerActivity[] = [...related];
+
+  if (user.registered?.date) {
+    activities.push({
+      id: `registered-${user.login.uuid}`,
+      type: 'registered',
+      title: 'Became a customer',
+      description: `Signed up as @${user.login.username}`,
+      date: user.registered.date,
+    });
+  }
+
+  return activities.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/** Each deal's creation and stage moves, for the timeline of the customer they're with. */
+export function dealActivities(deals: Deal[], events: DealEvent[]): CustomerActivity[] {
+  const dealsById = new Map(deals.map((deal) => [deal.id, deal]));
+  return events.flatMap((event) => {
+    const deal = dealsById.get(event.dealId);
+    if (!deal || event.type !== 'stage') return [];
+    return {
+      id: `deal-${event.id}`,
+      type: 'deal' as const,
+      title: event.from === null ? `Deal opened: ${deal.name}` : `${deal.name} moved to ${event.to}`,
+      description: event.from === null ? `In ${event.to}, by ${event.by}` : `From ${event.from}, by ${event.by}`,
+      date: event.at,
+    };
+  });
+}
+
+/** When each task about the customer was added and, if it has been, completed. */
+export function taskActivities(tasks: Task[]): CustomerActivity[] {
+  return tasks.flatMap((task) => {
+    const assigned = task.assignee ? `, assigned to ${task.assignee}` : '';
+    const added: CustomerActivity = {
+      id: `task-${task.id}`,
+      type: 'task',
+      title: `Task added: ${task.title}`,
+      description: `Due ${new Date(task.dueAt).toLocaleDateString('en-US', { dateStyle: 'medium' })}${assigned}`,
+      date: task.createdAt,
+    };
+    if (!task.completedAt) return [added];
+    return [
+      added,
+      {
+        id: `task-${task.id}-completed`,
+        type: 'task',
+        title: `Task completed: ${task.title}`,
+        description: task.assignee && `By ${task.assignee}`,
+        date: task.completedAt,
+      },
+    ];
+  });
+}
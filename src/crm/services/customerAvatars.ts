@@ -0,0 +1,132 @@
+import type { UserPicture } from './usersApi';
+
+export type AvatarSize = keyof UserPicture;
+
+/** Edge length of each generated size: twice the largest place it's shown, for HiDPI screens. */
+export const AVATAR_SIZES: Record<AvatarSize, number> = {
+  large: 256,
+  medium: 128,
+  thumbnail: 64,
+};
+
+export const emptyPicture: UserPicture = { large: '', medium: '', thumbnail: '' };
+
+export const ACCEPTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// JPEG keeps a 256px avatar around 20 KB, small enough to travel inline
+// in the customer record for either data source.
+const OUTPUT_TYPE = 'image/jpeg';
+const OUTPUT_QUALITY = 0.85;
+
+export type AvatarRotation = 0 | 90 | 180 | 270;
+
+export interface AvatarCrop {
+  /** Clockwise rotation applied before cropping. */
+  rotation: AvatarRotation;
+  /** 1 fits the image's short side to the square; higher values zoom in. */
+  zoom: number;
+  /**
+   * Where the square sits within the image, as a fraction of the free travel
+   * on each axis: -1 is the left/top edge, 0 the centre, 1 the right/bottom edge.
+   */
+  x: number;
+  y: number;
+}
+
+export const defaultAvatarCrop: AvatarCrop = { rotation: 0, zoom: 1, x: 0, y: 0 };
+
+export const MAX_AVATAR_ZOOM = 4;
+
+/** Returns an error message for files the cropper can't take. */
+export function validateAvatarFile(file: File): string | undefined {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return 'Choose a JPEG, PNG, WebP or GIF image';
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return 'Choose an image under 10 MB';
+  }
+  return undefined;
+}
+
+export function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The file could not be read as an image'));
+    };
+    image.src = url;
+  });
+}
+
+export const rotateBy = (rotation: AvatarRotation, quarterTurns: number): AvatarRotation =>
+  ((((rotation + quarterTurns * 90) % 360) + 360) % 360) as AvatarRotation;
+
+/** The image's size once rotated, scaled so it covers a `size` square at `crop.zoom`. */
+function coverDimensions(image: HTMLImageElement, crop: AvatarCrop, size: number) {
+  const sideways = crop.rotation % 180 !== 0;
+  const width = sideways ? image.naturalHeight : image.naturalWidth;
+  const height = sideways ? image.naturalWidth : image.naturalHeight;
+  const scale = (size / Math.min(width, height)) * crop.zoom;
+  return { scale, width: width * scale, height: height * scale };
+}
+
+/**
+ * How far the crop can move on each axis, in pixels of a `size` square.
+ * Dragging the preview by that much moves `x`/`y` by 1.
+ */
+export function cropTravel(image: HTMLImageElement, crop: AvatarCrop, size: number) {
+  const { width, height } = coverDimensions(image, crop, size);
+  return { x: (width - size) / 2, y: (height - size) / 2 };
+}
+
+export const clampCropOffset = (value: number) => Math.min(1, Math.max(-1, value));
+
+/** Paints the cropped, rotated image into the whole of `canvas`, which must be square. */
+export function drawAvatar(canvas: HTMLCanvasElement, image: HTMLImageElement, crop: AvatarCrop) {
+  const size = canvas.width;
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const { scale } = coverDimensions(image, crop, size);
+  const travel = cropTravel(image, crop, size);
+
+  context.save();
+  // JPEG has no alpha; transparent PNGs would otherwise turn black.
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, size, size);
+  context.imageSmoothingQuality = 'high';
+  context.translate(size / 2 - crop.x * travel.x, size / 2 - crop.y * travel.y);
+  context.rotate((crop.rotation * Math.PI) / 180);
+  const width = image.naturalWidth * scale;
+  const height = image.naturalHeight * scale;
+  context.drawImage(image, -width / 2, -height / 2, width, height);
+  context.restore();
+}
+
+/** Renders every avatar size from the same crop as data URLs. */
+export function generateAvatarPicture(image: HTMLImageElement, crop: AvatarCrop): UserPicture {
+  const render = (size: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    drawAvatar(canvas, image, crop);
+    return canvas.toDataURL(OUTPUT_TYPE, OUTPUT_QUALITY);
+  };
+
+  return {
+    large: render(AVATAR_SIZES.large),
+    medium: render(AVATAR_SIZES.medium),
+    thumbnail: render(AVATAR_SIZES.thumbnail),
+  };
+}
+
+export const getInitials = (name: { first: string; last: string }) =>
+  `${name.first.charAt(0)}${name.last.charAt(0)}`.toUpperCase();
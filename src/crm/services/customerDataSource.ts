@@ -0,0 +1,73 @@
+import type {
+  User,
+  UsersApiResponse,
+  CreateUserRequest,
+  UpdateUserRequest,
+} from './usersApi';
+import type { SegmentRules } from './customerSegments';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface GetUsersParams {
+  page?: number;
+  perPage?: number;
+  search?: string;
+  sortBy?: string;
+  sortOrder?: SortOrder;
+  span?: string;
+  /** Inclusive bounds on `dob.age`. */
+  ageMin?: number;
+  ageMax?: number;
+  /** Inclusive `YYYY-MM-DD` bounds on `registered.date`. */
+  registeredFrom?: string;
+  registeredTo?: string;
+  /** Exact, case-insensitive match on `location.country`. */
+  country?: string;
+  gender?: string;
+  /** Filters on custom field values, keyed by field id. */
+  custom?: Record<string, CustomFieldFilter>;
+  /** Only customers in a saved segment; applied on top of the other filters. */
+  segment?: SegmentRules;
+}
+
+/**
+ * `contains` matches text case-insensitively; `between` takes inclusive
+ * bounds on numbers or `YYYY-MM-DD` dates; `is` matches a select option
+ * (any of a multi-select's values) or `true`/`false` for yes/no fields.
+ */
+export type CustomFieldFilter =
+  | { op: 'contains'; value: string }
+  | { op: 'between'; min?: string; max?: string }
+  | { op: 'is'; value: string };
+
+export interface RequestOptions {
+  /** Aborts the request; the returned promise rejects with an AbortError. */
+  signal?: AbortSignal;
+}
+
+export interface CreateUserResponse {
+  success: boolean;
+  uuid: string;
+  message: string;
+}
+
+export interface MutationResponse {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * The storage behind `usersApiService`. Implementations must agree on the
+ * Users API semantics (1-based paging, search over name/email/city, the
+ * documented sort fields and filters including `custom.<id>` sorts, and lookup by uuid, username or email) so the CRM
+ * behaves the same whichever backend is selected.
+ */
+export interface CustomerDataSource {
+  getUsers(params: GetUsersParams, options?: RequestOptions): Promise<UsersApiResponse>;
+  getUser(id: string, options?: RequestOptions): Promise<User>;
+  createUser(userData: CreateUserRequest): Promise<CreateUserResponse>;
+  updateUser(id: string, userData: UpdateUserRequest): Promise<MutationResponse>;
+  deleteUser(id: string): Promise<MutationResponse>;
+}
+
+export type CustomerDataSourceKind = 'http' | 'local';
@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from 'vitest';
+import { clearCustomerDraft, loadCustomerDraft, saveCustomerDraft } from './customerDrafts';
+import { CustomerFormValues, customerFormValuesFromUser, newCustomerFormValues } from './customerForm';
+import { createCustomerFixtures } from './customerFixtures';
+
+const [fixture] = createCustomerFixtures(1);
+const customer = {
+  ...fixture,
+  tags: ['VIP'],
+  picture: { large: 'large.jpg', medium: 'medium.jpg', thumbnail: 'thumb.jpg' },
+};
+const savedValues = customerFormValuesFromUser(customer);
+
+// A draft from before `picture`, `tags` and `custom` were on the form.
+function saveOldDraft(id: string, values: CustomerFormValues) {
+  const { picture: _picture, tags: _tags, custom: _custom, ...old } = values;
+  saveCustomerDraft(id, old as CustomerFormValues);
+}
+
+afterEach(() => {
+  clearCustomerDraft(customer.login.uuid);
+  clearCustomerDraft('new');
+});
+
+describe('loadCustomerDraft', () => {
+  it('returns null when there is no draft', () => {
+    expect(loadCustomerDraft(customer.login.uuid, savedValues)).toBeNull();
+  });
+
+  it('restores an old draft over the customer without losing their tags or picture', () => {
+    saveOldDraft(customer.login.uuid, { ...savedValues, email: 'typed@example.com' });
+
+    const draft = loadCustomerDraft(customer.login.uuid, savedValues);
+
+    expect(draft?.values.email).toBe('typed@example.com');
+    expect(draft?.values.tags).toEqual(['VIP']);
+    expect(draft?.values.picture).toEqual(customer.picture);
+    expect(draft?.values.location).toEqual(savedValues.location);
+  });
+
+  it('fills an old new-customer draft from the new-customer defaults', () => {
+    const defaults = newCustomerFormValues();
+    saveOldDraft('new', { ...defaults, name: { ...defaults.name, first: 'Ada' } });
+
+    const draft = loadCustomerDraft('new', defaults);
+
+    expect(draft?.values.name.first).toBe('Ada');
+    expect(draft?.values.tags).toEqual(defaults.tags);
+    expect(draft?.values.picture).toEqual(defaults.picture);
+  });
+
+  it("keeps what the draft changed in nested fields and the base's other fields", () => {
+    saveCustomerDraft(customer.login.uuid, {
+      ...savedValues,
+      tags: [],
+      location: { ...savedValues.location, city: 'Typed City' },
+    });
+
+    const draft = loadCustomerDraft(customer.login.uuid, savedValues);
+
+    expect(draft?.values.tags).toEqual([]);
+    expect(draft?.values.location.city).toBe('Typed City');
+    expect(draft?.values.location.street).toEqual(savedValues.location.street);
+  });
+});
@@ -0,0 +1,55 @@
+import { CustomerFormValues } from './customerForm';
+import { readStoredJson, removeStoredItem, writeStoredJson } from './browserStorage';
+
+// Bump when a `CustomerFormValues` field is renamed or changes meaning, so old
+// drafts are ignored instead of restored into the wrong fields. Fields added
+// since a draft was saved keep the values the form opened with.
+const DRAFT_VERSION = 1;
+
+export interface CustomerDraft {
+  version: number;
+  values: CustomerFormValues;
+  /** ISO timestamp of the last autosave. */
+  savedAt: string;
+}
+
+const draftKey = (id: string) => `customerDraft.${id}`;
+
+// A draft saved before `picture`, `custom` or `tags` existed lacks them; those
+// come from `base`, so restoring it can't blank out stored tags or avatars.
+function overForm(values: Partial<CustomerFormValues>, base: CustomerFormValues): CustomerFormValues {
+  return {
+    ...base,
+    ...values,
+    name: { ...base.name, ...values.name },
+    login: { ...base.login, ...values.login },
+    location: {
+      ...base.location,
+      ...values.location,
+      street: { ...base.location.street, ...values.location?.street },
+    },
+    picture: { ...base.picture, ...values.picture },
+    tags: values.tags ?? base.tags,
+    custom: { ...base.custom, ...values.custom },
+  };
+}
+
+/**
+ * The unsaved form for customer `id` (a uuid, or `new` for the create form),
+ * laid over `base`: the customer's saved values when editing, the new-customer
+ * defaults otherwise.
+ */
+export function loadCustomerDraft(id: string, base: CustomerFormValues): CustomerDraft | null {
+  const draft = readStoredJson<CustomerDraft>(draftKey(id));
+  return draft?.version === DRAFT_VERSION && draft.values ? { ...draft, values: overForm(draft.values, base) } : null;
+}
+
+export function saveCustomerDraft(id: string, values: CustomerFormValues): CustomerDraft {
+  const draft: CustomerDraft = { version: DRAFT_VERSION, values, savedAt: new Date().toISOString() };
+  writeStoredJson(draftKey(id), draft);
+  return draft;
+}
+
+export function clearCustomerDraft(id: string) {
+  removeStoredItem(draftKey(id));
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { DUPLICATE_THRESHOLD, findDuplicateCandidates, normalizeEmail, scoreDuplicatePair } from './customerDuplicates';
+import { createCustomerFixtures } from './customerFixtures';
+import type { User } from './usersApi';
+
+const [template] = createCustomerFixtures(1);
+
+let nextId = 0;
+
+// A customer who shares nothing with any other `customer()` unless told to.
+function customer(first: string, last: string, overrides: Partial<User> = {}): User {
+  nextId += 1;
+  return {
+    ...template,
+    name: { title: 'Ms', first, last },
+    email: `${first}.${last}.${nextId}@example.com`.toLowerCase(),
+    phone: `555-01${String(nextId).padStart(2, '0')}`,
+    cell: '',
+    location: { ...template.location, city: `City ${nextId}`, postcode: `P${nextId}` },
+    login: { ...template.login, uuid: `uuid-${nextId}`, username: `user${nextId}` },
+    ...overrides,
+  };
+}
+
+describe('normalizeEmail', () => {
+  it('ignores case, plus tags and Gmail dots', () => {
+    expect(normalizeEmail(' Jane.Doe+crm@GoogleMail.com ')).toBe('janedoe@gmail.com');
+    expect(normalizeEmail('jane.doe+crm@example.com')).toBe('jane.doe@example.com');
+  });
+});
+
+describe('scoreDuplicatePair', () => {
+  it('scores customers with nothing in common as zero', () => {
+    expect(scoreDuplicatePair(customer('Ada', 'Lovelace'), customer('Kenji', 'Tanaka'))).toMatchObject({
+      score: 0,
+      reasons: [],
+    });
+  });
+
+  it('adds up the signals the pair shares', () => {
+    const a = customer('Ada', 'Lovelace', { email: 'ada@gmail.com', phone: '+44 20 7946 0018' });
+    const b = customer('Ada', 'Lovelace', { email: 'A.D.A+work@gmail.com', phone: '020 7946 0018' });
+
+    const { score, reasons } = scoreDuplicatePair(a, b);
+
+    expect(reasons).toEqual(['Same email', 'Same phone', 'Same name']);
+    expect(score).toBe(100);
+  });
+
+  it('finds names entered the wrong way round or misspelled', () => {
+    expect(scoreDuplicatePair(customer('Ada', 'Lovelace'), customer('Lovelace', 'Ada')).reasons).toEqual([
+      'Same name',
+    ]);
+    expect(scoreDuplicatePair(customer('Jonathan', 'Smith'), customer('Jonathon', 'Smith')).reasons).toEqual([
+      'Similar name',
+    ]);
+  });
+
+  it('needs both city and postcode to count the address', () => {
+    const location = { ...template.location, city: 'Berlin', postcode: '10115' };
+    const a = customer('Ada', 'Lovelace', { location });
+    const sameCity = customer('Kenji', 'Tanaka', { location: { ...location, postcode: '10117' } });
+    // Random-user postcodes are sometimes numbers despite the type.
+    const numericPostcode = 10115 as unknown as string;
+    const sameAddress = customer('Kenji', 'Tanaka', { location: { ...location, postcode: numericPostcode } });
+
+    expect(scoreDuplicatePair(a, sameCity).score).toBe(0);
+    expect(scoreDuplicatePair(a, sameAddress).reasons).toEqual(['Same city and postcode']);
+  });
+
+  it('does not treat two blank emails as the same email', () => {
+    const a = customer('Ada', 'Lovelace', { email: '' });
+    const b = customer('Kenji', 'Tanaka', { email: '' });
+
+    expect(scoreDuplicatePair(a, b)).toMatchObject({ score: 0, reasons: [] });
+  });
+});
+
+describe('findDuplicateCandidates', () => {
+  it('lists pairs at or above the threshold, best first', () => {
+    const ada = customer('Ada', 'Lovelace', { email: 'ada@example.com' });
+    const adaAgain = customer('Ada', 'Lovelace', { email: 'ADA@example.com' });
+    const kenji = customer('Kenji', 'Tanaka', { phone: '555 123 4567' });
+    const kenjiAgain = customer('Kenji', 'Tanaka', { phone: '+1 (555) 123-4567' });
+    const grace = customer('Grace', 'Hopper');
+
+    const candidates = findDuplicateCandidates([ada, kenji, grace, adaAgain, kenjiAgain]);
+
+    expect(candidates.map(({ a, b }) => [a.name.first, b.name.first])).toEqual([
+      ['Ada', 'Ada'],
+      ['Kenji', 'Kenji'],
+    ]);
+    expect(candidates.every(({ score }) => score >= DUPLICATE_THRESHOLD)).toBe(true);
+  });
+
+  it('finds pairs that only share an email or phone, whatever their names', () => {
+    const a = customer('Ada', 'Lovelace', { email: 'shared@example.com', phone: '555 000 1111' });
+    const b = customer('Grace', 'Hopper', { email: 'shared@example.com', phone: '555 000 1111' });
+
+    expect(findDuplicateCandidates([a, b])).toHaveLength(1);
+  });
+
+  it('does not block customers together on a blank email', () => {
+    const users = [customer('Ada', 'Lovelace', { email: '' }), customer('Grace', 'Hopper', { email: '' })];
+
+    expect(findDuplicateCandidates(users, 0)).toEqual([]);
+  });
+
+  it('scores each pair once even when it shares several blocking keys', () => {
+    const a = customer('Ada', 'Lovelace', { email: 'ada@example.com', phone: '555 000 2222' });
+    const b = customer('Ada', 'Lovelace', { email: 'ada@example.com', phone: '555 000 2222' });
+
+    expect(findDuplicateCandidates([a, b])).toHaveLength(1);
+  });
+});
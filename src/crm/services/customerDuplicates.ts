@@ -0,0 +1,172 @@
+import type { User } from './usersApi';
+
+export interface DuplicateCandidate {
+  a: User;
+  b: User;
+  /** 0–100; higher is more likely the same person. */
+  score: number;
+  reasons: string[];
+}
+
+// Points each signal contributes; a pair needs `DUPLICATE_THRESHOLD` to be listed.
+const EMAIL_POINTS = 50;
+const PHONE_POINTS = 30;
+const NAME_POINTS = 30;
+const ADDRESS_POINTS = 15;
+export const DUPLICATE_THRESHOLD = 45;
+
+// Names below this similarity score no points.
+const MIN_NAME_SIMILARITY = 0.85;
+
+const stripDiacritics = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * Lower-cases, drops `+tags`, and ignores dots in Gmail local parts, so
+ * `Jane.Doe+crm@gmail.com` and `janedoe@gmail.com` compare equal.
+ */
+export function normalizeEmail(email: string): string {
+  const [local = '', domain = ''] = email.trim().toLowerCase().split('@');
+  let normalizedLocal = local.split('+')[0];
+  const normalizedDomain = domain === 'googlemail.com' ? 'gmail.com' : domain;
+  if (normalizedDomain === 'gmail.com') {
+    normalizedLocal = normalizedLocal.replace(/\./g, '');
+  }
+  return domain ? `${normalizedLocal}@${normalizedDomain}` : normalizedLocal;
+}
+
+/** The last ten digits, which drops country codes and trunk prefixes. */
+export function phoneDigits(phone: string | undefined): string {
+  const digits = (phone ?? '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-10) : '';
+}
+
+export function normalizeName(value: string): string {
+  return stripDiacritics(value).toLowerCase().replace(/[^a-z]/g, '');
+}
+
+/** Jaro-Winkler similarity in [0, 1]. */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i += 1) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = start; j < end; j += 1) {
+      if (!bMatches[j] && a[i] === b[j]) {
+        aMatches[i] = true;
+        bMatches[j] = true;
+        matches += 1;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k += 1;
+    if (a[i] !== b[k]) transpositions += 1;
+    k += 1;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix += 1;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+const fullName = (user: User) => `${normalizeName(user.name.first)} ${normalizeName(user.name.last)}`;
+const swappedName = (user: User) => `${normalizeName(user.name.last)} ${normalizeName(user.name.first)}`;
+
+// Random-user postcodes are sometimes numbers despite the type.
+const postcodeKey = (user: User) => String(user.location.postcode ?? '').replace(/\s/g, '').toLowerCase();
+
+function userPhones(user: User) {
+  return [phoneDigits(user.phone), phoneDigits(user.cell)].filter(Boolean);
+}
+
+export function scoreDuplicatePair(a: User, b: User): DuplicateCandidate {
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (normalizeEmail(a.email) && normalizeEmail(a.email) === normalizeEmail(b.email)) {
+    score += EMAIL_POINTS;
+    reasons.push('Same email');
+  }
+
+  const bPhones = userPhones(b);
+  if (userPhones(a).some((phone) => bPhones.includes(phone))) {
+    score += PHONE_POINTS;
+    reasons.push('Same phone');
+  }
+
+  // Also catch first and last name entered the wrong way round.
+  const similarity = Math.max(nameSimilarity(fullName(a), fullName(b)), nameSimilarity(fullName(a), swappedName(b)));
+  if (similarity >= MIN_NAME_SIMILARITY) {
+    score += Math.round(NAME_POINTS * similarity);
+    reasons.push(similarity === 1 ? 'Same name' : 'Similar name');
+  }
+
+  const sameCity = a.location.city && normalizeName(a.location.city) === normalizeName(b.location.city);
+  const samePostcode = postcodeKey(a) && postcodeKey(a) === postcodeKey(b);
+  if (sameCity && samePostcode) {
+    score += ADDRESS_POINTS;
+    reasons.push('Same city and postcode');
+  }
+
+  return { a, b, score: Math.min(100, score), reasons };
+}
+
+/**
+ * Scores pairs that share at least one blocking key (email, a phone number,
+ * a name prefix or a postcode) rather than every pair, so the search stays
+ * fast on large customer lists. Returns pairs at or above `threshold`, best
+ * first.
+ */
+export function findDuplicateCandidates(
+  users: User[],
+  threshold = DUPLICATE_THRESHOLD,
+): DuplicateCandidate[] {
+  const blocks = new Map<string, number[]>();
+  const addToBlock = (key: string, index: number) => {
+    const block = blocks.get(key);
+    if (block) block.push(index);
+    else blocks.set(key, [index]);
+  };
+
+  users.forEach((user, index) => {
+    if (normalizeEmail(user.email)) addToBlock(`email:${normalizeEmail(user.email)}`, index);
+    userPhones(user).forEach((phone) => addToBlock(`phone:${phone}`, index));
+    const first = normalizeName(user.name.first);
+    const last = normalizeName(user.name.last);
+    addToBlock(`name:${first.slice(0, 2)}|${last.slice(0, 2)}`, index);
+    addToBlock(`name:${last.slice(0, 2)}|${first.slice(0, 2)}`, index);
+    if (postcodeKey(user)) addToBlock(`postcode:${postcodeKey(user)}`, index);
+  });
+
+  const seen = new Set<string>();
+  const candidates: DuplicateCandidate[] = [];
+
+  blocks.forEach((indexes) => {
+    for (let i = 0; i < indexes.length; i += 1) {
+      for (let j = i + 1; j < indexes.length; j += 1) {
+        const pairKey = `${indexes[i]}:${indexes[j]}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const candidate = scoreDuplicatePair(users[indexes[i]], users[indexes[j]]);
+        if (candidate.score >= threshold) candidates.push(candidate);
+      }
+    }
+  });
+
+  return candidates.sort((x, y) => y.score - x.score);
+}
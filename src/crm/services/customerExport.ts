@@ -0,0 +1,243 @@
+import type { User } from './usersApi';
+import { toCsv } from './csv';
+import { CustomFieldDefinition, customFieldPath, exportCustomFieldValue } from './customFields';
+
+export interface CustomerExportColumn {
+  key: string;
+  label: string;
+  value: (user: User) => string | number;
+}
+
+/**
+ * Flat view of the nested `User` shape. Every export format goes through
+ * these columns so a field is spelled and formatted the same everywhere.
+ */
+export const customerExportColumns: CustomerExportColumn[] = [
+  { key: 'uuid', label: 'ID', value: (user) => user.login.uuid },
+  { key: 'username', label: 'Username', value: (user) => user.login.username },
+  { key: 'title', label: 'Title', value: (user) => user.name.title },
+  { key: 'firstName', label: 'First Name', value: (user) => user.name.first },
+  { key: 'lastName', label: 'Last Name', value: (user) => user.name.last },
+  { key: 'email', label: 'Email', value: (user) => user.email },
+  { key: 'phone', label: 'Phone', value: (user) => user.phone },
+  { key: 'cell', label: 'Cell', value: (user) => user.cell },
+  { key: 'gender', label: 'Gender', value: (user) => user.gender },
+  { key: 'streetNumber', label: 'Street Number', value: (user) => user.location.street?.number || '' },
+  { key: 'streetName', label: 'Street Name', value: (user) => user.location.street?.name ?? '' },
+  { key: 'city', label: 'City', value: (user) => user.location.city },
+  { key: 'state', label: 'State', value: (user) => user.location.state },
+  { key: 'postcode', label: 'Postal Code', value: (user) => user.location.postcode },
+  { key: 'country', label: 'Country', value: (user) => user.location.country },
+  { key: 'timezone', label: 'UTC Offset', value: (user) => user.location.timezone?.offset ?? '' },
+  { key: 'timezoneName', label: 'Timezone', value: (user) => user.location.timezone?.description ?? '' },
+  { key: 'nationality', label: 'Nationality', value: (user) => user.nat },
+  { key: 'dob', label: 'Date of Birth', value: (user) => user.dob?.date?.slice(0, 10) ?? '' },
+  { key: 'age', label: 'Age', value: (user) => user.dob?.age ?? '' },
+  { key: 'registered', label: 'Customer Since', value: (user) => user.registered?.date?.slice(0, 10) ?? '' },
+  { key: 'customerYears', label: 'Years as Customer', value: (user) => user.registered?.age ?? '' },
+  { key: 'picture', label: 'Picture URL', value: (user) => user.picture?.large ?? '' },
+  { key: 'owner', label: 'Owner', value: (user) => user.owner ?? '' },
+  { key: 'tags', label: 'Tags', value: (user) => (user.tags ?? []).join('; ') },
+];
+
+/** One column per custom field, after the built-in ones; the headers match what import recognizes. */
+export function customFieldExportColumns(fields: CustomFieldDefinition[]): CustomerExportColumn[] {
+  return fields.map((field) => ({
+    key: customFieldPath(field),
+    label: field.label,
+    value: (user) => exportCustomFieldValue(field, user.custom?.[field.id]),
+  }));
+}
+
+export type CustomerExportFormat = 'csv' | 'xlsx' | 'vcard3' | 'vcard4';
+
+export const customerExportFormats: Record<
+  CustomerExportFormat,
+  { label: string; extension: string; mimeType: string }
+> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  xlsx: {
+    label: 'Excel (XLSX)',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  },
+  vcard3: { label: 'vCard 3.0', extension: 'vcf', mimeType: 'text/vcard;charset=utf-8' },
+  vcard4: { label: 'vCard 4.0', extension: 'vcf', mimeType: 'text/vcard;charset=utf-8' },
+};
+
+type FlatCustomer = Record<string, string | number>;
+
+function flattenCustomer(user: User, columns: CustomerExportColumn[]): FlatCustomer {
+  return Object.fromEntries(columns.map((column) => [column.key, column.value(user)]));
+}
+
+export function customersToCsv(
+  users: User[],
+  columns: CustomerExportColumn[] = customerExportColumns,
+): string {
+  return toCsv([
+    columns.map((column) => column.label),
+    ...users.map((user) => columns.map((column) => column.value(user))),
+  ]);
+}
+
+export async function customersToXlsx(
+  users: User[],
+  columns: CustomerExportColumn[] = customerExportColumns,
+): Promise<Blob> {
+  // Only pulled in when someone actually exports a spreadsheet.
+  const { default: writeXlsxFile } = await import('write-excel-file/browser');
+
+  const header = columns.map((column) => ({ value: column.label, fontWeight: 'bold' as const }));
+  const rows = users.map((user) =>
+    columns.map((column) => {
+      const value = column.value(user);
+      return value === '' ? null : { value, type: typeof value === 'number' ? Number : String };
+    }),
+  );
+
+  return writeXlsxFile([header, ...rows], {
+    sheet: 'Customers',
+    stickyRowsCount: 1,
+    columns: columns.map((column) => ({ width: Math.max(10, column.label.length + 2) })),
+  }).toBlob();
+}
+
+// RFC 6350 §3.4 / RFC 2426 §4: backslash-escape text value separators.
+const escapeVCardText = (value: string | number) =>
+  String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+
+// Content lines are folded at 75 octets; continuation lines start with a space.
+function foldVCardLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** `-5:00` → `-05:00`, the ISO 8601 offset vCard expects. */
+function isoUtcOffset(offset: string) {
+  const match = /^([+-])?(\d{1,2}):(\d{2})$/.exec(offset.trim());
+  if (!match) return null;
+  const [, sign = '+', hours, minutes] = match;
+  return `${sign}${hours.padStart(2, '0')}:${minutes}`;
+}
+
+/** vCard 4 takes data URLs as-is; 3.0 wants uploaded photos inline as base64. */
+function vCardPhoto(picture: string, v4: boolean) {
+  const inline = /^data:image\/(\w+);base64,(.*)$/.exec(picture);
+  if (v4) return `PHOTO:${picture}`;
+  return inline
+    ? `PHOTO;ENCODING=b;TYPE=${inline[1].toUpperCase()}:${inline[2]}`
+    : `PHOTO;VALUE=URI:${picture}`;
+}
+
+function customerToVCard(flat: FlatCustomer, version: '3.0' | '4.0'): string {
+  const has = (key: string) => key in flat && flat[key] !== '';
+  const text = (key: string) => (has(key) ? escapeVCardText(flat[key]) : '');
+  const v4 = version === '4.0';
+  const lines = ['BEGIN:VCARD', `VERSION:${version}`];
+
+  const fullName = [flat.title, flat.firstName, flat.lastName].filter((part) => part).join(' ');
+  // FN is mandatory, so fall back to whatever identifies the customer.
+  lines.push(`FN:${escapeVCardText(fullName || flat.email || flat.username || flat.uuid || 'Customer')}`);
+  if (has('firstName') || has('lastName')) {
+    lines.push(`N:${text('lastName')};${text('firstName')};;${text('title')};`);
+  }
+  if (has('uuid')) lines.push(v4 ? `UID:urn:uuid:${flat.uuid}` : `UID:${flat.uuid}`);
+  if (has('username')) lines.push(`NICKNAME:${text('username')}`);
+  if (has('email')) lines.push(`EMAIL;TYPE=${v4 ? 'home' : 'INTERNET,HOME'}:${text('email')}`);
+  if (has('phone')) lines.push(`TEL;TYPE=${v4 ? 'home,voice' : 'HOME,VOICE'}:${text('phone')}`);
+  if (has('cell')) lines.push(`TEL;TYPE=${v4 ? 'cell' : 'CELL'}:${text('cell')}`);
+
+  if (['streetNumber', 'streetName', 'city', 'state', 'postcode', 'country'].some(has)) {
+    const street = [text('streetNumber'), text('streetName')].filter(Boolean).join(' ');
+    lines.push(
+      `ADR;TYPE=${v4 ? 'home' : 'HOME'}:;;${street};${text('city')};${text('state')};${text('postcode')};${text('country')}`,
+    );
+  }
+  if (has('dob')) {
+    const date = String(flat.dob);
+    lines.push(`BDAY:${v4 ? date.replace(/-/g, '') : date}`);
+  }
+  if (has('gender') && v4) {
+    const gender = String(flat.gender).toLowerCase();
+    lines.push(`GENDER:${gender === 'male' ? 'M' : gender === 'female' ? 'F' : 'U'}`);
+  }
+  const offset = has('timezone') ? isoUtcOffset(String(flat.timezone)) : null;
+  if (offset) {
+    lines.push(v4 ? `TZ;VALUE=utc-offset:${offset.replace(':', '')}` : `TZ:${offset}`);
+  }
+  if (has('picture')) lines.push(vCardPhoto(String(flat.picture), v4));
+  if (has('tags')) {
+    lines.push(`CATEGORIES:${String(flat.tags).split('; ').map(escapeVCardText).join(',')}`);
+  }
+  lines.push('END:VCARD');
+
+  return lines.map(foldVCardLine).join('\r\n');
+}
+
+/**
+ * One vCard per customer. Only properties backed by the chosen columns are
+ * written, using the same flattened values as the CSV and XLSX exports.
+ */
+export function customersToVCard(
+  users: User[],
+  columns: CustomerExportColumn[] = customerExportColumns,
+  version: '3.0' | '4.0' = '4.0',
+): string {
+  return `${users.map((user) => customerToVCard(flattenCustomer(user, columns), version)).join('\r\n')}\r\n`;
+}
+
+/** Serializes `users` in `format` and hands the file to the browser. */
+export async function exportCustomers(
+  users: User[],
+  format: CustomerExportFormat,
+  columns: CustomerExportColumn[] = customerExportColumns,
+  filenameBase = 'customers',
+) {
+  const { extension, mimeType } = customerExportFormats[format];
+  const filename = exportFilename(filenameBase, extension);
+
+  switch (format) {
+    case 'csv':
+      // The BOM makes Excel read the file as UTF-8.
+      downloadFile(`\ufeff${customersToCsv(users, columns)}`, filename, mimeType);
+      break;
+    case 'xlsx':
+      downloadFile(await customersToXlsx(users, columns), filename, mimeType);
+      break;
+    case 'vcard3':
+      downloadFile(customersToVCard(users, columns, '3.0'), filename, mimeType);
+      break;
+    case 'vcard4':
+      downloadFile(customersToVCard(users, columns, '4.0'), filename, mimeType);
+      break;
+  }
+}
+
+export function downloadFile(content: BlobPart, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight after the click can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function exportFilename(base: string, extension: string) {
+  return `${base}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
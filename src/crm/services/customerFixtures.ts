@@ -0,0 +1,192 @@
+import type { User } from './usersApi';
+
+// Ages and registration dates are computed against a fixed date rather than
+// "now" so that the seeded data set is identical on every machine and run.
+export const FIXTURE_REFERENCE_DATE = '2024-01-01T00:00:00.000Z';
+
+const MALE_FIRST_NAMES = [
+  'James', 'Liam', 'Noah', 'Lucas', 'Mateo', 'Elias', 'Hugo', 'Oliver',
+  'Arjun', 'Kenji', 'Luca', 'Felix', 'Samuel', 'Diego', 'Omar', 'Viktor',
+  'Theo', 'Rafael', 'Daniel', 'Jonas',
+];
+
+const FEMALE_FIRST_NAMES = [
+  'Emma', 'Olivia', 'Sofia', 'Mia', 'Amelia', 'Chloe', 'Ines', 'Freya',
+  'Priya', 'Yuki', 'Giulia', 'Lena', 'Clara', 'Lucia', 'Amira', 'Anna',
+  'Zoe', 'Beatriz', 'Nora', 'Elif',
+];
+
+const LAST_NAMES = [
+  'Smith', 'Johnson', 'Brown', 'Garcia', 'Martin', 'Müller', 'Rossi',
+  'Dubois', 'Silva', 'Tanaka', 'Nielsen', 'Kowalski', 'Jansen', 'Novak',
+  'Walker', 'Fernandez', 'Larsen', 'Schmidt', 'Moreau', 'Costa', 'Wilson',
+  'Taylor', 'Anderson', 'Thomas', 'Lopez',
+];
+
+const STREET_NAMES = [
+  'Main St', 'Oak Avenue', 'Maple Road', 'Station Road', 'High Street',
+  'Church Lane', 'Park Avenue', 'Mill Road', 'King Street', 'Victoria Road',
+  'Elm Street', 'Harbour Way',
+];
+
+interface FixtureCity {
+  city: string;
+  state: string;
+  country: string;
+  nat: string;
+  latitude: number;
+  longitude: number;
+  offset: string;
+  description: string;
+  postcode: () => string;
+}
+
+const CITIES: FixtureCity[] = [
+  { city: 'New York', state: 'NY', country: 'United States', nat: 'US', latitude: 40.7128, longitude: -74.006, offset: '-5:00', description: 'Eastern Time (US & Canada), Bogota, Lima', postcode: () => digits(5) },
+  { city: 'Austin', state: 'TX', country: 'United States', nat: 'US', latitude: 30.2672, longitude: -97.7431, offset: '-6:00', description: 'Central Time (US & Canada), Mexico City', postcode: () => digits(5) },
+  { city: 'Seattle', state: 'WA', country: 'United States', nat: 'US', latitude: 47.6062, longitude: -122.3321, offset: '-8:00', description: 'Pacific Time (US & Canada)', postcode: () => digits(5) },
+  { city: 'Toronto', state: 'Ontario', country: 'Canada', nat: 'CA', latitude: 43.6532, longitude: -79.3832, offset: '-5:00', description: 'Eastern Time (US & Canada), Bogota, Lima', postcode: () => `${letter()}${digits(1)}${letter()} ${digits(1)}${letter()}${digits(1)}` },
+  { city: 'London', state: 'Greater London', country: 'United Kingdom', nat: 'GB', latitude: 51.5074, longitude: -0.1278, offset: '0:00', description: 'Western Europe Time, London, Lisbon, Casablanca', postcode: () => `${letter()}${letter()}${digits(1)} ${digits(1)}${letter()}${letter()}` },
+  { city: 'Berlin', state: 'Berlin', country: 'Germany', nat: 'DE', latitude: 52.52, longitude: 13.405, offset: '+1:00', description: 'Brussels, Copenhagen, Madrid, Paris', postcode: () => digits(5) },
+  { city: 'Paris', state: 'Île-de-France', country: 'France', nat: 'FR', latitude: 48.8566, longitude: 2.3522, offset: '+1:00', description: 'Brussels, Copenhagen, Madrid, Paris', postcode: () => digits(5) },
+  { city: 'Madrid', state: 'Comunidad de Madrid', country: 'Spain', nat: 'ES', latitude: 40.4168, longitude: -3.7038, offset: '+1:00', description: 'Brussels, Copenhagen, Madrid, Paris', postcode: () => digits(5) },
+  { city: 'Amsterdam', state: 'Noord-Holland', country: 'Netherlands', nat: 'NL', latitude: 52.3676, longitude: 4.9041, offset: '+1:00', description: 'Brussels, Copenhagen, Madrid, Paris', postcode: () => `${digits(4)} ${letter()}${letter()}` },
+  { city: 'Copenhagen', state: 'Hovedstaden', country: 'Denmark', nat: 'DK', latitude: 55.6761, longitude: 12.5683, offset: '+1:00', description: 'Brussels, Copenhagen, Madrid, Paris', postcode: () => digits(4) },
+  { city: 'Sydney', state: 'New South Wales', country: 'Australia', nat: 'AU', latitude: -33.8688, longitude: 151.2093, offset: '+10:00', description: 'Eastern Australia, Guam, Vladivostok', postcode: () => digits(4) },
+  { city: 'Auckland', state: 'Auckland', country: 'New Zealand', nat: 'NZ', latitude: -36.8485, longitude: 174.7633, offset: '+12:00', description: 'Auckland, Wellington, Fiji, Kamchatka', postcode: () => digits(4) },
+  { city: 'São Paulo', state: 'São Paulo', country: 'Brazil', nat: 'BR', latitude: -23.5505, longitude: -46.6333, offset: '-3:00', description: 'Brazil, Buenos Aires, Georgetown', postcode: () => `${digits(5)}-${digits(3)}` },
+  { city: 'Mumbai', state: 'Maharashtra', country: 'India', nat: 'IN', latitude: 19.076, longitude: 72.8777, offset: '+5:30', description: 'Bombay, Calcutta, Madras, New Delhi', postcode: () => digits(6) },
+];
+
+// mulberry32: small, fast and good enough for fixture data.
+let seed = 0;
+
+function random() {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function randomInt(min: number, max: number) {
+  return min + Math.floor(random() * (max - min + 1));
+}
+
+function pick<T>(items: T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+function digits(count: number) {
+  let value = '';
+  for (let i = 0; i < count; i += 1) {
+    value += randomInt(0, 9).toString();
+  }
+  return value;
+}
+
+function letter() {
+  return String.fromCharCode(65 + randomInt(0, 25));
+}
+
+function hex(count: number) {
+  let value = '';
+  for (let i = 0; i < count; i += 1) {
+    value += randomInt(0, 15).toString(16);
+  }
+  return value;
+}
+
+function yearsBetween(from: Date, to: Date) {
+  let years = to.getUTCFullYear() - from.getUTCFullYear();
+  const beforeAnniversary =
+    to.getUTCMonth() < from.getUTCMonth() ||
+    (to.getUTCMonth() === from.getUTCMonth() && to.getUTCDate() < from.getUTCDate());
+  if (beforeAnniversary) years -= 1;
+  return years;
+}
+
+// Derived from the index rather than drawn from the generator, so adding
+// tags didn't change any other fixture value.
+function fixtureTags(index: number) {
+  const tags: string[] = [];
+  if (index % 9 === 0) tags.push('VIP');
+  if (index % 13 === 4) tags.push('churn-risk');
+  if (index % 20 === 7) tags.push('partner');
+  return tags;
+}
+
+function asciiSlug(value: string) {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+}
+
+/**
+ * Generates a deterministic set of random-user shaped customers. The same
+ * `count` and `fixtureSeed` always yield the same records, in the same order.
+ */
+export function createCustomerFixtures(count = 500, fixtureSeed = 42): User[] {
+  seed = fixtureSeed;
+  const reference = new Date(FIXTURE_REFERENCE_DATE);
+  const users: User[] = [];
+
+  for (let index = 0; index < count; index += 1) {
+    const gender = random() < 0.5 ? 'male' : 'female';
+    const first = pick(gender === 'male' ? MALE_FIRST_NAMES : FEMALE_FIRST_NAMES);
+    const last = pick(LAST_NAMES);
+    const title = gender === 'male' ? 'Mr' : pick(['Ms', 'Mrs', 'Miss']);
+    const place = pick(CITIES);
+    const username = `${asciiSlug(first)}${asciiSlug(last)}${index}`;
+
+    const dob = new Date(reference);
+    dob.setUTCFullYear(reference.getUTCFullYear() - randomInt(18, 80));
+    dob.setUTCDate(dob.getUTCDate() - randomInt(0, 364));
+
+    const registered = new Date(reference);
+    registered.setUTCDate(registered.getUTCDate() - randomInt(1, 20 * 365));
+
+    const portrait = `${gender === 'male' ? 'men' : 'women'}/${randomInt(0, 99)}.jpg`;
+
+    users.push({
+      login: {
+        uuid: `${hex(8)}-${hex(4)}-4${hex(3)}-${pick(['8', '9', 'a', 'b'])}${hex(3)}-${hex(12)}`,
+        username,
+        password: 'password',
+      },
+      name: { title, first, last },
+      gender,
+      location: {
+        street: { number: randomInt(1, 9999), name: pick(STREET_NAMES) },
+        city: place.city,
+        state: place.state,
+        country: place.country,
+        postcode: place.postcode(),
+        coordinates: {
+          latitude: Number((place.latitude + (random() - 0.5) / 10).toFixed(4)),
+          longitude: Number((place.longitude + (random() - 0.5) / 10).toFixed(4)),
+        },
+        timezone: { offset: place.offset, description: place.description },
+      },
+      email: `${asciiSlug(first)}.${asciiSlug(last)}${index}@example.com`,
+      dob: { date: dob.toISOString(), age: yearsBetween(dob, reference) },
+      registered: {
+        date: registered.toISOString(),
+        age: yearsBetween(registered, reference),
+      },
+      phone: `${digits(3)}-${digits(3)}-${digits(4)}`,
+      cell: `${digits(3)}-${digits(3)}-${digits(4)}`,
+      picture: {
+        large: `https://randomuser.me/api/portraits/${portrait}`,
+        medium: `https://randomuser.me/api/portraits/med/${portrait}`,
+        thumbnail: `https://randomuser.me/api/portraits/thumb/${portrait}`,
+      },
+      nat: place.nat,
+      tags: fixtureTags(index),
+    });
+  }
+
+  return users;
+}
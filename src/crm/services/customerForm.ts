@@ -0,0 +1,236 @@
+import { User, CreateUserRequest, UpdateUserRequest, usersApiService } from './usersApi';
+import type { LeafPath } from '../../shared-form/paths';
+import { getIn, listLeafPaths, setIn } from '../../shared-form/paths';
+import { FormErrors, Validator, defineFormSchema, validateSync } from '../../shared-form/schema';
+import { countryCode, validatePostcode } from '../../shared-form/addressFormats';
+import { isPossiblePhone, toE164 } from '../../shared-form/phoneNumbers';
+import {
+  CustomFieldDefinition,
+  customFieldInput,
+  parseCustomFieldInput,
+  validateCustomFieldInput,
+} from './customFields';
+
+/**
+ * A customer as edited in forms and imports: the request shape with every
+ * value but the tag list as a string, so each field's path is also its request path and the
+ * API's field errors land on the matching input as-is.
+ */
+export interface CustomerFormValues {
+  name: {
+    title: string;
+    first: string;
+    last: string;
+  };
+  email: string;
+  login: {
+    username: string;
+  };
+  gender: string;
+  phone: string;
+  cell: string;
+  location: {
+    street: {
+      number: string;
+      name: string;
+    };
+    city: string;
+    state: string;
+    country: string;
+    postcode: string;
+  };
+  picture: {
+    large: string;
+    medium: string;
+    thumbnail: string;
+  };
+  tags: string[];
+  /** Custom field inputs keyed by field id; see `customFieldInput`. */
+  custom: Record<string, string>;
+}
+
+export type CustomerFormField = LeafPath<CustomerFormValues>;
+
+/** Messages keyed by field path (`name.first`, `location.city`, ...). */
+export type CustomerFormErrors = FormErrors;
+
+export const emptyCustomerFormValues: CustomerFormValues = {
+  name: { title: 'Mr', first: '', last: '' },
+  email: '',
+  login: { username: '' },
+  gender: 'male',
+  phone: '',
+  cell: '',
+  location: {
+    street: { number: '', name: '' },
+    city: '',
+    state: '',
+    country: '',
+    postcode: '',
+  },
+  picture: { large: '', medium: '', thumbnail: '' },
+  tags: [],
+  custom: {},
+};
+
+const customerFormFields = listLeafPaths(emptyCustomerFormValues) as CustomerFormField[];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface CustomerFormSchemaOptions {
+  /** The username can't be changed after create, so only new customers need one. */
+  requireUsername: boolean;
+  /** The customer being edited, whose own email doesn't count as taken. */
+  customerId?: string | null;
+  customFields?: CustomFieldDefinition[];
+}
+
+/** Resolves with a message when another customer already uses `email`. */
+async function findEmailConflict(email: string, customerId: string | null, signal: AbortSignal) {
+  const { data } = await usersApiService.getUsers({ search: email.trim(), perPage: 10 }, { signal });
+  const taken = data.some(
+    (user) =>
+      user.email.toLowerCase() === email.trim().toLowerCase() && user.login.uuid !== customerId,
+  );
+  return taken ? 'Another customer already uses this email' : undefined;
+}
+
+// Numbers typed without a country code are read as local to the customer's country.
+const validPhone: Validator<CustomerFormValues, string> = (phone, values) =>
+  !phone || isPossiblePhone(phone, countryCode(values.location.country))
+    ? undefined
+    : 'Please enter a valid phone number';
+
+/** The rules a customer must pass before it is sent to the API. */
+export function customerFormSchema({
+  requireUsername,
+  customerId = null,
+  customFields = [],
+}: CustomerFormSchemaOptions) {
+  const customRules = Object.fromEntries(
+    customFields.map((field) => [
+      `custom.${field.id}`,
+      {
+        required: field.required ? `${field.label} is required` : undefined,
+        validate: (input: string) => validateCustomFieldInput(field, input),
+      },
+    ]),
+  );
+
+  return defineFormSchema<CustomerFormValues>({
+    ...customRules,
+    'name.first': { required: 'First name is required' },
+    'name.last': { required: 'Last name is required' },
+    email: {
+      required: 'Email is required',
+      validate: (email) => (EMAIL_PATTERN.test(email) ? undefined : 'Please enter a valid email address'),
+      validateAsync: (email, _values, signal) => findEmailConflict(email, customerId, signal),
+    },
+    'login.username': requireUsername ? { required: 'Username is required' } : {},
+    phone: { validate: validPhone },
+    cell: { validate: validPhone },
+    'location.street.number': {
+      validate: (number) => (!number || /^\d+$/.test(number) ? undefined : 'Street number must be a number'),
+    },
+    'location.postcode': {
+      validate: (postcode, values) => validatePostcode(postcode, values.location.country),
+    },
+  });
+}
+
+/** Runs the synchronous customer rules, for callers without a live form such as imports. */
+export function validateCustomerForm(
+  values: CustomerFormValues,
+  options: CustomerFormSchemaOptions,
+): CustomerFormErrors {
+  return validateSync(customerFormSchema(options), values);
+}
+
+/** A blank form with an empty input for every custom field. */
+export function newCustomerFormValues(customFields: CustomFieldDefinition[] = []): CustomerFormValues {
+  return {
+    ...emptyCustomerFormValues,
+    custom: Object.fromEntries(customFields.map((field) => [field.id, ''])),
+  };
+}
+
+export function customerFormValuesFromUser(
+  customer: User,
+  customFields: CustomFieldDefinition[] = [],
+): CustomerFormValues {
+  const values = customerFormFields.reduce((result, path) => {
+    const value = getIn(customer, path);
+    return setIn(result, path, value === undefined || value === null ? '' : String(value));
+  }, emptyCustomerFormValues);
+
+  return {
+    ...values,
+    gender: values.gender || 'male',
+    tags: customer.tags ?? [],
+    custom: Object.fromEntries(
+      customFields.map((field) => [field.id, customFieldInput(field, customer.custom?.[field.id])]),
+    ),
+  };
+}
+
+const parseStreetNumber = (value: string) => (value ? parseInt(value, 10) : undefined);
+
+/** Stores numbers as E.164 where they parse, so they format the same everywhere. */
+const normalizePhone = (phone: string, values: CustomerFormValues) =>
+  phone && (toE164(phone, countryCode(values.location.country)) ?? phone);
+
+// Only fields that are still defined are sent; values of deleted fields stay stored.
+const customValuesFromForm = (values: CustomerFormValues, customFields: CustomFieldDefinition[]) =>
+  Object.fromEntries(
+    customFields.map((field) => [field.id, parseCustomFieldInput(field, values.custom[field.id] ?? '')]),
+  );
+
+/**
+ * The create endpoint doesn't take phone numbers, so a new customer's are
+ * saved with an update once it exists. `null` when both were left empty.
+ */
+export function phoneRequestFromForm(values: CustomerFormValues): UpdateUserRequest | null {
+  if (!values.phone && !values.cell) return null;
+  return { phone: normalizePhone(values.phone, values), cell: normalizePhone(values.cell, values) };
+}
+
+export function createRequestFromForm(
+  values: CustomerFormValues,
+  password?: string,
+  customFields: CustomFieldDefinition[] = [],
+): CreateUserRequest {
+  // Phone numbers go through phoneRequestFromForm.
+  const { phone: _phone, cell: _cell, ...request } = values;
+  return {
+    ...request,
+    login: { ...values.login, password },
+    custom: customValuesFromForm(values, customFields),
+    location: {
+      ...values.location,
+      street: {
+        number: parseStreetNumber(values.location.street.number) ?? 0,
+        name: values.location.street.name,
+      },
+    },
+  };
+}
+
+export function updateRequestFromForm(
+  values: CustomerFormValues,
+  customFields: CustomFieldDefinition[] = [],
+): UpdateUserRequest {
+  const { login: _login, ...request } = values;
+  return {
+    ...request,
+    custom: customValuesFromForm(values, customFields),
+    phone: normalizePhone(values.phone, values),
+    cell: normalizePhone(values.cell, values),
+    location: {
+      ...values.location,
+      street: {
+        number: parseStreetNumber(values.location.street.number),
+        name: values.location.street.name,
+      },
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import type { GridFilterModel, GridSortModel } from '@mui/x-data-grid';
+import type { CustomFieldFilter, GetUsersParams } from './customerDataSource';
+import { CUSTOM_FIELD_PREFIX } from './customFields';
+
+/**
+ * Grid column → Users API `sortBy` field. Columns not listed can't be sorted,
+ * apart from custom field columns, which sort by their own `custom.<id>` field.
+ */
+export const customerSortFields: Record<string, string> = {
+  name: 'name.first',
+  lastName: 'name.last',
+  email: 'email',
+  location: 'location.city',
+  age: 'dob.age',
+  registered: 'registered.date',
+};
+
+/** Own keys only, so `?sort=constructor` and the like aren't taken for sortable columns. */
+export const isCustomerSortField = (field: string) => Object.prototype.hasOwnProperty.call(customerSortFields, field);
+
+export const DEFAULT_CUSTOMER_SORT: GridSortModel = [{ field: 'name', sort: 'asc' }];
+
+/** Filter operator values, shared by the column definitions and the mapping below. */
+export const customerFilterOperators = {
+  ageRange: 'ageRange',
+  registeredRange: 'registeredRange',
+  country: 'country',
+  gender: 'gender',
+  customContains: 'customContains',
+  customBetween: 'customBetween',
+  customIs: 'customIs',
+} as const;
+
+export type RangeValue = [string | undefined, string | undefined];
+
+function rangeBounds(value: unknown): RangeValue {
+  if (!Array.isArray(value)) return [undefined, undefined];
+  const [from, to] = value as unknown[];
+  const bound = (entry: unknown) =>
+    entry === undefined || entry === null || String(entry).trim() === '' ? undefined : String(entry).trim();
+  return [bound(from), bound(to)];
+}
+
+function toNumber(value: string | undefined) {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
+
+export function sortModelToParams(sortModel: GridSortModel): Pick<GetUsersParams, 'sortBy' | 'sortOrder'> {
+  const [item] = sortModel;
+  const sortBy =
+    item &&
+    (item.field.startsWith(CUSTOM_FIELD_PREFIX)
+      ? item.field
+      : isCustomerSortField(item.field)
+        ? customerSortFields[item.field]
+        : undefined);
+
+  if (!sortBy || !item.sort) {
+    return { sortBy: customerSortFields.name, sortOrder: 'asc' };
+  }
+  return { sortBy, sortOrder: item.sort };
+}
+
+/**
+ * Translates the grid's filter model into `getUsers` filter params. Items
+ * with an unknown operator or an empty value are ignored, matching how the
+ * grid itself treats incomplete filters.
+ */
+export function filterModelToParams(filterModel: GridFilterModel): GetUsersParams {
+  const params: GetUsersParams = {};
+  const custom: Record<string, CustomFieldFilter> = {};
+  const customFieldId = (field: string) =>
+    field.startsWith(CUSTOM_FIELD_PREFIX) ? field.slice(CUSTOM_FIELD_PREFIX.length) : null;
+
+  filterModel.items.forEach((item) => {
+    switch (item.operator) {
+      case customerFilterOperators.ageRange: {
+        const [min, max] = rangeBounds(item.value);
+        params.ageMin = toNumber(min);
+        params.ageMax = toNumber(max);
+        break;
+      }
+      case customerFilterOperators.registeredRange: {
+        const [from, to] = rangeBounds(item.value);
+        params.registeredFrom = from;
+        params.registeredTo = to;
+        break;
+      }
+      case customerFilterOperators.country:
+        if (typeof item.value === 'string' && item.value.trim()) {
+          params.country = item.value.trim();
+        }
+        break;
+      case customerFilterOperators.gender:
+        if (typeof item.value === 'string' && item.value) {
+          params.gender = item.value;
+        }
+        break;
+      case customerFilterOperators.customContains: {
+        const id = customFieldId(item.field);
+        if (id && typeof item.value === 'string' && item.value.trim()) {
+          custom[id] = { op: 'contains', value: item.value.trim() };
+        }
+        break;
+      }
+      case customerFilterOperators.customBetween: {
+        const id = customFieldId(item.field);
+        const [min, max] = rangeBounds(item.value);
+        if (id && (min !== undefined || max !== undefined)) {
+          custom[id] = { op: 'between', min, max };
+        }
+        break;
+      }
+      case customerFilterOperators.customIs: {
+        const id = customFieldId(item.field);
+        if (id && item.value !== undefined && item.value !== null && item.value !== '') {
+          custom[id] = { op: 'is', value: String(item.value) };
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  });
+
+  if (Object.keys(custom).length > 0) {
+    params.custom = custom;
+  }
+
+  // Drop unset keys so equivalent filters share a query cache entry.
+  return Object.fromEntries(
+    Object.entries(params).filter(([, value]) => value !== undefined),
+  ) as GetUsersParams;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { ImportTable, allImportFields, buildImportRows, guessImportMapping, isImportable } from './customerImport';
+import { createCustomerFixtures } from './customerFixtures';
+import type { CustomFieldDefinition } from './customFields';
+
+const existing = createCustomerFixtures(3);
+
+const customFields: CustomFieldDefinition[] = [
+  { id: 'plan', label: 'Plan', type: 'select', options: ['Free', 'Pro'], required: true },
+  { id: 'seats', label: 'Seats', type: 'number' },
+];
+
+const headers = [
+  'First Name',
+  'Surname',
+  'E-mail',
+  'Username',
+  'Password',
+  'Sex',
+  'House Number',
+  'Town',
+  'Plan',
+  'Seats',
+];
+
+function importRows(rows: string[][]) {
+  const table: ImportTable = { headers, rows };
+  const fields = allImportFields(customFields);
+  return buildImportRows(table, guessImportMapping(headers, fields), existing, customFields);
+}
+
+describe('guessImportMapping', () => {
+  it('matches headers by label, alias or path and leaves the rest unmapped', () => {
+    const mapping = guessImportMapping(['E-mail', 'first_name', 'surname', 'login.username', 'ZIP', 'Notes']);
+
+    expect(mapping).toMatchObject({ email: 0, firstName: 1, lastName: 2, username: 3, postcode: 4, city: null });
+  });
+
+  it('maps custom fields by label or id', () => {
+    const mapping = guessImportMapping(['seats', 'Plan'], allImportFields(customFields));
+
+    expect(mapping).toMatchObject({ 'custom.plan': 1, 'custom.seats': 0 });
+  });
+});
+
+describe('buildImportRows', () => {
+  it('builds create requests from the mapped columns', () => {
+    const [row] = importRows([
+      [' Ada ', 'Lovelace', 'ada@example.com', 'ada', 's3cret', 'F', '12', 'London', 'Pro', '5'],
+    ]);
+
+    expect(row.line).toBe(2);
+    expect(row.errors).toEqual({});
+    expect(isImportable(row)).toBe(true);
+    expect(row.request).toMatchObject({
+      name: { first: 'Ada', last: 'Lovelace' },
+      email: 'ada@example.com',
+      login: { username: 'ada', password: 's3cret' },
+      gender: 'female',
+      location: { street: { number: 12 }, city: 'London' },
+      custom: { plan: 'Pro', seats: 5 },
+    });
+  });
+
+  it('checks rows with the customer form rules', () => {
+    const [row] = importRows([['Ada', '', 'not-an-email', 'ada', '', '', 'twelve', '', '', 'many']]);
+
+    expect(row.errors).toEqual({
+      'name.last': 'Last name is required',
+      email: 'Please enter a valid email address',
+      'location.street.number': 'Street number must be a number',
+      'custom.plan': 'Plan is required',
+      'custom.seats': 'Enter a number',
+    });
+    expect(isImportable(row)).toBe(false);
+  });
+
+  it('flags customers that already exist, ignoring case', () => {
+    const [byEmail, byUsername] = importRows([
+      ['Ada', 'Lovelace', existing[0].email.toUpperCase(), 'ada', '', '', '', '', 'Free', ''],
+      ['Ada', 'Lovelace', 'ada@example.com', existing[1].login.username.toUpperCase(), '', '', '', '', 'Free', ''],
+    ]);
+
+    expect(byEmail.duplicate).toBe('A customer with this email already exists');
+    expect(byUsername.duplicate).toBe('A customer with this username already exists');
+  });
+
+  it('flags repeats within the file against the first row that used the value', () => {
+    const rows = importRows([
+      ['Ada', 'Lovelace', 'ada@example.com', 'ada', '', '', '', '', 'Free', ''],
+      ['Ada', 'King', 'ADA@example.com', 'ada.king', '', '', '', '', 'Free', ''],
+      ['Grace', 'Hopper', 'grace@example.com', 'Ada', '', '', '', '', 'Free', ''],
+    ]);
+
+    expect(rows.map((row) => row.duplicate)).toEqual([undefined, 'Same email as row 2', 'Same username as row 2']);
+  });
+
+  it('leaves unmapped fields empty instead of using the form defaults', () => {
+    const table: ImportTable = { headers: ['First Name'], rows: [['Ada']] };
+    const [row] = buildImportRows(table, guessImportMapping(table.headers), existing);
+
+    expect(row.request.gender).toBe('');
+    expect(row.request.login.password).toBeUndefined();
+    expect(row.errors).toMatchObject({
+      'name.last': 'Last name is required',
+      'login.username': 'Username is required',
+    });
+  });
+});
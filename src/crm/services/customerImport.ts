@@ -0,0 +1,230 @@
+import type { User, CreateUserRequest } from './usersApi';
+import { detectCsvDelimiter, parseCsv, toCsv, unescapeCsvFormula } from './csv';
+import { setIn } from '../../shared-form/paths';
+import {
+  CustomerFormErrors,
+  CustomerFormField,
+  CustomerFormValues,
+  createRequestFromForm,
+  emptyCustomerFormValues,
+  validateCustomerForm,
+} from './customerForm';
+import { CustomFieldDefinition, customFieldPath } from './customFields';
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** A `CreateUserRequest` field a source column can be mapped to. */
+export type ImportField =
+  | 'title'
+  | 'firstName'
+  | 'lastName'
+  | 'email'
+  | 'username'
+  | 'password'
+  | 'gender'
+  | 'streetNumber'
+  | 'streetName'
+  | 'city'
+  | 'state'
+  | 'country'
+  | 'postcode'
+  | `custom.${string}`;
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  /** Path in `CreateUserRequest`; also the key of the field's errors. */
+  path: Exclude<CustomerFormField, 'phone' | 'cell'> | 'login.password';
+  label: string;
+  required?: boolean;
+  /** Header spellings recognized when guessing the mapping. */
+  aliases: string[];
+}
+
+export const importFields: ImportFieldDefinition[] = [
+  { field: 'title', path: 'name.title', label: 'Title', aliases: ['salutation', 'prefix'] },
+  { field: 'firstName', path: 'name.first', label: 'First Name', required: true, aliases: ['first', 'given name', 'forename'] },
+  { field: 'lastName', path: 'name.last', label: 'Last Name', required: true, aliases: ['last', 'surname', 'family name'] },
+  { field: 'email', path: 'email', label: 'Email', required: true, aliases: ['e-mail', 'email address', 'mail'] },
+  { field: 'username', path: 'login.username', label: 'Username', required: true, aliases: ['user', 'login', 'user name'] },
+  { field: 'password', path: 'login.password', label: 'Password', aliases: [] },
+  { field: 'gender', path: 'gender', label: 'Gender', aliases: ['sex'] },
+  { field: 'streetNumber', path: 'location.street.number', label: 'Street Number', aliases: ['house number', 'number'] },
+  { field: 'streetName', path: 'location.street.name', label: 'Street Name', aliases: ['street', 'address'] },
+  { field: 'city', path: 'location.city', label: 'City', aliases: ['town'] },
+  { field: 'state', path: 'location.state', label: 'State/Province', aliases: ['state', 'province', 'region'] },
+  { field: 'country', path: 'location.country', label: 'Country', aliases: [] },
+  { field: 'postcode', path: 'location.postcode', label: 'Postal Code', aliases: ['postcode', 'zip', 'zip code', 'postal'] },
+];
+
+/** The built-in fields followed by one per custom field. */
+export function allImportFields(customFields: CustomFieldDefinition[] = []): ImportFieldDefinition[] {
+  return [
+    ...importFields,
+    ...customFields.map((field) => ({
+      field: customFieldPath(field),
+      path: customFieldPath(field),
+      label: field.label,
+      required: field.required,
+      aliases: [field.id],
+    })),
+  ];
+}
+
+/** Source column index per field; `null` (or a field added since) leaves it empty. */
+export type ImportMapping = Record<ImportField, number | null>;
+
+export const mappedColumn = (mapping: ImportMapping, field: ImportField) => mapping[field] ?? null;
+
+export interface ImportRow {
+  /** 1-based line in the source file, counting the header row. */
+  line: number;
+  source: string[];
+  request: CreateUserRequest;
+  errors: CustomerFormErrors;
+  /** Set when the row would create a customer that already exists. */
+  duplicate?: string;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  return String(value).trim();
+}
+
+function toTable(rows: unknown[][]): ImportTable {
+  const [headerRow = [], ...body] = rows;
+  const headers = headerRow.map(cellToString);
+  return {
+    headers,
+    rows: body
+      .map((row) => headers.map((_header, index) => cellToString(row[index])))
+      .filter((row) => row.some((cell) => cell !== '')),
+  };
+}
+
+export function isSpreadsheetFile(file: File) {
+  return /\.xlsx$/i.test(file.name);
+}
+
+/** Reads the first sheet of an XLSX workbook, or a CSV file. */
+export async function readImportFile(file: File): Promise<ImportTable> {
+  if (isSpreadsheetFile(file)) {
+    // Only pulled in when someone actually imports a spreadsheet.
+    const { readSheet } = await import('read-excel-file/browser');
+    return toTable(await readSheet(file));
+  }
+
+  const text = await file.text();
+  return toTable(parseCsv(text, detectCsvDelimiter(text)).map((row) => row.map(unescapeCsvFormula)));
+}
+
+/** Matches headers to fields by label, request path or a known alias. */
+export function guessImportMapping(
+  headers: string[],
+  fields: ImportFieldDefinition[] = importFields,
+): ImportMapping {
+  const normalized = headers.map(normalizeHeader);
+  const taken = new Set<number>();
+
+  return Object.fromEntries(
+    fields.map((definition) => {
+      const candidates = [definition.label, definition.path, definition.field, ...definition.aliases].map(
+        normalizeHeader,
+      );
+      const index = normalized.findIndex(
+        (header, columnIndex) => !taken.has(columnIndex) && candidates.includes(header),
+      );
+      if (index === -1) return [definition.field, null];
+      taken.add(index);
+      return [definition.field, index];
+    }),
+  ) as ImportMapping;
+}
+
+function normalizeGender(value: string) {
+  const lower = value.toLowerCase();
+  if (lower === 'm' || lower === 'male') return 'male';
+  if (lower === 'f' || lower === 'female') return 'female';
+  return lower;
+}
+
+/**
+ * Maps, validates and de-duplicates every source row. Rows are checked with
+ * the same rules as the customer form; emails and usernames must be unique
+ * both within the file and against `existing`.
+ */
+export function buildImportRows(
+  table: ImportTable,
+  mapping: ImportMapping,
+  existing: User[],
+  customFields: CustomFieldDefinition[] = [],
+): ImportRow[] {
+  const fields = allImportFields(customFields);
+  const existingEmails = new Set(existing.map((user) => user.email.toLowerCase()));
+  const existingUsernames = new Set(existing.map((user) => user.login.username.toLowerCase()));
+  const seenEmails = new Map<string, number>();
+  const seenUsernames = new Map<string, number>();
+
+  return table.rows.map((source, index) => {
+    const line = index + 2;
+    const read = (field: ImportField) => {
+      const column = mappedColumn(mapping, field);
+      return column === null ? '' : (source[column] ?? '').trim();
+    };
+
+    // Unmapped fields are left empty rather than taking the form defaults.
+    const values = fields.reduce<CustomerFormValues>((result, definition) => {
+      if (definition.field === 'password') return result;
+      const value = read(definition.field);
+      return setIn(result, definition.path, definition.field === 'gender' ? normalizeGender(value) : value);
+    }, emptyCustomerFormValues);
+
+    const errors = validateCustomerForm(values, { requireUsername: true, customFields });
+    const email = values.email.toLowerCase();
+    const username = values.login.username.toLowerCase();
+    let duplicate: string | undefined;
+
+    if (email && existingEmails.has(email)) {
+      duplicate = 'A customer with this email already exists';
+    } else if (username && existingUsernames.has(username)) {
+      duplicate = 'A customer with this username already exists';
+    } else if (email && seenEmails.has(email)) {
+      duplicate = `Same email as row ${seenEmails.get(email)}`;
+    } else if (username && seenUsernames.has(username)) {
+      duplicate = `Same username as row ${seenUsernames.get(username)}`;
+    }
+
+    if (email && !seenEmails.has(email)) seenEmails.set(email, line);
+    if (username && !seenUsernames.has(username)) seenUsernames.set(username, line);
+
+    return {
+      line,
+      source,
+      request: createRequestFromForm(values, read('password') || undefined, customFields),
+      errors,
+      duplicate,
+    };
+  });
+}
+
+export const isImportable = (row: ImportRow) => !row.duplicate && Object.keys(row.errors).length === 0;
+
+export function describeImportProblems(row: ImportRow): string {
+  return [row.duplicate, ...Object.values(row.errors)].filter(Boolean).join('; ');
+}
+
+/** The source rows that weren't imported, with the reason appended. */
+export function buildImportErrorReport(
+  headers: string[],
+  failures: Array<{ row: ImportRow; message: string }>,
+): string {
+  return toCsv([
+    ['Row', ...headers, 'Error'],
+    ...failures.map(({ row, message }) => [row.line, ...row.source, message]),
+  ]);
+}
@@ -0,0 +1,202 @@
+import { User, UpdateUserRequest, usersApiService } from './usersApi';
+import { repointCustomerReferences } from './customerReferences';
+import { isEmptyValue } from '../../shared-form/schema';
+
+export type MergeSide = 'survivor' | 'loser';
+
+export interface MergeFieldDefinition {
+  key: string;
+  label: string;
+  value: (user: User) => string;
+  /** Writes `user`'s value for this field into `request`. */
+  apply: (request: UpdateUserRequest, user: User) => void;
+}
+
+const setName = (request: UpdateUserRequest, patch: UpdateUserRequest['name']) => {
+  request.name = { ...request.name, ...patch };
+};
+
+const setLocation = (request: UpdateUserRequest, patch: UpdateUserRequest['location']) => {
+  request.location = { ...request.location, ...patch };
+};
+
+/** Fields the user picks between when merging; tags are always combined. */
+export const mergeFields: MergeFieldDefinition[] = [
+  {
+    key: 'title',
+    label: 'Title',
+    value: (user) => user.name.title,
+    apply: (request, user) => setName(request, { title: user.name.title }),
+  },
+  {
+    key: 'firstName',
+    label: 'First Name',
+    value: (user) => user.name.first,
+    apply: (request, user) => setName(request, { first: user.name.first }),
+  },
+  {
+    key: 'lastName',
+    label: 'Last Name',
+    value: (user) => user.name.last,
+    apply: (request, user) => setName(request, { last: user.name.last }),
+  },
+  {
+    key: 'email',
+    label: 'Email',
+    value: (user) => user.email,
+    apply: (request, user) => {
+      request.email = user.email;
+    },
+  },
+  {
+    key: 'phone',
+    label: 'Phone',
+    value: (user) => user.phone,
+    apply: (request, user) => {
+      request.phone = user.phone;
+    },
+  },
+  {
+    key: 'cell',
+    label: 'Cell',
+    value: (user) => user.cell,
+    apply: (request, user) => {
+      request.cell = user.cell;
+    },
+  },
+  {
+    key: 'gender',
+    label: 'Gender',
+    value: (user) => user.gender,
+    apply: (request, user) => {
+      request.gender = user.gender;
+    },
+  },
+  {
+    key: 'street',
+    label: 'Street',
+    value: (user) =>
+      [user.location.street?.number || '', user.location.street?.name ?? ''].join(' ').trim(),
+    apply: (request, user) => setLocation(request, { street: { ...user.location.street } }),
+  },
+  {
+    key: 'city',
+    label: 'City',
+    value: (user) => user.location.city,
+    apply: (request, user) => setLocation(request, { city: user.location.city }),
+  },
+  {
+    key: 'state',
+    label: 'State/Province',
+    value: (user) => user.location.state,
+    apply: (request, user) => setLocation(request, { state: user.location.state }),
+  },
+  {
+    key: 'postcode',
+    label: 'Postal Code',
+    value: (user) => String(user.location.postcode ?? ''),
+    apply: (request, user) => setLocation(request, { postcode: user.location.postcode }),
+  },
+  {
+    key: 'country',
+    label: 'Country',
+    value: (user) => user.location.country,
+    apply: (request, user) => setLocation(request, { country: user.location.country }),
+  },
+  {
+    key: 'owner',
+    label: 'Owner',
+    value: (user) => user.owner ?? '',
+    apply: (request, user) => {
+      request.owner = user.owner ?? '';
+    },
+  },
+];
+
+/** Which record each merge field is taken from. */
+export type MergeChoices = Record<string, MergeSide>;
+
+/**
+ * Keeps the survivor's value unless only the other record has one, so the
+ * default merge never loses data.
+ */
+export function defaultMergeChoices(survivor: User, loser: User): MergeChoices {
+  return Object.fromEntries(
+    mergeFields.map((field) => [
+      field.key,
+      !field.value(survivor) && field.value(loser) ? 'loser' : 'survivor',
+    ]),
+  );
+}
+
+/** The record registered first is kept by default. */
+export function defaultSurvivor(a: User, b: User): User {
+  const registered = (user: User) => Date.parse(user.registered?.date ?? '') || Infinity;
+  return registered(b) < registered(a) ? b : a;
+}
+
+export interface MergePlan {
+  /** Fields taken from the loser, plus the combined tags and custom field values. */
+  update: UpdateUserRequest;
+  /** Set when the loser's email wins; applied once the loser is deleted. */
+  email?: string;
+}
+
+export function buildMergePlan(survivor: User, loser: User, choices: MergeChoices): MergePlan {
+  const update: UpdateUserRequest = {};
+  let email: string | undefined;
+
+  mergeFields.forEach((field) => {
+    if (choices[field.key] !== 'loser' || field.value(loser) === field.value(survivor)) return;
+    if (field.key === 'email') {
+      email = loser.email;
+    } else {
+      field.apply(update, loser);
+    }
+  });
+
+  const tags = Array.from(new Set([...(survivor.tags ?? []), ...(loser.tags ?? [])]));
+  if (tags.length !== (survivor.tags ?? []).length) update.tags = tags;
+
+  // Custom fields the survivor left empty take the loser's value.
+  const custom = Object.fromEntries(
+    Object.entries(loser.custom ?? {}).filter(
+      ([id, value]) => !isEmptyValue(value) && isEmptyValue(survivor.custom?.[id]),
+    ),
+  );
+  if (Object.keys(custom).length > 0) update.custom = custom;
+
+  return { update, email };
+}
+
+export interface MergeResult {
+  /** Records moved from the loser to the survivor, per kind. */
+  repointed: Record<string, number>;
+}
+
+/**
+ * Folds `loser` into `survivor`: the survivor is updated first so re-pointed
+ * records pick up its merged name, then linked records are re-pointed, and
+ * only then is the loser deleted, so nothing is orphaned if a step fails. A
+ * chosen email is written last because the API rejects an email that another
+ * customer still has.
+ */
+export async function mergeCustomers(
+  survivor: User,
+  loser: User,
+  choices: MergeChoices,
+): Promise<MergeResult> {
+  const survivorId = survivor.login.uuid;
+  const { update, email } = buildMergePlan(survivor, loser, choices);
+
+  if (Object.keys(update).length > 0) {
+    await usersApiService.updateUser(survivorId, update);
+  }
+  const repointed = await repointCustomerReferences(loser.login.uuid, survivorId);
+  await usersApiService.deleteUser(loser.login.uuid);
+  if (email) {
+    await usersApiService.updateUser(survivorId, { email });
+  }
+
+  return { repointed };
+}
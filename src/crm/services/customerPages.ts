@@ -0,0 +1,40 @@
+import { usersApiService, User } from './usersApi';
+import type { GetUsersParams, RequestOptions } from './customerDataSource';
+import { createAbortError } from './apiErrors';
+
+export const FETCH_ALL_PAGE_SIZE = 100;
+
+export interface FetchAllOptions extends RequestOptions {
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+/**
+ * Walks every page of `getUsers` for the given search/sort/filters, one
+ * request at a time, and returns the concatenated customers.
+ */
+export async function fetchAllCustomers(
+  params: Omit<GetUsersParams, 'page' | 'perPage'> = {},
+  { signal, onProgress }: FetchAllOptions = {},
+): Promise<User[]> {
+  const customers: User[] = [];
+  let page = 1;
+  let total = Infinity;
+
+  while (customers.length < total) {
+    if (signal?.aborted) throw createAbortError();
+
+    const response = await usersApiService.getUsers(
+      { ...params, page, perPage: FETCH_ALL_PAGE_SIZE },
+      { signal },
+    );
+    customers.push(...response.data);
+    total = response.total;
+    onProgress?.(customers.length, total);
+
+    // A short page means the end, even if `total` moved underneath us.
+    if (response.data.length < FETCH_ALL_PAGE_SIZE) break;
+    page += 1;
+  }
+
+  return customers;
+}
@@ -0,0 +1,48 @@
+import { usersApiService, UsersApiResponse } from './usersApi';
+import type { GetUsersParams } from './customerDataSource';
+
+/**
+ * Query keys for customer data. Invalidating `customerKeys.all` refreshes
+ * every list and detail view after a write.
+ */
+export const customerKeys = {
+  all: ['customers'] as const,
+  lists: () => [...customerKeys.all, 'list'] as const,
+  list: (params: GetUsersParams) => [...customerKeys.lists(), params] as const,
+  details: () => [...customerKeys.all, 'detail'] as const,
+  detail: (id: string) => [...customerKeys.details(), id] as const,
+};
+
+// Customers whose deletion is still inside its undo window: gone from the UI
+// but not yet from the server, so lists fetched meanwhile must skip them.
+const pendingDeletes = new Set<string>();
+
+export function markPendingDelete(uuid: string) {
+  pendingDeletes.add(uuid);
+}
+
+export function clearPendingDelete(uuid: string) {
+  pendingDeletes.delete(uuid);
+}
+
+function withoutPendingDeletes(response: UsersApiResponse): UsersApiResponse {
+  if (pendingDeletes.size === 0) return response;
+
+  const data = response.data.filter((user) => !pendingDeletes.has(user.login.uuid));
+  return { ...response, data, total: response.total - (response.data.length - data.length) };
+}
+
+export function customersListQuery(params: GetUsersParams) {
+  return {
+    queryKey: customerKeys.list(params),
+    queryFn: (signal: AbortSignal) =>
+      usersApiService.getUsers(params, { signal }).then(withoutPendingDeletes),
+  };
+}
+
+export function customerDetailQuery(id: string) {
+  return {
+    queryKey: customerKeys.detail(id),
+    queryFn: (signal: AbortSignal) => usersApiService.getUser(id, { signal }),
+  };
+}
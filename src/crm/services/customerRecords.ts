@@ -0,0 +1,86 @@
+import type { User, CreateUserRequest, UpdateUserRequest } from './usersApi';
+
+// Partial updates may carry explicit `undefined`s; they must not erase data.
+function definedOnly<T extends object>(value: T | undefined): Partial<T> {
+  if (!value) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as Partial<T>;
+}
+
+/** Applies an update request to a record the way the Users API merges it. */
+export function applyUserUpdate(user: User, userData: UpdateUserRequest): User {
+  const { name, location, picture, custom, ...rest } = userData;
+  const { street, ...place } = location ?? {};
+
+  return {
+    ...user,
+    ...definedOnly(rest),
+    name: { ...user.name, ...definedOnly(name) },
+    location: {
+      ...user.location,
+      ...definedOnly(place),
+      street: { ...user.location.street, ...definedOnly(street) },
+    },
+    picture: { ...user.picture, ...definedOnly(picture) },
+    custom: { ...user.custom, ...custom },
+  };
+}
+
+/** Builds the full record the Users API stores for a create request. */
+export function userFromCreateRequest(userData: CreateUserRequest, uuid: string): User {
+  return {
+    login: {
+      uuid,
+      username: userData.login.username,
+      password: userData.login.password ?? '',
+    },
+    name: {
+      title: userData.name.title ?? '',
+      first: userData.name.first,
+      last: userData.name.last,
+    },
+    gender: userData.gender ?? '',
+    location: {
+      street: userData.location?.street ?? { number: 0, name: '' },
+      city: userData.location?.city ?? '',
+      state: userData.location?.state ?? '',
+      country: userData.location?.country ?? '',
+      postcode: userData.location?.postcode ?? '',
+      coordinates: { latitude: 0, longitude: 0 },
+      timezone: { offset: '0:00', description: '' },
+    },
+    email: userData.email,
+    dob: { date: '', age: 0 },
+    registered: { date: new Date().toISOString(), age: 0 },
+    phone: '',
+    cell: '',
+    picture: { large: '', medium: '', thumbnail: '', ...userData.picture },
+    nat: '',
+    owner: userData.owner,
+    tags: userData.tags,
+    custom: userData.custom,
+  };
+}
+
+/** The update request that puts every editable field back to `user`'s values. */
+export function updateRequestFromUser(user: User): UpdateUserRequest {
+  return {
+    email: user.email,
+    name: { ...user.name },
+    gender: user.gender,
+    location: {
+      street: { ...user.location.street },
+      city: user.location.city,
+      state: user.location.state,
+      country: user.location.country,
+      postcode: user.location.postcode,
+    },
+    phone: user.phone,
+    cell: user.cell,
+    picture: { ...user.picture },
+    owner: user.owner ?? '',
+    tags: user.tags ?? [],
+    custom: { ...user.custom },
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Moves every record pointing at customer `fromUuid` over to `toUuid` and
+ * resolves with how many records changed.
+ */
+export type CustomerReferenceHandler = (fromUuid: string, toUuid: string) => Promise<number>;
+
+// Modules that link records to customers (deals, tasks, ...) register here so
+// merging customers doesn't need to know about each of them.
+const handlers = new Map<string, CustomerReferenceHandler>();
+
+export function registerCustomerReferenceHandler(name: string, handler: CustomerReferenceHandler) {
+  handlers.set(name, handler);
+  return () => {
+    if (handlers.get(name) === handler) handlers.delete(name);
+  };
+}
+
+/** Re-points every registered kind of record; resolves with counts per kind. */
+export async function repointCustomerReferences(
+  fromUuid: string,
+  toUuid: string,
+): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  for (const [name, handler] of handlers) {
+    counts[name] = await handler(fromUuid, toUuid);
+  }
+  return counts;
+}
@@ -0,0 +1,121 @@
+import type { User } from './usersApi';
+import type { GetUsersParams } from './customerDataSource';
+import { createStoredValue } from './browserStorage';
+
+/** Tags offered when tagging customers; any other tag can still be typed. */
+export const SUGGESTED_CUSTOMER_TAGS = ['VIP', 'churn-risk', 'partner'];
+
+/** The age buckets shown in the customers table and used by segments. */
+export const AGE_RANGES = [
+  { label: '18-24', max: 24 },
+  { label: '25-34', max: 34 },
+  { label: '35-44', max: 44 },
+  { label: '45-54', max: 54 },
+  { label: '55-64', max: 64 },
+  { label: '65+', max: Infinity },
+] as const;
+
+export type AgeRange = (typeof AGE_RANGES)[number]['label'];
+
+export function getAgeRange(age: number): AgeRange {
+  return (AGE_RANGES.find((range) => age <= range.max) ?? AGE_RANGES[AGE_RANGES.length - 1]).label;
+}
+
+/**
+ * Who belongs to a segment. Every criterion that is set must match; within
+ * a list criterion any value matches, so `{ ageRanges: ['18-24', '25-34'],
+ * tags: ['VIP'] }` is VIPs under 35. Empty rules match everyone.
+ */
+export interface SegmentRules {
+  ageRanges?: AgeRange[];
+  /** Matched case-insensitively against `location.country`. */
+  countries?: string[];
+  genders?: string[];
+  /** Inclusive `YYYY-MM-DD` bounds on `registered.date`. */
+  registeredFrom?: string;
+  registeredTo?: string;
+  /** Customers with any of these tags. */
+  tags?: string[];
+}
+
+export interface CustomerSegment {
+  id: string;
+  name: string;
+  rules: SegmentRules;
+}
+
+const STORAGE_KEY = 'customerSegments';
+
+const defaultSegments: CustomerSegment[] = [
+  { id: 'vip', name: 'VIP', rules: { tags: ['VIP'] } },
+  { id: 'churn-risk', name: 'Churn Risk', rules: { tags: ['churn-risk'] } },
+  { id: 'partners', name: 'Partners', rules: { tags: ['partner'] } },
+  { id: 'young-adults', name: 'Under 35', rules: { ageRanges: ['18-24', '25-34'] } },
+];
+
+const segmentsStore = createStoredValue<CustomerSegment[]>(STORAGE_KEY, defaultSegments);
+
+export const getCustomerSegments = segmentsStore.get;
+export const saveCustomerSegments = segmentsStore.set;
+export const subscribeToCustomerSegments = segmentsStore.subscribe;
+
+export function createSegmentId(name: string, segments: CustomerSegment[]): string {
+  const stem =
+    name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '') || 'segment';
+  let id = stem;
+  for (let suffix = 2; segments.some((segment) => segment.id === id); suffix += 1) {
+    id = `${stem}-${suffix}`;
+  }
+  return id;
+}
+
+export function matchesSegment(user: User, rules: SegmentRules): boolean {
+  const { ageRanges, countries, genders, registeredFrom, registeredTo, tags } = rules;
+  const registered = user.registered?.date?.slice(0, 10) ?? '';
+
+  if (ageRanges?.length && !ageRanges.includes(getAgeRange(user.dob.age))) return false;
+  if (countries?.length) {
+    const country = user.location.country.toLowerCase();
+    if (!countries.some((candidate) => candidate.toLowerCase() === country)) return false;
+  }
+  if (genders?.length && !genders.includes(user.gender)) return false;
+  if (registeredFrom && !(registered >= registeredFrom)) return false;
+  if (registeredTo && !(registered && registered <= registeredTo)) return false;
+  if (tags?.length && !tags.some((tag) => user.tags?.includes(tag))) return false;
+  return true;
+}
+
+/** Drops empty criteria so equal rule sets share a query key. */
+export function compactSegmentRules(rules: SegmentRules): SegmentRules {
+  return Object.fromEntries(
+    Object.entries(rules).filter(([, value]) => (Array.isArray(value) ? value.length > 0 : Boolean(value))),
+  ) as SegmentRules;
+}
+
+/**
+ * Narrows a customers query to a segment, for reports, campaigns and
+ * widgets that target an audience.
+ */
+export function segmentParams<P extends GetUsersParams>(segment: CustomerSegment | null | undefined, params: P): P {
+  if (!segment) return params;
+  return { ...params, segment: compactSegmentRules(segment.rules) };
+}
+
+/** A one-line summary such as "Age 18-24 or 25-34 · Tagged VIP". */
+export function describeSegmentRules(rules: SegmentRules): string {
+  const parts = [
+    rules.ageRanges?.length && `Age ${rules.ageRanges.join(' or ')}`,
+    rules.countries?.length && rules.countries.join(', '),
+    rules.genders?.length && rules.genders.map((gender) => gender[0].toUpperCase() + gender.slice(1)).join(' or '),
+    rules.registeredFrom && rules.registeredTo
+      ? `Registered ${rules.registeredFrom} – ${rules.registeredTo}`
+      : rules.registeredFrom
+        ? `Registered since ${rules.registeredFrom}`
+        : rules.registeredTo && `Registered before ${rules.registeredTo}`,
+    rules.tags?.length && `Tagged ${rules.tags.join(' or ')}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'All customers';
+}
@@ -0,0 +1,85 @@
+import type {
+  GridColumnVisibilityModel,
+  GridDensity,
+  GridFilterModel,
+  GridSortModel,
+} from '@mui/x-data-grid';
+import { createStoredValue } from './browserStorage';
+
+/** Personal views are listed for their owner only; shared views for every rep. */
+export type CustomerViewScope = 'personal' | 'shared';
+
+/** Everything a view restores on the customers grid. */
+export interface CustomerViewState {
+  /** Column fields left to right; columns added since the view was saved go at the end. */
+  columnOrder: string[];
+  columnWidths: Record<string, number>;
+  columnVisibility: GridColumnVisibilityModel;
+  density: GridDensity;
+  filterModel: GridFilterModel;
+  search: string;
+  sortModel: GridSortModel;
+  /** id of the saved segment the list is narrowed to. */
+  segment: string | null;
+}
+
+export interface CustomerView {
+  id: string;
+  name: string;
+  scope: CustomerViewScope;
+  /** Team member id of the rep who saved it; only they can change or delete it. */
+  ownerId: string;
+  state: CustomerViewState;
+  updatedAt: string;
+}
+
+// The CRM has no preferences backend yet, so shared views are kept in this
+// browser alongside personal ones and `scope` only decides who lists them.
+const viewsStore = createStoredValue<CustomerView[]>('customerViews', []);
+// Default view id per team member; a missing entry means the standard layout.
+const defaultViewsStore = createStoredValue<Record<string, string>>('customerDefaultViews', {});
+
+export const getCustomerViews = viewsStore.get;
+export const saveCustomerViews = viewsStore.set;
+export const subscribeToCustomerViews = viewsStore.subscribe;
+
+export const getDefaultCustomerViews = defaultViewsStore.get;
+export const subscribeToDefaultCustomerViews = defaultViewsStore.subscribe;
+
+export function setDefaultCustomerView(userId: string, viewId: string | null) {
+  const { [userId]: _previous, ...others } = defaultViewsStore.get();
+  defaultViewsStore.set(viewId ? { ...others, [userId]: viewId } : others);
+}
+
+/** The views `userId` can pick: their own, then everyone's shared ones, each by name. */
+export function visibleCustomerViews(views: CustomerView[], userId: string): CustomerView[] {
+  const byName = (a: CustomerView, b: CustomerView) => a.name.localeCompare(b.name);
+  return [
+    ...views.filter((view) => view.scope === 'personal' && view.ownerId === userId).sort(byName),
+    ...views.filter((view) => view.scope === 'shared').sort(byName),
+  ];
+}
+
+export function createCustomerViewId(): string {
+  return `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Strips what doesn't change the result (filter item ids, the visibility of
+ * columns shown by default) so two states can be compared as JSON.
+ */
+function normalizeViewState(state: CustomerViewState) {
+  const sortedEntries = <T>(record: Record<string, T>) =>
+    Object.entries(record).sort(([a], [b]) => a.localeCompare(b));
+  return {
+    ...state,
+    columnWidths: sortedEntries(state.columnWidths),
+    columnVisibility: sortedEntries(state.columnVisibility).filter(([, visible]) => !visible),
+    filterModel: state.filterModel.items.map(({ field, operator, value }) => ({ field, operator, value })),
+    search: state.search.trim(),
+  };
+}
+
+export function viewStatesEqual(a: CustomerViewState, b: CustomerViewState): boolean {
+  return JSON.stringify(normalizeViewState(a)) === JSON.stringify(normalizeViewState(b));
+}
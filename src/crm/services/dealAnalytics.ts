@@ -0,0 +1,170 @@
+import { DEAL_SOURCES, DEAL_STAGES, Deal, DealStage, isClosedStage } from './deals';
+import { DealClosingDateEvent, DealEvent, DealStageEvent, daysBetween } from './dealEvents';
+import type { MoneyConverter } from './currency';
+
+/** Open stages, then Closed Won: the order a deal that is won moves through. */
+export const FUNNEL_STAGES: DealStage[] = DEAL_STAGES.filter((stage) => stage !== 'Closed Lost');
+
+export const UNSPECIFIED_SOURCE = 'Unspecified';
+
+function eventsByDeal<T extends DealEvent>(events: DealEvent[], type: T['type']): Map<string, T[]> {
+  const byDeal = new Map<string, T[]>();
+  events.forEach((event) => {
+    if (event.type !== type) return;
+    byDeal.set(event.dealId, [...(byDeal.get(event.dealId) ?? []), event as T]);
+  });
+  byDeal.forEach((list) => list.sort((a, b) => a.at.localeCompare(b.at)));
+  return byDeal;
+}
+
+export interface StageDuration {
+  stage: DealStage;
+  averageDays: number;
+  /** How many finished stays the average is over. */
+  stays: number;
+}
+
+/**
+ * Average days deals spent in each open stage before leaving it. Deals still
+ * sitting in a stage aren't counted, so a stage nobody has left yet shows 0.
+ */
+export function averageDaysInStage(events: DealEvent[]): StageDuration[] {
+  const totals = new Map<DealStage, { days: number; stays: number }>();
+
+  eventsByDeal<DealStageEvent>(events, 'stage').forEach((history) => {
+    history.slice(1).forEach((event, index) => {
+      const entered = history[index];
+      const total = totals.get(entered.to) ?? { days: 0, stays: 0 };
+      totals.set(entered.to, { days: total.days + daysBetween(entered.at, event.at), stays: total.stays + 1 });
+    });
+  });
+
+  return DEAL_STAGES.filter((stage) => !isClosedStage(stage)).map((stage) => {
+    const total = totals.get(stage);
+    return { stage, averageDays: total ? total.days / total.stays : 0, stays: total?.stays ?? 0 };
+  });
+}
+
+export interface FunnelStep {
+  stage: DealStage;
+  /** Deals that got at least this far. */
+  deals: number;
+  /** Share of the previous step's deals that got here; 1 for the first step. */
+  conversion: number;
+}
+
+/**
+ * How many deals reached each funnel stage. A deal counts for every stage up
+ * to the furthest one it was ever in, so one created in Proposal also counts
+ * for Discovery and a lost deal counts up to where it dropped out.
+ */
+export function conversionFunnel(deals: Deal[], events: DealEvent[]): FunnelStep[] {
+  const history = eventsByDeal<DealStageEvent>(events, 'stage');
+  const reached = FUNNEL_STAGES.map(() => 0);
+
+  deals.forEach((deal) => {
+    const stages = [deal.stage, ...(history.get(deal.id) ?? []).map((event) => event.to)];
+    const furthest = Math.max(...stages.map((stage) => FUNNEL_STAGES.indexOf(stage)));
+    for (let index = 0; index <= furthest; index += 1) reached[index] += 1;
+  });
+
+  return FUNNEL_STAGES.map((stage, index) => ({
+    stage,
+    deals: reached[index],
+    conversion: index === 0 ? 1 : reached[index - 1] ? reached[index] / reached[index - 1] : 0,
+  }));
+}
+
+export interface SourceWinRate {
+  source: string;
+  won: number;
+  lost: number;
+  /** Won out of closed, 0–1; 0 when nothing from the source has closed. */
+  winRate: number;
+}
+
+export function winRateBySource(deals: Deal[]): SourceWinRate[] {
+  const sources: string[] = [...DEAL_SOURCES, UNSPECIFIED_SOURCE];
+  const rates = sources.map((source) => {
+    const closed = deals.filter(
+      (deal) => isClosedStage(deal.stage) && (deal.source ?? UNSPECIFIED_SOURCE) === source,
+    );
+    const won = closed.filter((deal) => deal.stage === 'Closed Won').length;
+    return { source, won, lost: closed.length - won, winRate: closed.length ? won / closed.length : 0 };
+  });
+  // Deals without a source only get a bar when there are some.
+  return rates.filter((rate) => rate.source !== UNSPECIFIED_SOURCE || rate.won + rate.lost > 0);
+}
+
+export interface OwnerSlippage {
+  owner: string;
+  deals: number;
+  /** Deals whose closing date was pushed out at least once. */
+  slipped: number;
+  /** Average days pushed out per slipped deal. */
+  averageDays: number;
+}
+
+export interface SlippageSummary {
+  deals: number;
+  slipped: number;
+  averageDays: number;
+  byOwner: OwnerSlippage[];
+}
+
+/** Deals whose closing date moved later, overall and per owner. Pulling a date in doesn't offset a push. */
+export function dealSlippage(deals: Deal[], events: DealEvent[]): SlippageSummary {
+  const history = eventsByDeal<DealClosingDateEvent>(events, 'closingDate');
+  const pushedDays = (deal: Deal) =>
+    (history.get(deal.id) ?? []).reduce((days, event) => days + Math.max(0, daysBetween(event.from, event.to)), 0);
+
+  const summarize = (group: Deal[]) => {
+    const slips = group.map(pushedDays).filter((days) => days > 0);
+    return {
+      deals: group.length,
+      slipped: slips.length,
+      averageDays: slips.length ? slips.reduce((sum, days) => sum + days, 0) / slips.length : 0,
+    };
+  };
+
+  const owners = Array.from(new Set(deals.map((deal) => deal.owner ?? 'Unassigned'))).sort();
+  return {
+    ...summarize(deals),
+    byOwner: owners.map((owner) => ({
+      owner,
+      ...summarize(deals.filter((deal) => (deal.owner ?? 'Unassigned') === owner)),
+    })),
+  };
+}
+
+export interface WonRevenue {
+  /** Won in the last `days` days, converted. */
+  total: number;
+  /** Won in the `days` days before that, for the trend. */
+  previousTotal: number;
+  /** Running total at the end of each of the last `days` days, oldest first. */
+  cumulative: number[];
+}
+
+const localDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Closed Won value by closing date over the last `days` days, up to and including `today`. */
+export function wonRevenue(deals: Deal[], convert: MoneyConverter, days = 30, today = new Date()): WonRevenue {
+  const dayKeys = Array.from({ length: days * 2 }, (_item, index) => {
+    const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days * 2 - 1 - index));
+    return localDateKey(date);
+  });
+  const byDay = new Map(dayKeys.map((key) => [key, 0]));
+  deals.forEach((deal) => {
+    const amount = byDay.get(deal.closingDate);
+    if (deal.stage !== 'Closed Won' || amount === undefined) return;
+    byDay.set(deal.closingDate, amount + convert(deal.value, deal.currency));
+  });
+
+  const daily = dayKeys.map((key) => byDay.get(key) ?? 0);
+  const previousTotal = daily.slice(0, days).reduce((sum, amount) => sum + amount, 0);
+  let total = 0;
+  const cumulative = daily.slice(days).map((amount) => (total += amount));
+  return { total, previousTotal, cumulative };
+}
@@ -0,0 +1,58 @@
+import type { Deal, DealStage } from './deals';
+
+interface DealEventBase {
+  id: string;
+  dealId: string;
+  /** ISO timestamp. */
+  at: string;
+  /** Name of the rep who made the change. */
+  by: string;
+}
+
+/** A deal entering `to`; `from` is `null` when the deal was created there. */
+export interface DealStageEvent extends DealEventBase {
+  type: 'stage';
+  from: DealStage | null;
+  to: DealStage;
+}
+
+/** The expected closing date moving, as `YYYY-MM-DD` dates. */
+export interface DealClosingDateEvent extends DealEventBase {
+  type: 'closingDate';
+  from: string;
+  to: string;
+}
+
+export type DealEvent = DealStageEvent | DealClosingDateEvent;
+
+export const createDealEventId = () =>
+  `event-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** The events a save from `before` (`null` for a new deal) to `after` records. */
+export function dealEventsForChange(before: Deal | null, after: Deal, by: string, at: string): DealEvent[] {
+  const events: DealEvent[] = [];
+  const base = { dealId: after.id, at, by };
+
+  if (before?.stage !== after.stage) {
+    events.push({
+      ...base,
+      id: createDealEventId(),
+      type: 'stage',
+      from: before?.stage ?? null,
+      to: after.stage,
+    });
+  }
+  if (before && before.closingDate !== after.closingDate) {
+    events.push({
+      ...base,
+      id: createDealEventId(),
+      type: 'closingDate',
+      from: before.closingDate,
+      to: after.closingDate,
+    });
+  }
+  return events;
+}
+
+export const daysBetween = (from: string, to: string) =>
+  (new Date(to).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000);
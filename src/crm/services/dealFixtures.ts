@@ -0,0 +1,162 @@
+import type { User } from './usersApi';
+import {
+  DEAL_SOURCES,
+  DEAL_STAGES,
+  Deal,
+  DealStage,
+  dealCustomerName,
+  defaultStageProbability,
+  isClosedStage,
+} from './deals';
+import { DealEvent } from './dealEvents';
+import { BASE_CURRENCY, defaultExchangeRates } from './currency';
+import { teamMembers } from './team';
+
+const OFFERINGS = [
+  'Enterprise Software Package', 'Cloud Migration Service', 'Website Redesign Project',
+  'CRM Implementation', 'IT Infrastructure Upgrade', 'Data Warehouse Build',
+  'Security Audit', 'Support Contract Renewal', 'Mobile App Development',
+  'Analytics Platform License', 'Staff Training Program', 'Managed Hosting',
+];
+
+// Weighted towards open stages, like a real pipeline.
+const STAGE_WEIGHTS: Record<DealStage, number> = {
+  Discovery: 0.26,
+  Proposal: 0.24,
+  Negotiation: 0.2,
+  'Closed Won': 0.18,
+  'Closed Lost': 0.12,
+};
+
+const FOREIGN_CURRENCIES = ['EUR', 'GBP', 'CAD'];
+
+// mulberry32, as in the customer fixtures.
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = seed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const toDateOnly = (date: Date) => date.toISOString().slice(0, 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+/**
+ * Generates a seeded pipeline of deals with `customers`. Dates are placed
+ * around `reference` (today by default) so a fresh pipeline always has deals
+ * closing in the coming months; everything else depends only on the
+ * customers, `count` and `seed`.
+ */
+export function createDealFixtures(customers: User[], count = 60, seed = 7, reference = new Date()): Deal[] {
+  const random = createRandom(seed);
+  const pick = <T>(items: readonly T[]) => items[Math.floor(random() * items.length)];
+  const daysFrom = (days: number) => {
+    const date = new Date(Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth(), reference.getUTCDate()));
+    date.setUTCDate(date.getUTCDate() + days);
+    return date;
+  };
+  const pickStage = () => {
+    let roll = random();
+    return DEAL_STAGES.find((stage) => (roll -= STAGE_WEIGHTS[stage]) < 0) ?? 'Discovery';
+  };
+
+  return Array.from({ length: count }, (_item, index) => {
+    const stage = pickStage();
+    const closed = isClosedStage(stage);
+    // Closed deals closed in the past few months; open ones close in the next few.
+    const closingDate = closed ? daysFrom(-Math.floor(random() * 180)) : daysFrom(7 + Math.floor(random() * 200));
+    const createdAt = closed
+      ? addDays(closingDate, -30 - Math.floor(random() * 200))
+      : daysFrom(-30 - Math.floor(random() * 240));
+    const probability = closed
+      ? defaultStageProbability[stage]
+      : Math.min(95, Math.max(5, defaultStageProbability[stage] + Math.round((random() - 0.5) * 30)));
+    const customer = pick(customers);
+    // Referrals win more often, so win rate by source has something to show.
+    const source = stage === 'Closed Won' && random() < 0.3 ? 'Referrals' : pick(DEAL_SOURCES);
+    // Most deals are in dollars; the rest are priced locally at about the same size.
+    const currency = random() < 0.7 ? BASE_CURRENCY : pick(FOREIGN_CURRENCIES);
+    const value = Math.round((5 + random() * 195) * 2 * defaultExchangeRates.rates[currency]) * 500;
+
+    return {
+      id: `deal-${String(index + 1).padStart(4, '0')}`,
+      name: pick(OFFERINGS),
+      customerId: customer.login.uuid,
+      customerName: dealCustomerName(customer),
+      value,
+      currency,
+      stage,
+      probability,
+      closingDate: toDateOnly(closingDate),
+      owner: pick(teamMembers).name,
+      source,
+      createdAt: createdAt.toISOString(),
+      updatedAt: createdAt.toISOString(),
+    };
+  });
+}
+
+/**
+ * Generates the stage and closing date history that led to each fixture
+ * deal's current state: every deal starts in Discovery and walks forward
+ * (lost deals drop out from an open stage), and about a third had their
+ * closing date pushed out along the way. Open deals' history ends a few
+ * days before `reference`; closed deals' on their closing date.
+ */
+export function createDealEventFixtures(deals: Deal[], seed = 11, reference = new Date()): DealEvent[] {
+  const random = createRandom(seed);
+  const openStages = DEAL_STAGES.filter((stage) => !isClosedStage(stage));
+
+  return deals.flatMap((deal) => {
+    let path: DealStage[];
+    if (deal.stage === 'Closed Won') {
+      path = [...openStages, 'Closed Won'];
+    } else if (deal.stage === 'Closed Lost') {
+      path = [...openStages.slice(0, 1 + Math.floor(random() * openStages.length)), 'Closed Lost'];
+    } else {
+      path = openStages.slice(0, openStages.indexOf(deal.stage) + 1);
+    }
+
+    const start = new Date(deal.createdAt).getTime();
+    const end = isClosedStage(deal.stage)
+      ? new Date(`${deal.closingDate}T12:00:00Z`).getTime()
+      : Math.max(start + DAY_MS, reference.getTime() - (1 + Math.floor(random() * 10)) * DAY_MS);
+    const randomTime = () => start + random() * (end - start);
+    const moves = Array.from({ length: path.length - 1 }, randomTime).sort((a, b) => a - b);
+    const by = deal.owner ?? teamMembers[0].name;
+    let sequence = 0;
+    const event = (at: number) => ({
+      id: `event-${deal.id}-${(sequence += 1)}`,
+      dealId: deal.id,
+      at: new Date(at).toISOString(),
+      by,
+    });
+
+    const events: DealEvent[] = path.map((stage, index) => ({
+      ...event(index === 0 ? start : moves[index - 1]),
+      type: 'stage',
+      from: index === 0 ? null : path[index - 1],
+      to: stage,
+    }));
+
+    if (random() < 0.35) {
+      const pushes = 1 + Math.floor(random() * 2);
+      const times = Array.from({ length: pushes }, randomTime).sort((a, b) => a - b);
+      let to = new Date(`${deal.closingDate}T00:00:00Z`);
+      // Walk back from the current date so each push moves it later.
+      for (let index = pushes - 1; index >= 0; index -= 1) {
+        const from = addDays(to, -(14 + Math.floor(random() * 46)));
+        events.push({ ...event(times[index]), type: 'closingDate', from: toDateOnly(from), to: toDateOnly(to) });
+        to = from;
+      }
+    }
+
+    return events.sort((a, b) => a.at.localeCompare(b.at));
+  });
+}
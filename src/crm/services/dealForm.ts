@@ -0,0 +1,104 @@
+import { BASE_CURRENCY } from './currency';
+import { CreateDealRequest, Deal, DealSource, DealStage, defaultStageProbability } from './deals';
+import { defineFormSchema } from '../../shared-form/schema';
+import { currentUser } from './team';
+
+/**
+ * A deal as edited in the deal dialog: the request shape with numbers as
+ * strings, so the API's field errors land on the matching input as-is.
+ */
+export interface DealFormValues {
+  name: string;
+  customerId: string;
+  /** Shown in the customer picker; saved alongside `customerId`. */
+  customerName: string;
+  value: string;
+  currency: string;
+  stage: DealStage;
+  probability: string;
+  closingDate: string;
+  owner: string;
+  /** `''` when the lead's source isn't known. */
+  source: DealSource | '';
+}
+
+export const emptyDealFormValues: DealFormValues = {
+  name: '',
+  customerId: '',
+  customerName: '',
+  value: '',
+  currency: BASE_CURRENCY,
+  stage: 'Discovery',
+  probability: '',
+  closingDate: '',
+  owner: '',
+  source: '',
+};
+
+const toDateOnly = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * A new deal starts in Discovery, owned by the current rep, closing in a
+ * month and priced in `currency` (the rep's reporting currency).
+ */
+export function newDealFormValues(currency: string, today = new Date()): DealFormValues {
+  const closing = new Date(today);
+  closing.setDate(closing.getDate() + 30);
+  return {
+    ...emptyDealFormValues,
+    currency,
+    probability: String(defaultStageProbability.Discovery),
+    closingDate: toDateOnly(closing),
+    owner: currentUser.name,
+  };
+}
+
+export function dealFormValuesFromDeal(deal: Deal): DealFormValues {
+  return {
+    name: deal.name,
+    customerId: deal.customerId,
+    customerName: deal.customerName,
+    value: String(deal.value),
+    currency: deal.currency,
+    stage: deal.stage,
+    probability: String(deal.probability),
+    closingDate: deal.closingDate,
+    owner: deal.owner ?? '',
+    source: deal.source ?? '',
+  };
+}
+
+export function dealRequestFromForm(values: DealFormValues): CreateDealRequest {
+  return {
+    name: values.name.trim(),
+    customerId: values.customerId,
+    customerName: values.customerName,
+    value: Number(values.value),
+    currency: values.currency,
+    stage: values.stage,
+    probability: Number(values.probability),
+    closingDate: values.closingDate,
+    owner: values.owner || undefined,
+    source: values.source || undefined,
+  };
+}
+
+export const dealFormSchema = defineFormSchema<DealFormValues>({
+  name: { required: 'Deal name is required' },
+  customerId: { required: 'Choose a customer' },
+  value: {
+    required: 'Value is required',
+    validate: (value) => (Number(value) >= 0 ? undefined : 'Must be zero or more'),
+  },
+  currency: { required: 'Choose a currency' },
+  probability: {
+    required: 'Probability is required',
+    validate: (probability) => {
+      const number = Number(probability);
+      return Number.isInteger(number) && number >= 0 && number <= 100
+        ? undefined
+        : 'Use a whole number from 0 to 100';
+    },
+  },
+  closingDate: { required: 'Closing date is required' },
+});
@@ -0,0 +1,45 @@
+import { dealsApi, GetDealEventsParams, GetDealsParams } from './dealsApi';
+import { dealCustomerName } from './deals';
+import { usersApiService } from './usersApi';
+import { queryCache } from './queryCache';
+import { PendingDeletes, recordKeys, recordsListQuery } from './recordQueries';
+import { registerCustomerReferenceHandler } from './customerReferences';
+
+/** Query keys for deal data; invalidate `dealKeys.all` after a write. */
+export const dealKeys = {
+  ...recordKeys<GetDealsParams>('deals'),
+  events: (params: GetDealEventsParams) => ['deals', 'events', params] as const,
+};
+
+export const pendingDealDeletes = new PendingDeletes();
+
+/** Every deal matching `params`, on one page unless `perPage` is set. */
+export function dealsListQuery(params: GetDealsParams = {}) {
+  return recordsListQuery(
+    dealKeys.list(params),
+    (signal) => dealsApi.getDeals(params, { signal }),
+    pendingDealDeletes,
+  );
+}
+
+export function dealDetailQuery(id: string) {
+  return {
+    queryKey: dealKeys.detail(id),
+    queryFn: (signal: AbortSignal) => dealsApi.getDeal(id, { signal }),
+  };
+}
+
+export function dealEventsQuery(params: GetDealEventsParams = {}) {
+  return {
+    queryKey: dealKeys.events(params),
+    queryFn: (signal: AbortSignal) => dealsApi.getDealEvents(params, { signal }),
+  };
+}
+
+// Merging customers moves the loser's deals to the survivor.
+registerCustomerReferenceHandler('deals', async (fromUuid, toUuid) => {
+  const survivor = await usersApiService.getUser(toUuid);
+  const moved = await dealsApi.reassignCustomer(fromUuid, toUuid, dealCustomerName(survivor));
+  if (moved > 0) queryCache.invalidate(dealKeys.all);
+  return moved;
+});
@@ -0,0 +1,93 @@
+import type { MoneyConverter } from './currency';
+
+export const DEAL_STAGES = ['Discovery', 'Proposal', 'Negotiation', 'Closed Won', 'Closed Lost'] as const;
+
+export type DealStage = (typeof DEAL_STAGES)[number];
+
+/** Where the lead came from; the same channels as the dashboard's leads chart. */
+export const DEAL_SOURCES = ['Website', 'Referrals', 'Social Media', 'Email Campaigns', 'Other'] as const;
+
+export type DealSource = (typeof DEAL_SOURCES)[number];
+
+export interface Deal {
+  id: string;
+  name: string;
+  /** `login.uuid` of the customer the deal is with. */
+  customerId: string;
+  /** The customer's name when the deal was last saved, so lists need no lookup. */
+  customerName: string;
+  /** In `currency`. */
+  value: number;
+  /** ISO 4217 code the deal was priced in. */
+  currency: string;
+  stage: DealStage;
+  /** Chance of closing, 0–100; weights the deal's value in pipeline totals. */
+  probability: number;
+  /** Expected (or actual, once closed) `YYYY-MM-DD` closing date. */
+  closingDate: string;
+  /** Name of the rep working the deal. */
+  owner?: string;
+  source?: DealSource;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateDealRequest = Omit<Deal, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type UpdateDealRequest = Partial<CreateDealRequest>;
+
+export const dealStageColors: Record<DealStage, 'info' | 'primary' | 'warning' | 'success' | 'error'> = {
+  Discovery: 'info',
+  Proposal: 'primary',
+  Negotiation: 'warning',
+  'Closed Won': 'success',
+  'Closed Lost': 'error',
+};
+
+/** The probability a deal takes on when it enters a stage without one of its own. */
+export const defaultStageProbability: Record<DealStage, number> = {
+  Discovery: 20,
+  Proposal: 50,
+  Negotiation: 75,
+  'Closed Won': 100,
+  'Closed Lost': 0,
+};
+
+export const dealCustomerName = (customer: { name: { first: string; last: string } }) =>
+  `${customer.name.first} ${customer.name.last}`.trim();
+
+export const isClosedStage = (stage: DealStage) => stage === 'Closed Won' || stage === 'Closed Lost';
+
+export const weightedValue = (deal: Pick<Deal, 'value' | 'probability'>) => (deal.value * deal.probability) / 100;
+
+/**
+ * The update for moving a deal to `stage`. Closing fixes the probability at
+ * 100 or 0 and reopening resets it to the stage default; moves between open
+ * stages keep the rep's estimate.
+ */
+export function moveDealRequest(deal: Deal, stage: DealStage): UpdateDealRequest {
+  if (isClosedStage(stage) || isClosedStage(deal.stage)) {
+    return { stage, probability: defaultStageProbability[stage] };
+  }
+  return { stage };
+}
+
+export interface StageSummary {
+  stage: DealStage;
+  count: number;
+  value: number;
+  weightedValue: number;
+}
+
+/** Totals per stage, converted with `convert` since deals can be in different currencies. */
+export function summarizeStages(deals: Deal[], convert: MoneyConverter): StageSummary[] {
+  return DEAL_STAGES.map((stage) => {
+    const inStage = deals.filter((deal) => deal.stage === stage);
+    return {
+      stage,
+      count: inStage.length,
+      value: inStage.reduce((sum, deal) => sum + convert(deal.value, deal.currency), 0),
+      weightedValue: inStage.reduce((sum, deal) => sum + convert(weightedValue(deal), deal.currency), 0),
+    };
+  });
+}
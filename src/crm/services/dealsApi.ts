@@ -0,0 +1,220 @@
+import type { MutationResponse, RequestOptions, SortOrder } from './customerDataSource';
+import { CreateDealRequest, DEAL_SOURCES, DEAL_STAGES, Deal, DealStage, UpdateDealRequest } from './deals';
+import { createDealEventFixtures, createDealFixtures } from './dealFixtures';
+import { DealEvent, dealEventsForChange } from './dealEvents';
+import { LocalStore } from './localDb';
+import { RecordListResponse, listRecords } from './localRecords';
+import { usersApiService } from './usersApi';
+import { currentUser } from './team';
+import { BASE_CURRENCY, convertAmount, getExchangeRates, isCurrencyCode } from './currency';
+import { NotFoundError, ValidationError, createAbortError } from './apiErrors';
+
+export type DealSortField =
+  | 'name'
+  | 'customerName'
+  | 'value'
+  | 'stage'
+  | 'probability'
+  | 'closingDate'
+  | 'createdAt'
+  | 'updatedAt';
+
+export interface GetDealsParams {
+  page?: number;
+  /** Omit to get every match on one page, as the pipeline board does. */
+  perPage?: number;
+  /** Case-insensitive match on the deal or customer name. */
+  search?: string;
+  /** Only deals in one of these stages. */
+  stages?: DealStage[];
+  customerId?: string;
+  owner?: string;
+  /** Defaults to `closingDate`; stages sort in pipeline order. */
+  sortBy?: DealSortField;
+  sortOrder?: SortOrder;
+}
+
+export interface GetDealEventsParams {
+  /** Only this deal's history. */
+  dealId?: string;
+}
+
+export type DealsApiResponse = RecordListResponse<Deal>;
+
+const SORT_FIELDS: Record<DealSortField, (deal: Deal) => string | number> = {
+  name: (deal) => deal.name.toLowerCase(),
+  customerName: (deal) => deal.customerName.toLowerCase(),
+  // Compared in the base currency, so deals priced in different currencies sort by size.
+  value: (deal) => convertAmount(deal.value, deal.currency, BASE_CURRENCY, getExchangeRates()),
+  stage: (deal) => DEAL_STAGES.indexOf(deal.stage),
+  probability: (deal) => deal.probability,
+  closingDate: (deal) => deal.closingDate,
+  createdAt: (deal) => deal.createdAt,
+  updatedAt: (deal) => deal.updatedAt,
+};
+
+function matchesParams(deal: Deal, params: GetDealsParams) {
+  const needle = params.search?.trim().toLowerCase();
+  if (needle && ![deal.name, deal.customerName].some((value) => value.toLowerCase().includes(needle))) {
+    return false;
+  }
+  if (params.stages?.length && !params.stages.includes(deal.stage)) return false;
+  if (params.customerId && deal.customerId !== params.customerId) return false;
+  if (params.owner && deal.owner !== params.owner) return false;
+  return true;
+}
+
+function assertValid(deal: Deal) {
+  const fieldErrors: Record<string, string> = {};
+  if (!deal.name.trim()) fieldErrors.name = 'This field is required';
+  if (!deal.customerId) fieldErrors.customerId = 'This field is required';
+  if (!(deal.value >= 0)) fieldErrors.value = 'Must be zero or more';
+  if (!isCurrencyCode(deal.currency)) fieldErrors.currency = 'Use a 3-letter code such as USD';
+  if (!DEAL_STAGES.includes(deal.stage)) fieldErrors.stage = 'Unknown stage';
+  if (deal.source && !DEAL_SOURCES.includes(deal.source)) fieldErrors.source = 'Unknown source';
+  if (!(deal.probability >= 0 && deal.probability <= 100)) fieldErrors.probability = 'Must be between 0 and 100';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(deal.closingDate)) fieldErrors.closingDate = 'Use YYYY-MM-DD';
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError(`Invalid deal: ${Object.keys(fieldErrors).join(', ')}`, { fieldErrors });
+  }
+}
+
+// How many customers the seeded deals are spread over.
+const SEED_CUSTOMER_COUNT = 100;
+
+const createDealId = () => `deal-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Deals, with the same list/get/create/update/delete surface as
+ * `usersApiService`. There is no remote deals API yet, so like the offline
+ * customers backend they are seeded from fixtures on first use and persisted
+ * in IndexedDB. The fixtures are linked to customers fetched from whichever
+ * customer backend is active, so every seeded deal's customer exists.
+ *
+ * Every save that changes a deal's stage or closing date also records a
+ * `DealEvent`, credited to the signed-in rep, for the stage history and
+ * pipeline reports.
+ */
+class DealsApiService {
+  private store = new LocalStore<Deal>('deals');
+  private eventStore = new LocalStore<DealEvent>('dealEvents');
+  private deals: Deal[] | null = null;
+  private events: DealEvent[] = [];
+  private loading: Promise<Deal[]> | null = null;
+
+  private async load(): Promise<Deal[]> {
+    if (this.deals) return this.deals;
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        const [entries, eventEntries] = await Promise.all([this.store.getAll(), this.eventStore.getAll()]);
+        if (entries.length > 0) {
+          // Deals saved before currencies were tracked were all in US dollars.
+          this.deals = entries.map(([, deal]) => ({ ...deal, currency: deal.currency ?? BASE_CURRENCY }));
+          this.events = eventEntries.map(([, event]) => event);
+        } else {
+          const { data: customers } = await usersApiService.getUsers({ perPage: SEED_CUSTOMER_COUNT });
+          this.deals = customers.length > 0 ? createDealFixtures(customers) : [];
+          this.events = createDealEventFixtures(this.deals);
+          await this.store.putMany(this.deals.map((deal) => [deal.id, deal]));
+          await this.eventStore.putMany(this.events.map((event) => [event.id, event]));
+        }
+        return this.deals;
+      })().catch((err) => {
+        // Let the next call try again, e.g. once the customer backend is back.
+        this.loading = null;
+        throw err;
+      });
+    }
+
+    return this.loading;
+  }
+
+  private async record(before: Deal | null, after: Deal) {
+    const events = dealEventsForChange(before, after, currentUser.name, after.updatedAt);
+    if (events.length === 0) return;
+    this.events.push(...events);
+    await this.eventStore.putMany(events.map((event) => [event.id, event]));
+  }
+
+  private async findDeal(id: string): Promise<Deal> {
+    const deals = await this.load();
+    const deal = deals.find((candidate) => candidate.id === id);
+    if (!deal) {
+      throw new NotFoundError(`Deal not found: ${id}`);
+    }
+    return deal;
+  }
+
+  async getDeals(params: GetDealsParams = {}, options: RequestOptions = {}): Promise<DealsApiResponse> {
+    const deals = await this.load();
+    if (options.signal?.aborted) throw createAbortError();
+
+    return listRecords(deals, params, SORT_FIELDS, 'closingDate', (deal) => matchesParams(deal, params));
+  }
+
+  async getDeal(id: string, options: RequestOptions = {}): Promise<Deal> {
+    const deal = await this.findDeal(id);
+    if (options.signal?.aborted) throw createAbortError();
+    return structuredClone(deal);
+  }
+
+  async createDeal(request: CreateDealRequest): Promise<Deal> {
+    const deals = await this.load();
+    const now = new Date().toISOString();
+    const deal: Deal = { ...request, id: createDealId(), createdAt: now, updatedAt: now };
+    assertValid(deal);
+
+    deals.push(deal);
+    await this.store.put(deal.id, deal);
+    await this.record(null, deal);
+    return structuredClone(deal);
+  }
+
+  async updateDeal(id: string, request: UpdateDealRequest): Promise<Deal> {
+    const existing = await this.findDeal(id);
+    const deals = await this.load();
+
+    const updated: Deal = { ...existing, ...request, updatedAt: new Date().toISOString() };
+    assertValid(updated);
+
+    deals[deals.indexOf(existing)] = updated;
+    await this.store.put(id, updated);
+    await this.record(existing, updated);
+    return structuredClone(updated);
+  }
+
+  async deleteDeal(id: string): Promise<MutationResponse> {
+    const existing = await this.findDeal(id);
+    const deals = await this.load();
+
+    deals.splice(deals.indexOf(existing), 1);
+    await this.store.delete(id);
+    const history = this.events.filter((event) => event.dealId === id);
+    this.events = this.events.filter((event) => event.dealId !== id);
+    await Promise.all(history.map((event) => this.eventStore.delete(event.id)));
+
+    return { success: true, message: 'Deal deleted successfully' };
+  }
+
+  /** Recorded stage and closing date changes, oldest first. */
+  async getDealEvents(params: GetDealEventsParams = {}, options: RequestOptions = {}): Promise<DealEvent[]> {
+    await this.load();
+    if (options.signal?.aborted) throw createAbortError();
+
+    const events = this.events.filter((event) => !params.dealId || event.dealId === params.dealId);
+    return structuredClone(events.sort((a, b) => a.at.localeCompare(b.at) || a.id.localeCompare(b.id)));
+  }
+
+  /** Moves every deal with customer `fromUuid` to `toUuid`; resolves with how many moved. */
+  async reassignCustomer(fromUuid: string, toUuid: string, customerName: string): Promise<number> {
+    const moved = (await this.load()).filter((deal) => deal.customerId === fromUuid);
+    for (const deal of moved) {
+      await this.updateDeal(deal.id, { customerId: toUuid, customerName });
+    }
+    return moved.length;
+  }
+}
+
+export const dealsApi = new DealsApiService();
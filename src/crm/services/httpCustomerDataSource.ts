@@ -0,0 +1,305 @@
+import type {
+  User,
+  UsersApiResponse,
+  CreateUserRequest,
+  UpdateUserRequest,
+} from './usersApi';
+import type {
+  CustomerDataSource,
+  GetUsersParams,
+  CreateUserResponse,
+  MutationResponse,
+  RequestOptions,
+} from './customerDataSource';
+import {
+  ApiError,
+  NetworkError,
+  RateLimitedError,
+  TimeoutError,
+  apiErrorFromResponse,
+  createAbortError,
+} from './apiErrors';
+import { matchesSegment } from './customerSegments';
+import { CUSTOM_FIELD_PREFIX, compareCustomFieldValues, matchesCustomFilter } from './customFields';
+
+export const DEFAULT_API_BASE_URL = 'https://user-api.builder-io.workers.dev/api';
+
+export interface RetryPolicy {
+  /** Extra attempts after the first one; 0 disables retrying. */
+  retries: number;
+  baseDelayMs: number;
+  /** Longest wait between attempts, including one a `Retry-After` header asks for. */
+  maxDelayMs: number;
+}
+
+export interface HttpCustomerDataSourceOptions {
+  baseUrl?: string;
+  timeoutMs?: number;
+  /** Applied to idempotent GETs only; writes are never repeated. */
+  retry?: Partial<RetryPolicy>;
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+
+// Page size and reuse window of the full scans behind client-side filtering.
+const SCAN_PAGE_SIZE = 100;
+const SCAN_TTL_MS = 30 * 1000;
+
+// The worker counts a "month" span as four week-sized pages.
+const WEEKS_PER_MONTH = 4;
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 4000,
+};
+
+// Full jitter: a random wait up to the exponential ceiling, so clients that
+// failed together don't all retry together.
+function backoffDelay(policy: RetryPolicy, attempt: number) {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+interface Scan {
+  users: Promise<User[]>;
+  /** When the walk finished; unset while it is still running. */
+  doneAt?: number;
+}
+
+// Settles with `promise`, or rejects with an AbortError as soon as `signal` aborts.
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// Rejects with an AbortError as soon as `signal` aborts instead of sleeping on.
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class HttpCustomerDataSource implements CustomerDataSource {
+  private baseUrl: string;
+  private timeoutMs: number;
+  private retryPolicy: RetryPolicy;
+  private scans = new Map<string, Scan>();
+
+  constructor(options: HttpCustomerDataSourceOptions = {}) {
+    this.baseUrl = options.baseUrl ?? DEFAULT_API_BASE_URL;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  }
+
+  private async request(endpoint: string, options: RequestInit) {
+    const callerSignal = options.signal;
+    if (callerSignal?.aborted) {
+      throw createAbortError();
+    }
+
+    // One controller serves both the timeout and the caller's signal; the
+    // flag tells the two apart once fetch rejects.
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.timeoutMs);
+    const forwardAbort = () => controller.abort();
+    callerSignal?.addEventListener('abort', forwardAbort);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${endpoint}`, {
+        ...options,
+        headers: {
+          'Content-Type': 'application/json',
+          ...options.headers,
+        },
+        signal: controller.signal,
+      });
+    } catch (err) {
+      if (timedOut) {
+        throw new TimeoutError(this.timeoutMs, { cause: err });
+      }
+      throw controller.signal.aborted ? createAbortError() : new NetworkError(undefined, { cause: err });
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', forwardAbort);
+    }
+
+    if (!response.ok) {
+      throw await apiErrorFromResponse(response);
+    }
+
+    return response.json();
+  }
+
+  private async fetchApi(endpoint: string, options: RequestInit = {}) {
+    const method = (options.method ?? 'GET').toUpperCase();
+    const retries = method === 'GET' ? this.retryPolicy.retries : 0;
+
+    for (let attempt = 0; ; attempt += 1) {
+      try {
+        return await this.request(endpoint, options);
+      } catch (err) {
+        if (!(err instanceof ApiError) || !err.retryable || attempt >= retries) {
+          throw err;
+        }
+
+        // A server asking for a longer pause than we'd ever back off gets the cap.
+        const delay =
+          err instanceof RateLimitedError && err.retryAfterMs !== undefined
+            ? Math.min(err.retryAfterMs, this.retryPolicy.maxDelayMs)
+            : backoffDelay(this.retryPolicy, attempt);
+        await wait(delay, options.signal ?? undefined);
+      }
+    }
+  }
+
+  private async fetchUsersPage(params: GetUsersParams, signal?: AbortSignal): Promise<UsersApiResponse> {
+    const searchParams = new URLSearchParams();
+
+    if (params.page) searchParams.append('page', params.page.toString());
+    if (params.perPage) searchParams.append('perPage', params.perPage.toString());
+    if (params.search) searchParams.append('search', params.search);
+    if (params.sortBy) searchParams.append('sortBy', params.sortBy);
+    if (params.sortOrder) searchParams.append('sortOrder', params.sortOrder);
+    if (params.span) searchParams.append('span', params.span);
+    if (params.ageMin !== undefined) searchParams.append('ageMin', params.ageMin.toString());
+    if (params.ageMax !== undefined) searchParams.append('ageMax', params.ageMax.toString());
+    if (params.registeredFrom) searchParams.append('registeredFrom', params.registeredFrom);
+    if (params.registeredTo) searchParams.append('registeredTo', params.registeredTo);
+    if (params.country) searchParams.append('country', params.country);
+    if (params.gender) searchParams.append('gender', params.gender);
+
+    const queryString = searchParams.toString();
+    const endpoint = `/users${queryString ? `?${queryString}` : ''}`;
+
+    return this.fetchApi(endpoint, { signal });
+  }
+
+  /**
+   * Every customer matching `params`, in the server's order. Scans are shared
+   * and reused for `SCAN_TTL_MS`, so segment counts, grid pages and export
+   * pages over the same filters cost one walk; writes through this source
+   * drop them.
+   */
+  private scan(params: GetUsersParams, signal?: AbortSignal): Promise<User[]> {
+    const key = JSON.stringify(params);
+    let scan = this.scans.get(key);
+    if (!scan || (scan.doneAt !== undefined && Date.now() - scan.doneAt > SCAN_TTL_MS)) {
+      const entry: Scan = { users: this.walk(params) };
+      entry.users.then(
+        () => {
+          entry.doneAt = Date.now();
+        },
+        () => {
+          if (this.scans.get(key) === entry) this.scans.delete(key);
+        },
+      );
+      this.scans.set(key, entry);
+      scan = entry;
+    }
+    // The walk is shared, so one caller giving up only stops its own wait.
+    return abortable(scan.users, signal);
+  }
+
+  private async walk(params: GetUsersParams): Promise<User[]> {
+    const users: User[] = [];
+    for (let page = 1; ; page += 1) {
+      const response = await this.fetchUsersPage({ ...params, page, perPage: SCAN_PAGE_SIZE });
+      users.push(...response.data);
+      if (response.data.length < SCAN_PAGE_SIZE || page * SCAN_PAGE_SIZE >= response.total) return users;
+    }
+  }
+
+  async getUsers(params: GetUsersParams = {}, options: RequestOptions = {}): Promise<UsersApiResponse> {
+    const { segment, custom = {}, ...serverParams } = params;
+    const customSortId = serverParams.sortBy?.startsWith(CUSTOM_FIELD_PREFIX)
+      ? serverParams.sortBy.slice(CUSTOM_FIELD_PREFIX.length)
+      : null;
+    if (!segment && Object.keys(custom).length === 0 && customSortId === null) {
+      return this.fetchUsersPage(serverParams, options.signal);
+    }
+
+    // The API knows neither segments nor custom fields, so those filters and
+    // sorts are applied here, to a full scan of everything matching the rest.
+    const { page: requestedPage, perPage: requestedPerPage, span = 'week', ...scanParams } = serverParams;
+    if (customSortId !== null) {
+      delete scanParams.sortBy;
+      delete scanParams.sortOrder;
+    }
+    const matching = (await this.scan(scanParams, options.signal)).filter(
+      (user) =>
+        (!segment || matchesSegment(user, segment)) &&
+        Object.entries(custom).every(([id, filter]) => matchesCustomFilter(user.custom?.[id], filter)),
+    );
+    if (customSortId !== null) {
+      const direction = serverParams.sortOrder === 'desc' ? -1 : 1;
+      matching.sort(
+        (a, b) =>
+          direction * compareCustomFieldValues(a.custom?.[customSortId], b.custom?.[customSortId]) ||
+          a.login.uuid.localeCompare(b.login.uuid),
+      );
+    }
+
+    const page = Math.max(1, requestedPage ?? 1);
+    const perPage = Math.max(1, requestedPerPage ?? 10);
+    const effectivePage = span === 'month' ? (page - 1) * WEEKS_PER_MONTH + 1 : page;
+    const start = (effectivePage - 1) * perPage;
+    return {
+      page,
+      perPage,
+      total: matching.length,
+      span,
+      effectivePage,
+      data: structuredClone(matching.slice(start, start + perPage)),
+    };
+  }
+
+  async getUser(id: string, options: RequestOptions = {}): Promise<User> {
+    return this.fetchApi(`/users/${encodeURIComponent(id)}`, { signal: options.signal });
+  }
+
+  async createUser(userData: CreateUserRequest): Promise<CreateUserResponse> {
+    const response = await this.fetchApi('/users', {
+      method: 'POST',
+      body: JSON.stringify(userData),
+    });
+    this.scans.clear();
+    return response;
+  }
+
+  async updateUser(id: string, userData: UpdateUserRequest): Promise<MutationResponse> {
+    const response = await this.fetchApi(`/users/${encodeURIComponent(id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(userData),
+    });
+    this.scans.clear();
+    return response;
+  }
+
+  async deleteUser(id: string): Promise<MutationResponse> {
+    const response = await this.fetchApi(`/users/${encodeURIComponent(id)}`, {
+      method: 'DELETE',
+    });
+    this.scans.clear();
+    return response;
+  }
+}
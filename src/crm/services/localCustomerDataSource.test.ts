@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { LocalCustomerDataSource } from './localCustomerDataSource';
+import { createCustomerFixtures } from './customerFixtures';
+import type { GetUsersParams } from './customerDataSource';
+import type { User } from './usersApi';
+
+// Without IndexedDB (as under Node) the store keeps records in memory, so each source starts from the fixtures.
+const FIXTURE_COUNT = 50;
+const fixtures = createCustomerFixtures(FIXTURE_COUNT);
+
+let source: LocalCustomerDataSource;
+
+beforeEach(() => {
+  source = new LocalCustomerDataSource(FIXTURE_COUNT);
+});
+
+const uuids = (users: User[]) => users.map((user) => user.login.uuid);
+
+async function allUsers(params: GetUsersParams = {}) {
+  return (await source.getUsers({ ...params, perPage: FIXTURE_COUNT })).data;
+}
+
+describe('LocalCustomerDataSource.getUsers paging', () => {
+  it('returns one page of the sorted customers with the total', async () => {
+    const everyone = await allUsers();
+    const page = await source.getUsers({ page: 2, perPage: 10 });
+
+    expect(page).toMatchObject({ page: 2, perPage: 10, total: FIXTURE_COUNT, effectivePage: 2 });
+    expect(uuids(page.data)).toEqual(uuids(everyone.slice(10, 20)));
+  });
+
+  it('covers every customer exactly once across the pages', async () => {
+    const pages = await Promise.all([1, 2, 3, 4].map((page) => source.getUsers({ page, perPage: 15 })));
+    const seen = pages.flatMap((page) => uuids(page.data));
+
+    expect(pages[3].data).toHaveLength(5);
+    expect(new Set(seen).size).toBe(FIXTURE_COUNT);
+  });
+
+  it('counts a month-sized page as four weeks', async () => {
+    const everyone = await allUsers();
+    const page = await source.getUsers({ page: 2, perPage: 5, span: 'month' });
+
+    expect(page).toMatchObject({ span: 'month', effectivePage: 5 });
+    expect(uuids(page.data)).toEqual(uuids(everyone.slice(20, 25)));
+  });
+
+  it('hands out copies that do not change the stored customers', async () => {
+    const [first] = (await source.getUsers({ perPage: 1 })).data;
+    first.name.first = 'Changed';
+
+    expect((await source.getUser(first.login.uuid)).name.first).not.toBe('Changed');
+  });
+});
+
+describe('LocalCustomerDataSource.getUsers sorting', () => {
+  it('sorts by first name by default, case-insensitively, with ties broken by uuid', async () => {
+    const expected = [...fixtures].sort(
+      (a, b) =>
+        a.name.first.toLowerCase().localeCompare(b.name.first.toLowerCase()) ||
+        (a.login.uuid < b.login.uuid ? -1 : 1),
+    );
+
+    expect(uuids(await allUsers())).toEqual(uuids(expected));
+  });
+
+  it('sorts descending', async () => {
+    const ages = (await allUsers({ sortBy: 'dob.age', sortOrder: 'desc' })).map((user) => user.dob.age);
+
+    expect(ages).toEqual([...ages].sort((a, b) => b - a));
+    expect(ages[0]).toBeGreaterThan(ages[ages.length - 1]);
+  });
+
+  it('falls back to first name for an unknown sort field', async () => {
+    expect(uuids(await allUsers({ sortBy: 'login.password' }))).toEqual(uuids(await allUsers()));
+  });
+
+  it('sorts by a custom field with missing values first', async () => {
+    const [a, b, c] = fixtures;
+    await source.updateUser(a.login.uuid, { custom: { score: 30 } });
+    await source.updateUser(b.login.uuid, { custom: { score: 10 } });
+    await source.updateUser(c.login.uuid, { custom: { score: 20 } });
+
+    const ascending = uuids(await allUsers({ sortBy: 'custom.score' }));
+    const descending = uuids(await allUsers({ sortBy: 'custom.score', sortOrder: 'desc' }));
+
+    expect(ascending.slice(-3)).toEqual(uuids([b, c, a]));
+    expect(descending.slice(0, 3)).toEqual(uuids([a, c, b]));
+  });
+});
+
+describe('LocalCustomerDataSource.getUsers filters', () => {
+  it('keeps ages within the inclusive bounds', async () => {
+    const users = await allUsers({ ageMin: 30, ageMax: 40 });
+    const expected = fixtures.filter((user) => user.dob.age >= 30 && user.dob.age <= 40);
+
+    expect(users.length).toBeGreaterThan(0);
+    expect(users).toHaveLength(expected.length);
+    expect(users.every((user) => user.dob.age >= 30 && user.dob.age <= 40)).toBe(true);
+  });
+
+  it('matches country case-insensitively and gender exactly', async () => {
+    const { country } = fixtures[0].location;
+    const users = await allUsers({ country: ` ${country.toUpperCase()} `, gender: 'female' });
+    const expected = fixtures.filter((user) => user.location.country === country && user.gender === 'female');
+
+    expect(users).toHaveLength(expected.length);
+  });
+
+  it('searches names, email and city', async () => {
+    const [target] = fixtures;
+
+    expect(uuids(await allUsers({ search: target.email.toUpperCase() }))).toEqual([target.login.uuid]);
+    expect((await allUsers({ search: target.location.city })).length).toBe(
+      fixtures.filter((user) => user.location.city === target.location.city).length,
+    );
+    expect(await allUsers({ search: 'no such customer' })).toEqual([]);
+  });
+
+  it('applies segment rules on top of the other filters', async () => {
+    const vips = fixtures.filter((user) => user.tags?.includes('VIP'));
+    const [vip] = vips;
+
+    expect(uuids(await allUsers({ segment: { tags: ['VIP'] } })).sort()).toEqual(uuids(vips).sort());
+    expect(uuids(await allUsers({ segment: { tags: ['VIP'] }, search: vip.email }))).toEqual([vip.login.uuid]);
+  });
+
+  it('puts customers in a segment once they are tagged', async () => {
+    const [customer] = fixtures.filter((user) => !user.tags?.includes('VIP'));
+    await source.updateUser(customer.login.uuid, { tags: ['VIP'] });
+
+    expect(uuids(await allUsers({ segment: { tags: ['VIP'] } }))).toContain(customer.login.uuid);
+  });
+
+  it('filters on custom field values', async () => {
+    const [a, b, c] = fixtures;
+    await source.updateUser(a.login.uuid, { custom: { plan: 'Pro', seats: 5, renewal: '2026-03-01' } });
+    await source.updateUser(b.login.uuid, { custom: { plan: 'Free', seats: 1 } });
+    await source.updateUser(c.login.uuid, { custom: { plan: 'Pro', seats: 12, renewal: '2026-09-01' } });
+
+    const matching = async (custom: GetUsersParams['custom']) => uuids(await allUsers({ custom })).sort();
+
+    expect(await matching({ plan: { op: 'is', value: 'Pro' } })).toEqual(uuids([a, c]).sort());
+    expect(await matching({ seats: { op: 'between', min: '2', max: '10' } })).toEqual([a.login.uuid]);
+    expect(await matching({ renewal: { op: 'between', max: '2026-06-30' } })).toEqual([a.login.uuid]);
+    expect(await matching({ plan: { op: 'contains', value: 'fr' } })).toEqual([b.login.uuid]);
+  });
+});
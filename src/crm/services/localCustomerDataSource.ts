@@ -0,0 +1,258 @@
+import type {
+  User,
+  UsersApiResponse,
+  CreateUserRequest,
+  UpdateUserRequest,
+} from './usersApi';
+import type {
+  CustomerDataSource,
+  GetUsersParams,
+  CreateUserResponse,
+  MutationResponse,
+  RequestOptions,
+} from './customerDataSource';
+import { createCustomerFixtures } from './customerFixtures';
+import { LocalStore } from './localDb';
+import { matchesSegment } from './customerSegments';
+import { customFieldSortValue, matchesCustomFilter } from './customFields';
+import { applyUserUpdate, userFromCreateRequest } from './customerRecords';
+import {
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+  createAbortError,
+} from './apiErrors';
+
+// The worker counts a "month" span as four week-sized pages.
+const WEEKS_PER_MONTH = 4;
+
+const SORT_FIELDS: Record<string, (user: User) => string | number> = {
+  'name.first': (user) => user.name.first.toLowerCase(),
+  'name.last': (user) => user.name.last.toLowerCase(),
+  email: (user) => user.email.toLowerCase(),
+  'location.city': (user) => user.location.city.toLowerCase(),
+  'location.country': (user) => user.location.country.toLowerCase(),
+  'dob.age': (user) => user.dob.age,
+  'registered.date': (user) => user.registered.date,
+};
+
+const CUSTOM_SORT_PREFIX = 'custom.';
+
+function sortValueFor(sortBy: string | undefined): (user: User) => string | number | null {
+  if (sortBy?.startsWith(CUSTOM_SORT_PREFIX)) {
+    const id = sortBy.slice(CUSTOM_SORT_PREFIX.length);
+    return (user) => customFieldSortValue(user.custom?.[id]);
+  }
+  return SORT_FIELDS[sortBy ?? 'name.first'] ?? SORT_FIELDS['name.first'];
+}
+
+function compareValues(a: string | number | null, b: string | number | null) {
+  if (a === b) return 0;
+  if (a === null) return -1;
+  if (b === null) return 1;
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+function matchesSearch(user: User, search: string) {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+
+  return [user.name.first, user.name.last, user.email, user.location.city].some(
+    (value) => value?.toLowerCase().includes(needle),
+  );
+}
+
+function matchesFilters(user: User, params: GetUsersParams) {
+  const age = user.dob?.age;
+  const registered = user.registered?.date?.slice(0, 10) ?? '';
+
+  if (params.ageMin !== undefined && !(age >= params.ageMin)) return false;
+  if (params.ageMax !== undefined && !(age <= params.ageMax)) return false;
+  if (params.registeredFrom && !(registered >= params.registeredFrom)) return false;
+  if (params.registeredTo && !(registered && registered <= params.registeredTo)) return false;
+  if (params.country && user.location.country.toLowerCase() !== params.country.trim().toLowerCase()) {
+    return false;
+  }
+  if (params.gender && user.gender !== params.gender) return false;
+  if (params.segment && !matchesSegment(user, params.segment)) return false;
+  return Object.entries(params.custom ?? {}).every(([id, filter]) =>
+    matchesCustomFilter(user.custom?.[id], filter),
+  );
+}
+
+function generateUuid() {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const value = Math.floor(Math.random() * 16);
+    return (char === 'x' ? value : (value & 0x3) | 0x8).toString(16);
+  });
+}
+
+function assertRequired(userData: CreateUserRequest) {
+  const missing = [
+    ['email', userData.email],
+    ['login.username', userData.login?.username],
+    ['name.first', userData.name?.first],
+    ['name.last', userData.name?.last],
+  ]
+    .filter(([, value]) => !value || !String(value).trim())
+    .map(([field]) => field as string);
+
+  if (missing.length > 0) {
+    throw new ValidationError(`Missing required fields: ${missing.join(', ')}`, {
+      fieldErrors: Object.fromEntries(missing.map((field) => [field, 'This field is required'])),
+    });
+  }
+}
+
+function assertUnique(users: User[], candidate: { email?: string; username?: string }, ignoreUuid?: string) {
+  const others = users.filter((user) => user.login.uuid !== ignoreUuid);
+  const email = candidate.email?.toLowerCase();
+
+  if (email && others.some((user) => user.email.toLowerCase() === email)) {
+    throw new ConflictError('A customer with this email already exists', {
+      fieldErrors: { email: 'This email is already in use' },
+    });
+  }
+  if (candidate.username && others.some((user) => user.login.username === candidate.username)) {
+    throw new ConflictError('A customer with this username already exists', {
+      fieldErrors: { 'login.username': 'This username is already taken' },
+    });
+  }
+}
+
+/**
+ * Offline backend for `usersApiService`. Customers are seeded from the
+ * deterministic fixture set on first use and persisted in IndexedDB, so
+ * edits survive reloads until `reset()` is called.
+ */
+export class LocalCustomerDataSource implements CustomerDataSource {
+  private store = new LocalStore<User>('customers');
+  private users: User[] | null = null;
+  private loading: Promise<User[]> | null = null;
+
+  constructor(private fixtureCount = 500) {}
+
+  private async load(): Promise<User[]> {
+    if (this.users) return this.users;
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        const entries = await this.store.getAll();
+        if (entries.length > 0) {
+          this.users = entries.map(([, user]) => user);
+        } else {
+          this.users = createCustomerFixtures(this.fixtureCount);
+          await this.store.putMany(this.users.map((user) => [user.login.uuid, user]));
+        }
+        return this.users;
+      })();
+    }
+
+    return this.loading;
+  }
+
+  private async findUser(id: string): Promise<User> {
+    const users = await this.load();
+    const user = users.find(
+      (candidate) =>
+        candidate.login.uuid === id ||
+        candidate.login.username === id ||
+        candidate.email === id,
+    );
+
+    if (!user) {
+      throw new NotFoundError(`User not found: ${id}`);
+    }
+
+    return user;
+  }
+
+  async getUsers(params: GetUsersParams = {}, options: RequestOptions = {}): Promise<UsersApiResponse> {
+    const users = await this.load();
+    if (options.signal?.aborted) throw createAbortError();
+
+    const page = Math.max(1, params.page ?? 1);
+    const perPage = Math.max(1, params.perPage ?? 10);
+    const span = params.span ?? 'week';
+    const effectivePage = span === 'month' ? (page - 1) * WEEKS_PER_MONTH + 1 : page;
+
+    const filtered = users.filter(
+      (user) => matchesSearch(user, params.search ?? '') && matchesFilters(user, params),
+    );
+
+    const sortValue = sortValueFor(params.sortBy);
+    const direction = params.sortOrder === 'desc' ? -1 : 1;
+    filtered.sort(
+      (a, b) =>
+        direction * compareValues(sortValue(a), sortValue(b)) ||
+        compareValues(a.login.uuid, b.login.uuid),
+    );
+
+    const start = (effectivePage - 1) * perPage;
+
+    return {
+      page,
+      perPage,
+      total: filtered.length,
+      span,
+      effectivePage,
+      // Hand out copies, as a network response would, so callers can't
+      // mutate the backing records.
+      data: structuredClone(filtered.slice(start, start + perPage)),
+    };
+  }
+
+  async getUser(id: string, options: RequestOptions = {}): Promise<User> {
+    const user = await this.findUser(id);
+    if (options.signal?.aborted) throw createAbortError();
+    return structuredClone(user);
+  }
+
+  async createUser(userData: CreateUserRequest): Promise<CreateUserResponse> {
+    assertRequired(userData);
+    const users = await this.load();
+    assertUnique(users, { email: userData.email, username: userData.login.username });
+
+    const user = userFromCreateRequest(userData, generateUuid());
+    users.push(user);
+    await this.store.put(user.login.uuid, user);
+
+    return { success: true, uuid: user.login.uuid, message: 'User created successfully' };
+  }
+
+  async updateUser(id: string, userData: UpdateUserRequest): Promise<MutationResponse> {
+    const existing = await this.findUser(id);
+    const users = await this.load();
+    assertUnique(users, { email: userData.email }, existing.login.uuid);
+
+    const updated = applyUserUpdate(existing, userData);
+
+    users[users.indexOf(existing)] = updated;
+    await this.store.put(updated.login.uuid, updated);
+
+    return { success: true, message: 'User updated successfully' };
+  }
+
+  async deleteUser(id: string): Promise<MutationResponse> {
+    const existing = await this.findUser(id);
+    const users = await this.load();
+
+    users.splice(users.indexOf(existing), 1);
+    await this.store.delete(existing.login.uuid);
+
+    return { success: true, message: 'User deleted successfully' };
+  }
+
+  /** Drops every local edit and re-seeds the fixture data set. */
+  async reset(): Promise<void> {
+    await this.store.clear();
+    this.users = null;
+    this.loading = null;
+    await this.load();
+  }
+}
@@ -0,0 +1,124 @@
+const DB_NAME = 'crm-local';
+const DB_VERSION = 4;
+
+// Every object store the offline backends use. Adding a store means bumping
+// DB_VERSION so `onupgradeneeded` gets a chance to create it.
+const STORE_NAMES = ['customers', 'deals', 'dealEvents', 'tasks'] as const;
+
+export type LocalStoreName = (typeof STORE_NAMES)[number];
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORE_NAMES.forEach((name) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      // Private browsing modes can refuse IndexedDB; fall back to memory.
+      request.onerror = () => resolve(null);
+      request.onblocked = () => resolve(null);
+    });
+  }
+
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * A keyed collection persisted in IndexedDB. When IndexedDB is unavailable
+ * (tests, private browsing) the records only live in memory for the session.
+ */
+export class LocalStore<T> {
+  private memory = new Map<string, T>();
+
+  constructor(private storeName: LocalStoreName) {}
+
+  async getAll(): Promise<Array<[string, T]>> {
+    const db = await openDb();
+    if (!db) {
+      return Array.from(this.memory.entries());
+    }
+
+    const store = db.transaction(this.storeName).objectStore(this.storeName);
+    const [keys, values] = await Promise.all([
+      promisify(store.getAllKeys()),
+      promisify(store.getAll() as IDBRequest<T[]>),
+    ]);
+    return keys.map((key, index) => [String(key), values[index]]);
+  }
+
+  async put(key: string, value: T): Promise<void> {
+    const db = await openDb();
+    if (!db) {
+      this.memory.set(key, value);
+      return;
+    }
+
+    const store = db
+      .transaction(this.storeName, 'readwrite')
+      .objectStore(this.storeName);
+    await promisify(store.put(value, key));
+  }
+
+  async putMany(entries: Array<[string, T]>): Promise<void> {
+    const db = await openDb();
+    if (!db) {
+      entries.forEach(([key, value]) => this.memory.set(key, value));
+      return;
+    }
+
+    const transaction = db.transaction(this.storeName, 'readwrite');
+    const store = transaction.objectStore(this.storeName);
+    entries.forEach(([key, value]) => store.put(value, key));
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    const db = await openDb();
+    if (!db) {
+      this.memory.delete(key);
+      return;
+    }
+
+    const store = db
+      .transaction(this.storeName, 'readwrite')
+      .objectStore(this.storeName);
+    await promisify(store.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    const db = await openDb();
+    if (!db) {
+      this.memory.clear();
+      return;
+    }
+
+    const store = db
+      .transaction(this.storeName, 'readwrite')
+      .objectStore(this.storeName);
+    await promisify(store.clear());
+  }
+}
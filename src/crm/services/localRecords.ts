@@ -0,0 +1,52 @@
+import type { SortOrder } from './customerDataSource';
+
+/** A page of a locally stored record list, as `dealsApi` and `tasksApi` return them. */
+export interface RecordListResponse<T> {
+  page: number;
+  perPage: number;
+  total: number;
+  data: T[];
+}
+
+export interface RecordListParams<F extends string> {
+  page?: number;
+  /** Omit to get every match on one page. */
+  perPage?: number;
+  sortBy?: F;
+  sortOrder?: SortOrder;
+}
+
+function compareValues(a: string | number, b: string | number) {
+  if (a < b) return -1;
+  if (a > b) return 1;
+  return 0;
+}
+
+/**
+ * The page of `records` that pass `matches`, sorted by `params.sortBy`
+ * (`defaultSort` when unset or unknown) with ties broken by id. Records are
+ * copied, as a network response would be, so callers can't mutate the store.
+ */
+export function listRecords<T extends { id: string }, F extends string>(
+  records: T[],
+  params: RecordListParams<F>,
+  sortFields: Record<F, (record: T) => string | number>,
+  defaultSort: F,
+  matches: (record: T) => boolean,
+): RecordListResponse<T> {
+  const filtered = records.filter(matches);
+  const sortValue = sortFields[params.sortBy ?? defaultSort] ?? sortFields[defaultSort];
+  const direction = params.sortOrder === 'desc' ? -1 : 1;
+  filtered.sort((a, b) => direction * compareValues(sortValue(a), sortValue(b)) || compareValues(a.id, b.id));
+
+  const page = Math.max(1, params.page ?? 1);
+  const perPage = params.perPage === undefined ? Math.max(1, filtered.length) : Math.max(1, params.perPage);
+  const start = (page - 1) * perPage;
+
+  return {
+    page,
+    perPage,
+    total: filtered.length,
+    data: structuredClone(filtered.slice(start, start + perPage)),
+  };
+}
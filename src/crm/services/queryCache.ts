@@ -0,0 +1,250 @@
+import { isAbortError } from './apiErrors';
+
+export type QueryKey = readonly unknown[];
+
+export type QueryFunction<T> = (signal: AbortSignal) => Promise<T>;
+
+export type QueryStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export interface QueryState<T = unknown> {
+  status: QueryStatus;
+  data?: T;
+  error?: unknown;
+  /** Epoch ms of the last successful fetch; 0 means stale. */
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState;
+  listeners: Set<() => void>;
+  queryFn?: QueryFunction<unknown>;
+  promise?: Promise<unknown>;
+  controller?: AbortController;
+  gcTimer?: ReturnType<typeof setTimeout>;
+}
+
+export type QuerySnapshot = Array<[string, QueryState]>;
+
+export const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+// Unobserved entries are kept this long so paging back is instant.
+const GC_TIME_MS = 5 * 60 * 1000;
+
+const IDLE_STATE: QueryState = { status: 'idle', updatedAt: 0, isFetching: false };
+
+function stableSerialize(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableSerialize).join(',')}]`;
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([k, entry]) => `${JSON.stringify(k)}:${stableSerialize(entry)}`).join(',')}}`;
+}
+
+/** Key hash that ignores object property order and undefined properties. */
+export function hashQueryKey(key: QueryKey): string {
+  return stableSerialize(key);
+}
+
+function keyStartsWith(key: QueryKey, prefix: QueryKey) {
+  return (
+    prefix.length <= key.length &&
+    prefix.every((part, index) => stableSerialize(part) === stableSerialize(key[index]))
+  );
+}
+
+/**
+ * Keyed store of server responses. Concurrent fetches of one key share a
+ * single request, cached data is served while it revalidates, and a request
+ * nobody observes any more is aborted.
+ */
+export class QueryCache {
+  private entries = new Map<string, QueryEntry>();
+
+  private ensureEntry(key: QueryKey): QueryEntry {
+    const hash = hashQueryKey(key);
+    let entry = this.entries.get(hash);
+    if (!entry) {
+      entry = { key, state: IDLE_STATE, listeners: new Set() };
+      this.entries.set(hash, entry);
+    }
+    return entry;
+  }
+
+  private setState(entry: QueryEntry, patch: Partial<QueryState>) {
+    entry.state = { ...entry.state, ...patch };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  private scheduleGc(hash: string, entry: QueryEntry) {
+    clearTimeout(entry.gcTimer);
+    entry.gcTimer = setTimeout(() => {
+      if (entry.listeners.size === 0 && !entry.promise) {
+        this.entries.delete(hash);
+      }
+    }, GC_TIME_MS);
+  }
+
+  getState<T>(key: QueryKey): QueryState<T> {
+    return (this.entries.get(hashQueryKey(key))?.state ?? IDLE_STATE) as QueryState<T>;
+  }
+
+  getQueryData<T>(key: QueryKey): T | undefined {
+    return this.getState<T>(key).data;
+  }
+
+  isStale(key: QueryKey, staleTime: number): boolean {
+    const { updatedAt } = this.getState(key);
+    return updatedAt === 0 || Date.now() - updatedAt > staleTime;
+  }
+
+  subscribe(key: QueryKey, listener: () => void): () => void {
+    const hash = hashQueryKey(key);
+    const entry = this.ensureEntry(key);
+    clearTimeout(entry.gcTimer);
+    entry.listeners.add(listener);
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        // Whoever wanted this response has moved on (a newer search, another
+        // page), so let the request go rather than race the current one.
+        this.cancel(key);
+        this.scheduleGc(hash, entry);
+      }
+    };
+  }
+
+  fetch<T>(key: QueryKey, queryFn: QueryFunction<T>): Promise<T> {
+    const entry = this.ensureEntry(key);
+    entry.queryFn = queryFn as QueryFunction<unknown>;
+
+    if (entry.promise) {
+      return entry.promise as Promise<T>;
+    }
+
+    const controller = new AbortController();
+    entry.controller = controller;
+    this.setState(entry, {
+      isFetching: true,
+      status: entry.state.data === undefined ? 'loading' : entry.state.status,
+    });
+
+    const promise = queryFn(controller.signal).then(
+      (data) => {
+        if (entry.controller === controller) {
+          entry.promise = undefined;
+          entry.controller = undefined;
+          this.setState(entry, {
+            status: 'success',
+            data,
+            error: undefined,
+            updatedAt: Date.now(),
+            isFetching: false,
+          });
+        }
+        return data;
+      },
+      (error: unknown) => {
+        if (entry.controller === controller) {
+          entry.promise = undefined;
+          entry.controller = undefined;
+          this.setState(
+            entry,
+            isAbortError(error)
+              ? { isFetching: false, status: entry.state.data === undefined ? 'idle' : 'success' }
+              : { status: 'error', error, isFetching: false },
+          );
+        }
+        throw error;
+      },
+    );
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  /** Warms the cache for a key nobody renders yet, e.g. the next page. */
+  prefetch<T>(key: QueryKey, queryFn: QueryFunction<T>, staleTime = DEFAULT_STALE_TIME_MS) {
+    if (!this.isStale(key, staleTime) || this.entries.get(hashQueryKey(key))?.promise) {
+      return;
+    }
+    const hash = hashQueryKey(key);
+    this.fetch(key, queryFn)
+      .catch(() => undefined)
+      .finally(() => {
+        const entry = this.entries.get(hash);
+        if (entry && entry.listeners.size === 0) this.scheduleGc(hash, entry);
+      });
+  }
+
+  cancel(key: QueryKey) {
+    const entry = this.entries.get(hashQueryKey(key));
+    if (!entry?.controller) return;
+
+    // Cleared now rather than when the abort settles, so a subscriber that
+    // comes straight back (StrictMode remounts, for one) starts a new request
+    // instead of being handed the aborted one.
+    entry.controller.abort();
+    entry.controller = undefined;
+    entry.promise = undefined;
+    this.setState(entry, { isFetching: false, status: entry.state.data === undefined ? 'idle' : 'success' });
+  }
+
+  /** Marks every query under `prefix` stale and refetches the observed ones. */
+  invalidate(prefix: QueryKey) {
+    this.entries.forEach((entry) => {
+      if (!keyStartsWith(entry.key, prefix)) return;
+
+      entry.state = { ...entry.state, updatedAt: 0 };
+      if (entry.controller) {
+        // An in-flight response may predate the change being invalidated.
+        entry.controller.abort();
+        entry.controller = undefined;
+        entry.promise = undefined;
+        entry.state = { ...entry.state, isFetching: false };
+      }
+      if (entry.listeners.size > 0 && entry.queryFn) {
+        this.fetch(entry.key, entry.queryFn).catch(() => undefined);
+      } else {
+        entry.listeners.forEach((listener) => listener());
+      }
+    });
+  }
+
+  setQueryData<T>(key: QueryKey, updater: (data: T | undefined) => T | undefined) {
+    const entry = this.ensureEntry(key);
+    const data = updater(entry.state.data as T | undefined);
+    this.setState(entry, {
+      data,
+      status: data === undefined ? entry.state.status : 'success',
+    });
+  }
+
+  /**
+   * Applies `updater` to the data of every cached query under `prefix` and
+   * returns what was there before, for `restore` to roll back.
+   */
+  setQueriesData<T>(prefix: QueryKey, updater: (data: T) => T): QuerySnapshot {
+    const snapshot: QuerySnapshot = [];
+    this.entries.forEach((entry, hash) => {
+      if (!keyStartsWith(entry.key, prefix) || entry.state.data === undefined) return;
+      snapshot.push([hash, entry.state]);
+      this.setState(entry, { data: updater(entry.state.data as T) });
+    });
+    return snapshot;
+  }
+
+  restore(snapshot: QuerySnapshot) {
+    snapshot.forEach(([hash, state]) => {
+      const entry = this.entries.get(hash);
+      if (entry) this.setState(entry, { data: state.data });
+    });
+  }
+}
+
+export const queryCache = new QueryCache();
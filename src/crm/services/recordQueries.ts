@@ -0,0 +1,51 @@
+import type { QueryKey } from './queryCache';
+import type { RecordListResponse } from './localRecords';
+
+/** Query keys for one kind of record; invalidate `all` after a write. */
+export function recordKeys<P>(root: string) {
+  const all = [root] as const;
+  const lists = () => [...all, 'list'] as const;
+  const details = () => [...all, 'detail'] as const;
+  return {
+    all,
+    lists,
+    list: (params: P) => [...lists(), params] as const,
+    details,
+    detail: (id: string) => [...details(), id] as const,
+  };
+}
+
+/**
+ * Records that are inside their undo window: gone from the UI but not yet
+ * from the store, so lists fetched meanwhile must skip them.
+ */
+export class PendingDeletes {
+  private ids = new Set<string>();
+
+  mark(id: string) {
+    this.ids.add(id);
+  }
+
+  clear(id: string) {
+    this.ids.delete(id);
+  }
+
+  /** `response` without the records waiting to be deleted. */
+  exclude<T extends { id: string }>(response: RecordListResponse<T>): RecordListResponse<T> {
+    if (this.ids.size === 0) return response;
+    const data = response.data.filter((record) => !this.ids.has(record.id));
+    return { ...response, data, total: response.total - (response.data.length - data.length) };
+  }
+}
+
+/** A list query whose results leave out records that are pending deletion. */
+export function recordsListQuery<T extends { id: string }>(
+  queryKey: QueryKey,
+  fetchList: (signal: AbortSignal) => Promise<RecordListResponse<T>>,
+  pendingDeletes: PendingDeletes,
+) {
+  return {
+    queryKey,
+    queryFn: (signal: AbortSignal) => fetchList(signal).then((response) => pendingDeletes.exclude(response)),
+  };
+}
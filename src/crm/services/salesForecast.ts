@@ -0,0 +1,99 @@
+import { BASE_CURRENCY, MoneyConverter } from './currency';
+import { Deal, isClosedStage, weightedValue } from './deals';
+import { SalesTargets, monthKey, targetForMonth } from './salesTargets';
+
+export type ForecastRange = 'month' | 'quarter' | 'year';
+
+export interface ForecastPeriod {
+  key: string;
+  label: string;
+  /** The `YYYY-MM` months the period covers. */
+  months: string[];
+  /** Whether today falls in the period. */
+  current: boolean;
+  /** Value of the deals won in the period. */
+  actual: number;
+  /** Open deals' value weighted by probability. */
+  forecast: number;
+  target: number;
+  wonDeals: Deal[];
+  openDeals: Deal[];
+}
+
+// Periods shown before and after the current one.
+const WINDOWS: Record<ForecastRange, { before: number; after: number }> = {
+  month: { before: 6, after: 5 },
+  quarter: { before: 4, after: 3 },
+  year: { before: 2, after: 2 },
+};
+
+const MONTHS_PER_PERIOD: Record<ForecastRange, number> = { month: 1, quarter: 3, year: 12 };
+
+function periodLabel(range: ForecastRange, year: number, firstMonth: number) {
+  if (range === 'year') return String(year);
+  if (range === 'quarter') return `Q${firstMonth / 3 + 1} ${year}`;
+  return new Date(year, firstMonth, 1).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+}
+
+/**
+ * Revenue per month, quarter or year around `today`: actuals from Closed Won
+ * deals and a forecast from open deals, both bucketed by closing date.
+ * Amounts and targets are converted with `convert`.
+ * Open deals whose closing date has passed are counted in the current
+ * period, since they can still only close from now on. Lost deals are left
+ * out.
+ */
+export function buildSalesForecast(
+  deals: Deal[],
+  targets: SalesTargets,
+  range: ForecastRange,
+  convert: MoneyConverter,
+  today = new Date(),
+): ForecastPeriod[] {
+  const size = MONTHS_PER_PERIOD[range];
+  const { before, after } = WINDOWS[range];
+  // Months since year 0, so periods can step across year boundaries.
+  const currentStart = today.getFullYear() * 12 + Math.floor(today.getMonth() / size) * size;
+  const currentMonth = monthKey(today.getFullYear(), today.getMonth());
+
+  const periods = Array.from({ length: before + 1 + after }, (_item, index): ForecastPeriod => {
+    const start = currentStart + (index - before) * size;
+    const year = Math.floor(start / 12);
+    const months = Array.from({ length: size }, (_month, offset) =>
+      monthKey(Math.floor((start + offset) / 12), (start + offset) % 12),
+    );
+    return {
+      key: months[0],
+      label: periodLabel(range, year, start % 12),
+      months,
+      current: index === before,
+      actual: 0,
+      forecast: 0,
+      target: convert(
+        months.reduce((sum, month) => sum + targetForMonth(targets, month), 0),
+        BASE_CURRENCY,
+      ),
+      wonDeals: [],
+      openDeals: [],
+    };
+  });
+
+  const periodFor = (month: string) => periods.find((period) => period.months.includes(month));
+
+  deals.forEach((deal) => {
+    const month = deal.closingDate.slice(0, 7);
+    if (deal.stage === 'Closed Won') {
+      const period = periodFor(month);
+      if (!period) return;
+      period.actual += convert(deal.value, deal.currency);
+      period.wonDeals.push(deal);
+    } else if (!isClosedStage(deal.stage)) {
+      const period = periodFor(month < currentMonth ? currentMonth : month);
+      if (!period) return;
+      period.forecast += convert(weightedValue(deal), deal.currency);
+      period.openDeals.push(deal);
+    }
+  });
+
+  return periods;
+}
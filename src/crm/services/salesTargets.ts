@@ -0,0 +1,23 @@
+import { createStoredValue } from './browserStorage';
+
+/** Revenue targets in `BASE_CURRENCY`, converted wherever they're charted. */
+export interface SalesTargets {
+  /** Applies to every month without a target of its own. */
+  monthlyDefault: number;
+  /** Per-month overrides keyed by `YYYY-MM`. */
+  months: Record<string, number>;
+}
+
+const STORAGE_KEY = 'salesTargets';
+
+export const defaultSalesTargets: SalesTargets = { monthlyDefault: 250000, months: {} };
+
+const salesTargetsStore = createStoredValue<SalesTargets>(STORAGE_KEY, defaultSalesTargets);
+
+export const getSalesTargets = salesTargetsStore.get;
+export const saveSalesTargets = salesTargetsStore.set;
+export const subscribeToSalesTargets = salesTargetsStore.subscribe;
+
+export const monthKey = (year: number, monthIndex: number) => `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+
+export const targetForMonth = (targets: SalesTargets, key: string) => targets.months[key] ?? targets.monthlyDefault;
@@ -0,0 +1,76 @@
+import type { Deal } from './deals';
+import { TASK_PRIORITIES, Task, TaskStatus } from './tasks';
+import { teamMembers } from './team';
+import { weekdayOf } from './taskRecurrence';
+
+const TITLES: Array<(deal: Deal) => string> = [
+  (deal) => `Follow up with ${deal.customerName} on ${deal.name}`,
+  (deal) => `Send proposal documents for ${deal.name}`,
+  (deal) => `Call ${deal.customerName} about contract details`,
+  (deal) => `Prepare presentation for ${deal.name}`,
+  (deal) => `Review pricing for ${deal.name}`,
+  (deal) => `Schedule a demo with ${deal.customerName}`,
+  (deal) => `Update ${deal.name} timeline`,
+];
+
+// mulberry32, as in the customer and deal fixtures.
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = seed;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generates seeded follow-up tasks on `deals`, each linked to the deal and its
+ * customer and assigned to the deal's owner. Due times fall in office hours
+ * from ten days before `reference` to three weeks after, and most tasks that
+ * are already past due are done. Every eighth task is a weekly check-in with a
+ * reminder.
+ */
+export function createTaskFixtures(deals: Deal[], count = 40, seed = 13, reference = new Date()): Task[] {
+  const random = createRandom(seed);
+  const pick = <T>(items: readonly T[]) => items[Math.floor(random() * items.length)];
+
+  return Array.from({ length: count }, (_item, index) => {
+    const deal = pick(deals);
+    const due = new Date(reference.getFullYear(), reference.getMonth(), reference.getDate());
+    due.setDate(due.getDate() - 10 + Math.floor(random() * 32));
+    due.setHours(9 + Math.floor(random() * 8), random() < 0.5 ? 0 : 30);
+    const past = due.getTime() < reference.getTime();
+
+    let status: TaskStatus;
+    if (past) {
+      status = random() < 0.7 ? 'Done' : 'To Do';
+    } else {
+      const roll = random();
+      status = roll < 0.6 ? 'To Do' : roll < 0.85 ? 'In Progress' : 'Done';
+    }
+    const createdAt = new Date(due.getTime() - (2 + Math.floor(random() * 20)) * 24 * 60 * 60 * 1000);
+    const updatedAt = status === 'Done' ? new Date(Math.min(due.getTime(), reference.getTime())) : createdAt;
+
+    return {
+      id: `task-${String(index + 1).padStart(4, '0')}`,
+      title: pick(TITLES)(deal),
+      dueAt: due.toISOString(),
+      priority: pick(TASK_PRIORITIES),
+      status,
+      assignee: deal.owner ?? pick(teamMembers).name,
+      customerId: deal.customerId,
+      customerName: deal.customerName,
+      dealId: deal.id,
+      dealName: deal.name,
+      ...(index % 8 === 0 && {
+        title: `Weekly check-in with ${deal.customerName}`,
+        recurrence: `FREQ=WEEKLY;BYDAY=${weekdayOf(due)}`,
+        reminderMinutes: 15,
+      }),
+      ...(status === 'Done' && { completedAt: updatedAt.toISOString() }),
+      createdAt: createdAt.toISOString(),
+      updatedAt: updatedAt.toISOString(),
+    };
+  });
+}
@@ -0,0 +1,169 @@
+import { CreateTaskRequest, Task, TaskPriority, TaskStatus } from './tasks';
+import { defineFormSchema } from '../../shared-form/schema';
+import { currentUser } from './team';
+import {
+  WEEKDAY_CODES,
+  WeekdayCode,
+  formatRecurrenceRule,
+  monthlyWeekdayRule,
+  parseRecurrenceRule,
+  validateRecurrenceRule,
+  weekdayOf,
+} from './taskRecurrence';
+
+/** The repeat choices in the task dialog; anything else is written as a custom RRULE. */
+export type TaskRepeat = 'none' | 'daily' | 'weekly' | 'monthly' | 'custom';
+
+/**
+ * A task as edited in the task dialog. `dueAt` is a local
+ * `YYYY-MM-DDTHH:mm` value, as a `datetime-local` input reads and writes it.
+ */
+export interface TaskFormValues {
+  title: string;
+  description: string;
+  dueAt: string;
+  priority: TaskPriority;
+  status: TaskStatus;
+  assignee: string;
+  customerId: string;
+  /** Shown in the customer picker; saved alongside `customerId`. */
+  customerName: string;
+  dealId: string;
+  dealName: string;
+  repeat: TaskRepeat;
+  /** Weekly repeats; none picked means the due date's weekday. */
+  repeatWeekdays: WeekdayCode[];
+  /** The RRULE for a custom repeat. */
+  recurrenceRule: string;
+  /** Minutes before the due time as a string, or blank for no reminder. */
+  reminder: string;
+}
+
+export const emptyTaskFormValues: TaskFormValues = {
+  title: '',
+  description: '',
+  dueAt: '',
+  priority: 'Medium',
+  status: 'To Do',
+  assignee: '',
+  customerId: '',
+  customerName: '',
+  dealId: '',
+  dealName: '',
+  repeat: 'none',
+  repeatWeekdays: [],
+  recurrenceRule: '',
+  reminder: '',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** An ISO timestamp as a `datetime-local` value in the browser's time zone. */
+export const toLocalDateTime = (iso: string) => {
+  const date = new Date(iso);
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `${day}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * A new task is assigned to the current rep and due at 9:00 the next working
+ * day, unless `defaults` (e.g. the day clicked in the calendar) say otherwise.
+ */
+export function newTaskFormValues(defaults: Partial<TaskFormValues> = {}, today = new Date()): TaskFormValues {
+  const due = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1, 9);
+  while (due.getDay() === 0 || due.getDay() === 6) due.setDate(due.getDate() + 1);
+  return {
+    ...emptyTaskFormValues,
+    dueAt: toLocalDateTime(due.toISOString()),
+    assignee: currentUser.name,
+    ...defaults,
+  };
+}
+
+const isValidDate = (date: Date) => !Number.isNaN(date.getTime());
+
+/** The RRULE the repeat fields describe, or nothing for a one-off task. */
+export function recurrenceFromForm(values: TaskFormValues): string | undefined {
+  const due = new Date(values.dueAt);
+  switch (values.repeat) {
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekly': {
+      const weekdays = WEEKDAY_CODES.filter((weekday) => values.repeatWeekdays.includes(weekday));
+      if (weekdays.length === 0 && isValidDate(due)) weekdays.push(weekdayOf(due));
+      return formatRecurrenceRule({ freq: 'WEEKLY', interval: 1, byDay: weekdays.map((weekday) => ({ weekday })) });
+    }
+    case 'monthly':
+      return isValidDate(due) ? formatRecurrenceRule(monthlyWeekdayRule(due)) : undefined;
+    case 'custom':
+      return formatRecurrenceRule(parseRecurrenceRule(values.recurrenceRule));
+    default:
+      return undefined;
+  }
+}
+
+// The preset a stored rule matches, falling back to showing it as a custom rule.
+function repeatFormValues(
+  recurrence: string | undefined,
+  dueAt: string,
+): Pick<TaskFormValues, 'repeat' | 'repeatWeekdays' | 'recurrenceRule'> {
+  if (!recurrence) return { repeat: 'none', repeatWeekdays: [], recurrenceRule: '' };
+  const custom = { repeat: 'custom' as const, repeatWeekdays: [], recurrenceRule: recurrence };
+  if (validateRecurrenceRule(recurrence)) return custom;
+
+  const rule = parseRecurrenceRule(recurrence);
+  if (rule.interval !== 1 || rule.count !== undefined || rule.until || rule.byMonthDay) return custom;
+  if (rule.freq === 'DAILY' && !rule.byDay) return { ...custom, repeat: 'daily' };
+  if (rule.freq === 'WEEKLY' && rule.byDay?.every(({ nth }) => nth === undefined)) {
+    return { ...custom, repeat: 'weekly', repeatWeekdays: rule.byDay.map(({ weekday }) => weekday) };
+  }
+  if (rule.freq === 'MONTHLY' && recurrence === formatRecurrenceRule(monthlyWeekdayRule(new Date(dueAt)))) {
+    return { ...custom, repeat: 'monthly' };
+  }
+  return custom;
+}
+
+export function taskFormValuesFromTask(task: Task): TaskFormValues {
+  return {
+    title: task.title,
+    description: task.description ?? '',
+    dueAt: toLocalDateTime(task.dueAt),
+    priority: task.priority,
+    status: task.status,
+    assignee: task.assignee ?? '',
+    customerId: task.customerId ?? '',
+    customerName: task.customerName ?? '',
+    dealId: task.dealId ?? '',
+    dealName: task.dealName ?? '',
+    ...repeatFormValues(task.recurrence, task.dueAt),
+    reminder: task.reminderMinutes === undefined ? '' : String(task.reminderMinutes),
+  };
+}
+
+export function taskRequestFromForm(values: TaskFormValues): CreateTaskRequest {
+  return {
+    title: values.title.trim(),
+    description: values.description.trim() || undefined,
+    dueAt: new Date(values.dueAt).toISOString(),
+    priority: values.priority,
+    status: values.status,
+    assignee: values.assignee || undefined,
+    customerId: values.customerId || undefined,
+    customerName: values.customerId ? values.customerName : undefined,
+    dealId: values.dealId || undefined,
+    dealName: values.dealId ? values.dealName : undefined,
+    recurrence: recurrenceFromForm(values),
+    reminderMinutes: values.reminder === '' ? undefined : Number(values.reminder),
+  };
+}
+
+export const taskFormSchema = defineFormSchema<TaskFormValues>({
+  title: { required: 'Title is required' },
+  dueAt: {
+    required: 'Due date is required',
+    validate: (dueAt) => (Number.isNaN(new Date(dueAt).getTime()) ? 'Enter a valid date and time' : undefined),
+  },
+  recurrenceRule: {
+    validate: (rule, values) => (values.repeat === 'custom' ? validateRecurrenceRule(rule) : undefined),
+  },
+});
@@ -0,0 +1,35 @@
+import { tasksApi, GetTasksParams } from './tasksApi';
+import { dealCustomerName } from './deals';
+import { usersApiService } from './usersApi';
+import { queryCache } from './queryCache';
+import { PendingDeletes, recordKeys, recordsListQuery } from './recordQueries';
+import { registerCustomerReferenceHandler } from './customerReferences';
+
+/** Query keys for task data; invalidate `taskKeys.all` after a write. */
+export const taskKeys = recordKeys<GetTasksParams>('tasks');
+
+export const pendingTaskDeletes = new PendingDeletes();
+
+/** Every task matching `params`, on one page unless `perPage` is set. */
+export function tasksListQuery(params: GetTasksParams = {}) {
+  return recordsListQuery(
+    taskKeys.list(params),
+    (signal) => tasksApi.getTasks(params, { signal }),
+    pendingTaskDeletes,
+  );
+}
+
+export function taskDetailQuery(id: string) {
+  return {
+    queryKey: taskKeys.detail(id),
+    queryFn: (signal: AbortSignal) => tasksApi.getTask(id, { signal }),
+  };
+}
+
+// Merging customers moves the loser's tasks to the survivor.
+registerCustomerReferenceHandler('tasks', async (fromUuid, toUuid) => {
+  const survivor = await usersApiService.getUser(toUuid);
+  const moved = await tasksApi.reassignCustomer(fromUuid, toUuid, dealCustomerName(survivor));
+  if (moved > 0) queryCache.invalidate(taskKeys.all);
+  return moved;
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { nextOccurrence, parseRecurrenceRule, validateRecurrenceRule } from './taskRecurrence';
+
+// 9:30 local time on a calendar day, as a task's `dueAt`.
+const at = (year: number, month: number, day: number) => new Date(year, month - 1, day, 9, 30).toISOString();
+
+describe('nextOccurrence', () => {
+  it('moves a daily task to the next day at the same time', () => {
+    expect(nextOccurrence('FREQ=DAILY', at(2026, 1, 5))).toEqual({ dueAt: at(2026, 1, 6), recurrence: 'FREQ=DAILY' });
+  });
+
+  it('steps through the listed weekdays', () => {
+    // 5 January 2026 is a Monday.
+    expect(nextOccurrence('FREQ=WEEKLY;BYDAY=MO,TH', at(2026, 1, 5))?.dueAt).toBe(at(2026, 1, 8));
+    expect(nextOccurrence('FREQ=WEEKLY;BYDAY=MO,TH', at(2026, 1, 8))?.dueAt).toBe(at(2026, 1, 12));
+  });
+
+  it('skips the weeks an interval leaves out', () => {
+    expect(nextOccurrence('FREQ=WEEKLY;INTERVAL=2', at(2026, 1, 5))?.dueAt).toBe(at(2026, 1, 19));
+  });
+
+  it('finds the numbered weekday in the next month', () => {
+    expect(nextOccurrence('FREQ=MONTHLY;BYDAY=3TU', at(2026, 1, 20))?.dueAt).toBe(at(2026, 2, 17));
+    expect(nextOccurrence('FREQ=MONTHLY;BYDAY=-1FR', at(2026, 1, 30))?.dueAt).toBe(at(2026, 2, 27));
+  });
+
+  it('skips months without the day and counts month days from the end', () => {
+    expect(nextOccurrence('FREQ=MONTHLY', at(2026, 1, 31))?.dueAt).toBe(at(2026, 3, 31));
+    expect(nextOccurrence('FREQ=MONTHLY;BYMONTHDAY=-1', at(2026, 1, 31))?.dueAt).toBe(at(2026, 2, 28));
+  });
+
+  it('repeats yearly on the same date', () => {
+    expect(nextOccurrence('FREQ=YEARLY', at(2026, 3, 14))?.dueAt).toBe(at(2027, 3, 14));
+  });
+
+  it('counts down COUNT and ends the series at the last occurrence', () => {
+    expect(nextOccurrence('FREQ=DAILY;COUNT=3', at(2026, 1, 5))?.recurrence).toBe('FREQ=DAILY;COUNT=2');
+    expect(nextOccurrence('FREQ=DAILY;COUNT=1', at(2026, 1, 5))).toBeNull();
+  });
+
+  it('includes the whole UNTIL day and nothing after it', () => {
+    expect(nextOccurrence('FREQ=DAILY;UNTIL=20260107', at(2026, 1, 6))?.dueAt).toBe(at(2026, 1, 7));
+    expect(nextOccurrence('FREQ=DAILY;UNTIL=20260107', at(2026, 1, 7))).toBeNull();
+  });
+});
+
+describe('parseRecurrenceRule', () => {
+  it('accepts the RRULE: prefix and lower-case input', () => {
+    expect(parseRecurrenceRule('RRULE:freq=monthly;byday=2tu')).toEqual({
+      freq: 'MONTHLY',
+      interval: 1,
+      byDay: [{ weekday: 'TU', nth: 2 }],
+    });
+  });
+});
+
+describe('validateRecurrenceRule', () => {
+  it('returns nothing for a valid rule', () => {
+    expect(validateRecurrenceRule('FREQ=WEEKLY;BYDAY=MO')).toBeUndefined();
+  });
+
+  it('explains what is wrong with an invalid rule', () => {
+    expect(validateRecurrenceRule('')).toBe('Enter a rule such as FREQ=WEEKLY;BYDAY=MO');
+    expect(validateRecurrenceRule('FREQ=HOURLY')).toBe('FREQ must be one of DAILY, WEEKLY, MONTHLY, YEARLY');
+    expect(validateRecurrenceRule('FREQ=WEEKLY;BYDAY=2TU')).toBe('Numbered weekdays such as 2TU need FREQ=MONTHLY');
+    expect(validateRecurrenceRule('FREQ=DAILY;COUNT=2;UNTIL=20261231')).toBe('Use either COUNT or UNTIL, not both');
+  });
+});
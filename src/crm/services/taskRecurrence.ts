@@ -0,0 +1,284 @@
+export const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export type WeekdayCode = (typeof WEEKDAY_CODES)[number];
+
+export const weekdayLabels: Record<WeekdayCode, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceWeekday {
+  weekday: WeekdayCode;
+  /** For monthly rules: 1 for the first in the month, -1 for the last. */
+  nth?: number;
+}
+
+/**
+ * The subset of an iCalendar RRULE (RFC 5545) tasks repeat by: FREQ,
+ * INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL. Occurrences keep the time of
+ * day of the task they follow.
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: RecurrenceWeekday[];
+  byMonthDay?: number[];
+  /** Occurrences left, counting the current one. */
+  count?: number;
+  /** No occurrence is due after this instant. */
+  until?: Date;
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const MAX_INTERVAL = 99;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Monday is 0, as in WEEKDAY_CODES.
+const weekdayIndex = (date: Date) => (date.getDay() + 6) % 7;
+export const weekdayOf = (date: Date): WeekdayCode => WEEKDAY_CODES[weekdayIndex(date)];
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+const daysInMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+// Rounded, so a daylight saving change between the two days doesn't matter.
+const daysBetween = (from: Date, to: Date) =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+function parseUntil(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day)] as const;
+  // A bare date includes that whole day.
+  if (hours === undefined) return new Date(...parts, 23, 59, 59);
+  const time = [Number(hours), Number(minutes), Number(seconds)] as const;
+  return utc ? new Date(Date.UTC(...parts, ...time)) : new Date(...parts, ...time);
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function formatUntil(date: Date) {
+  const day = `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+  return `${day}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+/**
+ * Parses an RRULE such as `FREQ=WEEKLY;BYDAY=MO,TH`, with or without the
+ * `RRULE:` prefix. Throws an `Error` whose message can be shown to the user.
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new Error('Enter a rule such as FREQ=WEEKLY;BYDAY=MO');
+
+  const parts = new Map<string, string>();
+  for (const part of body.split(';').filter(Boolean)) {
+    const [name, value] = part.split('=');
+    if (!name || value === undefined || value === '') throw new Error(`"${part}" should look like NAME=value`);
+    parts.set(name.trim().toUpperCase(), value.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq) throw new Error('FREQ is required');
+  if (!FREQUENCIES.includes(freq)) throw new Error(`FREQ must be one of ${FREQUENCIES.join(', ')}`);
+  const rule: RecurrenceRule = { freq, interval: 1 };
+
+  for (const [name, value] of parts) {
+    switch (name) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL': {
+        const interval = Number(value);
+        if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+          throw new Error(`INTERVAL must be a whole number from 1 to ${MAX_INTERVAL}`);
+        }
+        rule.interval = interval;
+        break;
+      }
+      case 'BYDAY':
+        rule.byDay = value.split(',').map((item) => {
+          const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/.exec(item);
+          if (!match) throw new Error(`"${item}" in BYDAY isn't a weekday such as MO or 2TU`);
+          const nth = match[1] === undefined ? undefined : Number(match[1]);
+          if (nth !== undefined) {
+            if (freq !== 'MONTHLY') throw new Error('Numbered weekdays such as 2TU need FREQ=MONTHLY');
+            if (nth === 0 || Math.abs(nth) > 5) throw new Error(`"${item}" in BYDAY is out of range`);
+          }
+          return { weekday: match[2] as WeekdayCode, nth };
+        });
+        break;
+      case 'BYMONTHDAY':
+        if (freq !== 'MONTHLY') throw new Error('BYMONTHDAY needs FREQ=MONTHLY');
+        rule.byMonthDay = value.split(',').map((item) => {
+          const day = Number(item);
+          if (!Number.isInteger(day) || day === 0 || Math.abs(day) > 31) {
+            throw new Error(`"${item}" in BYMONTHDAY isn't a day of the month`);
+          }
+          return day;
+        });
+        break;
+      case 'COUNT': {
+        const count = Number(value);
+        if (!Number.isInteger(count) || count < 1) throw new Error('COUNT must be a whole number of 1 or more');
+        rule.count = count;
+        break;
+      }
+      case 'UNTIL': {
+        const until = parseUntil(value);
+        if (!until) throw new Error('UNTIL must be a date such as 20261231');
+        rule.until = until;
+        break;
+      }
+      default:
+        throw new Error(`${name} isn't supported`);
+    }
+  }
+
+  if (rule.count !== undefined && rule.until) throw new Error('Use either COUNT or UNTIL, not both');
+  if (freq === 'YEARLY' && rule.byDay) throw new Error("BYDAY isn't supported with FREQ=YEARLY");
+  if (rule.byDay && rule.byMonthDay) throw new Error('Use either BYDAY or BYMONTHDAY, not both');
+  return rule;
+}
+
+/** The message `parseRecurrenceRule` would throw, or nothing for a valid rule. */
+export function validateRecurrenceRule(text: string): string | undefined {
+  try {
+    parseRecurrenceRule(text);
+    return undefined;
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Invalid recurrence rule';
+  }
+}
+
+/** The rule as stored on a task, without the `RRULE:` prefix. */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(({ weekday, nth }) => `${nth ?? ''}${weekday}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+  return parts.join(';');
+}
+
+// The nth (or, when negative, nth-from-last) `weekday` of `date`'s month falls on `date`.
+function isNthWeekday(date: Date, weekday: WeekdayCode, nth: number) {
+  if (weekdayOf(date) !== weekday) return false;
+  return nth > 0
+    ? Math.ceil(date.getDate() / 7) === nth
+    : Math.ceil((daysInMonth(date) - date.getDate() + 1) / 7) === -nth;
+}
+
+function matchesMonthDay(date: Date, monthDay: number) {
+  return monthDay > 0 ? date.getDate() === monthDay : date.getDate() === daysInMonth(date) + monthDay + 1;
+}
+
+// Whether `date` is an occurrence of a series that has one on `start`.
+function isOccurrence(rule: RecurrenceRule, start: Date, date: Date) {
+  const weekdayMatches = () => !rule.byDay || rule.byDay.some(({ weekday }) => weekday === weekdayOf(date));
+  switch (rule.freq) {
+    case 'DAILY':
+      return daysBetween(start, date) % rule.interval === 0 && weekdayMatches();
+    case 'WEEKLY': {
+      const weeks = Math.floor((daysBetween(start, date) + weekdayIndex(start)) / 7);
+      if (weeks % rule.interval !== 0) return false;
+      return rule.byDay ? weekdayMatches() : weekdayIndex(date) === weekdayIndex(start);
+    }
+    case 'MONTHLY': {
+      const months = (date.getFullYear() - start.getFullYear()) * 12 + date.getMonth() - start.getMonth();
+      if (months % rule.interval !== 0) return false;
+      if (rule.byMonthDay) return rule.byMonthDay.some((monthDay) => matchesMonthDay(date, monthDay));
+      if (rule.byDay) {
+        return rule.byDay.some(({ weekday, nth }) =>
+          nth === undefined ? weekdayOf(date) === weekday : isNthWeekday(date, weekday, nth),
+        );
+      }
+      // Months without that day (the 31st, say) are skipped, as RFC 5545 does.
+      return date.getDate() === start.getDate();
+    }
+    case 'YEARLY':
+      return (
+        (date.getFullYear() - start.getFullYear()) % rule.interval === 0 &&
+        date.getMonth() === start.getMonth() &&
+        date.getDate() === start.getDate()
+      );
+  }
+}
+
+/**
+ * The occurrence after one due at `dueAt` (an ISO timestamp), with the rule
+ * the new occurrence carries: COUNT goes down by one each time. Returns
+ * `null` once the series has ended.
+ */
+export function nextOccurrence(recurrence: string, dueAt: string): { dueAt: string; recurrence: string } | null {
+  const rule = parseRecurrenceRule(recurrence);
+  if (rule.count !== undefined && rule.count <= 1) return null;
+
+  const start = new Date(dueAt);
+  // Long enough to reach any occurrence the supported rules can describe.
+  const horizon = 366 * 8 * rule.interval;
+  for (let offset = 1; offset <= horizon; offset += 1) {
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+    if (!isOccurrence(rule, start, day)) continue;
+
+    const next = new Date(day);
+    next.setHours(start.getHours(), start.getMinutes(), start.getSeconds(), start.getMilliseconds());
+    if (rule.until && next > rule.until) return null;
+    const nextRule = rule.count === undefined ? rule : { ...rule, count: rule.count - 1 };
+    return { dueAt: next.toISOString(), recurrence: formatRecurrenceRule(nextRule) };
+  }
+  return null;
+}
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+const ordinal = (nth: number) => (nth === -1 ? 'last' : nth < 0 ? `${ORDINALS[-nth - 1]} to last` : ORDINALS[nth - 1]);
+
+const monthDayLabel = (day: number) =>
+  day === -1 ? 'the last day' : day < 0 ? `${-day} days before the end` : `day ${day}`;
+
+function joinList(items: string[]) {
+  return items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0];
+}
+
+/** "Every week on Monday and Thursday", "Monthly on the third Tuesday", and so on. */
+export function describeRecurrence(recurrence: string): string {
+  let rule: RecurrenceRule;
+  try {
+    rule = parseRecurrenceRule(recurrence);
+  } catch {
+    return 'Custom repeat';
+  }
+
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  let text =
+    rule.interval === 1
+      ? { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq]
+      : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.byDay) {
+    const days = rule.byDay.map(({ weekday, nth }) =>
+      nth === undefined ? weekdayLabels[weekday] : `the ${ordinal(nth)} ${weekdayLabels[weekday]}`,
+    );
+    text += ` on ${joinList(days)}`;
+  } else if (rule.byMonthDay) {
+    text += ` on ${joinList(rule.byMonthDay.map(monthDayLabel))}`;
+  }
+  if (rule.count !== undefined) text += rule.count === 1 ? ', last occurrence' : `, ${rule.count} occurrences left`;
+  if (rule.until) {
+    text += `, until ${rule.until.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+  return text;
+}
+
+/** The monthly rule for the weekday `date` falls on, e.g. its third Tuesday; the fifth counts as the last. */
+export function monthlyWeekdayRule(date: Date): RecurrenceRule {
+  const nth = Math.ceil(date.getDate() / 7);
+  return { freq: 'MONTHLY', interval: 1, byDay: [{ weekday: weekdayOf(date), nth: nth === 5 ? -1 : nth }] };
+}
@@ -0,0 +1,60 @@
+import { createStoredValue } from './browserStorage';
+import { Task, isTaskDone } from './tasks';
+import { currentUser } from './team';
+
+/** The reminder offsets the task dialog offers, in minutes before the due time. */
+export const REMINDER_OPTIONS: { minutes: number; label: string }[] = [
+  { minutes: 0, label: 'At due time' },
+  { minutes: 5, label: '5 minutes before' },
+  { minutes: 15, label: '15 minutes before' },
+  { minutes: 30, label: '30 minutes before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 24 * 60, label: '1 day before' },
+];
+
+export interface TaskReminder {
+  /** Changes when the task is rescheduled, so a dismissed reminder goes off again for the new time. */
+  key: string;
+  task: Task;
+  remindAt: Date;
+}
+
+function reminderFor(task: Task): TaskReminder | null {
+  if (task.reminderMinutes === undefined || isTaskDone(task)) return null;
+  return {
+    key: `${task.id}@${task.dueAt}`,
+    task,
+    remindAt: new Date(new Date(task.dueAt).getTime() - task.reminderMinutes * 60 * 1000),
+  };
+}
+
+/** Reminders on open tasks that have gone off by `now`, most recent first. */
+export function activeReminders(tasks: Task[], now = new Date()): TaskReminder[] {
+  return tasks
+    .map(reminderFor)
+    .filter((reminder): reminder is TaskReminder => reminder !== null && reminder.remindAt <= now)
+    .sort((a, b) => b.remindAt.getTime() - a.remindAt.getTime());
+}
+
+/** When the next reminder after `now` goes off, or `null` if none is pending. */
+export function nextReminderAt(tasks: Task[], now = new Date()): Date | null {
+  return tasks.reduce<Date | null>((soonest, task) => {
+    const reminder = reminderFor(task);
+    if (!reminder || reminder.remindAt <= now) return soonest;
+    return !soonest || reminder.remindAt < soonest ? reminder.remindAt : soonest;
+  }, null);
+}
+
+// Dismissals are per rep, like the reporting currency.
+const dismissedStore = createStoredValue<string[]>(`dismissedReminders.${currentUser.id}`, []);
+
+// Old keys are dropped past this many, so the list can't grow without bound.
+const MAX_DISMISSED = 200;
+
+export const getDismissedReminders = dismissedStore.get;
+export const subscribeToDismissedReminders = dismissedStore.subscribe;
+
+export function dismissReminders(keys: string[]) {
+  const dismissed = [...dismissedStore.get().filter((key) => !keys.includes(key)), ...keys];
+  dismissedStore.set(dismissed.slice(-MAX_DISMISSED));
+}
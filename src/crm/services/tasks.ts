@@ -0,0 +1,101 @@
+export const TASK_STATUSES = ['To Do', 'In Progress', 'Done'] as const;
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+/** Highest first, the order the task list sorts them in. */
+export const TASK_PRIORITIES = ['High', 'Medium', 'Low'] as const;
+
+export type TaskPriority = (typeof TASK_PRIORITIES)[number];
+
+export interface Task {
+  id: string;
+  title: string;
+  description?: string;
+  /** ISO timestamp the task is due at. */
+  dueAt: string;
+  priority: TaskPriority;
+  status: TaskStatus;
+  /** Name of the rep the task is assigned to, like a deal's owner. */
+  assignee?: string;
+  /** `login.uuid` of the customer the task is about. */
+  customerId?: string;
+  /** The customer's name when the task was last saved. */
+  customerName?: string;
+  dealId?: string;
+  /** The deal's name when the task was last saved. */
+  dealName?: string;
+  /** An RRULE such as `FREQ=WEEKLY;BYDAY=MO`; completing the task adds the next occurrence. */
+  recurrence?: string;
+  /** Minutes before `dueAt` to remind the assignee; no reminder when unset. */
+  reminderMinutes?: number;
+  /** The occurrence completing this task added, taken back if it is reopened. */
+  nextOccurrenceId?: string;
+  /** When the task moved to Done; cleared if it is reopened. */
+  completedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CreateTaskRequest = Omit<Task, 'id' | 'nextOccurrenceId' | 'completedAt' | 'createdAt' | 'updatedAt'>;
+
+export type UpdateTaskRequest = Partial<CreateTaskRequest>;
+
+export const taskPriorityColors: Record<TaskPriority, 'error' | 'warning' | 'default'> = {
+  High: 'error',
+  Medium: 'warning',
+  Low: 'default',
+};
+
+export const taskStatusColors: Record<TaskStatus, 'default' | 'info' | 'success'> = {
+  'To Do': 'default',
+  'In Progress': 'info',
+  Done: 'success',
+};
+
+/** The quick filters above the task views. */
+export type TaskDueFilter = 'all' | 'overdue' | 'today' | 'week';
+
+export const isTaskDone = (task: Pick<Task, 'status'>) => task.status === 'Done';
+
+export const isTaskOverdue = (task: Pick<Task, 'status' | 'dueAt'>, now = new Date()) =>
+  !isTaskDone(task) && new Date(task.dueAt).getTime() < now.getTime();
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * Whether a task falls under `filter`. Overdue only counts open tasks; Today
+ * and This week (Monday to Sunday, in local time) count any task due then.
+ */
+export function matchesDueFilter(task: Task, filter: TaskDueFilter, now = new Date()) {
+  const due = new Date(task.dueAt);
+  switch (filter) {
+    case 'overdue':
+      return isTaskOverdue(task, now);
+    case 'today':
+      return startOfDay(due).getTime() === startOfDay(now).getTime();
+    case 'week': {
+      const weekStart = addDays(startOfDay(now), -((now.getDay() + 6) % 7));
+      return due >= weekStart && due < addDays(weekStart, 7);
+    }
+    default:
+      return true;
+  }
+}
+
+/** "Today, 2:00 PM", "Tomorrow, 10:00 AM", or a date for anything further out. */
+export function formatTaskDue(dueAt: string, now = new Date()) {
+  const due = new Date(dueAt);
+  const time = due.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  const days = Math.round((startOfDay(due).getTime() - startOfDay(now).getTime()) / (24 * 60 * 60 * 1000));
+  if (days === 0) return `Today, ${time}`;
+  if (days === 1) return `Tomorrow, ${time}`;
+  if (days === -1) return `Yesterday, ${time}`;
+  const date = due.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    ...(due.getFullYear() !== now.getFullYear() && { year: 'numeric' }),
+  });
+  return `${date}, ${time}`;
+}
@@ -0,0 +1,231 @@
+import type { MutationResponse, RequestOptions, SortOrder } from './customerDataSource';
+import {
+  CreateTaskRequest,
+  TASK_PRIORITIES,
+  TASK_STATUSES,
+  Task,
+  TaskDueFilter,
+  TaskPriority,
+  TaskStatus,
+  UpdateTaskRequest,
+  matchesDueFilter,
+} from './tasks';
+import { createTaskFixtures } from './taskFixtures';
+import { nextOccurrence, validateRecurrenceRule } from './taskRecurrence';
+import { dealsApi } from './dealsApi';
+import { LocalStore } from './localDb';
+import { RecordListResponse, listRecords } from './localRecords';
+import { NotFoundError, ValidationError, createAbortError } from './apiErrors';
+
+export type TaskSortField = 'title' | 'dueAt' | 'priority' | 'status' | 'assignee' | 'createdAt' | 'updatedAt';
+
+export interface GetTasksParams {
+  page?: number;
+  /** Omit to get every match on one page. */
+  perPage?: number;
+  /** Case-insensitive match on the title, customer or deal name. */
+  search?: string;
+  statuses?: TaskStatus[];
+  priorities?: TaskPriority[];
+  assignee?: string;
+  customerId?: string;
+  dealId?: string;
+  /** Relative to the time of the request. */
+  due?: TaskDueFilter;
+  /** Defaults to `dueAt`; priorities sort highest first. */
+  sortBy?: TaskSortField;
+  sortOrder?: SortOrder;
+}
+
+export type TasksApiResponse = RecordListResponse<Task>;
+
+const SORT_FIELDS: Record<TaskSortField, (task: Task) => string | number> = {
+  title: (task) => task.title.toLowerCase(),
+  dueAt: (task) => task.dueAt,
+  priority: (task) => TASK_PRIORITIES.indexOf(task.priority),
+  status: (task) => TASK_STATUSES.indexOf(task.status),
+  assignee: (task) => task.assignee?.toLowerCase() ?? '',
+  createdAt: (task) => task.createdAt,
+  updatedAt: (task) => task.updatedAt,
+};
+
+function matchesParams(task: Task, params: GetTasksParams, now: Date) {
+  const needle = params.search?.trim().toLowerCase();
+  if (
+    needle &&
+    ![task.title, task.customerName, task.dealName].some((value) => value?.toLowerCase().includes(needle))
+  ) {
+    return false;
+  }
+  if (params.statuses?.length && !params.statuses.includes(task.status)) return false;
+  if (params.priorities?.length && !params.priorities.includes(task.priority)) return false;
+  if (params.assignee && task.assignee !== params.assignee) return false;
+  if (params.customerId && task.customerId !== params.customerId) return false;
+  if (params.dealId && task.dealId !== params.dealId) return false;
+  if (params.due && !matchesDueFilter(task, params.due, now)) return false;
+  return true;
+}
+
+function assertValid(task: Task) {
+  const fieldErrors: Record<string, string> = {};
+  if (!task.title.trim()) fieldErrors.title = 'This field is required';
+  if (Number.isNaN(new Date(task.dueAt).getTime())) fieldErrors.dueAt = 'Enter a valid date and time';
+  if (!TASK_PRIORITIES.includes(task.priority)) fieldErrors.priority = 'Unknown priority';
+  if (!TASK_STATUSES.includes(task.status)) fieldErrors.status = 'Unknown status';
+  if (task.dealId && !task.customerId) fieldErrors.customerId = 'A task linked to a deal needs its customer';
+  const recurrenceError = task.recurrence === undefined ? undefined : validateRecurrenceRule(task.recurrence);
+  if (recurrenceError) fieldErrors.recurrence = recurrenceError;
+  if (task.reminderMinutes !== undefined && !(task.reminderMinutes >= 0)) {
+    fieldErrors.reminderMinutes = 'Reminders go off at or before the due time';
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    throw new ValidationError(`Invalid task: ${Object.keys(fieldErrors).join(', ')}`, { fieldErrors });
+  }
+}
+
+const createTaskId = () => `task-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Keeps `completedAt` in step with the status on every save.
+function withCompletion(before: Task | null, after: Task): Task {
+  if (after.status !== 'Done') {
+    const { completedAt: _completedAt, ...open } = after;
+    return open;
+  }
+  return before?.status === 'Done' ? after : { ...after, completedAt: after.updatedAt };
+}
+
+/**
+ * Tasks, with the same list/get/create/update/delete surface as `dealsApi`.
+ * Like deals they are seeded on first use (as follow-ups on the stored deals)
+ * and persisted in IndexedDB.
+ */
+class TasksApiService {
+  private store = new LocalStore<Task>('tasks');
+  private tasks: Task[] | null = null;
+  private loading: Promise<Task[]> | null = null;
+
+  private async load(): Promise<Task[]> {
+    if (this.tasks) return this.tasks;
+
+    if (!this.loading) {
+      this.loading = (async () => {
+        const entries = await this.store.getAll();
+        if (entries.length > 0) {
+          this.tasks = entries.map(([, task]) => task);
+        } else {
+          const { data: deals } = await dealsApi.getDeals();
+          this.tasks = deals.length > 0 ? createTaskFixtures(deals) : [];
+          await this.store.putMany(this.tasks.map((task) => [task.id, task]));
+        }
+        return this.tasks;
+      })().catch((err) => {
+        // Seeding reads the deals, which may fail; let the next call try again.
+        this.loading = null;
+        throw err;
+      });
+    }
+
+    return this.loading;
+  }
+
+  private async findTask(id: string): Promise<Task> {
+    const tasks = await this.load();
+    const task = tasks.find((candidate) => candidate.id === id);
+    if (!task) {
+      throw new NotFoundError(`Task not found: ${id}`);
+    }
+    return task;
+  }
+
+  async getTasks(params: GetTasksParams = {}, options: RequestOptions = {}): Promise<TasksApiResponse> {
+    const tasks = await this.load();
+    if (options.signal?.aborted) throw createAbortError();
+
+    const now = new Date();
+    return listRecords(tasks, params, SORT_FIELDS, 'dueAt', (task) => matchesParams(task, params, now));
+  }
+
+  async getTask(id: string, options: RequestOptions = {}): Promise<Task> {
+    const task = await this.findTask(id);
+    if (options.signal?.aborted) throw createAbortError();
+    return structuredClone(task);
+  }
+
+  async createTask(request: CreateTaskRequest): Promise<Task> {
+    const tasks = await this.load();
+    const now = new Date().toISOString();
+    const task = withCompletion(null, { ...request, id: createTaskId(), createdAt: now, updatedAt: now });
+    assertValid(task);
+
+    tasks.push(task);
+    await this.store.put(task.id, task);
+    return structuredClone(task);
+  }
+
+  async updateTask(id: string, request: UpdateTaskRequest): Promise<Task> {
+    const existing = await this.findTask(id);
+    const tasks = await this.load();
+
+    let updated = withCompletion(existing, { ...existing, ...request, updatedAt: new Date().toISOString() });
+    assertValid(updated);
+
+    if (existing.status !== 'Done' && updated.status === 'Done' && updated.recurrence && !updated.nextOccurrenceId) {
+      const next = await this.addNextOccurrence(updated);
+      if (next) updated = { ...updated, nextOccurrenceId: next.id };
+    } else if (existing.status === 'Done' && updated.status !== 'Done' && updated.nextOccurrenceId) {
+      updated = await this.takeBackNextOccurrence(updated);
+    }
+
+    tasks[tasks.indexOf(existing)] = updated;
+    await this.store.put(id, updated);
+    return structuredClone(updated);
+  }
+
+  // Completing a recurring task adds the next one in the series, due by its rule.
+  private async addNextOccurrence(completed: Task): Promise<Task | null> {
+    const next = completed.recurrence && nextOccurrence(completed.recurrence, completed.dueAt);
+    if (!next) return null;
+
+    const { id: _id, nextOccurrenceId: _nextOccurrenceId, completedAt: _completedAt, ...series } = completed;
+    const now = new Date().toISOString();
+    const task: Task = { ...series, ...next, id: createTaskId(), status: 'To Do', createdAt: now, updatedAt: now };
+    (await this.load()).push(task);
+    await this.store.put(task.id, task);
+    return task;
+  }
+
+  // Reopening a task removes the occurrence completing it added, unless that one has been edited since.
+  private async takeBackNextOccurrence(reopened: Task): Promise<Task> {
+    const tasks = await this.load();
+    const next = tasks.find((candidate) => candidate.id === reopened.nextOccurrenceId);
+    if (next && next.updatedAt !== next.createdAt) return reopened;
+
+    if (next) {
+      tasks.splice(tasks.indexOf(next), 1);
+      await this.store.delete(next.id);
+    }
+    const { nextOccurrenceId: _nextOccurrenceId, ...rest } = reopened;
+    return rest;
+  }
+
+  async deleteTask(id: string): Promise<MutationResponse> {
+    const existing = await this.findTask(id);
+    const tasks = await this.load();
+
+    tasks.splice(tasks.indexOf(existing), 1);
+    await this.store.delete(id);
+    return { success: true, message: 'Task deleted successfully' };
+  }
+
+  /** Moves every task about customer `fromUuid` to `toUuid`; resolves with how many moved. */
+  async reassignCustomer(fromUuid: string, toUuid: string, customerName: string): Promise<number> {
+    const moved = (await this.load()).filter((task) => task.customerId === fromUuid);
+    for (const task of moved) {
+      await this.updateTask(task.id, { customerId: toUuid, customerName });
+    }
+    return moved.length;
+  }
+}
+
+export const tasksApi = new TasksApiService();
@@ -0,0 +1,21 @@
+export interface TeamMember {
+  id: string;
+  name: string;
+  email: string;
+}
+
+// The CRM has no accounts yet; the signed-in rep is the one shown in the
+// side menu.
+export const currentUser: TeamMember = {
+  id: 'alex-thompson',
+  name: 'Alex Thompson',
+  email: 'alex@acmecrm.com',
+};
+
+export const teamMembers: TeamMember[] = [
+  currentUser,
+  { id: 'jordan-lee', name: 'Jordan Lee', email: 'jordan@acmecrm.com' },
+  { id: 'priya-sharma', name: 'Priya Sharma', email: 'priya@acmecrm.com' },
+  { id: 'marcus-green', name: 'Marcus Green', email: 'marcus@acmecrm.com' },
+  { id: 'sofia-rossi', name: 'Sofia Rossi', email: 'sofia@acmecrm.com' },
+];
@@ -1,4 +1,13 @@
-const API_BASE_URL = 'https://user-api.builder-io.workers.dev/api';
+import type {
+  CustomerDataSource,
+  CustomerDataSourceKind,
+  GetUsersParams,
+  CreateUserResponse,
+  MutationResponse,
+  RequestOptions,
+} from './customerDataSource';
+import { HttpCustomerDataSource } from './httpCustomerDataSource';
+import { LocalCustomerDataSource } from './localCustomerDataSource';
 
 export interface UserLocation {
   street: {
@@ -47,6 +56,9 @@ export interface UserPicture {
   thumbnail: string;
 }
 
+/** A custom field's stored value; `null` clears it. See `customFields.ts`. */
+export type CustomFieldValue = string | number | boolean | string[] | null;
+
 export interface User {
   login: UserLogin;
   name: UserName;
@@ -59,6 +71,11 @@ export interface User {
   cell: string;
   picture: UserPicture;
   nat: string;
+  /** CRM-only fields; the remote worker stores them if it knows them. */
+  owner?: string;
+  tags?: string[];
+  /** Values of admin-defined custom fields, keyed by field id. */
+  custom?: Record<string, CustomFieldValue>;
 }
 
 export interface UsersApiResponse {
@@ -92,6 +109,10 @@ export interface CreateUserRequest {
     country?: string;
     postcode?: string;
   };
+  picture?: UserPicture;
+  owner?: string;
+  tags?: string[];
+  custom?: Record<string, CustomFieldValue>;
 }
 
 export interface UpdateUserRequest {
@@ -114,69 +135,48 @@ export interface UpdateUserRequest {
   };
   phone?: string;
   cell?: string;
+  /** Each size is a URL; uploads from the CRM are JPEG data URLs. */
+  picture?: UserPicture;
+  owner?: string;
+  tags?: string[];
+  /** Merged into the stored values; fields left out keep their value. */
+  custom?: Record<string, CustomFieldValue>;
+}
+
+/**
+ * Picks the backend from `VITE_CUSTOMER_DATA_SOURCE`: `local` for the offline
+ * IndexedDB store, anything else (or unset) for the remote Users API.
+ */
+export function createCustomerDataSource(
+  kind: CustomerDataSourceKind = import.meta.env.VITE_CUSTOMER_DATA_SOURCE === 'local'
+    ? 'local'
+    : 'http',
+): CustomerDataSource {
+  return kind === 'local' ? new LocalCustomerDataSource() : new HttpCustomerDataSource();
 }
 
 class UsersApiService {
-  private async fetchApi(endpoint: string, options: RequestInit = {}) {
-    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
-      headers: {
-        'Content-Type': 'application/json',
-        ...options.headers,
-      },
-      ...options,
-    });
-
-    if (!response.ok) {
-      throw new Error(`API Error: ${response.status} ${response.statusText}`);
-    }
-
-    return response.json();
-  }
+  constructor(private dataSource: CustomerDataSource) {}
 
-  async getUsers(params: {
-    page?: number;
-    perPage?: number;
-    search?: string;
-    sortBy?: string;
-    span?: string;
-  } = {}): Promise<UsersApiResponse> {
-    const searchParams = new URLSearchParams();
-    
-    if (params.page) searchParams.append('page', params.page.toString());
-    if (params.perPage) searchParams.append('perPage', params.perPage.toString());
-    if (params.search) searchParams.append('search', params.search);
-    if (params.sortBy) searchParams.append('sortBy', params.sortBy);
-    if (params.span) searchParams.append('span', params.span);
-
-    const queryString = searchParams.toString();
-    const endpoint = `/users${queryString ? `?${queryString}` : ''}`;
-    
-    return this.fetchApi(endpoint);
+  async getUsers(params: GetUsersParams = {}, options?: RequestOptions): Promise<UsersApiResponse> {
+    return this.dataSource.getUsers(params, options);
   }
 
-  async getUser(id: string): Promise<User> {
-    return this.fetchApi(`/users/${encodeURIComponent(id)}`);
+  async getUser(id: string, options?: RequestOptions): Promise<User> {
+    return this.dataSource.getUser(id, options);
   }
 
-  async createUser(userData: CreateUserRequest): Promise<{ success: boolean; uuid: string; message: string }> {
-    return this.fetchApi('/users', {
-      method: 'POST',
-      body: JSON.stringify(userData),
-    });
+  async createUser(userData: CreateUserRequest): Promise<CreateUserResponse> {
+    return this.dataSource.createUser(userData);
   }
 
-  async updateUser(id: string, userData: UpdateUserRequest): Promise<{ success: boolean; message: string }> {
-    return this.fetchApi(`/users/${encodeURIComponent(id)}`, {
-      method: 'PUT',
-      body: JSON.stringify(userData),
-    });
+  async updateUser(id: string, userData: UpdateUserRequest): Promise<MutationResponse> {
+    return this.dataSource.updateUser(id, userData);
   }
 
-  async deleteUser(id: string): Promise<{ success: boolean; message: string }> {
-    return this.fetchApi(`/users/${encodeURIComponent(id)}`, {
-      method: 'DELETE',
-    });
+  async deleteUser(id: string): Promise<MutationResponse> {
+    return this.dataSource.deleteUser(id);
   }
 }
 
-export const usersApiService = new UsersApiService();
+export const usersApiService = new UsersApiService(createCustomerDataSource());
@@ -0,0 +1,212 @@
+export interface AddressFormat {
+  /** ISO 3166-1 alpha-2 code; empty for the generic fallback. */
+  code: string;
+  name: string;
+  /** Other spellings found in imported data. */
+  aliases?: string[];
+  /** The first-level subdivision, or `null` where addresses don't use one. */
+  region: { label: string; required: boolean } | null;
+  /** `null` where the country has no postal codes. */
+  postcode: { label: string; pattern?: RegExp; example?: string } | null;
+}
+
+export const genericAddressFormat: AddressFormat = {
+  code: "",
+  name: "",
+  region: { label: "State/Province", required: false },
+  postcode: { label: "Postal code" },
+};
+
+/** Countries whose address conventions we know; everything else uses the generic format. */
+export const addressFormats: AddressFormat[] = [
+  {
+    code: "AU",
+    name: "Australia",
+    region: { label: "State", required: true },
+    postcode: { label: "Postcode", pattern: /^\d{4}$/, example: "2000" },
+  },
+  {
+    code: "BR",
+    name: "Brazil",
+    aliases: ["Brasil"],
+    region: { label: "State", required: true },
+    postcode: { label: "CEP", pattern: /^\d{5}-?\d{3}$/, example: "01310-100" },
+  },
+  {
+    code: "CA",
+    name: "Canada",
+    region: { label: "Province", required: true },
+    postcode: { label: "Postal code", pattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i, example: "K1A 0B1" },
+  },
+  {
+    code: "CH",
+    name: "Switzerland",
+    region: { label: "Canton", required: false },
+    postcode: { label: "Postal code", pattern: /^\d{4}$/, example: "8001" },
+  },
+  {
+    code: "DE",
+    name: "Germany",
+    aliases: ["Deutschland"],
+    region: null,
+    postcode: { label: "Postal code", pattern: /^\d{5}$/, example: "10115" },
+  },
+  {
+    code: "DK",
+    name: "Denmark",
+    region: null,
+    postcode: { label: "Postal code", pattern: /^\d{4}$/, example: "1050" },
+  },
+  {
+    code: "ES",
+    name: "Spain",
+    aliases: ["España"],
+    region: { label: "Province", required: false },
+    postcode: { label: "Postal code", pattern: /^\d{5}$/, example: "28013" },
+  },
+  {
+    code: "FI",
+    name: "Finland",
+    region: null,
+    postcode: { label: "Postal code", pattern: /^\d{5}$/, example: "00100" },
+  },
+  {
+    code: "FR",
+    name: "France",
+    region: null,
+    postcode: { label: "Postal code", pattern: /^\d{5}$/, example: "75001" },
+  },
+  {
+    code: "GB",
+    name: "United Kingdom",
+    aliases: ["UK", "Great Britain", "England", "Scotland", "Wales"],
+    region: { label: "County", required: false },
+    postcode: {
+      label: "Postcode",
+      pattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+      example: "SW1A 1AA",
+    },
+  },
+  {
+    code: "HK",
+    name: "Hong Kong",
+    region: { label: "District", required: false },
+    postcode: null,
+  },
+  {
+    code: "IE",
+    name: "Ireland",
+    region: { label: "County", required: false },
+    postcode: { label: "Eircode", pattern: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/i, example: "D02 X285" },
+  },
+  {
+    code: "IN",
+    name: "India",
+    region: { label: "State", required: true },
+    postcode: { label: "PIN code", pattern: /^\d{6}$/, example: "400001" },
+  },
+  {
+    code: "IR",
+    name: "Iran",
+    region: { label: "Province", required: false },
+    postcode: { label: "Postal code", pattern: /^\d{5}-?\d{5}$/, example: "11369-14118" },
+  },
+  {
+    code: "IT",
+    name: "Italy",
+    region: { label: "Province", required: false },
+    postcode: { label: "CAP", pattern: /^\d{5}$/, example: "00184" },
+  },
+  {
+    code: "JP",
+    name: "Japan",
+    region: { label: "Prefecture", required: true },
+    postcode: { label: "Postal code", pattern: /^\d{3}-?\d{4}$/, example: "100-0001" },
+  },
+  {
+    code: "MX",
+    name: "Mexico",
+    aliases: ["México"],
+    region: { label: "State", required: true },
+    postcode: { label: "Postal code", pattern: /^\d{5}$/, example: "06000" },
+  },
+  {
+    code: "NL",
+    name: "Netherlands",
+    aliases: ["The Netherlands", "Holland"],
+    region: null,
+    postcode: { label: "Postcode", pattern: /^\d{4} ?[A-Z]{2}$/i, example: "1012 AB" },
+  },
+  {
+    code: "NO",
+    name: "Norway",
+    region: null,
+    postcode: { label: "Postal code", pattern: /^\d{4}$/, example: "0150" },
+  },
+  {
+    code: "NZ",
+    name: "New Zealand",
+    region: { label: "Region", required: false },
+    postcode: { label: "Postcode", pattern: /^\d{4}$/, example: "1010" },
+  },
+  {
+    code: "RS",
+    name: "Serbia",
+    region: null,
+    postcode: { label: "Postal code", pattern: /^\d{5}$/, example: "11000" },
+  },
+  {
+    code: "TR",
+    name: "Turkey",
+    aliases: ["Türkiye"],
+    region: { label: "Province", required: false },
+    postcode: { label: "Postal code", pattern: /^\d{5}$/, example: "34000" },
+  },
+  {
+    code: "UA",
+    name: "Ukraine",
+    region: { label: "Oblast", required: false },
+    postcode: { label: "Postal code", pattern: /^\d{5}$/, example: "01001" },
+  },
+  {
+    code: "US",
+    name: "United States",
+    aliases: ["USA", "United States of America", "US"],
+    region: { label: "State", required: true },
+    postcode: { label: "ZIP code", pattern: /^\d{5}(-\d{4})?$/, example: "10001" },
+  },
+];
+
+const normalizeCountry = (value: string) => value.trim().toLowerCase();
+
+const formatsByName = new Map<string, AddressFormat>();
+addressFormats.forEach((format) => {
+  [format.code, format.name, ...(format.aliases ?? [])].forEach((name) =>
+    formatsByName.set(normalizeCountry(name), format),
+  );
+});
+
+/** Looks a country up by ISO code, name or a known alias; unknown countries get the generic format. */
+export function getAddressFormat(country: string | undefined): AddressFormat {
+  return formatsByName.get(normalizeCountry(country ?? "")) ?? genericAddressFormat;
+}
+
+/** The ISO code for a country name or code, if it's one we know. */
+export function countryCode(country: string | undefined): string | undefined {
+  return getAddressFormat(country).code || undefined;
+}
+
+/** Returns an error message when `postcode` doesn't fit `country`'s format. */
+export function validatePostcode(postcode: string, country: string | undefined): string | undefined {
+  const format = getAddressFormat(country).postcode;
+  if (!postcode.trim() || !format?.pattern || format.pattern.test(postcode.trim())) return undefined;
+  return format.example
+    ? `Enter a valid ${format.label.toLowerCase()}, e.g. ${format.example}`
+    : `Enter a valid ${format.label.toLowerCase()}`;
+}
+
+/** Returns an error message when `country` needs a region and `region` is empty. */
+export function validateRegion(region: string, country: string | undefined): string | undefined {
+  const format = getAddressFormat(country).region;
+  return format?.required && !region.trim() ? `${format.label} is required` : undefined;
+}
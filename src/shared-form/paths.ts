@@ -0,0 +1,127 @@
+type Primitive = string | number | boolean | bigint | symbol | null | undefined | Date | File;
+
+/**
+ * Dot-separated paths to every value in `T`: `"name"`, `"address.city"`,
+ * `"phones.0.number"`.
+ */
+export type Path<T> = T extends Primitive
+  ? never
+  : T extends readonly (infer Item)[]
+    ? `${number}` | `${number}.${Path<Item>}`
+    : {
+        [K in keyof T & string]: T[K] extends Primitive ? K : K | `${K}.${Path<T[K]>}`;
+      }[keyof T & string];
+
+/** The paths in `T` that hold a primitive value rather than an object or array. */
+export type LeafPath<T> = {
+  [P in Path<T>]: PathValue<T, P> extends Primitive ? P : never;
+}[Path<T>];
+
+/**
+ * Like `Path`, with `*` standing for any array index, so one schema entry can
+ * cover every row of a field array: `"phones.*.number"`.
+ */
+export type PathPattern<T> = T extends Primitive
+  ? never
+  : T extends readonly (infer Item)[]
+    ? "*" | `*.${PathPattern<Item>}`
+    : {
+        [K in keyof T & string]: T[K] extends Primitive ? K : K | `${K}.${PathPattern<T[K]>}`;
+      }[keyof T & string];
+
+/** The type found at `P` in `T`; array segments (`0`, `*`) resolve to the item type. */
+export type PathValue<T, P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? Head extends keyof T
+    ? PathValue<T[Head], Rest>
+    : T extends readonly (infer Item)[]
+      ? PathValue<Item, Rest>
+      : never
+  : P extends keyof T
+    ? T[P]
+    : T extends readonly (infer Item)[]
+      ? Item
+      : never;
+
+export function splitPath(path: string): string[] {
+  return path === "" ? [] : path.split(".");
+}
+
+export function getIn(source: unknown, path: string): unknown {
+  let current = source;
+  for (const segment of splitPath(path)) {
+    if (current === null || typeof current !== "object") return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Returns a copy of `source` with `value` at `path`, copying only the objects
+ * and arrays along the path. Missing containers are created as arrays when
+ * the next segment is an index and as objects otherwise.
+ */
+export function setIn<T>(source: T, path: string, value: unknown): T {
+  const segments = splitPath(path);
+  if (segments.length === 0) return value as T;
+
+  const write = (current: unknown, index: number): unknown => {
+    const segment = segments[index];
+    const container: Record<string, unknown> | unknown[] = Array.isArray(current)
+      ? [...current]
+      : current !== null && typeof current === "object"
+        ? { ...(current as Record<string, unknown>) }
+        : /^\d+$/.test(segment)
+          ? []
+          : {};
+    const record = container as Record<string, unknown>;
+    record[segment] = index === segments.length - 1 ? value : write(record[segment], index + 1);
+    return container;
+  };
+
+  return write(source, 0) as T;
+}
+
+/** Every path in `values` that holds a primitive, in key order. */
+export function listLeafPaths(values: unknown, prefix = ""): string[] {
+  if (values === null || typeof values !== "object" || values instanceof Date) {
+    return prefix ? [prefix] : [];
+  }
+  return Object.entries(values).flatMap(([key, value]) =>
+    listLeafPaths(value, prefix ? `${prefix}.${key}` : key),
+  );
+}
+
+/** Every concrete path in `values` that `pattern` matches, expanding `*` over array items. */
+export function expandPathPattern(values: unknown, pattern: string): string[] {
+  let paths = [""];
+  for (const segment of splitPath(pattern)) {
+    paths = paths.flatMap((prefix) => {
+      if (segment !== "*") return [prefix ? `${prefix}.${segment}` : segment];
+      const items = getIn(values, prefix);
+      return Array.isArray(items) ? items.map((_item, index) => (prefix ? `${prefix}.${index}` : `${index}`)) : [];
+    });
+  }
+  return paths;
+}
+
+/** Whether `path` is `ancestor` or lies inside it. */
+export function isPathWithin(path: string, ancestor: string): boolean {
+  return path === ancestor || path.startsWith(`${ancestor}.`);
+}
+
+/** Structural equality for the plain data forms hold. */
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (a === null || b === null || typeof a !== "object" || typeof b !== "object") return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) =>
+      isEqualValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]),
+    )
+  );
+}
@@ -0,0 +1,63 @@
+import {
+  CountryCode,
+  getCountries,
+  getCountryCallingCode,
+  parsePhoneNumberFromString,
+} from "libphonenumber-js";
+
+export type { CountryCode };
+
+export interface PhoneCountry {
+  code: CountryCode;
+  name: string;
+  callingCode: string;
+  flag: string;
+}
+
+const regionNames = new Intl.DisplayNames(["en"], { type: "region" });
+
+// Regional indicator symbols spell the flag emoji for an ISO code.
+const flagEmoji = (code: string) =>
+  String.fromCodePoint(...[...code.toUpperCase()].map((char) => 0x1f1e6 + char.charCodeAt(0) - 65));
+
+/** Every country libphonenumber has metadata for, sorted by name. */
+export const phoneCountries: PhoneCountry[] = getCountries()
+  .map((code) => ({
+    code,
+    name: regionNames.of(code) ?? code,
+    callingCode: getCountryCallingCode(code),
+    flag: flagEmoji(code),
+  }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+export function isPhoneCountry(code: string | undefined): code is CountryCode {
+  return Boolean(code) && phoneCountries.some((country) => country.code === code);
+}
+
+/**
+ * Parses what someone typed. Numbers starting with `+` carry their own
+ * country; anything else is read as a national number in `defaultCountry`.
+ */
+export function parsePhone(input: string, defaultCountry?: string) {
+  return parsePhoneNumberFromString(input, isPhoneCountry(defaultCountry) ? defaultCountry : undefined);
+}
+
+/** `+14155550123`, or `null` when `input` isn't a plausible number. */
+export function toE164(input: string, defaultCountry?: string): string | null {
+  const phone = parsePhone(input, defaultCountry);
+  return phone?.isPossible() ? phone.number : null;
+}
+
+/**
+ * Lenient check for forms: the length has to fit the country's numbering
+ * plan, but the number doesn't have to be allocated.
+ */
+export function isPossiblePhone(input: string, defaultCountry?: string): boolean {
+  return Boolean(parsePhone(input, defaultCountry)?.isPossible());
+}
+
+/** International format (`+1 415 555 0123`) when parseable, otherwise the input as-is. */
+export function formatPhone(input: string, defaultCountry?: string): string {
+  const phone = parsePhone(input, defaultCountry);
+  return phone?.isPossible() ? phone.formatInternational() : input;
+}
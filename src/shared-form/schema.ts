@@ -0,0 +1,89 @@
+import { PathPattern, PathValue, expandPathPattern, getIn } from "./paths";
+
+/** Returns an error message, or nothing when the value is valid. */
+export type Validator<Values, Value> = (value: Value, values: Values) => string | undefined;
+
+export type AsyncValidator<Values, Value> = (
+  value: Value,
+  values: Values,
+  signal: AbortSignal,
+) => Promise<string | undefined>;
+
+export interface FieldRules<Values, Value> {
+  /** Message shown when the value is empty (blank string, `null`, or `[]`). */
+  required?: string;
+  /** Run in order on every change; the first message wins. */
+  validate?: Validator<Values, Value> | Array<Validator<Values, Value>>;
+  /**
+   * Run on blur and before submit, once the sync rules pass. Use it for
+   * server round-trips such as uniqueness checks.
+   */
+  validateAsync?: AsyncValidator<Values, Value>;
+}
+
+/**
+ * Validation rules keyed by field path. `*` in a path stands for every index
+ * of a field array: `{ "phones.*.number": { required: "Enter a number" } }`.
+ */
+export type FormSchema<Values> = {
+  [P in PathPattern<Values>]?: FieldRules<Values, PathValue<Values, P>>;
+};
+
+/** Error messages keyed by concrete field path. */
+export type FormErrors = Record<string, string>;
+
+/**
+ * Identity helper that lets TypeScript check each rule against the type at
+ * its path.
+ */
+export function defineFormSchema<Values>(schema: FormSchema<Values>): FormSchema<Values> {
+  return schema;
+}
+
+export function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+type AnyRules<Values> = FieldRules<Values, unknown>;
+
+function schemaEntries<Values>(schema: FormSchema<Values>) {
+  return Object.entries(schema) as Array<[string, AnyRules<Values> | undefined]>;
+}
+
+function runSyncRules<Values>(rules: AnyRules<Values>, value: unknown, values: Values) {
+  if (rules.required && isEmptyValue(value)) return rules.required;
+
+  const validators = Array.isArray(rules.validate) ? rules.validate : rules.validate ? [rules.validate] : [];
+  for (const validator of validators) {
+    const message = validator(value, values);
+    if (message) return message;
+  }
+  return undefined;
+}
+
+/** Runs every synchronous rule in `schema` against `values`. */
+export function validateSync<Values>(schema: FormSchema<Values>, values: Values): FormErrors {
+  const errors: FormErrors = {};
+  schemaEntries(schema).forEach(([pattern, rules]) => {
+    if (!rules) return;
+    expandPathPattern(values, pattern).forEach((path) => {
+      const message = runSyncRules(rules, getIn(values, path), values);
+      if (message) errors[path] = message;
+    });
+  });
+  return errors;
+}
+
+/** The concrete paths whose value has an async rule, paired with that rule. */
+export function asyncValidations<Values>(schema: FormSchema<Values>, values: Values) {
+  return schemaEntries(schema).flatMap(([pattern, rules]) =>
+    rules?.validateAsync
+      ? expandPathPattern(values, pattern).map((path) => ({ path, validate: rules.validateAsync! }))
+      : [],
+  );
+}
@@ -0,0 +1,368 @@
+import * as React from "react";
+import {
+  Path,
+  PathValue,
+  getIn,
+  isEqualValue,
+  isPathWithin,
+  setIn,
+} from "./paths";
+import { FormErrors, FormSchema, asyncValidations, validateSync } from "./schema";
+
+type ArrayPath<Values> = {
+  [P in Path<Values>]: PathValue<Values, P> extends readonly unknown[] ? P : never;
+}[Path<Values>];
+
+type ArrayItem<Values, P extends string> = PathValue<Values, P> extends readonly (infer Item)[] ? Item : never;
+
+export interface UseFormOptions<Values> {
+  initialValues: Values;
+  schema?: FormSchema<Values>;
+}
+
+/** Props for an MUI `TextField`, `Select` or `RadioGroup` bound to one field. */
+export interface RegisteredField<Value> {
+  name: string;
+  value: Value;
+  onChange: (event: { target: { value: unknown } }) => void;
+  onBlur: () => void;
+  error: boolean;
+  helperText?: string;
+}
+
+export interface FieldArrayItem {
+  /** Stable across inserts, removes and moves; use it as the React key. */
+  key: string;
+  index: number;
+  /** Path of the item, to build child field paths from. */
+  path: string;
+}
+
+export interface FieldArray<Item> {
+  fields: FieldArrayItem[];
+  append: (item: Item) => void;
+  insert: (index: number, item: Item) => void;
+  remove: (index: number) => void;
+  move: (from: number, to: number) => void;
+}
+
+export interface UseFormReturn<Values> {
+  values: Values;
+  /** Errors the user should see: for touched fields, set via `setErrors`, or all after a submit attempt. */
+  errors: FormErrors;
+  touched: Record<string, boolean>;
+  /** Whether the values differ from the initial ones. */
+  isDirty: boolean;
+  isValid: boolean;
+  isValidating: boolean;
+  isSubmitting: boolean;
+  submitCount: number;
+  getValue: <P extends Path<Values>>(path: P) => PathValue<Values, P>;
+  setValue: <P extends Path<Values>>(path: P, value: PathValue<Values, P>) => void;
+  /** Replaces every value, keeping the initial values dirtiness is measured against. */
+  setValues: (values: Values) => void;
+  setTouched: (path: Path<Values>) => void;
+  isFieldDirty: (path: Path<Values>) => boolean;
+  /** Attaches errors from outside the schema, e.g. a server's field errors. They clear when the field changes. */
+  setErrors: (errors: FormErrors) => void;
+  /** Starts over from `values` (or the current initial values), clearing all form state. */
+  reset: (values?: Values) => void;
+  register: <P extends Path<Values>>(path: P) => RegisteredField<PathValue<Values, P>>;
+  fieldArray: <P extends ArrayPath<Values>>(path: P) => FieldArray<ArrayItem<Values, P>>;
+  /** Validates, then calls `onValid`; errors thrown by `onValid` propagate. */
+  handleSubmit: (
+    onValid: (values: Values) => void | Promise<void>,
+  ) => (event?: { preventDefault?: () => void }) => Promise<void>;
+}
+
+function withoutKey<T>(record: Record<string, T>, key: string) {
+  return Object.fromEntries(Object.entries(record).filter(([path]) => path !== key));
+}
+
+function omitWithin<T>(record: Record<string, T>, ancestor: string) {
+  return Object.fromEntries(Object.entries(record).filter(([path]) => !isPathWithin(path, ancestor)));
+}
+
+/**
+ * Re-keys entries under `arrayPath` after its items are reordered.
+ * `newIndex` maps an old index to its new one, or `null` for removed items.
+ */
+function reindexWithin<T>(
+  record: Record<string, T>,
+  arrayPath: string,
+  newIndex: (index: number) => number | null,
+) {
+  const prefix = `${arrayPath}.`;
+  const next: Record<string, T> = {};
+  Object.entries(record).forEach(([path, value]) => {
+    if (!path.startsWith(prefix)) {
+      next[path] = value;
+      return;
+    }
+    const [indexSegment, ...rest] = path.slice(prefix.length).split(".");
+    const index = newIndex(Number(indexSegment));
+    if (index !== null) next[[arrayPath, index, ...rest].join(".")] = value;
+  });
+  return next;
+}
+
+/** Reorders a field array's values and its React keys the same way; `create` makes a new entry. */
+type Reorder = <T>(list: T[], create: () => T) => T[];
+
+let nextFieldKey = 0;
+const createFieldKey = () => `field-${(nextFieldKey += 1)}`;
+
+const noRules = {};
+
+/**
+ * Form state for plain-object values of any shape: nested paths, sync and
+ * async validation from a schema, touched and dirty tracking, field arrays
+ * and submit state. Errors are derived from the current values on every
+ * render, so they can never go stale.
+ */
+export function useForm<Values>({ initialValues, schema = noRules }: UseFormOptions<Values>): UseFormReturn<Values> {
+  const [values, setValues] = React.useState(initialValues);
+  const [baseline, setBaseline] = React.useState(initialValues);
+  const [touched, setTouchedState] = React.useState<Record<string, boolean>>({});
+  const [externalErrors, setExternalErrors] = React.useState<FormErrors>({});
+  const [asyncErrors, setAsyncErrors] = React.useState<FormErrors>({});
+  const [pending, setPending] = React.useState<Record<string, boolean>>({});
+  const [submitCount, setSubmitCount] = React.useState(0);
+  const [isSubmitting, setIsSubmitting] = React.useState(false);
+
+  // Callbacks read the latest values and schema without being recreated.
+  const valuesRef = React.useRef(values);
+  valuesRef.current = values;
+  const baselineRef = React.useRef(baseline);
+  baselineRef.current = baseline;
+  const schemaRef = React.useRef(schema);
+  schemaRef.current = schema;
+  const controllersRef = React.useRef(new Map<string, AbortController>());
+  const arrayKeysRef = React.useRef(new Map<string, string[]>());
+
+  React.useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  const syncErrors = React.useMemo(() => validateSync(schema, values), [schema, values]);
+  const allErrors: FormErrors = { ...asyncErrors, ...syncErrors, ...externalErrors };
+
+  // Errors set from outside were meant to be seen, touched or not.
+  const errors: FormErrors = {};
+  Object.entries(allErrors).forEach(([path, message]) => {
+    if (submitCount > 0 || touched[path] || externalErrors[path]) errors[path] = message;
+  });
+
+  const cancelAsync = React.useCallback((path?: string) => {
+    controllersRef.current.forEach((controller, key) => {
+      if (path === undefined || isPathWithin(key, path)) {
+        controller.abort();
+        controllersRef.current.delete(key);
+      }
+    });
+  }, []);
+
+  const setValue = React.useCallback(
+    (path: string, value: unknown) => {
+      const next = setIn(valuesRef.current, path, value);
+      valuesRef.current = next;
+      setValues(next);
+      // Errors from an async check or the server described the old value.
+      cancelAsync(path);
+      setExternalErrors((prev) => omitWithin(prev, path));
+      setAsyncErrors((prev) => omitWithin(prev, path));
+    },
+    [cancelAsync],
+  );
+
+  const replaceValues = React.useCallback(
+    (next: Values) => {
+      valuesRef.current = next;
+      setValues(next);
+      arrayKeysRef.current.clear();
+      cancelAsync();
+      setExternalErrors({});
+      setAsyncErrors({});
+    },
+    [cancelAsync],
+  );
+
+  const runAsync = React.useCallback(async (path: string): Promise<string | undefined> => {
+    const current = valuesRef.current;
+    const validation = asyncValidations(schemaRef.current, current).find(
+      (candidate) => candidate.path === path,
+    );
+    if (!validation || validateSync(schemaRef.current, current)[path]) return undefined;
+
+    controllersRef.current.get(path)?.abort();
+    const controller = new AbortController();
+    controllersRef.current.set(path, controller);
+    setPending((prev) => ({ ...prev, [path]: true }));
+
+    try {
+      const message = await validation.validate(getIn(current, path), current, controller.signal);
+      if (controller.signal.aborted) return undefined;
+      setAsyncErrors((prev) => (message ? { ...prev, [path]: message } : withoutKey(prev, path)));
+      return message;
+    } catch (err) {
+      // A failed check (network, abort) shouldn't block the user.
+      if (!controller.signal.aborted) console.error(`Validation of ${path} failed`, err);
+      return undefined;
+    } finally {
+      if (controllersRef.current.get(path) === controller) {
+        controllersRef.current.delete(path);
+        setPending((prev) => withoutKey(prev, path));
+      }
+    }
+  }, []);
+
+  const setTouched = React.useCallback(
+    (path: string) => {
+      setTouchedState((prev) => (prev[path] ? prev : { ...prev, [path]: true }));
+      void runAsync(path);
+    },
+    [runAsync],
+  );
+
+  const setErrors = React.useCallback((next: FormErrors) => setExternalErrors(next), []);
+
+  const reset = React.useCallback(
+    (next?: Values) => {
+      const resetValues = next ?? baselineRef.current;
+      cancelAsync();
+      arrayKeysRef.current.clear();
+      valuesRef.current = resetValues;
+      setValues(resetValues);
+      setBaseline(resetValues);
+      setTouchedState({});
+      setExternalErrors({});
+      setAsyncErrors({});
+      setPending({});
+      setSubmitCount(0);
+      setIsSubmitting(false);
+    },
+    [cancelAsync],
+  );
+
+  const handleSubmit = React.useCallback(
+    (onValid: (values: Values) => void | Promise<void>) =>
+      async (event?: { preventDefault?: () => void }) => {
+        event?.preventDefault?.();
+        setSubmitCount((count) => count + 1);
+
+        const current = valuesRef.current;
+        if (Object.keys(validateSync(schemaRef.current, current)).length > 0) return;
+
+        setIsSubmitting(true);
+        try {
+          const asyncMessages = await Promise.all(
+            asyncValidations(schemaRef.current, current).map(({ path }) => runAsync(path)),
+          );
+          // Values edited while the checks ran are validated on the next submit.
+          if (asyncMessages.some(Boolean) || valuesRef.current !== current) return;
+          await onValid(current);
+        } finally {
+          setIsSubmitting(false);
+        }
+      },
+    [runAsync],
+  );
+
+  const reorderArray = (
+    path: string,
+    reorder: Reorder,
+    newIndex: (index: number) => number | null,
+    inserted?: unknown,
+  ) => {
+    const items = (getIn(valuesRef.current, path) as unknown[] | undefined) ?? [];
+    const keys = arrayKeysRef.current.get(path);
+    if (keys) arrayKeysRef.current.set(path, reorder(keys, createFieldKey));
+
+    cancelAsync(path);
+    const next = setIn(valuesRef.current, path, reorder(items, () => inserted));
+    valuesRef.current = next;
+    setValues(next);
+    setTouchedState((prev) => reindexWithin(prev, path, newIndex));
+    setExternalErrors((prev) => reindexWithin(prev, path, newIndex));
+    setAsyncErrors((prev) => reindexWithin(prev, path, newIndex));
+  };
+
+  const fieldArray = (path: string): FieldArray<unknown> => {
+    const items = (getIn(values, path) as unknown[] | undefined) ?? [];
+    let keys = arrayKeysRef.current.get(path) ?? [];
+    if (keys.length !== items.length) {
+      keys = items.map((_item, index) => keys[index] ?? createFieldKey());
+      arrayKeysRef.current.set(path, keys);
+    }
+
+    const insert = (index: number, item: unknown) =>
+      reorderArray(
+        path,
+        (list, create) => [...list.slice(0, index), create(), ...list.slice(index)],
+        (old) => (old >= index ? old + 1 : old),
+        item,
+      );
+
+    return {
+      fields: items.map((_item, index) => ({ key: keys[index], index, path: `${path}.${index}` })),
+      append: (item) => insert(items.length, item),
+      insert,
+      remove: (index) =>
+        reorderArray(
+          path,
+          (list) => list.filter((_item, position) => position !== index),
+          (old) => (old === index ? null : old > index ? old - 1 : old),
+        ),
+      move: (from, to) =>
+        reorderArray(
+          path,
+          (list) => {
+            const copy = [...list];
+            copy.splice(to, 0, ...copy.splice(from, 1));
+            return copy;
+          },
+          (old) => {
+            if (old === from) return to;
+            if (from < to && old > from && old <= to) return old - 1;
+            if (from > to && old >= to && old < from) return old + 1;
+            return old;
+          },
+        ),
+    };
+  };
+
+  const register = (path: string): RegisteredField<unknown> => {
+    const message = errors[path];
+    return {
+      name: path,
+      value: getIn(values, path) ?? "",
+      onChange: (event) => setValue(path, event.target.value),
+      onBlur: () => setTouched(path),
+      error: Boolean(message),
+      helperText: message,
+    };
+  };
+
+  return {
+    values,
+    errors,
+    touched,
+    isDirty: !isEqualValue(values, baseline),
+    isValid: Object.keys(allErrors).length === 0,
+    isValidating: Object.keys(pending).length > 0,
+    isSubmitting,
+    submitCount,
+    getValue: ((path: string) => getIn(values, path)) as UseFormReturn<Values>["getValue"],
+    setValue: setValue as UseFormReturn<Values>["setValue"],
+    setValues: replaceValues,
+    setTouched,
+    isFieldDirty: (path) => !isEqualValue(getIn(values, path), getIn(baseline, path)),
+    setErrors,
+    reset,
+    register: register as UseFormReturn<Values>["register"],
+    fieldArray: fieldArray as unknown as UseFormReturn<Values>["fieldArray"],
+    handleSubmit,
+  };
+}
+
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** `local` serves customers from IndexedDB instead of the Users API. */
+  readonly VITE_CUSTOMER_DATA_SOURCE?: "http" | "local";
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}